@@ -0,0 +1,37 @@
+/**
+ * Banking Notification Service - Channel Handler Contract
+ *
+ * Interface every notification channel implements so the router,
+ * retry service and health checks can treat channels uniformly.
+ */
+
+import {
+    NotificationChannel,
+    NotificationPayload,
+    DeliveryResult,
+    UserContactInfo,
+} from '../types';
+
+export interface ChannelHandler {
+    /** Channel name used in preferences, history and rate limits */
+    readonly channel: NotificationChannel;
+
+    /** Delivery provider recorded on notification history */
+    readonly providerName: string;
+
+    /**
+     * Check if the channel is configured and able to send
+     */
+    isAvailable(): boolean;
+
+    /**
+     * Check the user can be reached on this channel.
+     * Returns the reason the channel is skipped, or null if reachable.
+     */
+    checkContact(contact: UserContactInfo): string | null;
+
+    /**
+     * Deliver a notification using the user's contact info
+     */
+    deliver(notification: NotificationPayload, contact: UserContactInfo): Promise<DeliveryResult>;
+}
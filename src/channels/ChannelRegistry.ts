@@ -0,0 +1,76 @@
+/**
+ * Banking Notification Service - Channel Registry
+ *
+ * Holds the handler for each notification channel. Handlers are
+ * registered in channels/index.ts; this module has no handler imports
+ * so models and validators can check channel names without cycles.
+ */
+
+import { NotificationChannel } from '../types';
+import { ChannelHandler } from './ChannelHandler';
+
+export interface ChannelHealth {
+    available: boolean;
+    provider: string;
+}
+
+export class ChannelRegistry {
+    private handlers: Map<NotificationChannel, ChannelHandler> = new Map();
+
+    /**
+     * Register a channel handler
+     */
+    register(handler: ChannelHandler): void {
+        if (this.handlers.has(handler.channel)) {
+            throw new Error(`Channel already registered: ${handler.channel}`);
+        }
+        this.handlers.set(handler.channel, handler);
+    }
+
+    /**
+     * Get the handler for a channel
+     */
+    get(channel: string): ChannelHandler | undefined {
+        return this.handlers.get(channel as NotificationChannel);
+    }
+
+    /**
+     * Check if a channel is registered
+     */
+    has(channel: string): channel is NotificationChannel {
+        return this.handlers.has(channel as NotificationChannel);
+    }
+
+    /**
+     * Get all registered channel names
+     */
+    getChannels(): NotificationChannel[] {
+        return Array.from(this.handlers.keys());
+    }
+
+    /**
+     * Get the provider name for a channel
+     */
+    getProviderName(channel: NotificationChannel): string {
+        return this.handlers.get(channel)?.providerName ?? 'unknown';
+    }
+
+    /**
+     * Get availability of every registered channel
+     */
+    getHealth(): Record<string, ChannelHealth> {
+        const health: Record<string, ChannelHealth> = {};
+
+        for (const handler of this.handlers.values()) {
+            health[handler.channel] = {
+                available: handler.isAvailable(),
+                provider: handler.providerName,
+            };
+        }
+
+        return health;
+    }
+}
+
+// Export singleton
+export const channelRegistry = new ChannelRegistry();
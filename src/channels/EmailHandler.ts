@@ -1,31 +1,63 @@
 /**
- * Banking Notification Service - Email Channel Handler (SendGrid)
+ * Banking Notification Service - Email Channel Handler
  * 
- * Handles email delivery via SendGrid API for non-urgent notifications.
- * Supports templates, HTML content, and digest batching.
+ * Handles email delivery for non-urgent notifications through the
+ * configured provider (SendGrid or SMTP). Supports hosted templates and
+ * digest batching; without a hosted template, emails are rendered in-repo
+ * (EmailRenderer) so they look the same on every provider. Marketing and digest emails carry signed
+ * one-click unsubscribe links (footer and List-Unsubscribe headers).
  */
 
-import sgMail from '@sendgrid/mail';
 import { config } from '../config/config';
 import { logger, logChannelDelivery } from '../utils/logger';
-import { EmailPayload, DeliveryResult, NotificationPayload } from '../types';
-
-export class EmailHandler {
+import { EmailPayload, DeliveryResult, NotificationPayload, UserContactInfo } from '../types';
+import { ChannelHandler } from './ChannelHandler';
+import { DEFAULT_LOCALE, formatDateTime } from '../utils/locale';
+import { htmlToText } from '../utils/html';
+import {
+    EmailMessage,
+    EmailProvider,
+    createEmailProvider,
+    buildUnsubscribeUrl,
+    buildUnsubscribeHeaders,
+    isUnsubscribableEventType,
+    EmailRenderer,
+    emailRenderer,
+} from './email';
+
+export class EmailHandler implements ChannelHandler {
+    readonly channel = 'email' as const;
+    readonly providerName: string;
+    private provider: EmailProvider;
     private enabled: boolean;
     private fromEmail: string;
     private fromName: string;
+    private renderer: EmailRenderer;
+
+    constructor(provider: EmailProvider = createEmailProvider(), renderer: EmailRenderer = emailRenderer) {
+        this.provider = provider;
+        this.renderer = renderer;
+        this.providerName = provider.name;
+        this.enabled = provider.isConfigured();
+        this.fromEmail = config.email.fromEmail;
+        this.fromName = config.email.fromName;
+    }
 
-    constructor() {
-        this.enabled = config.sendgrid.enabled;
-        this.fromEmail = config.sendgrid.fromEmail;
-        this.fromName = config.sendgrid.fromName;
-
-        if (this.enabled && config.sendgrid.apiKey) {
-            sgMail.setApiKey(config.sendgrid.apiKey);
-            logger.info('SendGrid email client initialized');
-        } else {
-            logger.warn('SendGrid email client not initialized - disabled or missing API key');
+    /**
+     * Check the user has a verified email address
+     */
+    checkContact(contact: UserContactInfo): string | null {
+        if (!contact.email || !contact.emailVerified) {
+            return 'Email not verified';
         }
+        return null;
+    }
+
+    /**
+     * Deliver notification to the user's email address
+     */
+    async deliver(notification: NotificationPayload, contact: UserContactInfo): Promise<DeliveryResult> {
+        return this.send(contact.email!, undefined, notification);
     }
 
     /**
@@ -37,7 +69,7 @@ export class EmailHandler {
         notification: NotificationPayload
     ): Promise<DeliveryResult> {
         if (!this.enabled) {
-            logger.warn('Email sending skipped - SendGrid not enabled');
+            logger.warn('Email sending skipped - provider not configured', { provider: this.providerName });
             return {
                 channel: 'email',
                 status: 'failed',
@@ -57,17 +89,15 @@ export class EmailHandler {
 
         try {
             const msg = this.buildMessage(toEmail, toName, notification);
-            const [response] = await sgMail.send(msg);
+            const { messageId } = await this.provider.send(msg);
             const latencyMs = Date.now() - startTime;
 
-            const messageId = response.headers['x-message-id'] as string;
-
             logChannelDelivery({
                 channel: 'email',
                 notificationId: notification.notificationId,
                 userId: notification.userId,
                 status: 'sent',
-                provider: 'sendgrid',
+                provider: this.providerName,
                 providerMessageId: messageId,
                 latencyMs,
             });
@@ -80,14 +110,14 @@ export class EmailHandler {
             };
         } catch (error) {
             const latencyMs = Date.now() - startTime;
-            const errorMessage = this.extractSendGridError(error);
+            const errorMessage = this.provider.describeError(error);
 
             logChannelDelivery({
                 channel: 'email',
                 notificationId: notification.notificationId,
                 userId: notification.userId,
                 status: 'failed',
-                provider: 'sendgrid',
+                provider: this.providerName,
                 latencyMs,
                 error: errorMessage,
             });
@@ -112,8 +142,16 @@ export class EmailHandler {
             };
         }
 
+        if (payload.templateId && !this.provider.supportsHostedTemplates && !payload.htmlContent && !payload.textContent) {
+            return {
+                channel: 'email',
+                status: 'failed',
+                error: `Hosted templates are not supported by the ${this.providerName} provider`,
+            };
+        }
+
         try {
-            const msg: any = {
+            const msg: EmailMessage = {
                 to: {
                     email: payload.to,
                     name: payload.toName,
@@ -126,27 +164,33 @@ export class EmailHandler {
             };
 
             // Use template or raw content
-            if (payload.templateId) {
-                msg.templateId = payload.templateId;
-                msg.dynamicTemplateData = payload.templateData;
+            if (payload.templateId && this.provider.supportsHostedTemplates) {
+                msg.hostedTemplate = {
+                    templateId: payload.templateId,
+                    data: payload.templateData ?? {},
+                };
             } else if (payload.htmlContent) {
                 msg.html = payload.htmlContent;
                 msg.text = payload.textContent;
+            } else if (payload.textContent) {
+                const rendered = this.renderer.renderText(payload.subject, payload.textContent, payload.locale);
+                msg.html = rendered.html;
+                msg.text = rendered.text;
             }
 
-            const [response] = await sgMail.send(msg);
+            const { messageId } = await this.provider.send(msg);
 
             return {
                 channel: 'email',
                 status: 'sent',
-                providerMessageId: response.headers['x-message-id'] as string,
+                providerMessageId: messageId,
                 sentAt: new Date(),
             };
         } catch (error) {
             return {
                 channel: 'email',
                 status: 'failed',
-                error: this.extractSendGridError(error),
+                error: this.provider.describeError(error),
             };
         }
     }
@@ -168,11 +212,12 @@ export class EmailHandler {
             };
         }
 
-        const templateId = config.sendgrid.templates.digest;
-        const subject = this.getDigestSubject(frequency);
+        const templateId = this.getHostedTemplate(config.sendgrid.templates.digest);
+        const subject = this.getDigestSubject(frequency, notifications[0]);
+        const unsubscribeUrl = notifications[0] ? buildUnsubscribeUrl(notifications[0].userId, 'digest') : undefined;
 
         try {
-            const msg: any = {
+            const msg: EmailMessage = {
                 to: {
                     email: toEmail,
                     name: toName,
@@ -184,45 +229,56 @@ export class EmailHandler {
                 subject,
             };
 
+            // Bounces on digests still reach the user's preferences
+            if (notifications[0]) {
+                msg.customArgs = { user_id: notifications[0].userId };
+            }
+            if (unsubscribeUrl) {
+                msg.headers = buildUnsubscribeHeaders(unsubscribeUrl);
+            }
+
             if (templateId) {
-                msg.templateId = templateId;
-                msg.dynamicTemplateData = {
-                    user_name: toName ?? 'Valued Customer',
-                    frequency,
-                    notification_count: notifications.length,
-                    notifications: notifications.map((n) => ({
-                        title: n.title,
-                        message: n.message,
-                        timestamp: n.createdAt.toISOString(),
-                        type: n.eventType,
-                    })),
-                    unsubscribe_link: `${config.websocket.gatewayUrl}/unsubscribe?email=${encodeURIComponent(toEmail)}`,
+                msg.hostedTemplate = {
+                    templateId,
+                    data: {
+                        user_name: toName ?? 'Valued Customer',
+                        frequency,
+                        notification_count: notifications.length,
+                        notifications: notifications.map((n) => ({
+                            title: n.title,
+                            message: n.message,
+                            timestamp: n.createdAt.toISOString(),
+                            type: n.eventType,
+                        })),
+                        unsubscribe_link: unsubscribeUrl,
+                    },
                 };
             } else {
-                // Fallback to HTML content
-                msg.html = this.buildDigestHtml(notifications, frequency);
-                msg.text = this.buildDigestText(notifications, frequency);
+                const rendered = this.renderer.renderDigest(notifications, frequency, { unsubscribeUrl });
+                msg.html = rendered.html;
+                msg.text = rendered.text;
             }
 
-            const [response] = await sgMail.send(msg);
+            const { messageId } = await this.provider.send(msg);
 
             logger.info('Digest email sent', {
                 toEmail,
                 frequency,
                 notificationCount: notifications.length,
+                provider: this.providerName,
             });
 
             return {
                 channel: 'email',
                 status: 'sent',
-                providerMessageId: response.headers['x-message-id'] as string,
+                providerMessageId: messageId,
                 sentAt: new Date(),
             };
         } catch (error) {
             return {
                 channel: 'email',
                 status: 'failed',
-                error: this.extractSendGridError(error),
+                error: this.provider.describeError(error),
             };
         }
     }
@@ -234,8 +290,8 @@ export class EmailHandler {
         toEmail: string,
         toName: string | undefined,
         notification: NotificationPayload
-    ): any {
-        const msg: any = {
+    ): EmailMessage {
+        const msg: EmailMessage = {
             to: {
                 email: toEmail,
                 name: toName,
@@ -245,30 +301,57 @@ export class EmailHandler {
                 name: this.fromName,
             },
             subject: notification.title,
-            trackingSettings: {
-                clickTracking: { enable: true },
-                openTracking: { enable: true },
+            tracking: true,
+            customArgs: {
+                notification_id: notification.notificationId,
+                user_id: notification.userId,
             },
         };
 
+        const unsubscribeUrl = isUnsubscribableEventType(notification.eventType)
+            ? buildUnsubscribeUrl(notification.userId, notification.eventType)
+            : undefined;
+        if (unsubscribeUrl) {
+            msg.headers = buildUnsubscribeHeaders(unsubscribeUrl);
+        }
+
+        // Content rendered from a stored template takes precedence
+        if (notification.content) {
+            if (notification.content.html) {
+                msg.html = notification.content.html;
+                msg.text = htmlToText(notification.content.html);
+            } else {
+                const rendered = this.renderer.renderNotification(
+                    { ...notification, title: notification.content.title, message: notification.content.body },
+                    { unsubscribeUrl }
+                );
+                msg.html = rendered.html;
+                msg.text = rendered.text;
+            }
+            return msg;
+        }
+
         // Try to use template based on event type
         const templateId = this.getTemplateForEventType(notification.eventType);
 
         if (templateId) {
-            msg.templateId = templateId;
-            msg.dynamicTemplateData = {
-                user_name: toName ?? 'Valued Customer',
-                title: notification.title,
-                message: notification.message,
-                event_type: notification.eventType,
-                timestamp: new Date().toISOString(),
-                actions: notification.actions,
-                ...notification.data,
+            msg.hostedTemplate = {
+                templateId,
+                data: {
+                    user_name: toName ?? 'Valued Customer',
+                    title: notification.title,
+                    message: notification.message,
+                    event_type: notification.eventType,
+                    timestamp: new Date().toISOString(),
+                    actions: notification.actions,
+                    unsubscribe_link: unsubscribeUrl,
+                    ...notification.data,
+                },
             };
         } else {
-            // Fallback to HTML content
-            msg.html = this.buildHtmlContent(notification);
-            msg.text = this.buildTextContent(notification);
+            const rendered = this.renderer.renderNotification(notification, { unsubscribeUrl });
+            msg.html = rendered.html;
+            msg.text = rendered.text;
         }
 
         return msg;
@@ -281,112 +364,32 @@ export class EmailHandler {
         const templates = config.sendgrid.templates;
 
         if (eventType.startsWith('transfer_')) {
-            return templates.transactionComplete;
+            return this.getHostedTemplate(templates.transactionComplete);
         }
         if (eventType.includes('login') || eventType.includes('security') || eventType.includes('fraud')) {
-            return templates.securityAlert;
+            return this.getHostedTemplate(templates.securityAlert);
         }
         return undefined;
     }
 
     /**
-     * Build HTML email content
+     * Use a hosted template only if one is configured and the provider supports them;
+     * otherwise the caller falls back to EmailRenderer
      */
-    private buildHtmlContent(notification: NotificationPayload): string {
-        const actionsHtml = notification.actions?.map((a: any) =>
-            `<a href="${a.url}" style="display:inline-block;padding:10px 20px;background:#0066cc;color:#fff;text-decoration:none;border-radius:5px;margin:5px;">${a.label}</a>`
-        ).join('') ?? '';
-
-        return `
-            <!DOCTYPE html>
-            <html>
-            <head>
-                <meta charset="utf-8">
-                <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            </head>
-            <body style="font-family:Arial,sans-serif;line-height:1.6;color:#333;max-width:600px;margin:0 auto;padding:20px;">
-                <div style="background:#f8f9fa;padding:20px;border-radius:8px;">
-                    <h1 style="color:#0066cc;margin-bottom:10px;">${notification.title}</h1>
-                    <p style="margin-bottom:20px;">${notification.message}</p>
-                    ${actionsHtml ? `<div style="margin:20px 0;">${actionsHtml}</div>` : ''}
-                    <hr style="border:none;border-top:1px solid #ddd;margin:20px 0;">
-                    <p style="font-size:12px;color:#666;">
-                        This email was sent from Banking App. 
-                        <a href="#">Unsubscribe</a> | <a href="#">Manage Preferences</a>
-                    </p>
-                </div>
-            </body>
-            </html>
-        `;
-    }
-
-    /**
-     * Build plain text email content
-     */
-    private buildTextContent(notification: NotificationPayload): string {
-        let text = `${notification.title}\n\n${notification.message}\n\n`;
-
-        if (notification.actions?.length) {
-            text += 'Actions:\n';
-            for (const action of notification.actions) {
-                text += `- ${action.label}: ${action.url}\n`;
-            }
-        }
-
-        text += '\n---\nThis email was sent from Banking App.\n';
-        text += 'To unsubscribe, visit: [unsubscribe link]';
-
-        return text;
-    }
-
-    /**
-     * Build digest HTML content
-     */
-    private buildDigestHtml(notifications: NotificationPayload[], frequency: string): string {
-        const itemsHtml = notifications.map((n) => `
-            <div style="padding:15px;border-bottom:1px solid #eee;">
-                <h3 style="margin:0 0 5px;color:#0066cc;">${n.title}</h3>
-                <p style="margin:0;color:#666;">${n.message}</p>
-                <small style="color:#999;">${n.createdAt.toLocaleString()}</small>
-            </div>
-        `).join('');
-
-        return `
-            <!DOCTYPE html>
-            <html>
-            <body style="font-family:Arial,sans-serif;line-height:1.6;color:#333;max-width:600px;margin:0 auto;padding:20px;">
-                <h1>Your ${frequency} Banking Summary</h1>
-                <p>Here's what happened with your account:</p>
-                <div style="border:1px solid #ddd;border-radius:8px;overflow:hidden;">
-                    ${itemsHtml}
-                </div>
-                <p style="font-size:12px;color:#666;margin-top:20px;">
-                    <a href="#">Unsubscribe</a> | <a href="#">Manage Digest Preferences</a>
-                </p>
-            </body>
-            </html>
-        `;
-    }
-
-    /**
-     * Build digest plain text content
-     */
-    private buildDigestText(notifications: NotificationPayload[], frequency: string): string {
-        let text = `Your ${frequency} Banking Summary\n\n`;
-
-        for (const n of notifications) {
-            text += `${n.title}\n${n.message}\n${n.createdAt.toLocaleString()}\n\n`;
-        }
-
-        text += '---\nTo unsubscribe or manage preferences, visit your account settings.';
-        return text;
+    private getHostedTemplate(templateId: string): string | undefined {
+        return templateId && this.provider.supportsHostedTemplates ? templateId : undefined;
     }
 
     /**
      * Get digest email subject
      */
-    private getDigestSubject(frequency: string): string {
-        const dateStr = new Date().toLocaleDateString();
+    private getDigestSubject(frequency: string, sample?: NotificationPayload): string {
+        const dateStr = formatDateTime(
+            new Date(),
+            sample?.locale ?? DEFAULT_LOCALE,
+            sample?.timeZone ?? 'UTC',
+            'date'
+        );
         return `Your ${frequency.charAt(0).toUpperCase() + frequency.slice(1)} Banking Summary - ${dateStr}`;
     }
 
@@ -398,20 +401,6 @@ export class EmailHandler {
         return emailRegex.test(email);
     }
 
-    /**
-     * Extract error message from SendGrid error
-     */
-    private extractSendGridError(error: unknown): string {
-        if (error && typeof error === 'object') {
-            const sgError = error as { response?: { body?: { errors?: Array<{ message: string }> } } };
-            const errors = sgError.response?.body?.errors;
-            if (errors?.length) {
-                return errors.map((e) => e.message).join('; ');
-            }
-        }
-        return error instanceof Error ? error.message : 'Unknown SendGrid error';
-    }
-
     /**
      * Check if email is available
      */
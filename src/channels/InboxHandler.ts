@@ -0,0 +1,106 @@
+/**
+ * Banking Notification Service - In-App Inbox Channel Handler
+ *
+ * Stores notifications in the user's persistent in-app inbox.
+ * The inbox keeps one entry per notification, so redelivery
+ * never creates a second entry.
+ */
+
+import { logger, logChannelDelivery } from '../utils/logger';
+import { DeliveryResult, NotificationPayload, UserContactInfo, EVENT_TYPE_CONFIGS } from '../types';
+import { InboxEntry } from '../models';
+import { ChannelHandler } from './ChannelHandler';
+
+declare module '../types' {
+    interface NotificationChannelRegistry {
+        inbox: true;
+    }
+}
+
+export class InboxHandler implements ChannelHandler {
+    readonly channel = 'inbox' as const;
+    readonly providerName = 'internal';
+
+    /**
+     * The inbox needs no contact details beyond the user ID
+     */
+    checkContact(_contact: UserContactInfo): string | null {
+        return null;
+    }
+
+    /**
+     * Add the notification to the user's inbox
+     */
+    async deliver(notification: NotificationPayload, contact: UserContactInfo): Promise<DeliveryResult> {
+        const startTime = Date.now();
+
+        try {
+            const [entry, created] = await InboxEntry.findOrCreate({
+                where: { notificationId: notification.notificationId },
+                defaults: {
+                    notificationId: notification.notificationId,
+                    userId: contact.userId,
+                    eventType: notification.eventType,
+                    category: EVENT_TYPE_CONFIGS[notification.eventType].inboxCategory,
+                    priority: notification.priority,
+                    title: notification.title,
+                    message: notification.message,
+                    data: notification.data ?? null,
+                    actions: notification.actions ?? null,
+                },
+            });
+
+            if (!created) {
+                logger.debug('Inbox entry already exists', {
+                    notificationId: notification.notificationId,
+                    entryId: entry.id,
+                });
+            }
+
+            logChannelDelivery({
+                channel: 'inbox',
+                notificationId: notification.notificationId,
+                userId: contact.userId,
+                status: 'sent',
+                provider: 'internal',
+                providerMessageId: entry.id,
+                latencyMs: Date.now() - startTime,
+            });
+
+            return {
+                channel: 'inbox',
+                status: 'delivered',
+                providerMessageId: entry.id,
+                sentAt: new Date(),
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            logChannelDelivery({
+                channel: 'inbox',
+                notificationId: notification.notificationId,
+                userId: contact.userId,
+                status: 'failed',
+                provider: 'internal',
+                latencyMs: Date.now() - startTime,
+                error: errorMessage,
+            });
+
+            return {
+                channel: 'inbox',
+                status: 'failed',
+                error: errorMessage,
+            };
+        }
+    }
+
+    /**
+     * The inbox is stored in the service's own database
+     */
+    isAvailable(): boolean {
+        return true;
+    }
+}
+
+// Export singleton
+export const inboxHandler = new InboxHandler();
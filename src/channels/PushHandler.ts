@@ -8,14 +8,31 @@
 import admin from 'firebase-admin';
 import { config } from '../config/config';
 import { logger, logChannelDelivery } from '../utils/logger';
-import { PushPayload, DeliveryResult, NotificationPayload } from '../types';
+import { PushPayload, DeliveryResult, NotificationPayload, UserContactInfo } from '../types';
+import { ChannelHandler } from './ChannelHandler';
+import { UserPreferences } from '../models';
 
 interface DeviceToken {
     token: string;
     platform: 'ios' | 'android';
 }
 
-export class PushHandler {
+// FCM errors meaning the token will never work again
+const INVALID_TOKEN_CODES = new Set([
+    'messaging/registration-token-not-registered',
+    'messaging/invalid-registration-token',
+]);
+
+/**
+ * Check whether an FCM error code means the device token is dead
+ */
+export function isInvalidTokenError(code: string | undefined): boolean {
+    return !!code && INVALID_TOKEN_CODES.has(code);
+}
+
+export class PushHandler implements ChannelHandler {
+    readonly channel = 'push' as const;
+    readonly providerName = 'firebase';
     private enabled: boolean;
     private initialized: boolean = false;
 
@@ -42,6 +59,29 @@ export class PushHandler {
         }
     }
 
+    /**
+     * Check the user has registered push devices
+     */
+    checkContact(contact: UserContactInfo): string | null {
+        if (!contact.pushTokens?.length) {
+            return 'No push tokens registered';
+        }
+        return null;
+    }
+
+    /**
+     * Deliver notification to all of the user's devices
+     */
+    async deliver(notification: NotificationPayload, contact: UserContactInfo): Promise<DeliveryResult> {
+        return this.send(
+            (contact.pushTokens ?? []).map((t) => ({
+                token: t.token,
+                platform: t.platform,
+            })),
+            notification
+        );
+    }
+
     /**
      * Send push notification to user's devices
      */
@@ -76,31 +116,44 @@ export class PushHandler {
             const response = await admin.messaging().sendEachForMulticast({
                 tokens,
                 notification: {
-                    title: notification.title,
-                    body: notification.message,
+                    title: payload.title,
+                    body: payload.body,
+                    imageUrl: payload.image,
                 },
                 data: payload.data as Record<string, string>,
                 android: {
-                    priority: notification.priority === 'critical' ? 'high' : 'normal',
-                    ttl: 3600000, // 1 hour
+                    priority: payload.android.priority,
+                    ttl: (payload.android.ttlSeconds ?? 3600) * 1000,
+                    collapseKey: payload.android.collapseKey,
                     notification: {
-                        clickAction: 'OPEN_APP',
+                        clickAction: payload.android.clickAction,
+                        channelId: payload.android.channelId,
+                        sound: payload.android.sound,
+                        tag: payload.android.tag,
                     },
                 },
                 apns: {
                     headers: {
-                        'apns-priority': notification.priority === 'critical' ? '10' : '5',
+                        'apns-priority': String(payload.apns.priority),
+                        ...(payload.apns.expiration !== undefined && {
+                            'apns-expiration': String(payload.apns.expiration),
+                        }),
+                        ...(payload.apns.collapseId && { 'apns-collapse-id': payload.apns.collapseId }),
                     },
                     payload: {
                         aps: {
                             alert: {
-                                title: notification.title,
-                                body: notification.message,
+                                title: payload.title,
+                                body: payload.body,
                             },
-                            sound: 'default',
-                            badge: 1,
+                            sound: payload.apns.sound,
+                            badge: payload.apns.badge,
+                            category: payload.apns.category,
+                            threadId: payload.apns.threadId,
+                            mutableContent: !!payload.image, // Lets the service extension attach the image
                         },
                     },
+                    fcmOptions: payload.image ? { imageUrl: payload.image } : undefined,
                 },
             });
 
@@ -117,8 +170,10 @@ export class PushHandler {
                 latencyMs,
             });
 
-            // Log individual failures for token cleanup
+            // Log individual failures and flag dead tokens for cleanup
             if (failureCount > 0) {
+                const deadTokens: string[] = [];
+
                 response.responses.forEach((resp, idx) => {
                     if (!resp.success && resp.error) {
                         logger.warn('Push notification failed for device', {
@@ -126,8 +181,16 @@ export class PushHandler {
                             error: resp.error.message,
                             code: resp.error.code,
                         });
+
+                        if (isInvalidTokenError(resp.error.code) && tokens[idx]) {
+                            deadTokens.push(tokens[idx]!);
+                        }
                     }
                 });
+
+                if (deadTokens.length) {
+                    await this.flagDeadTokens(notification.userId, deadTokens);
+                }
             }
 
             if (successCount > 0) {
@@ -193,6 +256,9 @@ export class PushHandler {
                 apns: payload.apns ? {
                     headers: {
                         'apns-priority': String(payload.apns.priority),
+                        ...(payload.apns.expiration !== undefined && {
+                            'apns-expiration': String(payload.apns.expiration),
+                        }),
                     },
                     payload: {
                         aps: {
@@ -275,7 +341,9 @@ export class PushHandler {
     }
 
     /**
-     * Validate device token with FCM
+     * Validate device token with FCM.
+     * Returns false only when FCM reports the token dead; other errors
+     * (outages, quota) are thrown so callers do not discard good tokens.
      */
     async validateToken(token: string): Promise<boolean> {
         if (!this.enabled || !this.initialized) {
@@ -293,24 +361,56 @@ export class PushHandler {
             }, true); // dry run
 
             return true;
-        } catch {
-            return false;
+        } catch (error) {
+            if (isInvalidTokenError((error as { code?: string }).code)) {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Flag devices FCM reported dead so they are skipped until the cleanup job removes them
+     */
+    private async flagDeadTokens(userId: string, tokens: string[]): Promise<void> {
+        try {
+            await UserPreferences.flagInvalidPushTokens(userId, tokens, 'unregistered');
+            logger.info('Flagged invalid push tokens', { userId, count: tokens.length });
+        } catch (error) {
+            logger.error('Failed to flag invalid push tokens', { userId, error });
         }
     }
 
     /**
-     * Build push payload from notification
+     * Build push payload from notification.
+     * Neither APNs nor FCM carry action buttons, so every action goes in the
+     * data payload with its (already localized) label; the app draws the
+     * buttons for the category on iOS and from the data on Android.
      */
-    private buildPayload(notification: NotificationPayload): PushPayload {
+    private buildPayload(
+        notification: NotificationPayload
+    ): PushPayload & Required<Pick<PushPayload, 'android' | 'apns'>> {
+        const push = notification.push ?? {};
         const data: Record<string, string> = {
             notification_id: notification.notificationId,
             event_type: notification.eventType,
             user_id: notification.userId,
         };
 
-        // Add action URL if present
         if (notification.actions?.length) {
-            data['action_url'] = notification.actions[0]?.url ?? '';
+            // Primary action URL kept for app versions that predate action buttons
+            const primary = notification.actions.find((a) => a.type === 'primary') ?? notification.actions[0]!;
+            data['action_url'] = primary.url;
+            data['actions'] = JSON.stringify(
+                notification.actions.map((a) => ({ id: a.id ?? null, label: a.label, url: a.url, type: a.type }))
+            );
+        }
+
+        if (push.category) {
+            data['category'] = push.category;
+        }
+        if (push.threadId) {
+            data['thread_id'] = push.threadId;
         }
 
         // Add source ID for deep linking
@@ -323,17 +423,39 @@ export class PushHandler {
             title: notification.title,
             body: notification.message,
             data,
+            image: push.image,
             android: {
                 priority: notification.priority === 'critical' ? 'high' : 'normal',
-                ttlSeconds: 3600,
+                ttlSeconds: this.getTtlSeconds(notification),
+                channelId: push.androidChannelId,
+                sound: push.sound ?? 'default',
+                clickAction: push.category ?? 'OPEN_APP',
+                tag: push.collapseKey,
+                collapseKey: push.collapseKey,
             },
             apns: {
                 priority: notification.priority === 'critical' ? 10 : 5,
                 badge: 1,
+                expiration: notification.expiresAt
+                    ? Math.floor(notification.expiresAt.getTime() / 1000)
+                    : undefined,
+                sound: push.sound ?? 'default',
+                category: push.category,
+                threadId: push.threadId,
+                collapseId: push.collapseKey,
             },
         };
     }
 
+    /**
+     * Time the push service may hold the message for offline devices:
+     * what is left until the notification expires, or 1 hour by default
+     */
+    private getTtlSeconds(notification: NotificationPayload): number {
+        if (!notification.expiresAt) return 3600;
+        return Math.max(0, Math.floor((notification.expiresAt.getTime() - Date.now()) / 1000));
+    }
+
     /**
      * Check if push is available
      */
@@ -1,32 +1,57 @@
 /**
- * Banking Notification Service - SMS Channel Handler (Twilio)
+ * Banking Notification Service - SMS Channel Handler
  * 
- * Handles SMS delivery via Twilio API for urgent notifications.
- * Cost: ~$0.0075 per SMS (negotiated rate)
+ * Handles SMS delivery for urgent notifications. Providers (Twilio first,
+ * then e.g. an HTTP gateway) are tried in SMS_PROVIDERS order; a timeout
+ * or provider-side error fails over to the next one straight away instead
+ * of waiting for the retry loop.
+ * Messages are kept within the event type's segment budget; each
+ * result reports the segments sent, which is what carriers bill.
+ * Notifications asking for a YES/NO reply get the prompt appended and a
+ * pending SmsConfirmation that the reply is matched against.
+ * Cost: ~$0.0075 per segment (negotiated rate)
  */
 
-import Twilio from 'twilio';
 import { config } from '../config/config';
 import { logger, logChannelDelivery } from '../utils/logger';
-import { SMSPayload, DeliveryResult, NotificationPayload } from '../types';
-
-export class SMSHandler {
-    private client: Twilio.Twilio | null = null;
-    private fromNumber: string;
-    private enabled: boolean;
-
-    constructor() {
-        this.enabled = config.twilio.enabled;
-        this.fromNumber = config.twilio.phoneNumber;
-
-        if (this.enabled && config.twilio.accountSid && config.twilio.authToken) {
-            this.client = Twilio(config.twilio.accountSid, config.twilio.authToken);
-            logger.info('Twilio SMS client initialized');
-        } else {
-            logger.warn('Twilio SMS client not initialized - disabled or missing credentials');
+import { SMSPayload, DeliveryResult, NotificationPayload, UserContactInfo, EVENT_TYPE_CONFIGS } from '../types';
+import { ChannelHandler } from './ChannelHandler';
+import { translate } from '../i18n';
+import { SmsMessage, SmsProvider, createSmsProviders, countSmsSegments, truncateToSegments } from './sms';
+import { SmsConfirmation } from '../models';
+
+export class SMSHandler implements ChannelHandler {
+    readonly channel = 'sms' as const;
+    readonly providerName: string;
+    private providers: SmsProvider[];
+
+    constructor(providers: SmsProvider[] = createSmsProviders()) {
+        this.providers = providers.filter((p) => p.isConfigured());
+        // Primary provider, reported in channel health
+        this.providerName = this.providers[0]?.name ?? providers[0]?.name ?? 'none';
+
+        if (this.providers.length === 0) {
+            logger.warn('SMS channel has no configured providers');
         }
     }
 
+    /**
+     * Check the user has a verified phone number
+     */
+    checkContact(contact: UserContactInfo): string | null {
+        if (!contact.phoneNumber || !contact.phoneVerified) {
+            return 'Phone number not verified';
+        }
+        return null;
+    }
+
+    /**
+     * Deliver notification to the user's phone number
+     */
+    async deliver(notification: NotificationPayload, contact: UserContactInfo): Promise<DeliveryResult> {
+        return this.send(contact.phoneNumber!, notification);
+    }
+
     /**
      * Send SMS notification
      */
@@ -34,8 +59,8 @@ export class SMSHandler {
         toPhoneNumber: string,
         notification: NotificationPayload
     ): Promise<DeliveryResult> {
-        if (!this.enabled || !this.client) {
-            logger.warn('SMS sending skipped - Twilio not enabled');
+        if (!this.isAvailable()) {
+            logger.warn('SMS sending skipped - no SMS provider enabled');
             return {
                 channel: 'sms',
                 status: 'failed',
@@ -51,62 +76,23 @@ export class SMSHandler {
             };
         }
 
-        const startTime = Date.now();
-        const message = this.formatMessage(notification);
-
-        try {
-            const result = await this.client.messages.create({
-                body: message,
-                from: this.fromNumber,
-                to: toPhoneNumber,
-                statusCallback: config.twilio.statusCallbackUrl,
-            });
-
-            const latencyMs = Date.now() - startTime;
-
-            logChannelDelivery({
-                channel: 'sms',
-                notificationId: notification.notificationId,
-                userId: notification.userId,
-                status: 'sent',
-                provider: 'twilio',
-                providerMessageId: result.sid,
-                latencyMs,
-            });
+        const result = await this.sendWithFailover(
+            { to: toPhoneNumber, body: this.formatMessage(notification) },
+            notification
+        );
 
-            return {
-                channel: 'sms',
-                status: 'sent',
-                providerMessageId: result.sid,
-                sentAt: new Date(),
-            };
-        } catch (error) {
-            const latencyMs = Date.now() - startTime;
-            const errorMessage = this.extractTwilioError(error);
-
-            logChannelDelivery({
-                channel: 'sms',
-                notificationId: notification.notificationId,
-                userId: notification.userId,
-                status: 'failed',
-                provider: 'twilio',
-                latencyMs,
-                error: errorMessage,
-            });
-
-            return {
-                channel: 'sms',
-                status: 'failed',
-                error: errorMessage,
-            };
+        if (result.status === 'sent' && notification.smsConfirmation) {
+            await this.recordConfirmation(notification, result.providerMessageId);
         }
+
+        return result;
     }
 
     /**
      * Send raw SMS payload
      */
     async sendRaw(payload: SMSPayload): Promise<DeliveryResult> {
-        if (!this.enabled || !this.client) {
+        if (!this.isAvailable()) {
             return {
                 channel: 'sms',
                 status: 'failed',
@@ -114,63 +100,151 @@ export class SMSHandler {
             };
         }
 
+        return this.sendWithFailover({
+            to: payload.to,
+            body: payload.message,
+            statusCallback: payload.statusCallback,
+        });
+    }
+
+    /**
+     * Get delivery status from the provider that sent the message
+     */
+    async getDeliveryStatus(messageId: string, providerName: string = this.providerName): Promise<string> {
+        const provider = this.providers.find((p) => p.name === providerName);
+
+        if (!provider?.getStatus) {
+            return 'unknown';
+        }
+
+        return provider.getStatus(messageId);
+    }
+
+    /**
+     * Start waiting for the user's YES/NO reply
+     */
+    private async recordConfirmation(notification: NotificationPayload, providerMessageId?: string): Promise<void> {
         try {
-            const result = await this.client.messages.create({
-                body: payload.message,
-                from: this.fromNumber,
-                to: payload.to,
-                statusCallback: payload.statusCallback ?? config.twilio.statusCallbackUrl,
+            await SmsConfirmation.create({
+                notificationId: notification.notificationId,
+                userId: notification.userId,
+                eventType: notification.eventType,
+                eventSourceId: notification.eventSourceId ?? null,
+                providerMessageId: providerMessageId ?? null,
+                expiresAt: new Date(Date.now() + config.sms.confirmationTtlMs),
             });
-
-            return {
-                channel: 'sms',
-                status: 'sent',
-                providerMessageId: result.sid,
-                sentAt: new Date(),
-            };
         } catch (error) {
-            return {
-                channel: 'sms',
-                status: 'failed',
-                error: this.extractTwilioError(error),
-            };
+            // The SMS went out; a reply will just get no match
+            logger.error('Failed to record SMS confirmation', {
+                notificationId: notification.notificationId,
+                error,
+            });
         }
     }
 
     /**
-     * Get delivery status from Twilio
+     * Try each provider in priority order. Transient errors move on to the next
+     * provider; a permanent error (e.g. an invalid number) would fail everywhere,
+     * so it stops the attempt. If every provider failed transiently the result is
+     * 'retrying' so RetryService tries again later.
      */
-    async getDeliveryStatus(messageSid: string): Promise<string> {
-        if (!this.client) {
-            return 'unknown';
-        }
+    private async sendWithFailover(message: SmsMessage, notification?: NotificationPayload): Promise<DeliveryResult> {
+        const errors: string[] = [];
+        const { segments } = countSmsSegments(message.body);
 
-        try {
-            const message = await this.client.messages(messageSid).fetch();
-            return message.status;
-        } catch {
-            return 'unknown';
+        for (const [index, provider] of this.providers.entries()) {
+            const startTime = Date.now();
+
+            try {
+                const { messageId } = await provider.send(message);
+
+                if (notification) {
+                    logChannelDelivery({
+                        channel: 'sms',
+                        notificationId: notification.notificationId,
+                        userId: notification.userId,
+                        status: 'sent',
+                        provider: provider.name,
+                        providerMessageId: messageId,
+                        latencyMs: Date.now() - startTime,
+                        segments,
+                    });
+                }
+
+                return {
+                    channel: 'sms',
+                    status: 'sent',
+                    provider: provider.name,
+                    providerMessageId: messageId,
+                    segments,
+                    sentAt: new Date(),
+                };
+            } catch (error) {
+                const errorMessage = provider.describeError(error);
+                errors.push(errorMessage);
+
+                if (notification) {
+                    logChannelDelivery({
+                        channel: 'sms',
+                        notificationId: notification.notificationId,
+                        userId: notification.userId,
+                        status: 'failed',
+                        provider: provider.name,
+                        latencyMs: Date.now() - startTime,
+                        error: errorMessage,
+                    });
+                }
+
+                if (!provider.isTransientError(error)) {
+                    return {
+                        channel: 'sms',
+                        status: 'failed',
+                        provider: provider.name,
+                        error: errorMessage,
+                    };
+                }
+
+                const next = this.providers[index + 1];
+                if (next) {
+                    logger.warn('SMS provider failed, failing over', {
+                        notificationId: notification?.notificationId,
+                        failedProvider: provider.name,
+                        nextProvider: next.name,
+                        error: errorMessage,
+                    });
+                }
+            }
         }
+
+        return {
+            channel: 'sms',
+            status: 'retrying',
+            error: errors.join('; '),
+        };
     }
 
     /**
-     * Format notification for SMS
-     * Max 160 characters for single segment
+     * Format notification for SMS within the event type's segment budget.
+     * Without a rendered template, the title is dropped before the message
+     * itself is cut.
      */
     private formatMessage(notification: NotificationPayload): string {
-        // Use title and truncated message
-        let message = `${notification.title}: ${notification.message}`;
-
-        // Add unsubscribe option for compliance
-        const unsubscribe = '\nReply STOP to unsubscribe.';
+        const maxSegments = EVENT_TYPE_CONFIGS[notification.eventType].smsMaxSegments;
 
-        // Truncate if needed (leave room for unsubscribe)
-        const maxLength = 160 - unsubscribe.length;
-        if (message.length > maxLength) {
-            message = message.substring(0, maxLength - 3) + '...';
+        // Add unsubscribe option for compliance, after the reply prompt if one is wanted
+        let suffix = `\n${translate('sms.unsubscribe_footer', notification.locale)}`;
+        if (notification.smsConfirmation) {
+            suffix = `\n${translate('sms.confirmation_prompt', notification.locale)}${suffix}`;
         }
 
-        return message + unsubscribe;
+        const candidates = notification.content
+            ? [notification.content.body]
+            : [`${notification.title}: ${notification.message}`, notification.message];
+
+        const message = candidates.find((c) => countSmsSegments(c + suffix).segments <= maxSegments)
+            ?? truncateToSegments(candidates[candidates.length - 1]!, suffix, maxSegments);
+
+        return message + suffix;
     }
 
     /**
@@ -183,24 +257,11 @@ export class SMSHandler {
         return e164Regex.test(phone);
     }
 
-    /**
-     * Extract error message from Twilio error
-     */
-    private extractTwilioError(error: unknown): string {
-        if (error && typeof error === 'object') {
-            const twilioError = error as { code?: number; message?: string; moreInfo?: string };
-            if (twilioError.code && twilioError.message) {
-                return `Twilio Error ${twilioError.code}: ${twilioError.message}`;
-            }
-        }
-        return error instanceof Error ? error.message : 'Unknown Twilio error';
-    }
-
     /**
      * Check if SMS is available
      */
     isAvailable(): boolean {
-        return this.enabled && this.client !== null;
+        return this.providers.length > 0;
     }
 }
 
@@ -7,7 +7,8 @@
 
 import { config } from '../config/config';
 import { logger, logChannelDelivery } from '../utils/logger';
-import { WebSocketPayload, DeliveryResult, NotificationPayload } from '../types';
+import { WebSocketPayload, DeliveryResult, NotificationPayload, UserContactInfo } from '../types';
+import { ChannelHandler } from './ChannelHandler';
 
 export interface WebSocketGatewayResponse {
     success: boolean;
@@ -16,7 +17,9 @@ export interface WebSocketGatewayResponse {
     error?: string;
 }
 
-export class WebSocketHandler {
+export class WebSocketHandler implements ChannelHandler {
+    readonly channel = 'websocket' as const;
+    readonly providerName = 'internal';
     private gatewayUrl: string;
     private apiKey: string;
     private timeout: number = 5000; // 5 seconds
@@ -26,6 +29,20 @@ export class WebSocketHandler {
         this.apiKey = config.websocket.apiKey;
     }
 
+    /**
+     * WebSocket needs no contact details beyond the user ID
+     */
+    checkContact(_contact: UserContactInfo): string | null {
+        return null;
+    }
+
+    /**
+     * Deliver notification to the user's open sessions
+     */
+    async deliver(notification: NotificationPayload, contact: UserContactInfo): Promise<DeliveryResult> {
+        return this.send(contact.userId, notification);
+    }
+
     /**
      * Send notification via WebSocket Gateway
      */
@@ -183,6 +200,13 @@ export class WebSocketHandler {
 
         return results;
     }
+
+    /**
+     * Check if the WebSocket Gateway is configured
+     */
+    isAvailable(): boolean {
+        return !!this.gatewayUrl;
+    }
 }
 
 // Export singleton
@@ -0,0 +1,239 @@
+/**
+ * Banking Notification Service - Webhook Channel Handler
+ *
+ * Pushes notifications to endpoints registered by business customers.
+ * Each request is signed with the endpoint's secret over a timestamp and
+ * the body, so receivers can verify it and reject replays. Endpoint
+ * hosts must resolve to public addresses, and requests connect only to
+ * an address that passed that check.
+ * Failed endpoints are retried through RetryService; endpoints that
+ * already received the notification are skipped on retry.
+ */
+
+import * as crypto from 'crypto';
+import { types } from 'util';
+import { Agent } from 'undici';
+import { config } from '../config/config';
+import { logger, logChannelDelivery } from '../utils/logger';
+import { checkPublicUrl, publicAddressLookup } from '../utils/network';
+import {
+    DeliveryResult,
+    NotificationPayload,
+    UserContactInfo,
+    WebhookEndpointContact,
+} from '../types';
+import { UserPreferences, WebhookDelivery } from '../models';
+import { ChannelHandler } from './ChannelHandler';
+
+declare module '../types' {
+    interface NotificationChannelRegistry {
+        webhook: true;
+    }
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'Webhook-Timestamp';
+export const WEBHOOK_ID_HEADER = 'Webhook-Id';
+
+// Resolves endpoint hosts at connect time and refuses non-public addresses
+const publicOnlyDispatcher = new Agent({ connect: { lookup: publicAddressLookup } });
+
+interface EndpointResult {
+    endpointId: string;
+    deliveryId: string;
+    error: string | null;
+}
+
+/**
+ * Sign a webhook body: HMAC-SHA256 over "<timestamp>.<body>", hex encoded
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export class WebhookHandler implements ChannelHandler {
+    readonly channel = 'webhook' as const;
+    readonly providerName = 'webhook';
+    private enabled: boolean;
+    private timeout: number;
+
+    constructor() {
+        this.enabled = config.webhook.enabled;
+        this.timeout = config.webhook.timeoutMs;
+    }
+
+    /**
+     * Requires at least one active endpoint
+     */
+    checkContact(contact: UserContactInfo): string | null {
+        return contact.webhookEndpoints?.length ? null : 'No active webhook endpoints';
+    }
+
+    /**
+     * Deliver to every subscribed endpoint that has not received this notification yet.
+     * Any endpoint failure makes the whole channel retry; succeeded endpoints are not resent.
+     */
+    async deliver(notification: NotificationPayload, contact: UserContactInfo): Promise<DeliveryResult> {
+        const subscribed = (contact.webhookEndpoints ?? []).filter(
+            (e) => e.eventTypes.length === 0 || e.eventTypes.includes(notification.eventType)
+        );
+
+        if (subscribed.length === 0) {
+            return {
+                channel: 'webhook',
+                status: 'failed',
+                error: `No webhook endpoints subscribed to ${notification.eventType}`,
+            };
+        }
+
+        const delivered = await WebhookDelivery.findAll({
+            where: { notificationId: notification.notificationId, success: true },
+            attributes: ['endpointId'],
+        });
+        const deliveredIds = new Set(delivered.map((d) => d.endpointId));
+        const pending = subscribed.filter((e) => !deliveredIds.has(e.endpointId));
+
+        const results = await Promise.all(
+            pending.map((endpoint) => this.sendToEndpoint(notification, endpoint, contact.userId))
+        );
+        const failures = results.filter((r) => r.error);
+
+        if (failures.length > 0) {
+            return {
+                channel: 'webhook',
+                status: 'retrying',
+                error: failures.map((f) => `${f.endpointId}: ${f.error}`).join('; '),
+            };
+        }
+
+        return {
+            channel: 'webhook',
+            status: 'delivered',
+            providerMessageId: results[0]?.deliveryId,
+            sentAt: new Date(),
+        };
+    }
+
+    /**
+     * Send a signed request to one endpoint and record the attempt
+     */
+    private async sendToEndpoint(
+        notification: NotificationPayload,
+        endpoint: WebhookEndpointContact,
+        userId: string
+    ): Promise<EndpointResult> {
+        const startTime = Date.now();
+        const timestamp = Math.floor(startTime / 1000);
+        const body = JSON.stringify({
+            id: notification.notificationId,
+            type: notification.eventType,
+            createdAt: notification.createdAt.toISOString(),
+            priority: notification.priority,
+            title: notification.title,
+            message: notification.message,
+            data: notification.data ?? {},
+            actions: notification.actions ?? [],
+        });
+
+        let statusCode: number | null = null;
+        let error: string | null = null;
+
+        try {
+            // Fails fast with a clear error; the dispatcher enforces it on the connection itself
+            const blocked = await checkPublicUrl(endpoint.url);
+            if (blocked) {
+                throw new Error(blocked);
+            }
+
+            const response = await fetch(endpoint.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': config.serviceName,
+                    [WEBHOOK_ID_HEADER]: notification.notificationId, // Stable across retries for receiver dedup
+                    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+                    [WEBHOOK_SIGNATURE_HEADER]: `v1=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+                },
+                body,
+                redirect: 'manual', // Never follow redirects to unregistered hosts
+                signal: AbortSignal.timeout(this.timeout),
+                dispatcher: publicOnlyDispatcher,
+            });
+
+            statusCode = response.status;
+            if (!response.ok) {
+                error = `Endpoint returned ${response.status}`;
+            }
+        } catch (err) {
+            // fetch reports connection errors, such as a refused address, as the cause
+            const cause = types.isNativeError(err) && types.isNativeError(err.cause) ? err.cause : err;
+            error = types.isNativeError(cause) ? cause.message : 'Unknown error';
+        }
+
+        const latencyMs = Date.now() - startTime;
+        const deliveryId = await this.recordAttempt(notification, endpoint, userId, statusCode, error, latencyMs);
+
+        logChannelDelivery({
+            channel: 'webhook',
+            notificationId: notification.notificationId,
+            userId,
+            status: error ? 'failed' : 'sent',
+            provider: 'webhook',
+            providerMessageId: deliveryId,
+            latencyMs,
+            error: error ?? undefined,
+        });
+
+        return { endpointId: endpoint.endpointId, deliveryId, error };
+    }
+
+    /**
+     * Write the delivery log row and update the endpoint's failure count
+     */
+    private async recordAttempt(
+        notification: NotificationPayload,
+        endpoint: WebhookEndpointContact,
+        userId: string,
+        statusCode: number | null,
+        error: string | null,
+        latencyMs: number
+    ): Promise<string> {
+        const previousAttempts = await WebhookDelivery.count({
+            where: { notificationId: notification.notificationId, endpointId: endpoint.endpointId },
+        });
+
+        const delivery = await WebhookDelivery.create({
+            notificationId: notification.notificationId,
+            userId,
+            eventType: notification.eventType,
+            endpointId: endpoint.endpointId,
+            url: endpoint.url,
+            attempt: previousAttempts + 1,
+            success: !error,
+            statusCode,
+            errorMessage: error,
+            latencyMs,
+        });
+
+        const disabled = await UserPreferences.recordWebhookResult(userId, endpoint.endpointId, error);
+        if (disabled) {
+            logger.warn('Webhook endpoint disabled after repeated failures', {
+                userId,
+                endpointId: endpoint.endpointId,
+                error,
+            });
+        }
+
+        return delivery.id;
+    }
+
+    /**
+     * Check if webhook delivery is enabled
+     */
+    isAvailable(): boolean {
+        return this.enabled;
+    }
+}
+
+// Export singleton
+export const webhookHandler = new WebhookHandler();
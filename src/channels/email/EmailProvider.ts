@@ -0,0 +1,49 @@
+/**
+ * Banking Notification Service - Email Provider Interface
+ *
+ * Transport used by the email channel. EmailHandler builds the message
+ * (subject, HTML/text, or a hosted template reference) and a provider
+ * only sends it.
+ */
+
+export interface EmailAddress {
+    email: string;
+    name?: string;
+}
+
+export interface EmailMessage {
+    to: EmailAddress;
+    from: EmailAddress;
+    subject: string;
+    html?: string;
+    text?: string;
+    // Provider-hosted template; only set when the provider supports them
+    hostedTemplate?: {
+        templateId: string;
+        data: Record<string, unknown>;
+    };
+    tracking?: boolean;
+    headers?: Record<string, string>; // Extra headers, e.g. List-Unsubscribe
+    // Echoed back in provider events so they can be matched to the notification
+    customArgs?: Record<string, string>;
+}
+
+export interface EmailSendResult {
+    messageId?: string;
+}
+
+export interface EmailProvider {
+    /** Provider name used in delivery logs */
+    readonly name: string;
+
+    /** Whether hostedTemplate can be used instead of html/text */
+    readonly supportsHostedTemplates: boolean;
+
+    /** Whether the provider is enabled and has the settings it needs */
+    isConfigured(): boolean;
+
+    send(message: EmailMessage): Promise<EmailSendResult>;
+
+    /** Turn a provider error into a readable message */
+    describeError(error: unknown): string;
+}
@@ -0,0 +1,197 @@
+/**
+ * Banking Notification Service - Email Renderer
+ *
+ * Renders the HTML and plain-text parts of emails that are not sent with a
+ * hosted (SendGrid) template, so they look the same on every provider.
+ * Content is rendered from the event's partial, placed in the brand layout
+ * (header, legal text, unsubscribe and preferences links), the stylesheet
+ * is inlined and the text part is generated from the result.
+ */
+
+import { config } from '../../config/config';
+import { translate } from '../../i18n';
+import { EVENT_TYPE_CONFIGS, NotificationAction, NotificationPayload } from '../../types';
+import { DEFAULT_LOCALE, formatDateTime, resolveTimeZone } from '../../utils/locale';
+import { escapeHtml, renderTemplate, textToHtml, RenderOptions } from '../../utils/template';
+import { htmlToText, inlineCss } from '../../utils/html';
+import {
+    BASE_LAYOUT,
+    EMAIL_PARTIALS,
+    EMAIL_STYLESHEET,
+    EmailPartialName,
+    partialForEventType,
+} from './layout';
+
+export interface EmailBrand {
+    name: string;
+    logoUrl: string; // Text header with the brand name when empty
+    primaryColor: string;
+    preferencesUrl: string; // "Manage preferences" footer link; omitted when empty
+}
+
+export interface RenderedEmail {
+    html: string;
+    text: string;
+}
+
+export interface EmailRenderOptions {
+    unsubscribeUrl?: string;
+}
+
+export type DigestFrequency = 'hourly' | 'daily' | 'weekly';
+
+// Rows of the transaction details table, shown when the event data has the value
+const TRANSACTION_DETAILS: { key: string; labelKey: string; value: string }[] = [
+    { key: 'amount', labelKey: 'email.detail.amount', value: '{{amount | currency}}' },
+    { key: 'recipientName', labelKey: 'email.detail.recipient', value: '{{recipientName}}' },
+    { key: 'reference', labelKey: 'email.detail.reference', value: '{{reference}}' },
+];
+
+export class EmailRenderer {
+    private readonly brand: EmailBrand;
+    private readonly stylesheet: string;
+
+    constructor(brand: EmailBrand = config.email.brand) {
+        this.brand = brand;
+        this.stylesheet = renderTemplate(EMAIL_STYLESHEET, { primaryColor: brand.primaryColor });
+    }
+
+    /**
+     * Render a notification with its event type's partial
+     */
+    renderNotification(notification: NotificationPayload, options: EmailRenderOptions = {}): RenderedEmail {
+        const renderOptions = this.renderOptions(notification.locale, notification.timeZone);
+        const partial = partialForEventType(
+            notification.eventType,
+            EVENT_TYPE_CONFIGS[notification.eventType]?.inboxCategory
+        );
+
+        const content = this.renderPartial(partial, {
+            title: notification.title,
+            message: notification.message,
+            actions: this.renderActions(notification.actions),
+            details: partial === 'transaction' ? this.renderDetails(notification.data ?? {}, renderOptions) : '',
+            securityNote: partial === 'security'
+                ? translate('email.security_note', renderOptions.locale, { supportContact: config.sms.supportContact })
+                : '',
+        }, renderOptions);
+
+        return this.renderLayout(notification.title, content, renderOptions, options.unsubscribeUrl);
+    }
+
+    /**
+     * Render a digest of notifications for one user
+     */
+    renderDigest(
+        notifications: NotificationPayload[],
+        frequency: DigestFrequency,
+        options: EmailRenderOptions = {}
+    ): RenderedEmail {
+        const renderOptions = this.renderOptions(notifications[0]?.locale, notifications[0]?.timeZone);
+        const heading = translate(`email.digest.heading.${frequency}`, renderOptions.locale)!;
+
+        const items = notifications.map((n) => `<tr>
+<td class="digest-item">
+<p class="item-title">${escapeHtml(n.title)}</p>
+<p class="item-message">${escapeHtml(n.message)}</p>
+<p class="timestamp">${escapeHtml(formatDateTime(n.createdAt, renderOptions.locale!, renderOptions.timeZone!))}</p>
+</td>
+</tr>`).join('\n');
+
+        const content = this.renderPartial('digest', {
+            heading,
+            intro: translate('email.digest.intro', renderOptions.locale),
+            items: `<table role="presentation" class="digest" width="100%" cellpadding="0" cellspacing="0">\n${items}\n</table>`,
+        }, renderOptions);
+
+        return this.renderLayout(heading, content, renderOptions, options.unsubscribeUrl);
+    }
+
+    /**
+     * Render a plain-text email (sendRaw without HTML) in the brand layout
+     */
+    renderText(subject: string, text: string, locale?: string): RenderedEmail {
+        const renderOptions = this.renderOptions(locale);
+        const content = this.renderPartial('text', { paragraphs: textToHtml(text) }, renderOptions);
+        return this.renderLayout(subject, content, renderOptions);
+    }
+
+    /**
+     * Place content in the base layout, inline the stylesheet and derive the text part
+     */
+    private renderLayout(
+        subject: string,
+        content: string,
+        options: RenderOptions,
+        unsubscribeUrl?: string
+    ): RenderedEmail {
+        const html = renderTemplate(BASE_LAYOUT, {
+            locale: options.locale,
+            subject,
+            content,
+            brandHeader: this.renderBrandHeader(),
+            legalText: translate('email.footer.legal', options.locale, { brandName: this.brand.name }),
+            footerLinks: this.renderFooterLinks(options.locale, unsubscribeUrl),
+        }, { ...options, html: true });
+
+        const inlined = inlineCss(html, this.stylesheet);
+        return { html: inlined, text: htmlToText(inlined) };
+    }
+
+    private renderPartial(name: EmailPartialName, variables: Record<string, unknown>, options: RenderOptions): string {
+        return renderTemplate(EMAIL_PARTIALS[name], variables, { ...options, html: true });
+    }
+
+    private renderBrandHeader(): string {
+        const name = escapeHtml(this.brand.name);
+        return this.brand.logoUrl
+            ? `<img class="logo" src="${escapeHtml(this.brand.logoUrl)}" alt="${name}" height="40">`
+            : name;
+    }
+
+    private renderActions(actions?: NotificationAction[]): string {
+        if (!actions?.length) return '';
+
+        const buttons = actions.map((action) => {
+            const className = action.type === 'secondary' ? 'button button-secondary' : 'button';
+            return `<a class="${className}" href="${escapeHtml(action.url)}">${escapeHtml(action.label)}</a>`;
+        });
+        return `<div class="actions">\n${buttons.join('\n')}\n</div>`;
+    }
+
+    private renderDetails(data: Record<string, unknown>, options: RenderOptions): string {
+        const rows = TRANSACTION_DETAILS
+            .filter(({ key }) => data[key] !== undefined && data[key] !== null && data[key] !== '')
+            .map(({ labelKey, value }) => {
+                const label = escapeHtml(translate(labelKey, options.locale)!);
+                const formatted = renderTemplate(value, data, { ...options, html: true });
+                return `<tr><th class="detail-label">${label}</th><td class="detail-value">${formatted}</td></tr>`;
+            });
+
+        return rows.length
+            ? `<table role="presentation" class="details" width="100%" cellpadding="0" cellspacing="0">\n${rows.join('\n')}\n</table>`
+            : '';
+    }
+
+    private renderFooterLinks(locale: string | undefined, unsubscribeUrl?: string): string {
+        const links: string[] = [];
+        if (unsubscribeUrl) {
+            links.push(this.renderFooterLink(unsubscribeUrl, translate('email.footer.unsubscribe', locale)!));
+        }
+        if (this.brand.preferencesUrl) {
+            links.push(this.renderFooterLink(this.brand.preferencesUrl, translate('email.footer.preferences', locale)!));
+        }
+        return links.length ? `<p class="footer-links">${links.join(' | ')}</p>` : '';
+    }
+
+    private renderFooterLink(url: string, label: string): string {
+        return `<a class="footer-link" href="${escapeHtml(url)}">${escapeHtml(label)}</a>`;
+    }
+
+    private renderOptions(locale?: string, timeZone?: string): RenderOptions {
+        return { locale: locale ?? DEFAULT_LOCALE, timeZone: resolveTimeZone(timeZone) };
+    }
+}
+
+// Export singleton
+export const emailRenderer = new EmailRenderer();
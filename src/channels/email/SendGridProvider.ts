@@ -0,0 +1,77 @@
+/**
+ * Banking Notification Service - SendGrid Email Provider
+ */
+
+import sgMail from '@sendgrid/mail';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { EmailMessage, EmailProvider, EmailSendResult } from './EmailProvider';
+
+export class SendGridProvider implements EmailProvider {
+    readonly name = 'sendgrid';
+    readonly supportsHostedTemplates = true;
+    private configured: boolean;
+
+    constructor() {
+        this.configured = config.sendgrid.enabled && !!config.sendgrid.apiKey;
+
+        if (this.configured) {
+            sgMail.setApiKey(config.sendgrid.apiKey);
+            logger.info('SendGrid email client initialized');
+        } else {
+            logger.warn('SendGrid email client not initialized - disabled or missing API key');
+        }
+    }
+
+    isConfigured(): boolean {
+        return this.configured;
+    }
+
+    async send(message: EmailMessage): Promise<EmailSendResult> {
+        const msg: any = {
+            to: message.to,
+            from: message.from,
+            subject: message.subject,
+        };
+
+        if (message.hostedTemplate) {
+            msg.templateId = message.hostedTemplate.templateId;
+            msg.dynamicTemplateData = message.hostedTemplate.data;
+        } else {
+            msg.html = message.html;
+            msg.text = message.text;
+        }
+
+        if (message.customArgs) {
+            msg.customArgs = message.customArgs;
+        }
+
+        if (message.headers) {
+            msg.headers = message.headers;
+        }
+
+        if (message.tracking) {
+            msg.trackingSettings = {
+                clickTracking: { enable: true },
+                openTracking: { enable: true },
+            };
+        }
+
+        const [response] = await sgMail.send(msg);
+        return { messageId: response.headers['x-message-id'] as string };
+    }
+
+    /**
+     * Extract error message from SendGrid error
+     */
+    describeError(error: unknown): string {
+        if (error && typeof error === 'object') {
+            const sgError = error as { response?: { body?: { errors?: Array<{ message: string }> } } };
+            const errors = sgError.response?.body?.errors;
+            if (errors?.length) {
+                return errors.map((e) => e.message).join('; ');
+            }
+        }
+        return error instanceof Error ? error.message : 'Unknown SendGrid error';
+    }
+}
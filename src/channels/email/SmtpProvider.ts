@@ -0,0 +1,95 @@
+/**
+ * Banking Notification Service - SMTP Email Provider
+ *
+ * Sends through any SMTP server: an on-prem relay in production, or a
+ * local catcher such as Mailpit in development and tests. Hosted
+ * templates are not available, so EmailHandler always renders HTML/text.
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { EmailAddress, EmailMessage, EmailProvider, EmailSendResult } from './EmailProvider';
+
+export interface SmtpSettings {
+    host: string;
+    port: number;
+    secure: boolean;
+    requireTls: boolean;
+    tlsRejectUnauthorized: boolean;
+    user: string;
+    password: string;
+}
+
+export class SmtpProvider implements EmailProvider {
+    readonly name = 'smtp';
+    readonly supportsHostedTemplates = false;
+    private configured: boolean;
+    private transporter: Transporter;
+
+    constructor(settings: SmtpSettings = config.smtp, enabled: boolean = config.smtp.enabled) {
+        this.configured = enabled && !!settings.host;
+
+        this.transporter = nodemailer.createTransport({
+            host: settings.host,
+            port: settings.port,
+            secure: settings.secure,
+            // STARTTLS is mandatory unless the connection is already TLS
+            requireTLS: !settings.secure && settings.requireTls,
+            auth: settings.user ? { user: settings.user, pass: settings.password } : undefined,
+            tls: { rejectUnauthorized: settings.tlsRejectUnauthorized },
+        });
+
+        if (this.configured) {
+            logger.info('SMTP email client initialized', {
+                host: settings.host,
+                port: settings.port,
+                secure: settings.secure,
+            });
+        } else {
+            logger.warn('SMTP email client not initialized - disabled or missing host');
+        }
+    }
+
+    isConfigured(): boolean {
+        return this.configured;
+    }
+
+    async send(message: EmailMessage): Promise<EmailSendResult> {
+        if (message.hostedTemplate) {
+            throw new Error('SMTP provider does not support hosted templates');
+        }
+
+        const info = await this.transporter.sendMail({
+            from: this.formatAddress(message.from),
+            to: this.formatAddress(message.to),
+            subject: message.subject,
+            html: message.html,
+            text: message.text,
+            headers: message.headers,
+        });
+
+        return { messageId: info.messageId };
+    }
+
+    describeError(error: unknown): string {
+        if (error && typeof error === 'object') {
+            const smtpError = error as { response?: string; responseCode?: number };
+            if (smtpError.responseCode && smtpError.response) {
+                return `SMTP ${smtpError.responseCode}: ${smtpError.response}`;
+            }
+        }
+        return error instanceof Error ? error.message : 'Unknown SMTP error';
+    }
+
+    /**
+     * Close pooled connections (shutdown and tests)
+     */
+    close(): void {
+        this.transporter.close();
+    }
+
+    private formatAddress(address: EmailAddress): { name: string; address: string } | string {
+        return address.name ? { name: address.name, address: address.email } : address.email;
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * Banking Notification Service - Email Providers
+ */
+
+import { config } from '../../config/config';
+import { EmailProvider } from './EmailProvider';
+import { SendGridProvider } from './SendGridProvider';
+import { SmtpProvider } from './SmtpProvider';
+
+export * from './EmailProvider';
+export { SendGridProvider } from './SendGridProvider';
+export { SmtpProvider, SmtpSettings } from './SmtpProvider';
+export {
+    createUnsubscribeToken,
+    verifyUnsubscribeToken,
+    buildUnsubscribeUrl,
+    buildUnsubscribeHeaders,
+    isUnsubscribableEventType,
+    UnsubscribeTokenClaims,
+} from './unsubscribe';
+export {
+    EmailRenderer,
+    emailRenderer,
+    EmailBrand,
+    RenderedEmail,
+    EmailRenderOptions,
+    DigestFrequency,
+} from './EmailRenderer';
+
+/**
+ * Create the provider selected by EMAIL_PROVIDER
+ */
+export function createEmailProvider(name: string = config.email.provider): EmailProvider {
+    switch (name) {
+        case 'smtp':
+            return new SmtpProvider();
+        case 'sendgrid':
+            return new SendGridProvider();
+        default:
+            throw new Error(`Unknown email provider: ${name}`);
+    }
+}
@@ -0,0 +1,145 @@
+/**
+ * Banking Notification Service - Email Layout
+ *
+ * Markup for emails rendered in-repo (see EmailRenderer): the base layout
+ * with the brand header and footer, the content partials placed inside it,
+ * and the stylesheet that is inlined into both. Templates use the
+ * mustache-style syntax of utils/template; blocks that repeat or are
+ * optional ({{{actions}}}, {{{details}}}, ...) are built by the renderer.
+ */
+
+import { InboxCategory, NotificationEventType } from '../../types';
+
+export type EmailPartialName = 'default' | 'transaction' | 'security' | 'digest' | 'text';
+
+/**
+ * Table-based layout: 600px centered container, full width on small screens
+ */
+export const BASE_LAYOUT = `<!DOCTYPE html>
+<html lang="{{locale}}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="x-apple-disable-message-reformatting">
+<title>{{subject}}</title>
+</head>
+<body class="body">
+<table role="presentation" class="wrapper" width="100%" cellpadding="0" cellspacing="0">
+<tr>
+<td align="center">
+<table role="presentation" class="container" width="600" cellpadding="0" cellspacing="0">
+<tr>
+<td class="header">{{{brandHeader}}}</td>
+</tr>
+<tr>
+<td class="content">
+{{{content}}}
+</td>
+</tr>
+<tr>
+<td class="footer">
+<p class="footer-text">{{legalText}}</p>
+{{{footerLinks}}}
+</td>
+</tr>
+</table>
+</td>
+</tr>
+</table>
+</body>
+</html>
+`;
+
+export const EMAIL_PARTIALS: Record<EmailPartialName, string> = {
+    default: `<h1>{{title}}</h1>
+<p>{{message}}</p>
+{{{actions}}}`,
+
+    transaction: `<h1>{{title}}</h1>
+<p>{{message}}</p>
+{{{details}}}
+{{{actions}}}`,
+
+    security: `<div class="alert">
+<h1 class="alert-title">{{title}}</h1>
+<p class="alert-message">{{message}}</p>
+</div>
+<p class="note">{{securityNote}}</p>
+{{{actions}}}`,
+
+    digest: `<h1>{{heading}}</h1>
+<p>{{intro}}</p>
+{{{items}}}`,
+
+    // Plain-text emails (one-time codes, security notices) sent through sendRaw
+    text: `{{{paragraphs}}}`,
+};
+
+// Event types whose partial differs from their inbox category's
+const EVENT_PARTIALS: Partial<Record<NotificationEventType, EmailPartialName>> = {
+    large_transaction: 'transaction',
+    low_balance_alert: 'transaction',
+};
+
+const CATEGORY_PARTIALS: Partial<Record<InboxCategory, EmailPartialName>> = {
+    transfers: 'transaction',
+    security: 'security',
+};
+
+/**
+ * Partial used for a notification's content
+ */
+export function partialForEventType(
+    eventType: NotificationEventType,
+    inboxCategory?: InboxCategory
+): EmailPartialName {
+    return EVENT_PARTIALS[eventType]
+        ?? (inboxCategory && CATEGORY_PARTIALS[inboxCategory])
+        ?? 'default';
+}
+
+/**
+ * Stylesheet inlined into every email; {{primaryColor}} is the brand color.
+ * The media query stays in a <style> block for clients that support it.
+ */
+export const EMAIL_STYLESHEET = `
+body { margin: 0; padding: 0; background-color: #f4f5f7; font-family: Arial, Helvetica, sans-serif; color: #333333; line-height: 1.6; }
+a { color: {{primaryColor}}; }
+h1 { margin: 0 0 12px; font-size: 22px; line-height: 1.3; color: {{primaryColor}}; }
+p { margin: 0 0 16px; }
+
+.wrapper { background-color: #f4f5f7; padding: 24px 0; }
+.container { width: 600px; max-width: 600px; background-color: #ffffff; border-radius: 8px; }
+.header { padding: 20px 32px; background-color: {{primaryColor}}; color: #ffffff; font-size: 20px; font-weight: bold; border-radius: 8px 8px 0 0; }
+.logo { display: block; max-height: 40px; border: 0; }
+.content { padding: 32px; }
+.footer { padding: 20px 32px; background-color: #f8f9fa; font-size: 12px; color: #666666; border-radius: 0 0 8px 8px; }
+.footer-text { margin: 0 0 8px; }
+.footer-links { margin: 0; }
+.footer-link { color: #666666; }
+
+.alert { margin: 0 0 16px; padding: 16px; border-left: 4px solid #d93025; background-color: #fdecea; }
+.alert-title { color: #d93025; }
+.alert-message { margin: 0; }
+.note { font-size: 14px; color: #555555; }
+
+.details { width: 100%; margin: 0 0 16px; border-collapse: collapse; }
+.detail-label { padding: 8px 0; border-bottom: 1px solid #eeeeee; text-align: left; font-weight: normal; color: #666666; }
+.detail-value { padding: 8px 0; border-bottom: 1px solid #eeeeee; text-align: right; font-weight: bold; }
+
+.actions { margin: 8px 0 16px; }
+.button { display: inline-block; margin: 0 8px 8px 0; padding: 10px 20px; background-color: {{primaryColor}}; color: #ffffff; text-decoration: none; border-radius: 5px; }
+.button-secondary { background-color: #ffffff; color: {{primaryColor}}; border: 1px solid {{primaryColor}}; }
+
+.digest { width: 100%; border-collapse: collapse; }
+.digest-item { padding: 16px 0; border-bottom: 1px solid #eeeeee; }
+.item-title { margin: 0 0 4px; font-size: 16px; font-weight: bold; color: {{primaryColor}}; }
+.item-message { margin: 0 0 4px; color: #555555; }
+.timestamp { margin: 0; font-size: 12px; color: #999999; }
+
+@media only screen and (max-width: 620px) {
+    .container { width: 100% !important; border-radius: 0 !important; }
+    .content { padding: 20px !important; }
+    .button { display: block !important; margin: 0 0 8px !important; text-align: center !important; }
+}
+`;
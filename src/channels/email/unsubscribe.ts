@@ -0,0 +1,97 @@
+/**
+ * Banking Notification Service - Email Unsubscribe Links
+ *
+ * Signed, expiring tokens naming a user and what to unsubscribe them from,
+ * so unsubscribe links work without logging in. Used for the footer link
+ * and the List-Unsubscribe / List-Unsubscribe-Post (RFC 8058 one-click)
+ * headers of marketing and digest emails.
+ */
+
+import crypto from 'crypto';
+import { config } from '../../config/config';
+import { deriveKey } from '../../utils/keys';
+import { EVENT_TYPE_CONFIGS, NotificationEventType, UnsubscribeCategory } from '../../types';
+
+export interface UnsubscribeTokenClaims {
+    userId: string;
+    category: UnsubscribeCategory;
+    expiresAt: Date;
+}
+
+function sign(payload: string): string {
+    return crypto
+        .createHmac('sha256', deriveKey('unsubscribe_token'))
+        .update(payload)
+        .digest('base64url');
+}
+
+function isUnsubscribeCategory(value: unknown): value is UnsubscribeCategory {
+    return value === 'all' || value === 'digest'
+        || (typeof value === 'string' && value in EVENT_TYPE_CONFIGS);
+}
+
+/**
+ * Create a token for unsubscribing the user from a category
+ */
+export function createUnsubscribeToken(
+    userId: string,
+    category: UnsubscribeCategory,
+    now: Date = new Date()
+): string {
+    const expiresAt = Math.floor(now.getTime() / 1000) + config.email.unsubscribeTokenTtlDays * 86400;
+    const payload = Buffer.from(JSON.stringify({ u: userId, c: category, e: expiresAt })).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check a token's signature and expiry. Returns null for tampered,
+ * malformed or expired tokens.
+ */
+export function verifyUnsubscribeToken(token: string, now: Date = new Date()): UnsubscribeTokenClaims | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    try {
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (typeof claims.u !== 'string' || !isUnsubscribeCategory(claims.c) || typeof claims.e !== 'number') {
+            return null;
+        }
+        if (claims.e * 1000 <= now.getTime()) {
+            return null;
+        }
+        return { userId: claims.u, category: claims.c, expiresAt: new Date(claims.e * 1000) };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Public unsubscribe page URL for the user and category
+ */
+export function buildUnsubscribeUrl(userId: string, category: UnsubscribeCategory): string {
+    const baseUrl = config.email.publicBaseUrl.replace(/\/$/, '');
+    return `${baseUrl}/unsubscribe?token=${createUnsubscribeToken(userId, category)}`;
+}
+
+/**
+ * List-Unsubscribe headers; mail clients POST "List-Unsubscribe=One-Click" to the URL
+ */
+export function buildUnsubscribeHeaders(url: string): Record<string, string> {
+    return {
+        'List-Unsubscribe': `<${url}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+}
+
+/**
+ * Whether emails for the event type carry unsubscribe links
+ */
+export function isUnsubscribableEventType(eventType: NotificationEventType): boolean {
+    return EVENT_TYPE_CONFIGS[eventType]?.marketing === true;
+}
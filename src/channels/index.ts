@@ -1,10 +1,54 @@
 /**
  * Banking Notification Service - Channel Handlers Index
- * 
- * Exports all notification channel handlers.
+ *
+ * Exports all notification channel handlers and registers them
+ * with the channel registry. A new channel is added by implementing
+ * ChannelHandler in its own module and registering it here.
  */
 
+import { channelRegistry } from './ChannelRegistry';
+import { webSocketHandler } from './WebSocketHandler';
+import { smsHandler } from './SMSHandler';
+import { emailHandler } from './EmailHandler';
+import { pushHandler } from './PushHandler';
+import { inboxHandler } from './InboxHandler';
+import { webhookHandler } from './WebhookHandler';
+
+export { ChannelHandler } from './ChannelHandler';
+export { channelRegistry, ChannelRegistry, ChannelHealth } from './ChannelRegistry';
 export { webSocketHandler, WebSocketHandler } from './WebSocketHandler';
 export { smsHandler, SMSHandler } from './SMSHandler';
+export { createSmsProviders, SmsProvider, SmsMessage, TwilioSmsProvider, HttpSmsGatewayProvider } from './sms';
 export { emailHandler, EmailHandler } from './EmailHandler';
-export { pushHandler, PushHandler } from './PushHandler';
+export { pushHandler, PushHandler, isInvalidTokenError } from './PushHandler';
+export { inboxHandler, InboxHandler } from './InboxHandler';
+export {
+    createEmailProvider,
+    EmailProvider,
+    EmailMessage,
+    SendGridProvider,
+    SmtpProvider,
+    createUnsubscribeToken,
+    verifyUnsubscribeToken,
+    buildUnsubscribeUrl,
+    UnsubscribeTokenClaims,
+    EmailRenderer,
+    emailRenderer,
+    RenderedEmail,
+} from './email';
+export {
+    webhookHandler,
+    WebhookHandler,
+    signWebhookPayload,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+    WEBHOOK_ID_HEADER,
+} from './WebhookHandler';
+
+// Register built-in channels
+channelRegistry.register(webSocketHandler);
+channelRegistry.register(smsHandler);
+channelRegistry.register(emailHandler);
+channelRegistry.register(pushHandler);
+channelRegistry.register(inboxHandler);
+channelRegistry.register(webhookHandler);
@@ -0,0 +1,87 @@
+/**
+ * Banking Notification Service - HTTP SMS Gateway Provider
+ *
+ * Generic fallback for SMS aggregators with a JSON HTTP API:
+ *
+ *   POST <SMS_GATEWAY_URL>
+ *   Authorization: Bearer <SMS_GATEWAY_API_KEY>
+ *   { "to": "+15551234567", "from": "<SMS_GATEWAY_SENDER_ID>", "message": "..." }
+ *
+ * A 2xx response with a JSON body containing "messageId" (or "id") is success.
+ */
+
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { SmsMessage, SmsProvider, SmsSendResult } from './SmsProvider';
+
+export class SmsGatewayError extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'SmsGatewayError';
+        this.status = status;
+    }
+}
+
+export class HttpSmsGatewayProvider implements SmsProvider {
+    readonly name = 'http_gateway';
+    private configured: boolean;
+
+    constructor() {
+        this.configured = config.smsGateway.enabled && !!config.smsGateway.url;
+
+        if (this.configured) {
+            logger.info('HTTP SMS gateway initialized', { url: config.smsGateway.url });
+        } else {
+            logger.warn('HTTP SMS gateway not initialized - disabled or missing URL');
+        }
+    }
+
+    isConfigured(): boolean {
+        return this.configured;
+    }
+
+    async send(message: SmsMessage): Promise<SmsSendResult> {
+        const response = await fetch(config.smsGateway.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${config.smsGateway.apiKey}`,
+            },
+            body: JSON.stringify({
+                to: message.to,
+                from: config.smsGateway.senderId,
+                message: message.body,
+            }),
+            signal: AbortSignal.timeout(config.sms.providerTimeoutMs),
+        });
+
+        if (!response.ok) {
+            throw new SmsGatewayError(`Gateway returned ${response.status}`, response.status);
+        }
+
+        const body = (await response.json()) as { messageId?: string; id?: string };
+        const messageId = body.messageId ?? body.id;
+
+        if (!messageId) {
+            throw new SmsGatewayError('Gateway response missing message ID', response.status);
+        }
+
+        return { messageId };
+    }
+
+    /**
+     * Network errors and timeouts have no HTTP status; 429 and 5xx are gateway-side
+     */
+    isTransientError(error: unknown): boolean {
+        if (!(error instanceof SmsGatewayError) || error.status === undefined) {
+            return true;
+        }
+        return error.status === 429 || error.status >= 500;
+    }
+
+    describeError(error: unknown): string {
+        return error instanceof Error ? `SMS gateway: ${error.message}` : 'Unknown SMS gateway error';
+    }
+}
@@ -0,0 +1,35 @@
+/**
+ * Banking Notification Service - SMS Provider Interface
+ *
+ * Transport used by the SMS channel. SMSHandler formats the message and
+ * tries providers in priority order, failing over on transient errors.
+ */
+
+export interface SmsMessage {
+    to: string; // E.164
+    body: string;
+    statusCallback?: string;
+}
+
+export interface SmsSendResult {
+    messageId: string;
+}
+
+export interface SmsProvider {
+    /** Provider name used in delivery logs and NotificationEvent.deliveryProvider */
+    readonly name: string;
+
+    /** Whether the provider is enabled and has the settings it needs */
+    isConfigured(): boolean;
+
+    send(message: SmsMessage): Promise<SmsSendResult>;
+
+    /** Whether another provider may succeed (timeouts, 5xx, throttling) */
+    isTransientError(error: unknown): boolean;
+
+    /** Turn a provider error into a readable message */
+    describeError(error: unknown): string;
+
+    /** Look up a message's delivery status, if the provider supports it */
+    getStatus?(messageId: string): Promise<string>;
+}
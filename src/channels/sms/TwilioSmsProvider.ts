@@ -0,0 +1,84 @@
+/**
+ * Banking Notification Service - Twilio SMS Provider
+ */
+
+import Twilio from 'twilio';
+import { config } from '../../config/config';
+import { logger } from '../../utils/logger';
+import { SmsMessage, SmsProvider, SmsSendResult } from './SmsProvider';
+
+export class TwilioSmsProvider implements SmsProvider {
+    readonly name = 'twilio';
+    private client: Twilio.Twilio | null = null;
+    private fromNumber: string;
+
+    constructor() {
+        this.fromNumber = config.twilio.phoneNumber;
+
+        if (config.twilio.enabled && config.twilio.accountSid && config.twilio.authToken) {
+            this.client = Twilio(config.twilio.accountSid, config.twilio.authToken, {
+                // Time out quickly so failover to the next provider is not delayed
+                httpClient: new Twilio.RequestClient({ timeout: config.sms.providerTimeoutMs }),
+            });
+            logger.info('Twilio SMS client initialized');
+        } else {
+            logger.warn('Twilio SMS client not initialized - disabled or missing credentials');
+        }
+    }
+
+    isConfigured(): boolean {
+        return this.client !== null;
+    }
+
+    async send(message: SmsMessage): Promise<SmsSendResult> {
+        if (!this.client) {
+            throw new Error('Twilio not configured');
+        }
+
+        const result = await this.client.messages.create({
+            body: message.body,
+            from: this.fromNumber,
+            to: message.to,
+            statusCallback: message.statusCallback ?? config.twilio.statusCallbackUrl,
+        });
+
+        return { messageId: result.sid };
+    }
+
+    /**
+     * Network errors and timeouts have no HTTP status; 429 and 5xx are Twilio-side
+     */
+    isTransientError(error: unknown): boolean {
+        const status = (error as { status?: number } | null)?.status;
+        return status === undefined || status === 429 || status >= 500;
+    }
+
+    /**
+     * Extract error message from Twilio error
+     */
+    describeError(error: unknown): string {
+        if (error && typeof error === 'object') {
+            const twilioError = error as { code?: number; message?: string; moreInfo?: string };
+            if (twilioError.code && twilioError.message) {
+                return `Twilio Error ${twilioError.code}: ${twilioError.message}`;
+            }
+        }
+        return error instanceof Error ? error.message : 'Unknown Twilio error';
+    }
+
+    /**
+     * Get delivery status from Twilio
+     */
+    async getStatus(messageId: string): Promise<string> {
+        if (!this.client) {
+            return 'unknown';
+        }
+
+        try {
+            const message = await this.client.messages(messageId).fetch();
+            return message.status;
+        } catch {
+            return 'unknown';
+        }
+    }
+}
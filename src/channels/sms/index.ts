@@ -0,0 +1,29 @@
+/**
+ * Banking Notification Service - SMS Providers
+ */
+
+import { config } from '../../config/config';
+import { SmsProvider } from './SmsProvider';
+import { TwilioSmsProvider } from './TwilioSmsProvider';
+import { HttpSmsGatewayProvider } from './HttpSmsGatewayProvider';
+
+export * from './SmsProvider';
+export * from './segments';
+export { TwilioSmsProvider } from './TwilioSmsProvider';
+export { HttpSmsGatewayProvider, SmsGatewayError } from './HttpSmsGatewayProvider';
+
+/**
+ * Create providers in the failover order given by SMS_PROVIDERS
+ */
+export function createSmsProviders(names: string[] = config.sms.providers): SmsProvider[] {
+    return names.map((name) => {
+        switch (name) {
+            case 'twilio':
+                return new TwilioSmsProvider();
+            case 'http_gateway':
+                return new HttpSmsGatewayProvider();
+            default:
+                throw new Error(`Unknown SMS provider: ${name}`);
+        }
+    });
+}
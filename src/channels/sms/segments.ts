@@ -0,0 +1,113 @@
+/**
+ * Banking Notification Service - SMS Encoding and Segments
+ *
+ * Messages that fit the GSM 03.38 alphabet are sent as GSM-7 (160
+ * characters, or 153 per part when concatenated); anything else is sent
+ * as UCS-2 (70, or 67 per part). Carriers bill per segment.
+ */
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentInfo {
+    encoding: SmsEncoding;
+    units: number; // Septets for GSM-7, UTF-16 code units for UCS-2
+    segments: number;
+}
+
+const GSM_BASIC = new Set(
+    '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+
+// Extension table characters take an escape plus the character
+const GSM_EXTENDED = new Set('^{}\\[~]|€\f');
+
+const SEGMENT_UNITS: Record<SmsEncoding, { single: number; multipart: number }> = {
+    'GSM-7': { single: 160, multipart: 153 },
+    'UCS-2': { single: 70, multipart: 67 },
+};
+
+const TRUNCATION_MARK = '...';
+
+/**
+ * Pick the encoding a message will be sent in
+ */
+export function detectSmsEncoding(text: string): SmsEncoding {
+    for (const char of text) {
+        if (!GSM_BASIC.has(char) && !GSM_EXTENDED.has(char)) {
+            return 'UCS-2';
+        }
+    }
+    return 'GSM-7';
+}
+
+/**
+ * Units one character takes; escapes and surrogate pairs are never split across segments
+ */
+function charUnits(char: string, encoding: SmsEncoding): number {
+    if (encoding === 'UCS-2') return char.length;
+    return GSM_EXTENDED.has(char) ? 2 : 1;
+}
+
+/**
+ * Work out the encoding, size and number of segments for a message
+ */
+export function countSmsSegments(text: string): SmsSegmentInfo {
+    const encoding = detectSmsEncoding(text);
+    const { single, multipart } = SEGMENT_UNITS[encoding];
+    const chars = Array.from(text);
+    const units = chars.reduce((sum, char) => sum + charUnits(char, encoding), 0);
+
+    if (units <= single) {
+        return { encoding, units, segments: 1 };
+    }
+
+    let segments = 1;
+    let used = 0;
+    for (const char of chars) {
+        const size = charUnits(char, encoding);
+        if (used + size > multipart) {
+            segments++;
+            used = 0;
+        }
+        used += size;
+    }
+
+    return { encoding, units, segments };
+}
+
+/**
+ * Shorten text so that text + suffix fits in maxSegments. The cut is made
+ * at a word boundary when one is close, and marked with "...".
+ */
+export function truncateToSegments(text: string, suffix: string, maxSegments: number): string {
+    if (countSmsSegments(text + suffix).segments <= maxSegments) {
+        return text;
+    }
+
+    const chars = Array.from(text);
+    const fits = (length: number): boolean =>
+        countSmsSegments(chars.slice(0, length).join('') + TRUNCATION_MARK + suffix).segments <= maxSegments;
+
+    // Longest prefix that fits
+    let low = 0;
+    let high = chars.length;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (fits(mid)) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    let cut = chars.slice(0, low).join('');
+
+    // Prefer not to cut a word in half if that loses little
+    const lastSpace = cut.search(/\s\S*$/);
+    if (lastSpace > 0 && lastSpace >= cut.length * 0.8) {
+        cut = cut.slice(0, lastSpace);
+    }
+
+    return cut.replace(/[\s.,;:!?-]+$/, '') + TRUNCATION_MARK;
+}
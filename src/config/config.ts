@@ -92,14 +92,54 @@ export const config = {
         phoneNumber: process.env['TWILIO_PHONE_NUMBER'] ?? '',
         enabled: optionalEnvBool('TWILIO_ENABLED', false),
         statusCallbackUrl: process.env['TWILIO_STATUS_CALLBACK_URL'],
+        // Public origin Twilio calls (e.g. https://notify.banking.example.com); signatures
+        // cover the full URL, so set this when a proxy rewrites the host or scheme
+        webhookBaseUrl: process.env['TWILIO_WEBHOOK_BASE_URL'],
+    },
+
+    // SMS failover
+    sms: {
+        // Providers tried in order; the next is used on timeouts and provider-side errors
+        providers: optionalEnv('SMS_PROVIDERS', 'twilio').split(',').map((p) => p.trim()).filter(Boolean),
+        providerTimeoutMs: optionalEnvInt('SMS_PROVIDER_TIMEOUT_MS', 5000),
+        // What a STOP reply turns off: 'sms' (the SMS channel) or 'all' (do-not-contact)
+        stopScope: optionalEnv('SMS_STOP_SCOPE', 'sms') === 'all' ? 'all' as const : 'sms' as const,
+        supportContact: optionalEnv('SMS_SUPPORT_CONTACT', 'banking.example.com/help'), // Quoted in HELP replies
+        confirmationTtlMs: optionalEnvInt('SMS_CONFIRMATION_TTL_MS', 3600000), // How long a YES/NO reply is accepted
+    },
+
+    // Generic HTTP SMS gateway (fallback provider)
+    smsGateway: {
+        enabled: optionalEnvBool('SMS_GATEWAY_ENABLED', false),
+        url: process.env['SMS_GATEWAY_URL'] ?? '',
+        apiKey: process.env['SMS_GATEWAY_API_KEY'] ?? '',
+        senderId: optionalEnv('SMS_GATEWAY_SENDER_ID', 'BANKING'),
+    },
+
+    // Email (provider-independent settings)
+    email: {
+        provider: optionalEnv('EMAIL_PROVIDER', 'sendgrid'), // 'sendgrid' or 'smtp'
+        // SENDGRID_FROM_* are still read for existing deployments
+        fromEmail: optionalEnv('EMAIL_FROM_ADDRESS', optionalEnv('SENDGRID_FROM_EMAIL', 'notifications@banking.example.com')),
+        fromName: optionalEnv('EMAIL_FROM_NAME', optionalEnv('SENDGRID_FROM_NAME', 'Banking App')),
+        // Public URL of this service, used for unsubscribe links
+        publicBaseUrl: optionalEnv('PUBLIC_BASE_URL', 'http://localhost:3003'),
+        unsubscribeTokenTtlDays: optionalEnvInt('EMAIL_UNSUBSCRIBE_TOKEN_TTL_DAYS', 60),
+        // Layout of emails rendered in-repo (no hosted template)
+        brand: {
+            name: optionalEnv('EMAIL_BRAND_NAME', 'Banking App'),
+            logoUrl: optionalEnv('EMAIL_BRAND_LOGO_URL', ''),
+            primaryColor: optionalEnv('EMAIL_BRAND_COLOR', '#0066cc'),
+            preferencesUrl: optionalEnv('EMAIL_PREFERENCES_URL', ''),
+        },
     },
 
     // SendGrid (Email)
     sendgrid: {
         apiKey: process.env['SENDGRID_API_KEY'] ?? '',
-        fromEmail: optionalEnv('SENDGRID_FROM_EMAIL', 'notifications@banking.example.com'),
-        fromName: optionalEnv('SENDGRID_FROM_NAME', 'Banking App'),
         enabled: optionalEnvBool('SENDGRID_ENABLED', false),
+        // Verification key from the signed Event Webhook settings (base64 DER, ECDSA P-256)
+        eventWebhookPublicKey: process.env['SENDGRID_EVENT_WEBHOOK_PUBLIC_KEY'] ?? '',
         templates: {
             transactionComplete: optionalEnv('SENDGRID_TEMPLATE_TRANSACTION', ''),
             securityAlert: optionalEnv('SENDGRID_TEMPLATE_SECURITY', ''),
@@ -108,6 +148,18 @@ export const config = {
         },
     },
 
+    // SMTP (Email, for local and on-prem environments)
+    smtp: {
+        enabled: optionalEnvBool('SMTP_ENABLED', false),
+        host: optionalEnv('SMTP_HOST', 'localhost'),
+        port: optionalEnvInt('SMTP_PORT', 587),
+        secure: optionalEnvBool('SMTP_SECURE', false), // Implicit TLS, usually port 465
+        requireTls: optionalEnvBool('SMTP_REQUIRE_TLS', true), // Refuse to send if STARTTLS is unavailable
+        tlsRejectUnauthorized: optionalEnvBool('SMTP_TLS_REJECT_UNAUTHORIZED', true),
+        user: process.env['SMTP_USER'] ?? '',
+        password: process.env['SMTP_PASSWORD'] ?? '',
+    },
+
     // Firebase (Push Notifications)
     firebase: {
         projectId: process.env['FIREBASE_PROJECT_ID'] ?? '',
@@ -121,10 +173,19 @@ export const config = {
         apiKey: process.env['WEBSOCKET_GATEWAY_API_KEY'] ?? '',
     },
 
+    // Outbound webhooks
+    webhook: {
+        enabled: optionalEnvBool('WEBHOOK_ENABLED', true),
+        timeoutMs: optionalEnvInt('WEBHOOK_TIMEOUT_MS', 10000),
+        maxEndpointsPerUser: optionalEnvInt('WEBHOOK_MAX_ENDPOINTS', 5),
+        maxConsecutiveFailures: optionalEnvInt('WEBHOOK_MAX_CONSECUTIVE_FAILURES', 15), // Endpoint is disabled after this many
+    },
+
     // Security
     security: {
         fieldEncryptionKey: requireEnv('FIELD_ENCRYPTION_KEY'),
         apiKeyHeader: optionalEnv('API_KEY_HEADER', 'X-API-Key'),
+        callerIdHeader: optionalEnv('CALLER_ID_HEADER', 'X-Service-Name'), // Scopes Idempotency-Key per calling service
         internalApiKey: process.env['INTERNAL_API_KEY'] ?? '',
         jwtSecret: process.env['JWT_SECRET'] ?? '',
     },
@@ -155,6 +216,26 @@ export const config = {
         retryMaxDelayMs: optionalEnvInt('RETRY_MAX_DELAY_MS', 3600000), // 1 hour
         digestEnabled: optionalEnvBool('DIGEST_ENABLED', true),
         digestCheckIntervalMs: optionalEnvInt('DIGEST_CHECK_INTERVAL_MS', 60000),
+        quietHoursReleaseIntervalMs: optionalEnvInt('QUIET_HOURS_RELEASE_INTERVAL_MS', 60000),
+        quietHoursReleaseMaxAttempts: optionalEnvInt('QUIET_HOURS_RELEASE_MAX_ATTEMPTS', 3),
+        quietHoursReleaseRetryDelayMs: optionalEnvInt('QUIET_HOURS_RELEASE_RETRY_DELAY_MS', 60000), // Doubles per failed attempt
+        scheduledDispatchIntervalMs: optionalEnvInt('SCHEDULED_DISPATCH_INTERVAL_MS', 30000),
+        scheduledMaxAttempts: optionalEnvInt('SCHEDULED_MAX_ATTEMPTS', 3),
+        scheduledRetryDelayMs: optionalEnvInt('SCHEDULED_RETRY_DELAY_MS', 60000), // Doubles per failed attempt
+        idempotencyWindowMs: optionalEnvInt('IDEMPOTENCY_WINDOW_MS', 86400000), // 24 hours
+        templateCacheTtlMs: optionalEnvInt('TEMPLATE_CACHE_TTL_MS', 60000),
+        pushTokenCleanupIntervalMs: optionalEnvInt('PUSH_TOKEN_CLEANUP_INTERVAL_MS', 21600000), // 6 hours
+        pushTokenValidateAfterDays: optionalEnvInt('PUSH_TOKEN_VALIDATE_AFTER_DAYS', 30), // Re-check tokens idle this long
+        pushDeviceMaxInactiveDays: optionalEnvInt('PUSH_DEVICE_MAX_INACTIVE_DAYS', 270), // Remove devices idle this long
+    },
+
+    // One-time codes (see OtpService)
+    otp: {
+        length: optionalEnvInt('OTP_LENGTH', 6),
+        ttlSeconds: optionalEnvInt('OTP_TTL_SECONDS', 300),
+        maxAttempts: optionalEnvInt('OTP_MAX_ATTEMPTS', 5), // Wrong codes before the code is discarded
+        maxResends: optionalEnvInt('OTP_MAX_RESENDS', 3),
+        resendCooldownSeconds: optionalEnvInt('OTP_RESEND_COOLDOWN_SECONDS', 30),
     },
 
     // Logging
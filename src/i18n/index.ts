@@ -0,0 +1,55 @@
+/**
+ * Banking Notification Service - Localization
+ *
+ * Looks up catalog messages through the locale fallback chain
+ * (es-MX -> es -> en) and renders them for the recipient.
+ */
+
+import { renderTemplate } from '../utils/template';
+import { getLocaleFallbackChain, resolveTimeZone } from '../utils/locale';
+import { MESSAGES } from './messages';
+
+export { MESSAGES, MessageCatalog } from './messages';
+
+export interface LocalizedMessage {
+    title: string;
+    message: string;
+}
+
+/**
+ * Translate a catalog key. Returns null for unknown keys.
+ */
+export function translate(
+    key: string,
+    locale?: string,
+    variables: Record<string, unknown> = {},
+    timeZone?: string
+): string | null {
+    const entry = MESSAGES[key];
+    if (!entry) return null;
+
+    const chain = getLocaleFallbackChain(locale);
+    const resolvedLocale = chain.find((l) => entry[l] !== undefined);
+    if (!resolvedLocale) return null;
+
+    return renderTemplate(entry[resolvedLocale]!, variables, {
+        locale: chain[0],
+        timeZone: resolveTimeZone(timeZone),
+    });
+}
+
+/**
+ * Get the localized title and message for a notification message key
+ */
+export function localizeMessage(
+    messageKey: string,
+    variables: Record<string, unknown>,
+    locale?: string,
+    timeZone?: string
+): LocalizedMessage | null {
+    const title = translate(`${messageKey}.title`, locale, variables, timeZone);
+    const message = translate(`${messageKey}.message`, locale, variables, timeZone);
+
+    if (title === null || message === null) return null;
+    return { title, message };
+}
@@ -0,0 +1,393 @@
+/**
+ * Banking Notification Service - Message Catalog
+ *
+ * Built-in notification wording per locale. Entries are templates
+ * (see utils/template.ts) so amounts and dates are formatted for the
+ * recipient. Every key must have an 'en' entry, the final fallback.
+ */
+
+export type MessageCatalog = Record<string, Record<string, string>>;
+
+export const MESSAGES: MessageCatalog = {
+    // ==================== Security ====================
+
+    'login_success.title': {
+        en: 'New Login Detected',
+        es: 'Nuevo inicio de sesión detectado',
+        fr: 'Nouvelle connexion détectée',
+    },
+    'login_success.message': {
+        en: 'A new login was detected from {{deviceInfo | default:"unknown device"}}',
+        es: 'Se detectó un nuevo inicio de sesión desde {{deviceInfo | default:"un dispositivo desconocido"}}',
+        fr: 'Une nouvelle connexion a été détectée depuis {{deviceInfo | default:"un appareil inconnu"}}',
+    },
+    'login_failed.title': {
+        en: 'Failed Login Attempt',
+        es: 'Intento de inicio de sesión fallido',
+        fr: 'Tentative de connexion échouée',
+    },
+    'login_failed.message': {
+        en: 'Someone attempted to log into your account with incorrect credentials',
+        es: 'Alguien intentó iniciar sesión en su cuenta con credenciales incorrectas',
+        fr: 'Quelqu\'un a tenté de se connecter à votre compte avec des identifiants incorrects',
+    },
+    'account_locked.title': {
+        en: 'Account Locked',
+        es: 'Cuenta bloqueada',
+        fr: 'Compte verrouillé',
+    },
+    'account_locked.message': {
+        en: 'Your account has been locked due to multiple failed login attempts',
+        es: 'Su cuenta ha sido bloqueada debido a varios intentos fallidos de inicio de sesión',
+        fr: 'Votre compte a été verrouillé suite à plusieurs tentatives de connexion échouées',
+    },
+    'password_changed.title': {
+        en: 'Password Changed',
+        es: 'Contraseña cambiada',
+        fr: 'Mot de passe modifié',
+    },
+    'password_changed.message': {
+        en: 'Your account password was successfully changed',
+        es: 'La contraseña de su cuenta se cambió correctamente',
+        fr: 'Le mot de passe de votre compte a été modifié avec succès',
+    },
+    'new_device_added.title': {
+        en: 'New Device Added',
+        es: 'Nuevo dispositivo agregado',
+        fr: 'Nouvel appareil ajouté',
+    },
+    'new_device_added.message': {
+        en: 'A new device "{{deviceName | default:"Unknown"}}" was added to your account',
+        es: 'Se agregó un nuevo dispositivo "{{deviceName | default:"Desconocido"}}" a su cuenta',
+        fr: 'Un nouvel appareil « {{deviceName | default:"Inconnu"}} » a été ajouté à votre compte',
+    },
+    'suspicious_activity.title': {
+        en: 'Suspicious Activity Detected',
+        es: 'Actividad sospechosa detectada',
+        fr: 'Activité suspecte détectée',
+    },
+    'suspicious_activity.message': {
+        en: 'We detected unusual activity on your account. Please review immediately.',
+        es: 'Detectamos actividad inusual en su cuenta. Revísela de inmediato.',
+        fr: 'Nous avons détecté une activité inhabituelle sur votre compte. Veuillez la vérifier immédiatement.',
+    },
+
+    // ==================== Transactions ====================
+
+    'transfer_initiated.title': {
+        en: 'Transfer Initiated',
+        es: 'Transferencia iniciada',
+        fr: 'Virement initié',
+    },
+    'transfer_initiated.message': {
+        en: 'Your transfer of {{amount | currency | default:"funds"}} to {{recipientName | default:"recipient"}} has been initiated',
+        es: 'Su transferencia de {{amount | currency | default:"fondos"}} a {{recipientName | default:"su destinatario"}} ha sido iniciada',
+        fr: 'Votre virement de {{amount | currency | default:"fonds"}} à {{recipientName | default:"votre bénéficiaire"}} a été initié',
+    },
+    'transfer_approved.title': {
+        en: 'Transfer Approved',
+        es: 'Transferencia aprobada',
+        fr: 'Virement approuvé',
+    },
+    'transfer_approved.message': {
+        en: 'Your transfer of {{amount | currency | default:"funds"}} has been approved and is processing',
+        es: 'Su transferencia de {{amount | currency | default:"fondos"}} ha sido aprobada y se está procesando',
+        fr: 'Votre virement de {{amount | currency | default:"fonds"}} a été approuvé et est en cours de traitement',
+    },
+    'transfer_completed.title': {
+        en: 'Transfer Complete',
+        es: 'Transferencia completada',
+        fr: 'Virement effectué',
+    },
+    'transfer_completed.message': {
+        en: 'Your transfer of {{amount | currency | default:"funds"}} to {{recipientName | default:"recipient"}} was successful',
+        es: 'Su transferencia de {{amount | currency | default:"fondos"}} a {{recipientName | default:"su destinatario"}} se realizó con éxito',
+        fr: 'Votre virement de {{amount | currency | default:"fonds"}} à {{recipientName | default:"votre bénéficiaire"}} a réussi',
+    },
+    'transfer_rejected.title': {
+        en: 'Transfer Rejected',
+        es: 'Transferencia rechazada',
+        fr: 'Virement refusé',
+    },
+    'transfer_rejected.message': {
+        en: 'Your transfer of {{amount | currency | default:"funds"}} was not approved. {{reason | default:"Please contact support."}}',
+        es: 'Su transferencia de {{amount | currency | default:"fondos"}} no fue aprobada. {{reason | default:"Comuníquese con soporte."}}',
+        fr: 'Votre virement de {{amount | currency | default:"fonds"}} n\'a pas été approuvé. {{reason | default:"Veuillez contacter le support."}}',
+    },
+    'transfer_failed.title': {
+        en: 'Transfer Failed',
+        es: 'Transferencia fallida',
+        fr: 'Échec du virement',
+    },
+    'transfer_failed.message': {
+        en: 'Your transfer could not be completed due to a technical issue. Please try again.',
+        es: 'Su transferencia no pudo completarse debido a un problema técnico. Inténtelo de nuevo.',
+        fr: 'Votre virement n\'a pas pu être effectué en raison d\'un problème technique. Veuillez réessayer.',
+    },
+    'large_transaction.title': {
+        en: 'Large Transaction Alert',
+        es: 'Alerta de transacción importante',
+        fr: 'Alerte de transaction importante',
+    },
+    'large_transaction.message': {
+        en: 'A large transaction of {{amount | currency | default:"significant funds"}} was processed on your account',
+        es: 'Se procesó una transacción importante de {{amount | currency | default:"fondos significativos"}} en su cuenta',
+        fr: 'Une transaction importante de {{amount | currency | default:"fonds importants"}} a été traitée sur votre compte',
+    },
+
+    // ==================== Fraud ====================
+
+    'fraud_detected.title': {
+        en: 'Fraud Alert',
+        es: 'Alerta de fraude',
+        fr: 'Alerte de fraude',
+    },
+    'fraud_detected.message': {
+        en: 'We detected potentially fraudulent activity on your account. Please verify recent transactions.',
+        es: 'Detectamos actividad potencialmente fraudulenta en su cuenta. Verifique sus transacciones recientes.',
+        fr: 'Nous avons détecté une activité potentiellement frauduleuse sur votre compte. Veuillez vérifier vos transactions récentes.',
+    },
+    'fraud_detected.action.confirm': {
+        en: 'This was me',
+        es: 'Fui yo',
+        fr: 'C\'était moi',
+    },
+    'fraud_detected.action.report': {
+        en: 'This wasn\'t me',
+        es: 'No fui yo',
+        fr: 'Ce n\'était pas moi',
+    },
+    'fraud_resolved.title': {
+        en: 'Fraud Alert Resolved',
+        es: 'Alerta de fraude resuelta',
+        fr: 'Alerte de fraude résolue',
+    },
+    'fraud_resolved.message': {
+        en: 'The fraud alert on your account has been resolved.',
+        es: 'La alerta de fraude en su cuenta ha sido resuelta.',
+        fr: 'L\'alerte de fraude sur votre compte a été résolue.',
+    },
+
+    // ==================== User ====================
+
+    'user_registered.title': {
+        en: 'Welcome to Banking App',
+        es: 'Bienvenido a Banking App',
+        fr: 'Bienvenue sur Banking App',
+    },
+    'user_registered.message': {
+        en: 'Your account has been created successfully. Please complete your profile.',
+        es: 'Su cuenta se creó correctamente. Complete su perfil.',
+        fr: 'Votre compte a été créé avec succès. Veuillez compléter votre profil.',
+    },
+    'kyc_required.title': {
+        en: 'Verification Required',
+        es: 'Verificación requerida',
+        fr: 'Vérification requise',
+    },
+    'kyc_required.message': {
+        en: 'Please complete identity verification to access all features.',
+        es: 'Complete la verificación de identidad para acceder a todas las funciones.',
+        fr: 'Veuillez compléter la vérification d\'identité pour accéder à toutes les fonctionnalités.',
+    },
+    'kyc_expired.title': {
+        en: 'Verification Expired',
+        es: 'Verificación vencida',
+        fr: 'Vérification expirée',
+    },
+    'kyc_expired.message': {
+        en: 'Your identity verification has expired. Please re-verify to continue using your account.',
+        es: 'Su verificación de identidad ha vencido. Vuelva a verificarla para seguir usando su cuenta.',
+        fr: 'Votre vérification d\'identité a expiré. Veuillez vous vérifier à nouveau pour continuer à utiliser votre compte.',
+    },
+
+    // ==================== Channel Footers ====================
+
+    'sms.unsubscribe_footer': {
+        en: 'Reply STOP to unsubscribe.',
+        es: 'Responda STOP para cancelar.',
+        fr: 'Répondez STOP pour vous désabonner.',
+    },
+    'sms.confirmation_prompt': {
+        en: 'Reply YES if this was you, NO to block.',
+        es: 'Responda SI si fue usted, NO para bloquear.',
+        fr: 'Répondez OUI si c\'était vous, NON pour bloquer.',
+    },
+    'sms.confirmation_confirmed': {
+        en: 'Thank you for confirming. No further action is needed.',
+        es: 'Gracias por confirmar. No necesita hacer nada más.',
+        fr: 'Merci de votre confirmation. Aucune autre action n\'est requise.',
+    },
+    'sms.confirmation_denied': {
+        en: 'Thank you. We are blocking this activity and will contact you shortly.',
+        es: 'Gracias. Estamos bloqueando esta actividad y nos pondremos en contacto con usted pronto.',
+        fr: 'Merci. Nous bloquons cette activité et vous contacterons rapidement.',
+    },
+    'sms.confirmation_unclear': {
+        en: 'Sorry, we did not understand. Reply YES if this was you, NO to block.',
+        es: 'No entendimos su respuesta. Responda SI si fue usted, NO para bloquear.',
+        fr: 'Nous n\'avons pas compris. Répondez OUI si c\'était vous, NON pour bloquer.',
+    },
+    'sms.confirmation_expired': {
+        en: 'This request has expired. If you do not recognize this activity, contact us at {{supportContact}}.',
+        es: 'Esta solicitud ha vencido. Si no reconoce esta actividad, contáctenos en {{supportContact}}.',
+        fr: 'Cette demande a expiré. Si vous ne reconnaissez pas cette activité, contactez-nous : {{supportContact}}.',
+    },
+    'sms.help_reply': {
+        en: 'Account alerts from your bank. For help visit {{supportContact}}. Reply STOP to unsubscribe, START to resubscribe.',
+        es: 'Alertas de cuenta de su banco. Para ayuda visite {{supportContact}}. Responda STOP para cancelar, START para volver a suscribirse.',
+        fr: 'Alertes de compte de votre banque. Aide : {{supportContact}}. Répondez STOP pour vous désabonner, START pour vous réabonner.',
+    },
+
+    // ==================== One-Time Codes ====================
+
+    'otp.sms': {
+        en: '{{code}} is your verification code. It expires in {{minutes}} minutes. Never share this code; we will never ask you for it.',
+        es: '{{code}} es su código de verificación. Vence en {{minutes}} minutos. No comparta este código; nunca se lo pediremos.',
+        fr: '{{code}} est votre code de vérification. Il expire dans {{minutes}} minutes. Ne le partagez jamais ; nous ne vous le demanderons jamais.',
+    },
+    'otp.email.subject': {
+        en: 'Your verification code',
+        es: 'Su código de verificación',
+        fr: 'Votre code de vérification',
+    },
+    'otp.email.body': {
+        en: 'Your verification code is {{code}}.\n\nIt expires in {{minutes}} minutes. If you did not request this code, you can ignore this email. Never share this code; we will never ask you for it.',
+        es: 'Su código de verificación es {{code}}.\n\nVence en {{minutes}} minutos. Si no solicitó este código, puede ignorar este correo. No comparta este código; nunca se lo pediremos.',
+        fr: 'Votre code de vérification est {{code}}.\n\nIl expire dans {{minutes}} minutes. Si vous n\'avez pas demandé ce code, ignorez cet e-mail. Ne le partagez jamais ; nous ne vous le demanderons jamais.',
+    },
+    'otp.push.title': {
+        en: 'Verification code',
+        es: 'Código de verificación',
+        fr: 'Code de vérification',
+    },
+    'otp.push.body': {
+        en: 'Your code is {{code}}. It expires in {{minutes}} minutes.',
+        es: 'Su código es {{code}}. Vence en {{minutes}} minutos.',
+        fr: 'Votre code est {{code}}. Il expire dans {{minutes}} minutes.',
+    },
+
+    // ==================== Contact Changes ====================
+
+    'contact_changed.sms': {
+        en: 'Security notice: the phone number on your account was changed to {{contact}}. If you did not make this change, contact us at {{supportContact}}.',
+        es: 'Aviso de seguridad: el número de teléfono de su cuenta se cambió a {{contact}}. Si no realizó este cambio, contáctenos en {{supportContact}}.',
+        fr: 'Avis de sécurité : le numéro de téléphone de votre compte a été remplacé par {{contact}}. Si vous n\'êtes pas à l\'origine de ce changement, contactez-nous : {{supportContact}}.',
+    },
+    'contact_changed.email.subject': {
+        en: 'Your email address was changed',
+        es: 'Se cambió su dirección de correo electrónico',
+        fr: 'Votre adresse e-mail a été modifiée',
+    },
+    'contact_changed.email.body': {
+        en: 'The email address on your account was changed to {{contact}}. We will no longer send account emails to this address.\n\nIf you did not make this change, contact us at {{supportContact}} right away.',
+        es: 'La dirección de correo electrónico de su cuenta se cambió a {{contact}}. Ya no enviaremos correos de la cuenta a esta dirección.\n\nSi no realizó este cambio, contáctenos de inmediato en {{supportContact}}.',
+        fr: 'L\'adresse e-mail de votre compte a été remplacée par {{contact}}. Nous n\'enverrons plus d\'e-mails concernant votre compte à cette adresse.\n\nSi vous n\'êtes pas à l\'origine de ce changement, contactez-nous immédiatement : {{supportContact}}.',
+    },
+
+    // ==================== Email Unsubscribe ====================
+
+    'unsubscribe.title': {
+        en: 'Unsubscribe',
+        es: 'Cancelar suscripción',
+        fr: 'Se désabonner',
+    },
+    'unsubscribe.confirm_prompt': {
+        en: 'Stop receiving {{category}} by email?',
+        es: '¿Dejar de recibir {{category}} por correo electrónico?',
+        fr: 'Ne plus recevoir {{category}} par e-mail ?',
+    },
+    'unsubscribe.button': {
+        en: 'Unsubscribe',
+        es: 'Cancelar suscripción',
+        fr: 'Se désabonner',
+    },
+    'unsubscribe.done': {
+        en: 'You will no longer receive {{category}} by email. You can change this at any time in your notification settings.',
+        es: 'Ya no recibirá {{category}} por correo electrónico. Puede cambiarlo en cualquier momento en la configuración de notificaciones.',
+        fr: 'Vous ne recevrez plus {{category}} par e-mail. Vous pouvez modifier ce choix à tout moment dans vos paramètres de notification.',
+    },
+    'unsubscribe.invalid': {
+        en: 'This unsubscribe link is invalid or has expired. You can manage your notifications in your account settings.',
+        es: 'Este enlace para cancelar la suscripción no es válido o ha vencido. Puede administrar sus notificaciones en la configuración de su cuenta.',
+        fr: 'Ce lien de désabonnement est invalide ou a expiré. Vous pouvez gérer vos notifications dans les paramètres de votre compte.',
+    },
+    'unsubscribe.category.all': {
+        en: 'any notifications',
+        es: 'ninguna notificación',
+        fr: 'aucune notification',
+    },
+    'unsubscribe.category.digest': {
+        en: 'notification summaries',
+        es: 'resúmenes de notificaciones',
+        fr: 'les résumés de notifications',
+    },
+    'unsubscribe.category.promotional_offer': {
+        en: 'offers and promotions',
+        es: 'ofertas y promociones',
+        fr: 'les offres et promotions',
+    },
+    'unsubscribe.category.default': {
+        en: 'these emails',
+        es: 'estos correos',
+        fr: 'ces e-mails',
+    },
+
+    // ==================== Email Layout ====================
+
+    'email.footer.legal': {
+        en: 'You are receiving this email because you have an account with {{brandName}}. This is an automated message; please do not reply.',
+        es: 'Recibe este correo porque tiene una cuenta en {{brandName}}. Este es un mensaje automático; no responda.',
+        fr: 'Vous recevez cet e-mail car vous avez un compte chez {{brandName}}. Ceci est un message automatique ; merci de ne pas y répondre.',
+    },
+    'email.footer.unsubscribe': {
+        en: 'Unsubscribe',
+        es: 'Cancelar suscripción',
+        fr: 'Se désabonner',
+    },
+    'email.footer.preferences': {
+        en: 'Manage preferences',
+        es: 'Administrar preferencias',
+        fr: 'Gérer les préférences',
+    },
+    'email.security_note': {
+        en: 'If this wasn\'t you, contact us right away at {{supportContact}}.',
+        es: 'Si no fue usted, contáctenos de inmediato en {{supportContact}}.',
+        fr: 'Si ce n\'était pas vous, contactez-nous immédiatement : {{supportContact}}.',
+    },
+    'email.detail.amount': {
+        en: 'Amount',
+        es: 'Importe',
+        fr: 'Montant',
+    },
+    'email.detail.recipient': {
+        en: 'Recipient',
+        es: 'Destinatario',
+        fr: 'Bénéficiaire',
+    },
+    'email.detail.reference': {
+        en: 'Reference',
+        es: 'Referencia',
+        fr: 'Référence',
+    },
+    'email.digest.heading.hourly': {
+        en: 'Your hourly Banking Summary',
+        es: 'Su resumen bancario de la última hora',
+        fr: 'Votre résumé bancaire horaire',
+    },
+    'email.digest.heading.daily': {
+        en: 'Your daily Banking Summary',
+        es: 'Su resumen bancario diario',
+        fr: 'Votre résumé bancaire quotidien',
+    },
+    'email.digest.heading.weekly': {
+        en: 'Your weekly Banking Summary',
+        es: 'Su resumen bancario semanal',
+        fr: 'Votre résumé bancaire hebdomadaire',
+    },
+    'email.digest.intro': {
+        en: 'Here\'s what happened with your account:',
+        es: 'Esto es lo que pasó con su cuenta:',
+        fr: 'Voici ce qui s\'est passé sur votre compte :',
+    },
+};
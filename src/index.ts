@@ -11,12 +11,27 @@ import cors from 'cors';
 import compression from 'compression';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from './config/config';
-import { initializeDatabase, closeDatabase, initializeMongoDB, closeMongoDB } from './models';
+import { initializeDatabase, closeDatabase, initializeMongoDB, closeMongoDB, UserPreferences } from './models';
 import { initializeRedis, closeRedis } from './redis/client';
-import { notificationRoutes, preferencesRoutes, adminRoutes } from './routes';
-import { errorHandler, notFoundHandler } from './middleware';
+import {
+    notificationRoutes,
+    preferencesRoutes,
+    inboxRoutes,
+    adminRoutes,
+    callbackRoutes,
+    otpRoutes,
+    unsubscribeRoutes,
+} from './routes';
+import { errorHandler, notFoundHandler, TEMPLATE_BODY_LIMIT } from './middleware';
 import { logger, createRequestLogData } from './utils/logger';
-import { kafkaEventConsumer, retryService, digestService } from './services';
+import {
+    kafkaEventConsumer,
+    retryService,
+    digestService,
+    quietHoursReleaseService,
+    scheduledNotificationService,
+    pushTokenCleanupService,
+} from './services';
 
 // Create Express app
 const app = express();
@@ -49,8 +64,8 @@ app.use(cors({
     origin: config.isProduction()
         ? process.env['ALLOWED_ORIGINS']?.split(',') ?? []
         : '*',
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Correlation-ID', 'X-API-Key', 'X-User-ID'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Correlation-ID', 'X-API-Key', 'X-User-ID', 'X-Service-Name', 'Idempotency-Key'],
     credentials: true,
     maxAge: 86400,
 }));
@@ -59,6 +74,10 @@ app.use(cors({
 app.use(compression());
 
 // Body parsing
+// SendGrid event signatures cover the raw body, and batches can be large
+app.use('/api/callbacks/sendgrid', express.raw({ type: 'application/json', limit: '5mb' }));
+// Templates carry whole HTML emails
+app.use('/api/admin/templates', express.json({ limit: TEMPLATE_BODY_LIMIT }));
 app.use(express.json({ limit: '10kb' }));
 app.use(express.urlencoded({ extended: true, limit: '10kb' }));
 
@@ -104,7 +123,13 @@ app.use((req, res, next) => {
 // API routes
 app.use('/api/notifications', notificationRoutes);
 app.use('/api/preferences', preferencesRoutes);
+app.use('/api/inbox', inboxRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/callbacks', callbackRoutes);
+app.use('/api/otp', otpRoutes);
+
+// Public pages
+app.use('/unsubscribe', unsubscribeRoutes); // Links in marketing and digest emails
 
 // Health check endpoint
 app.get('/health', (_req, res) => {
@@ -160,6 +185,9 @@ async function shutdown(signal: string): Promise<void> {
             // Stop background services
             await retryService.stop();
             await digestService.stop();
+            await quietHoursReleaseService.stop();
+            await scheduledNotificationService.stop();
+            await pushTokenCleanupService.stop();
 
             // Close database connections
             await closeDatabase();
@@ -194,12 +222,22 @@ async function start(): Promise<void> {
         await initializeMongoDB();
         await initializeRedis();
 
+        // Numbers stored before the lookup hash existed cannot be matched to inbound SMS
+        UserPreferences.backfillPhoneNumberHashes()
+            .then((count) => {
+                if (count > 0) logger.info('Backfilled phone number hashes', { count });
+            })
+            .catch((error) => logger.error('Phone number hash backfill failed', { error }));
+
         // Start Kafka consumer
         await kafkaEventConsumer.start();
 
         // Start background services
         await retryService.start();
         await digestService.start();
+        await quietHoursReleaseService.start();
+        await scheduledNotificationService.start();
+        await pushTokenCleanupService.start();
 
         // Start HTTP server
         server = app.listen(config.port, config.host, () => {
@@ -17,6 +17,7 @@ export type NotificationEventType =
     | 'notification.delivered'
     | 'notification.failed'
     | 'notification.read'
+    | 'notification.response'
     | 'notification.retry.scheduled'
     | 'notification.dlq.moved';
 
@@ -158,6 +159,25 @@ export class NotificationEventPublisher {
         });
     }
 
+    /**
+     * Publish the user's reply to a notification that asked for one
+     * (e.g. YES/NO to a fraud alert SMS)
+     */
+    async publishNotificationResponse(response: {
+        notificationId: string;
+        userId: string;
+        eventType: string;
+        eventSourceId: string | null;
+        channel: string;
+        response: string;
+        respondedAt: Date;
+    }): Promise<void> {
+        await this.publish('notification.response', {
+            ...response,
+            respondedAt: response.respondedAt.toISOString(),
+        });
+    }
+
     /**
      * Publish a notification event
      */
@@ -6,6 +6,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import Twilio from 'twilio';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
 import { ApiError } from './errorHandler';
@@ -47,6 +48,108 @@ export function authenticateInternalApi(
     next();
 }
 
+/**
+ * Authenticate Twilio webhooks using the X-Twilio-Signature header
+ * (HMAC-SHA1 of the full URL and sorted form parameters, keyed by the auth token)
+ */
+export function authenticateTwilioWebhook(
+    req: Request,
+    _res: Response,
+    next: NextFunction
+): void {
+    const signature = req.headers['x-twilio-signature'] as string;
+
+    if (!signature) {
+        throw ApiError.unauthorized('Twilio signature required');
+    }
+
+    if (!config.twilio.authToken) {
+        logger.error('Twilio webhook received but TWILIO_AUTH_TOKEN is not configured');
+        throw ApiError.unauthorized('Twilio webhooks not configured');
+    }
+
+    const baseUrl = config.twilio.webhookBaseUrl ?? `${req.protocol}://${req.get('host')}`;
+    const url = `${baseUrl.replace(/\/$/, '')}${req.originalUrl}`;
+
+    if (!Twilio.validateRequest(config.twilio.authToken, signature, url, req.body ?? {})) {
+        logger.warn('Invalid Twilio signature', {
+            ip: req.ip,
+            path: req.path,
+        });
+        throw ApiError.unauthorized('Invalid Twilio signature');
+    }
+
+    next();
+}
+
+// Signed SendGrid timestamps further than this from now are rejected as replays
+const SENDGRID_TIMESTAMP_TOLERANCE_SECONDS = 300;
+
+/**
+ * Authenticate SendGrid signed event webhooks: an ECDSA (SHA-256) signature
+ * over the timestamp header followed by the raw request body, signed within
+ * the last few minutes.
+ * Requires the body to be left unparsed (see express.raw in index.ts).
+ */
+export function authenticateSendGridWebhook(
+    req: Request,
+    _res: Response,
+    next: NextFunction
+): void {
+    const signature = req.headers['x-twilio-email-event-webhook-signature'] as string;
+    const timestamp = req.headers['x-twilio-email-event-webhook-timestamp'] as string;
+
+    if (!signature || !timestamp) {
+        throw ApiError.unauthorized('SendGrid signature required');
+    }
+
+    if (!config.sendgrid.eventWebhookPublicKey) {
+        logger.error('SendGrid event webhook received but SENDGRID_EVENT_WEBHOOK_PUBLIC_KEY is not configured');
+        throw ApiError.unauthorized('SendGrid event webhook not configured');
+    }
+
+    const body: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    let valid = false;
+
+    try {
+        const publicKey = crypto.createPublicKey({
+            key: Buffer.from(config.sendgrid.eventWebhookPublicKey, 'base64'),
+            format: 'der',
+            type: 'spki',
+        });
+        valid = crypto.verify(
+            'sha256',
+            Buffer.concat([Buffer.from(timestamp), body]),
+            publicKey,
+            Buffer.from(signature, 'base64')
+        );
+    } catch (error) {
+        logger.warn('SendGrid signature verification error', {
+            error: error instanceof Error ? error.message : 'Unknown',
+        });
+    }
+
+    if (!valid) {
+        logger.warn('Invalid SendGrid signature', {
+            ip: req.ip,
+            path: req.path,
+        });
+        throw ApiError.unauthorized('Invalid SendGrid signature');
+    }
+
+    const skewSeconds = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (Number.isNaN(skewSeconds) || skewSeconds > SENDGRID_TIMESTAMP_TOLERANCE_SECONDS) {
+        logger.warn('Expired SendGrid signature', {
+            ip: req.ip,
+            path: req.path,
+            timestamp,
+        });
+        throw ApiError.unauthorized('SendGrid signature expired');
+    }
+
+    next();
+}
+
 /**
  * Extract user ID from JWT token or header
  * This is a simplified version - in production, validate JWT properly
@@ -0,0 +1,99 @@
+/**
+ * Banking Notification Service - Idempotency Middleware
+ *
+ * Honours the Idempotency-Key header on service-to-service calls.
+ * The first response for a caller's key is stored and replayed on
+ * repeats; reusing a key with a different body is a conflict.
+ */
+
+import * as crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { idempotencyStore } from '../redis/IdempotencyStore';
+import { ApiError } from './errorHandler';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Serialize a value with sorted object keys so equal bodies hash equally
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Hash the parts of a request that must match for a replay
+ */
+function hashRequest(req: Request): string {
+    return crypto
+        .createHash('sha256')
+        .update(`${req.method} ${req.baseUrl}${req.path}\n${stableStringify(req.body ?? {})}`)
+        .digest('hex');
+}
+
+/**
+ * Replay or record responses for requests carrying an Idempotency-Key.
+ * Requests without the header pass through unchanged.
+ */
+export function idempotency(req: Request, res: Response, next: NextFunction): void {
+    const key = req.headers[IDEMPOTENCY_HEADER] as string | undefined;
+
+    if (!key) {
+        next();
+        return;
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+        next(ApiError.badRequest(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`));
+        return;
+    }
+
+    const caller = (req.headers[config.security.callerIdHeader.toLowerCase()] as string | undefined) ?? 'default';
+    const requestHash = hashRequest(req);
+
+    idempotencyStore.begin(caller, key, requestHash)
+        .then((check) => {
+            switch (check.state) {
+                case 'replay':
+                    logger.info('Replaying idempotent response', { caller, idempotencyKey: key, path: req.path });
+                    res.setHeader('Idempotent-Replayed', 'true');
+                    res.status(check.response.statusCode).json(check.response.body);
+                    return;
+                case 'conflict':
+                    throw ApiError.conflict('Idempotency-Key was already used with a different request', {
+                        idempotencyKey: key,
+                    });
+                case 'in_progress':
+                    throw ApiError.conflict('A request with this Idempotency-Key is still in progress', {
+                        idempotencyKey: key,
+                    });
+            }
+
+            // Record the response before it is sent, so a retry that
+            // arrives right after it sees the stored result
+            const json = res.json.bind(res);
+            res.json = (body: unknown): Response => {
+                const statusCode = res.statusCode;
+                const settle = statusCode >= 500
+                    ? idempotencyStore.release(caller, key) // Let the caller retry server errors
+                    : idempotencyStore.complete(caller, key, requestHash, { statusCode, body });
+
+                settle.finally(() => json(body));
+                return res;
+            };
+
+            next();
+        })
+        .catch(next);
+}
@@ -5,7 +5,15 @@
  */
 
 export { errorHandler, notFoundHandler, asyncHandler, ApiError } from './errorHandler';
-export { authenticateInternalApi, authenticateUser, optionalAuth, requireUserId } from './authentication';
+export {
+    authenticateInternalApi,
+    authenticateUser,
+    authenticateTwilioWebhook,
+    authenticateSendGridWebhook,
+    optionalAuth,
+    requireUserId,
+} from './authentication';
+export { idempotency } from './idempotency';
 export {
     validateBody,
     validateQuery,
@@ -13,5 +21,21 @@ export {
     sendNotificationSchema,
     updatePreferencesSchema,
     registerDeviceSchema,
+    registerWebhookSchema,
+    updateWebhookSchema,
     historyQuerySchema,
+    createTemplateSchema,
+    TEMPLATE_BODY_LIMIT,
+    scheduledQuerySchema,
+    heldQuerySchema,
+    rescheduleSchema,
+    inboxQuerySchema,
+    inboxBulkSchema,
+    twilioStatusCallbackSchema,
+    twilioInboundSmsSchema,
+    sendGridEventsSchema,
+    sendGridEventSchema,
+    issueOtpSchema,
+    verifyOtpSchema,
+    confirmContactVerificationSchema,
 } from './validation';
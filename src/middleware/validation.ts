@@ -7,9 +7,39 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
 import { ApiError } from './errorHandler';
+import { WEEKDAYS, isValidTimeZone } from '../utils/timezone';
+import { LOCALE_PATTERN } from '../utils/locale';
+import { channelRegistry } from '../channels/ChannelRegistry';
+import { EVENT_TYPE_CONFIGS } from '../types';
 
 // ==================== Validation Schemas ====================
 
+// Channel names are checked against the channel registry at validation time
+const channelSchema = Joi.string().max(20).custom((value: string, helpers) =>
+    channelRegistry.has(value)
+        ? value
+        : helpers.message({ custom: `"${value}" is not a registered notification channel` })
+);
+
+// Action buttons shown with the notification (push shows at most four)
+const notificationActionSchema = Joi.object({
+    id: Joi.string().pattern(/^[A-Za-z0-9_.-]+$/).max(64).optional(),
+    label: Joi.string().max(50).required(),
+    labelKey: Joi.string().max(100).optional(),
+    url: Joi.string().uri({ allowRelative: true }).max(2048).required(),
+    type: Joi.string().valid('primary', 'secondary').default('secondary'),
+});
+
+// Push presentation; unset fields fall back to the event type defaults
+const pushOptionsSchema = Joi.object({
+    image: Joi.string().uri({ scheme: ['https'] }).max(2048).optional(),
+    sound: Joi.string().pattern(/^[A-Za-z0-9_.-]+$/).max(100).optional(),
+    androidChannelId: Joi.string().max(100).optional(),
+    category: Joi.string().max(64).optional(),
+    threadId: Joi.string().max(64).optional(),
+    collapseKey: Joi.string().max(64).optional(), // APNs collapse IDs are limited to 64 bytes
+});
+
 // Notification request validation
 export const sendNotificationSchema = Joi.object({
     userId: Joi.string().uuid().required(),
@@ -19,14 +49,39 @@ export const sendNotificationSchema = Joi.object({
     eventSourceId: Joi.string().max(255).optional(),
     priority: Joi.string().valid('low', 'medium', 'high', 'critical').optional(),
     data: Joi.object().optional(),
-    channels: Joi.array().items(
-        Joi.string().valid('websocket', 'sms', 'email', 'push')
-    ).optional(),
+    channels: Joi.array().items(channelSchema).optional(),
     correlationId: Joi.string().max(100).optional(),
+    sendAt: Joi.date().iso().greater('now').optional(),
+    expiresAt: Joi.date().iso().greater('now').optional().when('sendAt', {
+        is: Joi.exist(),
+        then: Joi.date().greater(Joi.ref('sendAt')),
+    }),
+    ttlSeconds: Joi.number().integer().min(1).max(2592000).optional(), // Up to 30 days
+    actions: Joi.array().items(notificationActionSchema).max(4).optional(),
+    push: pushOptionsSchema.optional(),
+}).oxor('expiresAt', 'ttlSeconds');
+
+// Scheduled notification listing and rescheduling
+export const scheduledQuerySchema = Joi.object({
+    userId: Joi.string().uuid().required(),
+    status: Joi.string().valid('scheduled', 'sending', 'sent', 'cancelled', 'failed').optional(),
+});
+
+// Admin listing of the quiet hours hold queue
+export const heldQuerySchema = Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    status: Joi.string().valid('held', 'releasing', 'released', 'cancelled', 'failed').optional(),
+    userId: Joi.string().uuid().optional(),
+});
+
+export const rescheduleSchema = Joi.object({
+    sendAt: Joi.date().iso().greater('now').required(),
 });
 
 // User preferences update validation
 export const updatePreferencesSchema = Joi.object({
+    locale: Joi.string().pattern(LOCALE_PATTERN, 'locale tag').optional(),
     channels: Joi.object({
         websocket: Joi.object({
             enabled: Joi.boolean(),
@@ -50,9 +105,7 @@ export const updatePreferencesSchema = Joi.object({
         Joi.string(),
         Joi.object({
             enabled: Joi.boolean(),
-            channels: Joi.array().items(
-                Joi.string().valid('websocket', 'sms', 'email', 'push')
-            ),
+            channels: Joi.array().items(channelSchema),
             quietHoursOverride: Joi.boolean(),
         })
     ).optional(),
@@ -60,7 +113,17 @@ export const updatePreferencesSchema = Joi.object({
         enabled: Joi.boolean(),
         start: Joi.string().pattern(/^\d{2}:\d{2}$/),
         end: Joi.string().pattern(/^\d{2}:\d{2}$/),
-        timezone: Joi.string().max(50),
+        timezone: Joi.string().max(50).custom((value: string, helpers) =>
+            isValidTimeZone(value) ? value : helpers.message({ custom: `"timezone" must be a valid IANA timezone` })
+        ),
+        schedule: Joi.array().items(
+            Joi.object({
+                days: Joi.array().items(Joi.string().valid(...WEEKDAYS)).min(1).unique().required(),
+                enabled: Joi.boolean(),
+                start: Joi.string().pattern(/^\d{2}:\d{2}$/).required(),
+                end: Joi.string().pattern(/^\d{2}:\d{2}$/).required(),
+            })
+        ).max(7),
         criticalAlertsBypass: Joi.boolean(),
     }).optional(),
     rateLimits: Joi.object({
@@ -86,17 +149,128 @@ export const registerDeviceSchema = Joi.object({
     platform: Joi.string().valid('ios', 'android').required(),
 });
 
-// Query params for notification history
+// Webhook endpoint registration and updates (HTTPS only)
+const webhookEventTypesSchema = Joi.array().items(Joi.string().valid(...Object.keys(EVENT_TYPE_CONFIGS))).max(50);
+
+export const registerWebhookSchema = Joi.object({
+    url: Joi.string().uri({ scheme: ['https'] }).max(2048).required(),
+    description: Joi.string().max(255).optional(),
+    eventTypes: webhookEventTypesSchema.default([]),
+});
+
+export const updateWebhookSchema = Joi.object({
+    url: Joi.string().uri({ scheme: ['https'] }).max(2048),
+    description: Joi.string().max(255).allow(''),
+    eventTypes: webhookEventTypesSchema,
+    enabled: Joi.boolean(),
+}).min(1);
+
 export const historyQuerySchema = Joi.object({
     page: Joi.number().integer().min(1).default(1),
     limit: Joi.number().integer().min(1).max(100).default(20),
     eventType: Joi.string().max(50).optional(),
-    channel: Joi.string().valid('websocket', 'sms', 'email', 'push').optional(),
-    status: Joi.string().valid('pending', 'sent', 'delivered', 'failed').optional(),
+    channel: channelSchema.optional(),
+    status: Joi.string().valid('pending', 'sent', 'delivered', 'failed', 'expired', 'bounced', 'opened').optional(),
     startDate: Joi.date().iso().optional(),
     endDate: Joi.date().iso().optional(),
 });
 
+// In-app inbox listing and bulk actions
+const inboxViewSchema = Joi.string().valid('inbox', 'unread', 'pinned', 'archived');
+const inboxCategorySchema = Joi.string().valid('transfers', 'security', 'account', 'offers', 'compliance', 'general');
+
+export const inboxQuerySchema = Joi.object({
+    view: inboxViewSchema.default('inbox'),
+    category: inboxCategorySchema.optional(),
+    cursor: Joi.string().max(200).optional(),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export const inboxBulkSchema = Joi.object({
+    action: Joi.string().valid('seen', 'read', 'unread', 'archive', 'unarchive', 'pin', 'unpin', 'delete').required(),
+    entryIds: Joi.array().items(Joi.string().uuid()).min(1).max(100).optional(),
+    view: inboxViewSchema.optional(),
+    category: inboxCategorySchema.optional(),
+}).without('entryIds', ['view', 'category']); // Either explicit entries or a view/category filter
+
+// Twilio posts many more fields; only these are used
+export const twilioStatusCallbackSchema = Joi.object({
+    MessageSid: Joi.string().max(64).required(),
+    MessageStatus: Joi.string().max(32).required(),
+    ErrorCode: Joi.string().max(16).optional(),
+    ErrorMessage: Joi.string().max(500).optional(),
+});
+
+// Twilio inbound message webhook
+export const twilioInboundSmsSchema = Joi.object({
+    MessageSid: Joi.string().max(64).required(),
+    From: Joi.string().max(32).required(),
+    To: Joi.string().max(32).required(),
+    Body: Joi.string().allow('').max(1600).required(),
+});
+
+// SendGrid posts a JSON array of events. Events are validated one at a time
+// with sendGridEventSchema, so one malformed event does not fail the batch.
+export const sendGridEventsSchema = Joi.array().max(5000);
+
+// A single SendGrid event; unknown fields (custom args etc.) are kept
+export const sendGridEventSchema = Joi.object({
+    email: Joi.string().max(320).required(),
+    timestamp: Joi.number().integer().required(),
+    event: Joi.string().max(30).required(),
+    sg_event_id: Joi.string().max(100).required(),
+    sg_message_id: Joi.string().max(255).optional(),
+    reason: Joi.string().allow('').optional(),
+    type: Joi.string().max(20).optional(),
+    notification_id: Joi.string().uuid().optional(),
+    user_id: Joi.string().max(100).optional(),
+}).unknown(true);
+
+// One-time codes
+export const issueOtpSchema = Joi.object({
+    userId: Joi.string().max(100).required(),
+    purpose: Joi.string().pattern(/^[a-z0-9_.-]+$/).max(50).required(),
+    channel: Joi.string().valid('sms', 'email', 'push').required(),
+    locale: Joi.string().pattern(LOCALE_PATTERN, 'locale tag').optional(),
+});
+
+export const verifyOtpSchema = Joi.object({
+    otpId: Joi.string().uuid().required(),
+    userId: Joi.string().max(100).required(),
+    purpose: Joi.string().max(50).required(),
+    code: Joi.string().pattern(/^[0-9]{4,10}$/).required(),
+});
+
+export const confirmContactVerificationSchema = Joi.object({
+    otpId: Joi.string().uuid().required(),
+    code: Joi.string().pattern(/^[0-9]{4,10}$/).required(),
+});
+
+// JSON body limit for the admin template routes, sized for htmlBody below;
+// mounted ahead of the global 10kb parser
+export const TEMPLATE_BODY_LIMIT = '512kb';
+
+export const createTemplateSchema = Joi.object({
+    kind: Joi.string().valid('message', 'layout').default('message'),
+    eventType: Joi.string().valid(...Object.keys(EVENT_TYPE_CONFIGS)).when('kind', {
+        is: 'message',
+        then: Joi.required(),
+        otherwise: Joi.forbidden(),
+    }),
+    channel: channelSchema.required(),
+    locale: Joi.string().pattern(LOCALE_PATTERN, 'locale tag').default('en'),
+    subject: Joi.string().max(255).optional(),
+    body: Joi.string().max(10000).required().when('kind', {
+        // Layouts must place the message somewhere
+        is: 'layout',
+        then: Joi.string().pattern(/\{\{\{?\s*content\s*\}?\}\}/, 'content placeholder'),
+    }),
+    htmlBody: Joi.string().max(100000).optional(),
+    description: Joi.string().max(500).optional(),
+    activate: Joi.boolean().default(false),
+    createdBy: Joi.string().max(255).optional(),
+});
+
 // ==================== Validation Middleware ====================
 
 /**
@@ -8,7 +8,26 @@
 export { sequelize, initializeDatabase, closeDatabase } from './postgres/database';
 export { NotificationEvent } from './postgres/NotificationEvent';
 export { DeadLetterQueue } from './postgres/DeadLetterQueue';
+export { HeldNotification, HoldStatus } from './postgres/HeldNotification';
+export { ScheduledNotification, ScheduleOutcome, ScheduleStatus } from './postgres/ScheduledNotification';
+export { InboxEntry } from './postgres/InboxEntry';
+export { WebhookDelivery } from './postgres/WebhookDelivery';
+export { EmailEvent } from './postgres/EmailEvent';
+export { SmsOptOutEvent, SmsOptOutAction } from './postgres/SmsOptOutEvent';
+export { SmsConfirmation, SmsConfirmationStatus } from './postgres/SmsConfirmation';
 
 // MongoDB
 export { mongoose, initializeMongoDB, closeMongoDB } from './mongodb/database';
-export { UserPreferences, IUserPreferences } from './mongodb/UserPreferences';
+export {
+    UserPreferences,
+    IUserPreferences,
+    WebhookEndpoint,
+    SmsOptOutScope,
+    ContactChannel,
+} from './mongodb/UserPreferences';
+export {
+    NotificationTemplate,
+    INotificationTemplate,
+    TemplateKind,
+    TemplateStatus,
+} from './mongodb/NotificationTemplate';
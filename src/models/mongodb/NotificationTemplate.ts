@@ -0,0 +1,123 @@
+/**
+ * Banking Notification Service - Notification Template Model (MongoDB)
+ *
+ * Versioned message templates keyed by event type, channel and locale,
+ * plus per-channel layouts that wrap every message on that channel.
+ * Only one version per key is active at a time.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { NotificationChannel, NotificationEventType } from '../../types';
+import { channelRegistry } from '../../channels/ChannelRegistry';
+import { DEFAULT_LOCALE } from '../../utils/locale';
+
+export type TemplateKind = 'message' | 'layout';
+export type TemplateStatus = 'draft' | 'active' | 'archived';
+
+export interface INotificationTemplate extends Document {
+    kind: TemplateKind;
+    eventType?: NotificationEventType; // Not set for layouts
+    channel: NotificationChannel;
+    locale: string; // 'en', 'es', 'es-MX', ...
+    version: number;
+    status: TemplateStatus;
+    subject?: string; // Title / email subject / push title
+    body: string; // Plain text body; layouts use {{{content}}}
+    htmlBody?: string; // Email only
+    description?: string;
+    createdBy?: string;
+    activatedAt?: Date;
+    activatedBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const NotificationTemplateSchema = new Schema<INotificationTemplate>({
+    kind: { type: String, enum: ['message', 'layout'], required: true, default: 'message' },
+    eventType: {
+        type: String,
+        required: function (this: INotificationTemplate) {
+            return this.kind === 'message';
+        },
+    },
+    channel: {
+        type: String,
+        required: true,
+        validate: {
+            validator: (value: string) => channelRegistry.has(value),
+            message: 'Unknown notification channel: {VALUE}',
+        },
+    },
+    locale: { type: String, required: true, default: DEFAULT_LOCALE },
+    version: { type: Number, required: true, min: 1 },
+    status: { type: String, enum: ['draft', 'active', 'archived'], default: 'draft' },
+    subject: { type: String, maxlength: 255 },
+    body: { type: String, required: true, maxlength: 10000 },
+    htmlBody: { type: String, maxlength: 100000 },
+    description: { type: String, maxlength: 500 },
+    createdBy: { type: String },
+    activatedAt: { type: Date },
+    activatedBy: { type: String },
+}, {
+    timestamps: true,
+    collection: 'notification_templates',
+});
+
+// Version history per key
+NotificationTemplateSchema.index(
+    { kind: 1, eventType: 1, channel: 1, locale: 1, version: -1 },
+    { unique: true }
+);
+
+// At most one active version per key
+NotificationTemplateSchema.index(
+    { kind: 1, eventType: 1, channel: 1, locale: 1 },
+    { unique: true, partialFilterExpression: { status: 'active' } }
+);
+
+// ==================== Static Methods ====================
+
+interface INotificationTemplateModel extends Model<INotificationTemplate> {
+    findActive(
+        kind: TemplateKind,
+        channel: NotificationChannel,
+        locale: string,
+        eventType?: NotificationEventType
+    ): Promise<INotificationTemplate | null>;
+    getNextVersion(
+        kind: TemplateKind,
+        channel: NotificationChannel,
+        locale: string,
+        eventType?: NotificationEventType
+    ): Promise<number>;
+}
+
+NotificationTemplateSchema.statics.findActive = async function (
+    kind: TemplateKind,
+    channel: NotificationChannel,
+    locale: string,
+    eventType?: NotificationEventType
+): Promise<INotificationTemplate | null> {
+    return this.findOne({ kind, channel, locale, eventType: eventType ?? null, status: 'active' });
+};
+
+NotificationTemplateSchema.statics.getNextVersion = async function (
+    kind: TemplateKind,
+    channel: NotificationChannel,
+    locale: string,
+    eventType?: NotificationEventType
+): Promise<number> {
+    const latest = await this.findOne({ kind, channel, locale, eventType: eventType ?? null })
+        .sort({ version: -1 })
+        .select('version');
+    return (latest?.version ?? 0) + 1;
+};
+
+// ==================== Export ====================
+
+export const NotificationTemplate = mongoose.model<INotificationTemplate, INotificationTemplateModel>(
+    'NotificationTemplate',
+    NotificationTemplateSchema
+);
+
+export default NotificationTemplate;
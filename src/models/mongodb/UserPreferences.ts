@@ -5,10 +5,30 @@
  * notification types, quiet hours, rate limits, and do-not-contact status.
  */
 
+import * as crypto from 'crypto';
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import CryptoJS from 'crypto-js';
+import { v4 as uuidv4 } from 'uuid';
 import { config } from '../../config/config';
-import { NotificationChannel, NotificationEventType, DigestFrequency } from '../../types';
+import {
+    EVENT_TYPE_CONFIGS,
+    NotificationChannel,
+    NotificationEventType,
+    DigestFrequency,
+    UnsubscribeCategory,
+    WebhookEndpointContact,
+} from '../../types';
+import {
+    Weekday,
+    WEEKDAYS,
+    addCalendarDays,
+    getZonedDateParts,
+    parseTimeOfDay,
+    zonedTimeToUtc,
+} from '../../utils/timezone';
+import { channelRegistry } from '../../channels/ChannelRegistry';
+import { DEFAULT_LOCALE, resolveTimeZone } from '../../utils/locale';
+import { deriveKey } from '../../utils/keys';
 
 // ==================== Encryption Helpers ====================
 
@@ -21,6 +41,14 @@ function decryptField(encrypted: string): string {
     return bytes.toString(CryptoJS.enc.Utf8);
 }
 
+/**
+ * Keyed hash of a phone number, stored next to the encrypted number so a
+ * user can be found from an inbound SMS without decrypting every document
+ */
+function hashPhoneNumber(phone: string): string {
+    return crypto.createHmac('sha256', deriveKey('phone_lookup')).update(phone.trim()).digest('hex');
+}
+
 // ==================== Sub-Schemas ====================
 
 const WebSocketChannelSchema = new Schema({
@@ -31,6 +59,7 @@ const WebSocketChannelSchema = new Schema({
 const SMSChannelSchema = new Schema({
     enabled: { type: Boolean, default: true },
     phoneNumber: { type: String }, // Encrypted
+    phoneNumberHash: { type: String, index: true }, // See hashPhoneNumber
     verifiedAt: { type: Date },
 }, { _id: false });
 
@@ -53,6 +82,9 @@ const PushDeviceSchema = new Schema({
     token: { type: String, required: true }, // Encrypted
     platform: { type: String, enum: ['ios', 'android'], required: true },
     lastActiveAt: { type: Date },
+    lastValidatedAt: { type: Date }, // Last dry-run check by the token cleanup job
+    invalidatedAt: { type: Date }, // FCM reported the token dead; removed by the cleanup job
+    invalidReason: { type: String },
     createdAt: { type: Date, default: Date.now },
 }, { _id: false });
 
@@ -61,24 +93,59 @@ const PushChannelSchema = new Schema({
     devices: [PushDeviceSchema],
 }, { _id: false });
 
+const WebhookEndpointSchema = new Schema({
+    endpointId: { type: String, required: true },
+    url: { type: String, required: true },
+    secret: { type: String, required: true }, // Encrypted
+    description: { type: String },
+    eventTypes: [{ type: String }], // Empty = all event types
+    enabled: { type: Boolean, default: true },
+    consecutiveFailures: { type: Number, default: 0 },
+    disabledAt: { type: Date }, // Set when disabled after repeated failures
+    disabledReason: { type: String },
+    lastSuccessAt: { type: Date },
+    lastFailureAt: { type: Date },
+    createdAt: { type: Date, default: Date.now },
+}, { _id: false });
+
+const WebhookChannelSchema = new Schema({
+    enabled: { type: Boolean, default: true },
+    endpoints: [WebhookEndpointSchema],
+}, { _id: false });
+
 const ChannelsSchema = new Schema({
     websocket: { type: WebSocketChannelSchema, default: () => ({}) },
     sms: { type: SMSChannelSchema, default: () => ({}) },
     email: { type: EmailChannelSchema, default: () => ({}) },
     push: { type: PushChannelSchema, default: () => ({}) },
-}, { _id: false });
+    webhook: { type: WebhookChannelSchema, default: () => ({}) },
+}, { _id: false, strict: false }); // Settings for additional registered channels
 
 const NotificationTypePreferenceSchema = new Schema({
     enabled: { type: Boolean, default: true },
-    channels: [{ type: String, enum: ['websocket', 'sms', 'email', 'push'] }],
+    channels: [{
+        type: String,
+        validate: {
+            validator: (value: string) => channelRegistry.has(value),
+            message: 'Unknown notification channel: {VALUE}',
+        },
+    }],
     quietHoursOverride: { type: Boolean, default: false },
 }, { _id: false });
 
+const QuietHoursScheduleSchema = new Schema({
+    days: [{ type: String, enum: WEEKDAYS }], // Day the window starts on
+    enabled: { type: Boolean, default: true }, // false = no quiet hours on these days
+    start: { type: String, default: '22:00' }, // HH:MM format
+    end: { type: String, default: '07:00' },
+}, { _id: false });
+
 const QuietHoursSchema = new Schema({
     enabled: { type: Boolean, default: false },
     start: { type: String, default: '22:00' }, // HH:MM format
     end: { type: String, default: '07:00' },
-    timezone: { type: String, default: 'America/New_York' },
+    timezone: { type: String, default: 'America/New_York' }, // IANA timezone
+    schedule: { type: [QuietHoursScheduleSchema], default: [] }, // Per-weekday overrides
     criticalAlertsBypass: { type: Boolean, default: true },
 }, { _id: false });
 
@@ -102,13 +169,105 @@ const DoNotContactSchema = new Schema({
     updatedAt: { type: Date },
 }, { _id: false });
 
+// Who changed preferences in response to an SMS keyword
+const SMS_KEYWORD_ACTOR = 'sms_keyword';
+
+// What an SMS STOP turns off: SMS only, or all contact (doNotContact)
+export type SmsOptOutScope = 'sms' | 'all';
+
+// Channels whose contact (phone number, email address) must be verified
+export type ContactChannel = 'sms' | 'email';
+
+// ==================== Quiet Hours Helpers ====================
+
+export interface QuietHoursScheduleEntry {
+    days: Weekday[];
+    enabled: boolean;
+    start: string;
+    end: string;
+}
+
+interface QuietHoursSettings {
+    start?: string;
+    end?: string;
+    timezone?: string;
+    schedule?: QuietHoursScheduleEntry[];
+}
+
+/**
+ * Get the quiet window (minutes since midnight) that starts on a weekday.
+ * A schedule entry for the day overrides the default start/end.
+ */
+function getQuietWindowForDay(
+    quietHours: QuietHoursSettings,
+    weekday: Weekday
+): { start: number; end: number } | null {
+    const entry = quietHours.schedule?.find((s) => s.days?.includes(weekday));
+    if (entry) {
+        if (entry.enabled === false) return null;
+        return { start: parseTimeOfDay(entry.start), end: parseTimeOfDay(entry.end) };
+    }
+    return {
+        start: parseTimeOfDay(quietHours.start ?? '22:00'),
+        end: parseTimeOfDay(quietHours.end ?? '07:00'),
+    };
+}
+
+/**
+ * Find the quiet window active at an instant, evaluated in the user's
+ * timezone, and return the instant it ends (null when not in quiet hours).
+ */
+function getActiveQuietWindowEnd(quietHours: QuietHoursSettings, now: Date): Date | null {
+    const timeZone = resolveTimeZone(quietHours.timezone);
+    const local = getZonedDateParts(now, timeZone);
+    const nowMinutes = local.hour * 60 + local.minute;
+
+    const endOn = (daysAhead: number, minutes: number): Date => zonedTimeToUtc({
+        ...addCalendarDays(local, daysAhead),
+        hour: Math.floor(minutes / 60),
+        minute: minutes % 60,
+    }, timeZone);
+
+    // Window starting today (same-day or overnight)
+    const today = getQuietWindowForDay(quietHours, local.weekday);
+    if (today && today.start < today.end) {
+        if (nowMinutes >= today.start && nowMinutes < today.end) return endOn(0, today.end);
+    } else if (today && today.start > today.end) {
+        if (nowMinutes >= today.start) return endOn(1, today.end);
+    }
+
+    // Overnight window that started yesterday (e.g., Friday 23:00 - Saturday 09:00)
+    const yesterday = getQuietWindowForDay(quietHours, addCalendarDays(local, -1).weekday);
+    if (yesterday && yesterday.start > yesterday.end && nowMinutes < yesterday.end) {
+        return endOn(0, yesterday.end);
+    }
+
+    return null;
+}
+
 // ==================== Main Schema ====================
 
+export interface WebhookEndpoint {
+    endpointId: string;
+    url: string;
+    secret: string; // Encrypted
+    description?: string;
+    eventTypes: NotificationEventType[];
+    enabled: boolean;
+    consecutiveFailures: number;
+    disabledAt?: Date;
+    disabledReason?: string;
+    lastSuccessAt?: Date;
+    lastFailureAt?: Date;
+    createdAt: Date;
+}
+
 export interface IUserPreferences extends Document {
     userId: string;
+    locale: string; // BCP 47 tag, e.g. 'en', 'es-MX', 'fr-CA'
     channels: {
         websocket: { enabled: boolean; onWhenOnlineOnly: boolean };
-        sms: { enabled: boolean; phoneNumber?: string; verifiedAt?: Date };
+        sms: { enabled: boolean; phoneNumber?: string; phoneNumberHash?: string; verifiedAt?: Date };
         email: {
             enabled: boolean;
             address?: string;
@@ -125,9 +284,13 @@ export interface IUserPreferences extends Document {
                 token: string;
                 platform: 'ios' | 'android';
                 lastActiveAt?: Date;
+                lastValidatedAt?: Date;
+                invalidatedAt?: Date;
+                invalidReason?: string;
                 createdAt: Date;
             }>;
         };
+        webhook?: { enabled: boolean; endpoints: WebhookEndpoint[] };
     };
     notificationTypes: Map<NotificationEventType, {
         enabled: boolean;
@@ -139,6 +302,7 @@ export interface IUserPreferences extends Document {
         start: string;
         end: string;
         timezone: string;
+        schedule: QuietHoursScheduleEntry[];
         criticalAlertsBypass: boolean;
     };
     rateLimits: {
@@ -161,13 +325,26 @@ export interface IUserPreferences extends Document {
 
     // Methods
     getDecryptedPhoneNumber(): string | null;
-    setEncryptedPhoneNumber(phone: string): void;
+    setEncryptedPhoneNumber(phone: string): boolean;
     getDecryptedEmail(): string | null;
-    setEncryptedEmail(email: string): void;
+    setEncryptedEmail(email: string): boolean;
+    markContactVerified(channel: ContactChannel, at?: Date): void;
     isChannelEnabled(channel: NotificationChannel): boolean;
     getEnabledChannelsForEvent(eventType: NotificationEventType, defaultChannels: NotificationChannel[]): NotificationChannel[];
     isInQuietHours(now?: Date): boolean;
+    getQuietHoursEnd(now?: Date): Date;
     shouldBypassQuietHours(eventType: NotificationEventType): boolean;
+    getTimeZone(): string;
+    addWebhookEndpoint(input: { url: string; description?: string; eventTypes?: NotificationEventType[] }): {
+        endpoint: WebhookEndpoint;
+        secret: string;
+    };
+    rotateWebhookSecret(endpointId: string): string | null;
+    getActiveWebhookEndpoints(): WebhookEndpointContact[];
+    unverifyEmail(address: string): boolean;
+    optOutOfSms(scope: SmsOptOutScope): boolean;
+    optInToSms(): boolean;
+    unsubscribe(category: UnsubscribeCategory, reason?: string): boolean;
 }
 
 const UserPreferencesSchema = new Schema<IUserPreferences>({
@@ -177,6 +354,7 @@ const UserPreferencesSchema = new Schema<IUserPreferences>({
         unique: true,
         index: true,
     },
+    locale: { type: String, default: DEFAULT_LOCALE },
     channels: { type: ChannelsSchema, default: () => ({}) },
     notificationTypes: {
         type: Map,
@@ -203,10 +381,21 @@ UserPreferencesSchema.methods.getDecryptedPhoneNumber = function (): string | nu
     }
 };
 
-UserPreferencesSchema.methods.setEncryptedPhoneNumber = function (phone: string): void {
+/**
+ * Store the phone number. A different number needs verifying again.
+ * Returns true if the number changed.
+ */
+UserPreferencesSchema.methods.setEncryptedPhoneNumber = function (phone: string): boolean {
     if (!this.channels) this.channels = {} as typeof this.channels;
     if (!this.channels.sms) this.channels.sms = { enabled: true };
+
+    const changed = this.getDecryptedPhoneNumber() !== phone;
     this.channels.sms.phoneNumber = encryptField(phone);
+    this.channels.sms.phoneNumberHash = hashPhoneNumber(phone);
+    if (changed) {
+        this.channels.sms.verifiedAt = undefined;
+    }
+    return changed;
 };
 
 UserPreferencesSchema.methods.getDecryptedEmail = function (): string | null {
@@ -219,10 +408,27 @@ UserPreferencesSchema.methods.getDecryptedEmail = function (): string | null {
     }
 };
 
-UserPreferencesSchema.methods.setEncryptedEmail = function (email: string): void {
+/**
+ * Store the email address. A different address needs verifying again.
+ * Returns true if the address changed.
+ */
+UserPreferencesSchema.methods.setEncryptedEmail = function (email: string): boolean {
     if (!this.channels) this.channels = {} as typeof this.channels;
     if (!this.channels.email) this.channels.email = { enabled: true, digestEnabled: false, digestFrequency: 'daily', digestTime: '09:00' };
+
+    const changed = this.getDecryptedEmail()?.toLowerCase() !== email.toLowerCase();
     this.channels.email.address = encryptField(email);
+    if (changed) {
+        this.channels.email.verifiedAt = undefined;
+    }
+    return changed;
+};
+
+/**
+ * Record that the user proved they control the phone number or email address
+ */
+UserPreferencesSchema.methods.markContactVerified = function (channel: ContactChannel, at: Date = new Date()): void {
+    this.channels[channel].verifiedAt = at;
 };
 
 UserPreferencesSchema.methods.isChannelEnabled = function (channel: NotificationChannel): boolean {
@@ -256,20 +462,21 @@ UserPreferencesSchema.methods.getEnabledChannelsForEvent = function (
 UserPreferencesSchema.methods.isInQuietHours = function (now?: Date): boolean {
     if (!this.quietHours?.enabled) return false;
 
-    const currentTime = now ?? new Date();
+    return getActiveQuietWindowEnd(this.quietHours, now ?? new Date()) !== null;
+};
 
-    // Parse quiet hours (simple HH:MM comparison)
-    // In production, use a proper timezone library like moment-timezone
-    const currentHHMM = currentTime.toTimeString().slice(0, 5);
-    const start = this.quietHours.start;
-    const end = this.quietHours.end;
+UserPreferencesSchema.methods.getQuietHoursEnd = function (now?: Date): Date {
+    let current = now ?? new Date();
+    if (!this.quietHours?.enabled) return current;
 
-    // Handle overnight quiet hours (e.g., 22:00 - 07:00)
-    if (start > end) {
-        return currentHHMM >= start || currentHHMM < end;
+    // Follow back-to-back windows (e.g., weeknight window ending when a weekend one starts)
+    for (let i = 0; i < 8; i++) {
+        const end = getActiveQuietWindowEnd(this.quietHours, current);
+        if (!end || end <= current) break;
+        current = end;
     }
 
-    return currentHHMM >= start && currentHHMM < end;
+    return current;
 };
 
 UserPreferencesSchema.methods.shouldBypassQuietHours = function (eventType: NotificationEventType): boolean {
@@ -281,11 +488,167 @@ UserPreferencesSchema.methods.shouldBypassQuietHours = function (eventType: Noti
     return this.quietHours?.criticalAlertsBypass ?? true;
 };
 
+UserPreferencesSchema.methods.getTimeZone = function (): string {
+    return resolveTimeZone(this.quietHours?.timezone);
+};
+
+/**
+ * Generate a webhook signing secret
+ */
+function generateWebhookSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+UserPreferencesSchema.methods.addWebhookEndpoint = function (input: {
+    url: string;
+    description?: string;
+    eventTypes?: NotificationEventType[];
+}): { endpoint: WebhookEndpoint; secret: string } {
+    if (!this.channels.webhook) this.channels.webhook = { enabled: true, endpoints: [] };
+
+    const secret = generateWebhookSecret();
+    const endpoint: WebhookEndpoint = {
+        endpointId: uuidv4(),
+        url: input.url,
+        secret: encryptField(secret),
+        description: input.description,
+        eventTypes: input.eventTypes ?? [],
+        enabled: true,
+        consecutiveFailures: 0,
+        createdAt: new Date(),
+    };
+
+    this.channels.webhook.endpoints.push(endpoint);
+    return { endpoint, secret };
+};
+
+UserPreferencesSchema.methods.rotateWebhookSecret = function (endpointId: string): string | null {
+    const endpoint = this.channels?.webhook?.endpoints?.find((e: WebhookEndpoint) => e.endpointId === endpointId);
+    if (!endpoint) return null;
+
+    const secret = generateWebhookSecret();
+    endpoint.secret = encryptField(secret);
+    return secret;
+};
+
+UserPreferencesSchema.methods.getActiveWebhookEndpoints = function (): WebhookEndpointContact[] {
+    const endpoints: WebhookEndpoint[] = this.channels?.webhook?.endpoints ?? [];
+
+    return endpoints
+        .filter((e) => e.enabled && !e.disabledAt)
+        .flatMap((e) => {
+            try {
+                return [{ endpointId: e.endpointId, url: e.url, secret: decryptField(e.secret), eventTypes: e.eventTypes ?? [] }];
+            } catch {
+                return [];
+            }
+        });
+};
+
+/**
+ * Clear email verification if the given address is still the user's address,
+ * so no more email is sent until it is verified again. Returns true if changed.
+ */
+UserPreferencesSchema.methods.unverifyEmail = function (address: string): boolean {
+    const current = this.getDecryptedEmail();
+    if (!current || current.toLowerCase() !== address.toLowerCase() || !this.channels?.email?.verifiedAt) {
+        return false;
+    }
+
+    this.channels.email.verifiedAt = undefined;
+    return true;
+};
+
+/**
+ * Apply an SMS STOP: turn off SMS, or with scope 'all' stop all contact
+ * as unsubscribed. Returns true if anything changed.
+ */
+UserPreferencesSchema.methods.optOutOfSms = function (scope: SmsOptOutScope): boolean {
+    if (scope === 'all') {
+        if (this.doNotContact?.enabled) return false;
+        this.doNotContact = {
+            enabled: true,
+            reason: 'unsubscribed',
+            updatedBy: SMS_KEYWORD_ACTOR,
+            updatedAt: new Date(),
+        };
+        return true;
+    }
+
+    if (!this.channels.sms.enabled) return false;
+    this.channels.sms.enabled = false;
+    return true;
+};
+
+/**
+ * Apply an SMS START: re-enable SMS and lift a do-not-contact that an
+ * SMS STOP set. Returns true if anything changed.
+ */
+UserPreferencesSchema.methods.optInToSms = function (): boolean {
+    let changed = false;
+
+    if (this.doNotContact?.enabled && this.doNotContact.updatedBy === SMS_KEYWORD_ACTOR) {
+        this.doNotContact = { enabled: false, updatedBy: SMS_KEYWORD_ACTOR, updatedAt: new Date() };
+        changed = true;
+    }
+    if (!this.channels.sms.enabled) {
+        this.channels.sms.enabled = true;
+        changed = true;
+    }
+
+    return changed;
+};
+
+/**
+ * Apply an unsubscribe request. 'all' sets do-not-contact, 'digest' turns
+ * off digest emails and an event type stops its emails (the whole type if
+ * email was its only channel). Returns true if anything changed.
+ */
+UserPreferencesSchema.methods.unsubscribe = function (
+    category: UnsubscribeCategory,
+    reason: string = 'user_requested'
+): boolean {
+    if (category === 'all') {
+        const changed = !this.doNotContact?.enabled;
+        this.doNotContact = { enabled: true, reason, updatedAt: new Date() };
+        return changed;
+    }
+
+    if (category === 'digest') {
+        if (!this.channels?.email?.digestEnabled) return false;
+        this.channels.email.digestEnabled = false;
+        return true;
+    }
+
+    const current = this.notificationTypes?.get(category);
+    if (current?.enabled === false) return false;
+
+    const channels: NotificationChannel[] = current?.channels?.length
+        ? current.channels
+        : EVENT_TYPE_CONFIGS[category].defaultChannels;
+    if (!channels.includes('email')) return false;
+
+    // An empty channel list would fall back to the defaults, so disable the type instead
+    const remaining = channels.filter((c) => c !== 'email');
+    this.notificationTypes.set(category, {
+        enabled: remaining.length > 0,
+        channels: remaining.length ? remaining : channels,
+        quietHoursOverride: current?.quietHoursOverride ?? false,
+    });
+    return true;
+};
+
 // ==================== Static Methods ====================
 
 interface IUserPreferencesModel extends Model<IUserPreferences> {
     findByUserId(userId: string): Promise<IUserPreferences | null>;
     findOrCreateByUserId(userId: string): Promise<IUserPreferences>;
+    recordWebhookResult(userId: string, endpointId: string, error: string | null): Promise<boolean>;
+    flagInvalidPushTokens(userId: string, tokens: string[], reason: string): Promise<void>;
+    markPushTokensValidated(userId: string, tokens: string[], at: Date): Promise<void>;
+    removePushDevices(userId: string, devices: Array<{ deviceId: string; token: string }>): Promise<void>;
+    findByPhoneNumber(phone: string): Promise<IUserPreferences[]>;
+    backfillPhoneNumberHashes(batchSize?: number): Promise<number>;
 }
 
 UserPreferencesSchema.statics.findByUserId = async function (userId: string): Promise<IUserPreferences | null> {
@@ -300,6 +663,154 @@ UserPreferencesSchema.statics.findOrCreateByUserId = async function (userId: str
     return prefs;
 };
 
+/**
+ * Track an endpoint's delivery outcome. After too many consecutive
+ * failures the endpoint is disabled until the user re-enables it.
+ * Returns true when this result disabled the endpoint.
+ */
+UserPreferencesSchema.statics.recordWebhookResult = async function (
+    userId: string,
+    endpointId: string,
+    error: string | null
+): Promise<boolean> {
+    const match = { userId, 'channels.webhook.endpoints.endpointId': endpointId };
+
+    if (!error) {
+        await this.updateOne(match, {
+            $set: {
+                'channels.webhook.endpoints.$.consecutiveFailures': 0,
+                'channels.webhook.endpoints.$.lastSuccessAt': new Date(),
+            },
+        });
+        return false;
+    }
+
+    await this.updateOne(match, {
+        $inc: { 'channels.webhook.endpoints.$.consecutiveFailures': 1 },
+        $set: { 'channels.webhook.endpoints.$.lastFailureAt': new Date() },
+    });
+
+    // Disable only once, when the threshold is first reached
+    const maxFailures = config.webhook.maxConsecutiveFailures;
+    const disabled = await this.updateOne(
+        {
+            userId,
+            'channels.webhook.endpoints': {
+                $elemMatch: {
+                    endpointId,
+                    consecutiveFailures: { $gte: maxFailures },
+                    disabledAt: null,
+                },
+            },
+        },
+        {
+            $set: {
+                'channels.webhook.endpoints.$.disabledAt': new Date(),
+                'channels.webhook.endpoints.$.disabledReason': `${maxFailures} consecutive failures; last: ${error}`,
+            },
+        }
+    );
+
+    return disabled.modifiedCount > 0;
+};
+
+/**
+ * Flag devices whose tokens FCM reported as dead. Flagged devices get no
+ * more pushes and are removed by the push token cleanup job.
+ */
+UserPreferencesSchema.statics.flagInvalidPushTokens = async function (
+    userId: string,
+    tokens: string[],
+    reason: string
+): Promise<void> {
+    await this.updateOne(
+        { userId },
+        {
+            $set: {
+                'channels.push.devices.$[device].invalidatedAt': new Date(),
+                'channels.push.devices.$[device].invalidReason': reason,
+            },
+        },
+        { arrayFilters: [{ 'device.token': { $in: tokens }, 'device.invalidatedAt': null }] }
+    );
+};
+
+/**
+ * Record that FCM still accepts these tokens
+ */
+UserPreferencesSchema.statics.markPushTokensValidated = async function (
+    userId: string,
+    tokens: string[],
+    at: Date
+): Promise<void> {
+    await this.updateOne(
+        { userId },
+        { $set: { 'channels.push.devices.$[device].lastValidatedAt': at } },
+        { arrayFilters: [{ 'device.token': { $in: tokens } }] }
+    );
+};
+
+/**
+ * Remove devices in place, so devices registered or tokens refreshed since
+ * the document was read are kept. A device only matches with the token it
+ * had when it was judged.
+ */
+UserPreferencesSchema.statics.removePushDevices = async function (
+    userId: string,
+    devices: Array<{ deviceId: string; token: string }>
+): Promise<void> {
+    await this.updateOne(
+        { userId },
+        { $pull: { 'channels.push.devices': { $or: devices.map(({ deviceId, token }) => ({ deviceId, token })) } } }
+    );
+};
+
+/**
+ * Find every user registered with a phone number (a number can be shared)
+ */
+UserPreferencesSchema.statics.findByPhoneNumber = async function (phone: string): Promise<IUserPreferences[]> {
+    return this.find({ 'channels.sms.phoneNumberHash': hashPhoneNumber(phone) });
+};
+
+/**
+ * Add the lookup hash to numbers stored before it existed.
+ * Returns the number of users updated. Pages by _id, so numbers that
+ * cannot be decrypted (and stay unhashed) are passed over, not re-read.
+ */
+UserPreferencesSchema.statics.backfillPhoneNumberHashes = async function (batchSize: number = 500): Promise<number> {
+    let updated = 0;
+    let lastId: unknown;
+
+    for (;;) {
+        const users: IUserPreferences[] = await this.find({
+            'channels.sms.phoneNumber': { $exists: true, $ne: null },
+            'channels.sms.phoneNumberHash': null,
+            ...(lastId !== undefined && { _id: { $gt: lastId } }),
+        }).sort({ _id: 1 }).limit(batchSize);
+
+        const hashed = users.flatMap((prefs) => {
+            const phone = prefs.getDecryptedPhoneNumber();
+            return phone
+                ? [{
+                    updateOne: {
+                        filter: { _id: prefs._id },
+                        update: { $set: { 'channels.sms.phoneNumberHash': hashPhoneNumber(phone) } },
+                    },
+                }]
+                : [];
+        });
+
+        if (hashed.length > 0) {
+            await this.bulkWrite(hashed);
+            updated += hashed.length;
+        }
+        if (users.length < batchSize) break;
+        lastId = users[users.length - 1]!._id;
+    }
+
+    return updated;
+};
+
 // ==================== Export ====================
 
 export const UserPreferences = mongoose.model<IUserPreferences, IUserPreferencesModel>(
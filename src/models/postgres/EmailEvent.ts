@@ -0,0 +1,134 @@
+/**
+ * Banking Notification Service - Email Event Model (PostgreSQL)
+ *
+ * Audit log of email provider events (delivered, bounce, spam report,
+ * open, ...) received through the SendGrid event webhook. The provider
+ * event ID is unique, so redelivered webhook batches are ignored.
+ */
+
+import {
+    Model,
+    DataTypes,
+    InferAttributes,
+    InferCreationAttributes,
+    CreationOptional,
+} from 'sequelize';
+import { sequelize } from './database';
+
+export class EmailEvent extends Model<
+    InferAttributes<EmailEvent>,
+    InferCreationAttributes<EmailEvent>
+> {
+    // Primary key
+    declare id: CreationOptional<string>;
+
+    // Provider identification
+    declare provider: string;
+    declare providerEventId: string;
+    declare providerMessageId: CreationOptional<string | null>;
+
+    // Matched notification and user (null when the email was not a tracked notification)
+    declare notificationId: CreationOptional<string | null>;
+    declare userId: CreationOptional<string | null>;
+
+    // Event details
+    declare event: string; // 'delivered', 'bounce', 'dropped', 'spamreport', 'open', ...
+    declare bounceType: CreationOptional<string | null>; // 'bounce' (hard) or 'blocked' (soft)
+    declare reason: CreationOptional<string | null>;
+    declare contactSuppressed: CreationOptional<boolean>; // Address was unverified because of this event
+
+    // Timestamps
+    declare occurredAt: Date;
+    declare createdAt: CreationOptional<Date>;
+}
+
+// Model initialization
+EmailEvent.init(
+    {
+        id: {
+            type: DataTypes.UUID,
+            defaultValue: DataTypes.UUIDV4,
+            primaryKey: true,
+        },
+        provider: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+        },
+        providerEventId: {
+            type: DataTypes.STRING(100),
+            allowNull: false,
+            field: 'provider_event_id',
+        },
+        providerMessageId: {
+            type: DataTypes.STRING(255),
+            allowNull: true,
+            field: 'provider_message_id',
+        },
+        notificationId: {
+            type: DataTypes.UUID,
+            allowNull: true,
+            field: 'notification_id',
+        },
+        userId: {
+            type: DataTypes.UUID,
+            allowNull: true,
+            field: 'user_id',
+        },
+        event: {
+            type: DataTypes.STRING(30),
+            allowNull: false,
+        },
+        bounceType: {
+            type: DataTypes.STRING(20),
+            allowNull: true,
+            field: 'bounce_type',
+        },
+        reason: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+        },
+        contactSuppressed: {
+            type: DataTypes.BOOLEAN,
+            allowNull: false,
+            defaultValue: false,
+            field: 'contact_suppressed',
+        },
+        occurredAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            field: 'occurred_at',
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'created_at',
+        },
+    },
+    {
+        sequelize,
+        tableName: 'email_events',
+        modelName: 'EmailEvent',
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+            // Webhook redelivery dedup
+            {
+                unique: true,
+                name: 'idx_email_event_provider_event',
+                fields: ['provider', 'provider_event_id'],
+            },
+            // Audit lookups
+            {
+                name: 'idx_email_event_notification',
+                fields: ['notification_id'],
+            },
+            {
+                name: 'idx_email_event_user',
+                fields: ['user_id', 'occurred_at'],
+            },
+        ],
+    }
+);
+
+export default EmailEvent;
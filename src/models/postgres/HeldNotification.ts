@@ -0,0 +1,242 @@
+/**
+ * Banking Notification Service - Held Notification Model (PostgreSQL)
+ *
+ * Durable hold queue for notifications deferred by quiet hours.
+ * Keeps the full payload so it can be released on the user's channels later.
+ */
+
+import {
+    Model,
+    DataTypes,
+    InferAttributes,
+    InferCreationAttributes,
+    CreationOptional,
+    QueryTypes,
+} from 'sequelize';
+import { sequelize } from './database';
+import {
+    NotificationEventType,
+    NotificationPayload,
+    NotificationPriority,
+} from '../../types';
+
+export type HoldStatus = 'held' | 'releasing' | 'released' | 'cancelled' | 'failed';
+export type HoldReason = 'quiet_hours';
+
+export class HeldNotification extends Model<
+    InferAttributes<HeldNotification>,
+    InferCreationAttributes<HeldNotification>
+> {
+    // Primary key
+    declare id: CreationOptional<string>;
+
+    // Notification identification
+    declare notificationId: string;
+    declare userId: string;
+    declare eventType: NotificationEventType;
+    declare priority: NotificationPriority;
+
+    // Full payload (serialized NotificationPayload)
+    declare payload: Record<string, unknown>;
+
+    // Hold details
+    declare reason: HoldReason;
+    declare releaseAt: Date;
+    declare status: CreationOptional<HoldStatus>;
+    declare attempts: CreationOptional<number>;
+    declare lastError: CreationOptional<string | null>;
+
+    // Resolution tracking
+    declare releasedAt: CreationOptional<Date | null>;
+    declare cancelledAt: CreationOptional<Date | null>;
+    declare cancelledBy: CreationOptional<string | null>;
+
+    // Timestamps
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+
+    // Instance methods
+
+    /**
+     * Rebuild the notification payload from its stored form
+     */
+    toPayload(): NotificationPayload {
+        const stored = this.payload as unknown as NotificationPayload & { createdAt: string; expiresAt?: string };
+        return {
+            ...stored,
+            createdAt: new Date(stored.createdAt),
+            expiresAt: stored.expiresAt ? new Date(stored.expiresAt) : undefined,
+        };
+    }
+
+    /**
+     * Mark as released
+     */
+    async markReleased(): Promise<void> {
+        this.status = 'released';
+        this.releasedAt = new Date();
+        await this.save();
+    }
+
+    /**
+     * Put back on hold until a new release time
+     */
+    async reschedule(releaseAt: Date): Promise<void> {
+        this.status = 'held';
+        this.releaseAt = releaseAt;
+        await this.save();
+    }
+
+    /**
+     * Record a failed release attempt. Held again until retryAt,
+     * or failed for good once maxAttempts is reached.
+     */
+    async markFailed(error: string, maxAttempts: number, retryAt: Date): Promise<void> {
+        this.attempts = (this.attempts ?? 0) + 1;
+        this.lastError = error;
+        if (this.attempts >= maxAttempts) {
+            this.status = 'failed';
+        } else {
+            this.status = 'held';
+            this.releaseAt = retryAt;
+        }
+        await this.save();
+    }
+
+    /**
+     * Atomically claim notifications that are due for release.
+     * Uses SKIP LOCKED so several replicas can release concurrently
+     * without picking up the same row. Rows stuck in 'releasing'
+     * (e.g. replica crashed mid-release) are reclaimed after staleAfterMs.
+     */
+    static async claimDue(limit: number, staleAfterMs: number): Promise<HeldNotification[]> {
+        return sequelize.query(
+            `UPDATE held_notifications
+                SET status = 'releasing', updated_at = NOW()
+              WHERE id IN (
+                    SELECT id FROM held_notifications
+                     WHERE (status = 'held' AND release_at <= NOW())
+                        OR (status = 'releasing' AND updated_at < NOW() - make_interval(secs => :staleAfterSeconds))
+                     ORDER BY release_at ASC
+                     LIMIT :limit
+                     FOR UPDATE SKIP LOCKED
+              )
+          RETURNING *`,
+            {
+                replacements: { limit, staleAfterSeconds: Math.ceil(staleAfterMs / 1000) },
+                type: QueryTypes.SELECT,
+                model: HeldNotification,
+                mapToModel: true,
+            }
+        );
+    }
+}
+
+// Model initialization
+HeldNotification.init(
+    {
+        id: {
+            type: DataTypes.UUID,
+            defaultValue: DataTypes.UUIDV4,
+            primaryKey: true,
+        },
+        notificationId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            field: 'notification_id',
+        },
+        userId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            field: 'user_id',
+        },
+        eventType: {
+            type: DataTypes.STRING(50),
+            allowNull: false,
+            field: 'event_type',
+        },
+        priority: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+        },
+        payload: {
+            type: DataTypes.JSONB,
+            allowNull: false,
+        },
+        reason: {
+            type: DataTypes.STRING(30),
+            allowNull: false,
+            defaultValue: 'quiet_hours',
+        },
+        releaseAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            field: 'release_at',
+        },
+        status: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+            defaultValue: 'held',
+            validate: {
+                isIn: [['held', 'releasing', 'released', 'cancelled', 'failed']],
+            },
+        },
+        attempts: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        lastError: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+            field: 'last_error',
+        },
+        releasedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'released_at',
+        },
+        cancelledAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'cancelled_at',
+        },
+        cancelledBy: {
+            type: DataTypes.STRING(255),
+            allowNull: true,
+            field: 'cancelled_by',
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'created_at',
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'updated_at',
+        },
+    },
+    {
+        sequelize,
+        tableName: 'held_notifications',
+        modelName: 'HeldNotification',
+        timestamps: true,
+        indexes: [
+            // Release scheduling
+            {
+                name: 'idx_held_status_release',
+                fields: ['status', 'release_at'],
+            },
+            // User-facing listing
+            {
+                name: 'idx_held_user_status',
+                fields: ['user_id', 'status'],
+            },
+        ],
+    }
+);
+
+export default HeldNotification;
@@ -0,0 +1,171 @@
+/**
+ * Banking Notification Service - Inbox Entry Model (PostgreSQL)
+ *
+ * In-app inbox: one entry per notification, whichever external
+ * channels it went out on. Tracks seen, read, archived and pinned
+ * state for the app.
+ */
+
+import {
+    Model,
+    DataTypes,
+    InferAttributes,
+    InferCreationAttributes,
+    CreationOptional,
+} from 'sequelize';
+import { sequelize } from './database';
+import {
+    InboxCategory,
+    NotificationAction,
+    NotificationEventType,
+    NotificationPriority,
+} from '../../types';
+
+export class InboxEntry extends Model<
+    InferAttributes<InboxEntry>,
+    InferCreationAttributes<InboxEntry>
+> {
+    // Primary key
+    declare id: CreationOptional<string>;
+
+    // Notification identification
+    declare notificationId: string;
+    declare userId: string;
+    declare eventType: NotificationEventType;
+    declare category: InboxCategory;
+    declare priority: NotificationPriority;
+
+    // Content
+    declare title: string;
+    declare message: string;
+    declare data: CreationOptional<Record<string, unknown> | null>;
+    declare actions: CreationOptional<NotificationAction[] | null>;
+
+    // Inbox state
+    declare seenAt: CreationOptional<Date | null>;
+    declare readAt: CreationOptional<Date | null>;
+    declare archivedAt: CreationOptional<Date | null>;
+    declare pinnedAt: CreationOptional<Date | null>;
+
+    // Timestamps
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+}
+
+// Model initialization
+InboxEntry.init(
+    {
+        id: {
+            type: DataTypes.UUID,
+            defaultValue: DataTypes.UUIDV4,
+            primaryKey: true,
+        },
+        notificationId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            unique: true,
+            field: 'notification_id',
+        },
+        userId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            field: 'user_id',
+        },
+        eventType: {
+            type: DataTypes.STRING(50),
+            allowNull: false,
+            field: 'event_type',
+        },
+        category: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+            validate: {
+                isIn: [['transfers', 'security', 'account', 'offers', 'compliance', 'general']],
+            },
+        },
+        priority: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+            defaultValue: 'medium',
+            validate: {
+                isIn: [['low', 'medium', 'high', 'critical']],
+            },
+        },
+        title: {
+            type: DataTypes.STRING(255),
+            allowNull: false,
+        },
+        message: {
+            type: DataTypes.TEXT,
+            allowNull: false,
+        },
+        data: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
+        actions: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
+        seenAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'seen_at',
+        },
+        readAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'read_at',
+        },
+        archivedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'archived_at',
+        },
+        pinnedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'pinned_at',
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'created_at',
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'updated_at',
+        },
+    },
+    {
+        sequelize,
+        tableName: 'inbox_entries',
+        modelName: 'InboxEntry',
+        timestamps: true,
+        indexes: [
+            // Cursor listing (newest first)
+            {
+                name: 'idx_inbox_user_created',
+                fields: ['user_id', 'created_at', 'id'],
+            },
+            // Category listing
+            {
+                name: 'idx_inbox_user_category',
+                fields: ['user_id', 'category', 'created_at'],
+            },
+            // Unread counts
+            {
+                name: 'idx_inbox_user_unread',
+                fields: ['user_id', 'read_at'],
+                where: {
+                    archived_at: null,
+                },
+            },
+        ],
+    }
+);
+
+export default InboxEntry;
@@ -13,11 +13,14 @@ import {
     CreationOptional,
 } from 'sequelize';
 import { sequelize } from './database';
+import { channelRegistry } from '../../channels/ChannelRegistry';
 import {
     NotificationChannel,
     NotificationEventType,
+    NotificationPayload,
     NotificationPriority,
     DeliveryStatus,
+    RoutingDecision,
 } from '../../types';
 
 export class NotificationEvent extends Model<
@@ -37,12 +40,16 @@ export class NotificationEvent extends Model<
     declare message: string;
     declare metadata: CreationOptional<Record<string, unknown> | null>;
 
+    // Original payload (serialized NotificationPayload), redelivered on retry
+    declare payload: CreationOptional<Record<string, unknown> | null>;
+
     // Delivery information
     declare channel: NotificationChannel;
     declare priority: NotificationPriority;
     declare deliveryStatus: DeliveryStatus;
-    declare deliveryProvider: CreationOptional<string | null>; // 'internal', 'twilio', 'sendgrid', 'firebase'
+    declare deliveryProvider: CreationOptional<string | null>; // Provider that actually delivered: 'internal', 'twilio', 'http_gateway', 'sendgrid', 'smtp', 'firebase'
     declare providerMessageId: CreationOptional<string | null>;
+    declare smsSegments: CreationOptional<number | null>; // Billable segments for SMS
 
     // Retry tracking
     declare retryCount: CreationOptional<number>;
@@ -50,11 +57,15 @@ export class NotificationEvent extends Model<
     declare nextRetryAt: CreationOptional<Date | null>;
     declare errorMessage: CreationOptional<string | null>;
 
+    // Routing decisions that led to this delivery (see NotificationRouter)
+    declare decisionTrace: CreationOptional<RoutingDecision[] | null>;
+
     // Timestamps
     declare createdAt: CreationOptional<Date>;
     declare sentAt: CreationOptional<Date | null>;
     declare deliveredAt: CreationOptional<Date | null>;
     declare readAt: CreationOptional<Date | null>;
+    declare expiresAt: CreationOptional<Date | null>; // Not delivered after this time
 
     // Tracking
     declare correlationId: CreationOptional<string | null>;
@@ -80,15 +91,54 @@ export class NotificationEvent extends Model<
         return retrySchedule[attemptNumber] ?? retrySchedule[5] ?? 3600000;
     }
 
+    /**
+     * Rebuild the payload to redeliver on this row's channel. Rows stored
+     * before the payload was kept fall back to the columns, which lack
+     * actions, push options and the SMS confirmation request.
+     */
+    toPayload(): NotificationPayload {
+        if (this.payload) {
+            const stored = this.payload as unknown as NotificationPayload & { createdAt: string; expiresAt?: string };
+            return {
+                ...stored,
+                channels: [this.channel],
+                createdAt: new Date(stored.createdAt),
+                expiresAt: stored.expiresAt ? new Date(stored.expiresAt) : undefined,
+            };
+        }
+
+        return {
+            notificationId: this.notificationId,
+            userId: this.userId,
+            eventType: this.eventType,
+            eventSourceId: this.eventSourceId ?? undefined,
+            title: this.title,
+            message: this.message,
+            data: this.metadata ?? undefined,
+            priority: this.priority,
+            channels: [this.channel],
+            correlationId: this.correlationId ?? undefined,
+            expiresAt: this.expiresAt ?? undefined,
+            createdAt: this.createdAt,
+        };
+    }
+
     /**
      * Mark as sent
      */
-    async markSent(providerMessageId?: string): Promise<void> {
+    async markSent(providerMessageId?: string, deliveryProvider?: string, smsSegments?: number): Promise<void> {
         this.deliveryStatus = 'sent';
         this.sentAt = new Date();
         if (providerMessageId) {
             this.providerMessageId = providerMessageId;
         }
+        // Failover may have delivered through a different provider than the first attempt
+        if (deliveryProvider) {
+            this.deliveryProvider = deliveryProvider;
+        }
+        if (smsSegments !== undefined) {
+            this.smsSegments = smsSegments;
+        }
         await this.save();
     }
 
@@ -101,6 +151,24 @@ export class NotificationEvent extends Model<
         await this.save();
     }
 
+    /**
+     * Mark as bounced (email rejected by the recipient's server)
+     */
+    async markBounced(reason: string): Promise<void> {
+        this.deliveryStatus = 'bounced';
+        this.errorMessage = reason;
+        await this.save();
+    }
+
+    /**
+     * Mark as opened
+     */
+    async markOpened(): Promise<void> {
+        this.deliveryStatus = 'opened';
+        this.deliveredAt = this.deliveredAt ?? new Date(); // An open implies delivery
+        await this.save();
+    }
+
     /**
      * Mark as failed
      */
@@ -122,6 +190,22 @@ export class NotificationEvent extends Model<
         await this.save();
     }
 
+    /**
+     * Check if the notification is past its expiry
+     */
+    isExpired(now: Date = new Date()): boolean {
+        return !!this.expiresAt && this.expiresAt <= now;
+    }
+
+    /**
+     * Mark as expired (dropped without delivery)
+     */
+    async markExpired(): Promise<void> {
+        this.deliveryStatus = 'expired';
+        this.nextRetryAt = null;
+        await this.save();
+    }
+
     /**
      * Mark as read
      */
@@ -167,11 +251,19 @@ NotificationEvent.init(
             type: DataTypes.JSONB,
             allowNull: true,
         },
+        payload: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+        },
         channel: {
             type: DataTypes.STRING(20),
             allowNull: false,
             validate: {
-                isIn: [['websocket', 'sms', 'email', 'push']],
+                isRegisteredChannel(value: string) {
+                    if (!channelRegistry.has(value)) {
+                        throw new Error(`Unknown notification channel: ${value}`);
+                    }
+                },
             },
         },
         priority: {
@@ -188,7 +280,7 @@ NotificationEvent.init(
             defaultValue: 'pending',
             field: 'delivery_status',
             validate: {
-                isIn: [['pending', 'sent', 'delivered', 'failed', 'retrying', 'rate_limited', 'queued_for_digest']],
+                isIn: [['pending', 'sent', 'delivered', 'failed', 'retrying', 'rate_limited', 'queued_for_digest', 'expired', 'bounced', 'opened']],
             },
         },
         deliveryProvider: {
@@ -201,6 +293,11 @@ NotificationEvent.init(
             allowNull: true,
             field: 'provider_message_id',
         },
+        smsSegments: {
+            type: DataTypes.SMALLINT,
+            allowNull: true,
+            field: 'sms_segments',
+        },
         retryCount: {
             type: DataTypes.INTEGER,
             allowNull: false,
@@ -222,6 +319,11 @@ NotificationEvent.init(
             allowNull: true,
             field: 'error_message',
         },
+        decisionTrace: {
+            type: DataTypes.JSONB,
+            allowNull: true,
+            field: 'decision_trace',
+        },
         createdAt: {
             type: DataTypes.DATE,
             allowNull: false,
@@ -243,6 +345,11 @@ NotificationEvent.init(
             allowNull: true,
             field: 'read_at',
         },
+        expiresAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'expires_at',
+        },
         correlationId: {
             type: DataTypes.STRING(100),
             allowNull: true,
@@ -275,6 +382,11 @@ NotificationEvent.init(
                 name: 'idx_notification_event_source',
                 fields: ['event_source_id'],
             },
+            // Provider delivery callbacks
+            {
+                name: 'idx_notification_provider_message',
+                fields: ['provider_message_id'],
+            },
             // Time-series queries
             {
                 name: 'idx_notification_created',
@@ -0,0 +1,222 @@
+/**
+ * Banking Notification Service - Scheduled Notification Model (PostgreSQL)
+ *
+ * Future-dated notifications submitted with a sendAt time. Keeps the
+ * original request so it goes through normal routing when it is due.
+ */
+
+import {
+    Model,
+    DataTypes,
+    InferAttributes,
+    InferCreationAttributes,
+    CreationOptional,
+    QueryTypes,
+} from 'sequelize';
+import { sequelize } from './database';
+import { NotificationEventType } from '../../types';
+
+export type ScheduleStatus = 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed';
+export type ScheduleOutcome = 'sent' | 'held' | 'digest' | 'skipped'; // What routing did with a sent item
+
+export class ScheduledNotification extends Model<
+    InferAttributes<ScheduledNotification>,
+    InferCreationAttributes<ScheduledNotification>
+> {
+    // Primary key
+    declare id: CreationOptional<string>;
+
+    // Notification identification (reserved up front, used when routed)
+    declare notificationId: string;
+    declare userId: string;
+    declare eventType: NotificationEventType;
+    declare eventSourceId: CreationOptional<string | null>;
+
+    // Original send request (serialized NotificationRequest)
+    declare request: Record<string, unknown>;
+
+    // Schedule details
+    declare sendAt: Date;
+    declare status: CreationOptional<ScheduleStatus>;
+    declare attempts: CreationOptional<number>;
+    declare lastError: CreationOptional<string | null>;
+
+    // Resolution tracking
+    declare outcome: CreationOptional<ScheduleOutcome | null>;
+    declare sentAt: CreationOptional<Date | null>;
+    declare cancelledAt: CreationOptional<Date | null>;
+    declare cancelledBy: CreationOptional<string | null>;
+
+    // Timestamps
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+
+    // Instance methods
+
+    /**
+     * Mark as sent, recording what routing did with it
+     */
+    async markSent(outcome: ScheduleOutcome): Promise<void> {
+        this.status = 'sent';
+        this.outcome = outcome;
+        this.sentAt = new Date();
+        await this.save();
+    }
+
+    /**
+     * Record a failed send attempt. Scheduled again for retryAt,
+     * or failed for good once maxAttempts is reached.
+     */
+    async markFailed(error: string, maxAttempts: number, retryAt: Date): Promise<void> {
+        this.attempts = (this.attempts ?? 0) + 1;
+        this.lastError = error;
+        if (this.attempts >= maxAttempts) {
+            this.status = 'failed';
+        } else {
+            this.status = 'scheduled';
+            this.sendAt = retryAt;
+        }
+        await this.save();
+    }
+
+    /**
+     * Atomically claim notifications that are due to be sent.
+     * Uses SKIP LOCKED so several replicas can dispatch concurrently
+     * without picking up the same row. Rows stuck in 'sending'
+     * (e.g. replica crashed mid-send) are reclaimed after staleAfterMs.
+     */
+    static async claimDue(limit: number, staleAfterMs: number): Promise<ScheduledNotification[]> {
+        return sequelize.query(
+            `UPDATE scheduled_notifications
+                SET status = 'sending', updated_at = NOW()
+              WHERE id IN (
+                    SELECT id FROM scheduled_notifications
+                     WHERE (status = 'scheduled' AND send_at <= NOW())
+                        OR (status = 'sending' AND updated_at < NOW() - make_interval(secs => :staleAfterSeconds))
+                     ORDER BY send_at ASC
+                     LIMIT :limit
+                     FOR UPDATE SKIP LOCKED
+              )
+          RETURNING *`,
+            {
+                replacements: { limit, staleAfterSeconds: Math.ceil(staleAfterMs / 1000) },
+                type: QueryTypes.SELECT,
+                model: ScheduledNotification,
+                mapToModel: true,
+            }
+        );
+    }
+}
+
+// Model initialization
+ScheduledNotification.init(
+    {
+        id: {
+            type: DataTypes.UUID,
+            defaultValue: DataTypes.UUIDV4,
+            primaryKey: true,
+        },
+        notificationId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            unique: true,
+            field: 'notification_id',
+        },
+        userId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            field: 'user_id',
+        },
+        eventType: {
+            type: DataTypes.STRING(50),
+            allowNull: false,
+            field: 'event_type',
+        },
+        eventSourceId: {
+            type: DataTypes.STRING(255),
+            allowNull: true,
+            field: 'event_source_id',
+        },
+        request: {
+            type: DataTypes.JSONB,
+            allowNull: false,
+        },
+        sendAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            field: 'send_at',
+        },
+        status: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+            defaultValue: 'scheduled',
+            validate: {
+                isIn: [['scheduled', 'sending', 'sent', 'cancelled', 'failed']],
+            },
+        },
+        attempts: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            defaultValue: 0,
+        },
+        lastError: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+            field: 'last_error',
+        },
+        outcome: {
+            type: DataTypes.STRING(20),
+            allowNull: true,
+            validate: {
+                isIn: [['sent', 'held', 'digest', 'skipped']],
+            },
+        },
+        sentAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'sent_at',
+        },
+        cancelledAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'cancelled_at',
+        },
+        cancelledBy: {
+            type: DataTypes.STRING(255),
+            allowNull: true,
+            field: 'cancelled_by',
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'created_at',
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'updated_at',
+        },
+    },
+    {
+        sequelize,
+        tableName: 'scheduled_notifications',
+        modelName: 'ScheduledNotification',
+        timestamps: true,
+        indexes: [
+            // Dispatch scheduling
+            {
+                name: 'idx_scheduled_status_send_at',
+                fields: ['status', 'send_at'],
+            },
+            // Per-user listing
+            {
+                name: 'idx_scheduled_user_status',
+                fields: ['user_id', 'status'],
+            },
+        ],
+    }
+);
+
+export default ScheduledNotification;
@@ -0,0 +1,154 @@
+/**
+ * Banking Notification Service - SMS Confirmation Model (PostgreSQL)
+ *
+ * A YES/NO question sent by SMS (e.g. "was this transaction you?"),
+ * waiting for the user's reply. Replies are matched to the user's most
+ * recent pending confirmation.
+ */
+
+import {
+    Model,
+    DataTypes,
+    InferAttributes,
+    InferCreationAttributes,
+    CreationOptional,
+} from 'sequelize';
+import { sequelize } from './database';
+import { NotificationEventType } from '../../types';
+
+export type SmsConfirmationStatus = 'pending' | 'confirmed' | 'denied' | 'expired';
+
+export class SmsConfirmation extends Model<
+    InferAttributes<SmsConfirmation>,
+    InferCreationAttributes<SmsConfirmation>
+> {
+    // Primary key
+    declare id: CreationOptional<string>;
+
+    // Notification that asked the question
+    declare notificationId: string;
+    declare userId: string;
+    declare eventType: NotificationEventType;
+    declare eventSourceId: CreationOptional<string | null>; // Fraud case or transaction ID
+    declare providerMessageId: CreationOptional<string | null>; // Outbound SMS
+
+    // Reply
+    declare status: CreationOptional<SmsConfirmationStatus>;
+    declare expiresAt: Date;
+    declare respondedAt: CreationOptional<Date | null>;
+    declare replyMessageId: CreationOptional<string | null>; // Inbound SMS that answered
+
+    // Timestamps
+    declare createdAt: CreationOptional<Date>;
+    declare updatedAt: CreationOptional<Date>;
+
+    /**
+     * Record the user's answer
+     */
+    async markAnswered(status: 'confirmed' | 'denied', replyMessageId: string): Promise<void> {
+        this.status = status;
+        this.respondedAt = new Date();
+        this.replyMessageId = replyMessageId;
+        await this.save();
+    }
+
+    /**
+     * Close a confirmation nobody answered in time
+     */
+    async markExpired(): Promise<void> {
+        this.status = 'expired';
+        await this.save();
+    }
+}
+
+// Model initialization
+SmsConfirmation.init(
+    {
+        id: {
+            type: DataTypes.UUID,
+            defaultValue: DataTypes.UUIDV4,
+            primaryKey: true,
+        },
+        notificationId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            field: 'notification_id',
+        },
+        userId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            field: 'user_id',
+        },
+        eventType: {
+            type: DataTypes.STRING(50),
+            allowNull: false,
+            field: 'event_type',
+        },
+        eventSourceId: {
+            type: DataTypes.STRING(255),
+            allowNull: true,
+            field: 'event_source_id',
+        },
+        providerMessageId: {
+            type: DataTypes.STRING(255),
+            allowNull: true,
+            field: 'provider_message_id',
+        },
+        status: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+            defaultValue: 'pending',
+        },
+        expiresAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            field: 'expires_at',
+        },
+        respondedAt: {
+            type: DataTypes.DATE,
+            allowNull: true,
+            field: 'responded_at',
+        },
+        replyMessageId: {
+            type: DataTypes.STRING(64),
+            allowNull: true,
+            field: 'reply_message_id',
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'created_at',
+        },
+        updatedAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'updated_at',
+        },
+    },
+    {
+        sequelize,
+        tableName: 'sms_confirmations',
+        modelName: 'SmsConfirmation',
+        timestamps: true,
+        indexes: [
+            // Matching replies to the latest pending question
+            {
+                name: 'idx_sms_confirmation_user_pending',
+                fields: ['user_id', 'status', 'created_at'],
+            },
+            {
+                name: 'idx_sms_confirmation_notification',
+                fields: ['notification_id'],
+            },
+            // Webhook redelivery check
+            {
+                name: 'idx_sms_confirmation_reply',
+                fields: ['reply_message_id'],
+            },
+        ],
+    }
+);
+
+export default SmsConfirmation;
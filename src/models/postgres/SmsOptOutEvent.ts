@@ -0,0 +1,117 @@
+/**
+ * Banking Notification Service - SMS Opt-Out Event Model (PostgreSQL)
+ *
+ * Audit log of STOP/START replies received by SMS: one row per matched
+ * user (or one with no user when the sender's number is unknown). Only
+ * the last digits of the number are kept.
+ */
+
+import {
+    Model,
+    DataTypes,
+    InferAttributes,
+    InferCreationAttributes,
+    CreationOptional,
+} from 'sequelize';
+import { sequelize } from './database';
+
+export type SmsOptOutAction = 'opt_out' | 'opt_in';
+
+export class SmsOptOutEvent extends Model<
+    InferAttributes<SmsOptOutEvent>,
+    InferCreationAttributes<SmsOptOutEvent>
+> {
+    // Primary key
+    declare id: CreationOptional<string>;
+
+    // Matched user (null when no user has the sender's number)
+    declare userId: CreationOptional<string | null>;
+
+    // What was received and done
+    declare action: SmsOptOutAction;
+    declare keyword: string; // As received, e.g. 'STOP', 'UNSUBSCRIBE', 'START'
+    declare scope: CreationOptional<string | null>; // Opt-outs: 'sms' or 'all'
+    declare preferencesChanged: boolean; // False when preferences already matched
+    declare phoneSuffix: string; // Last 4 digits of the sender's number
+
+    // Inbound message
+    declare provider: string;
+    declare providerMessageId: string;
+
+    // Timestamps
+    declare createdAt: CreationOptional<Date>;
+}
+
+// Model initialization
+SmsOptOutEvent.init(
+    {
+        id: {
+            type: DataTypes.UUID,
+            defaultValue: DataTypes.UUIDV4,
+            primaryKey: true,
+        },
+        userId: {
+            type: DataTypes.UUID,
+            allowNull: true,
+            field: 'user_id',
+        },
+        action: {
+            type: DataTypes.STRING(10),
+            allowNull: false,
+        },
+        keyword: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+        },
+        scope: {
+            type: DataTypes.STRING(10),
+            allowNull: true,
+        },
+        preferencesChanged: {
+            type: DataTypes.BOOLEAN,
+            allowNull: false,
+            field: 'preferences_changed',
+        },
+        phoneSuffix: {
+            type: DataTypes.STRING(4),
+            allowNull: false,
+            field: 'phone_suffix',
+        },
+        provider: {
+            type: DataTypes.STRING(20),
+            allowNull: false,
+        },
+        providerMessageId: {
+            type: DataTypes.STRING(64),
+            allowNull: false,
+            field: 'provider_message_id',
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'created_at',
+        },
+    },
+    {
+        sequelize,
+        tableName: 'sms_opt_out_events',
+        modelName: 'SmsOptOutEvent',
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+            // Webhook redelivery check
+            {
+                name: 'idx_sms_opt_out_message',
+                fields: ['provider', 'provider_message_id'],
+            },
+            // Per-user audit trail
+            {
+                name: 'idx_sms_opt_out_user',
+                fields: ['user_id', 'created_at'],
+            },
+        ],
+    }
+);
+
+export default SmsOptOutEvent;
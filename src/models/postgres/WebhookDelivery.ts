@@ -0,0 +1,128 @@
+/**
+ * Banking Notification Service - Webhook Delivery Model (PostgreSQL)
+ *
+ * Delivery log for outbound webhooks: one row per attempt per endpoint.
+ * Also tells retries which endpoints already received a notification.
+ */
+
+import {
+    Model,
+    DataTypes,
+    InferAttributes,
+    InferCreationAttributes,
+    CreationOptional,
+} from 'sequelize';
+import { sequelize } from './database';
+import { NotificationEventType } from '../../types';
+
+export class WebhookDelivery extends Model<
+    InferAttributes<WebhookDelivery>,
+    InferCreationAttributes<WebhookDelivery>
+> {
+    // Primary key
+    declare id: CreationOptional<string>;
+
+    // Notification identification
+    declare notificationId: string;
+    declare userId: string;
+    declare eventType: NotificationEventType;
+
+    // Endpoint
+    declare endpointId: string;
+    declare url: string;
+
+    // Attempt outcome
+    declare attempt: number;
+    declare success: boolean;
+    declare statusCode: CreationOptional<number | null>;
+    declare errorMessage: CreationOptional<string | null>;
+    declare latencyMs: number;
+
+    // Timestamps
+    declare createdAt: CreationOptional<Date>;
+}
+
+// Model initialization
+WebhookDelivery.init(
+    {
+        id: {
+            type: DataTypes.UUID,
+            defaultValue: DataTypes.UUIDV4,
+            primaryKey: true,
+        },
+        notificationId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            field: 'notification_id',
+        },
+        userId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            field: 'user_id',
+        },
+        eventType: {
+            type: DataTypes.STRING(50),
+            allowNull: false,
+            field: 'event_type',
+        },
+        endpointId: {
+            type: DataTypes.UUID,
+            allowNull: false,
+            field: 'endpoint_id',
+        },
+        url: {
+            type: DataTypes.STRING(2048),
+            allowNull: false,
+        },
+        attempt: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+        },
+        success: {
+            type: DataTypes.BOOLEAN,
+            allowNull: false,
+        },
+        statusCode: {
+            type: DataTypes.INTEGER,
+            allowNull: true,
+            field: 'status_code',
+        },
+        errorMessage: {
+            type: DataTypes.TEXT,
+            allowNull: true,
+            field: 'error_message',
+        },
+        latencyMs: {
+            type: DataTypes.INTEGER,
+            allowNull: false,
+            field: 'latency_ms',
+        },
+        createdAt: {
+            type: DataTypes.DATE,
+            allowNull: false,
+            defaultValue: DataTypes.NOW,
+            field: 'created_at',
+        },
+    },
+    {
+        sequelize,
+        tableName: 'webhook_deliveries',
+        modelName: 'WebhookDelivery',
+        timestamps: true,
+        updatedAt: false,
+        indexes: [
+            // Retry lookups
+            {
+                name: 'idx_webhook_delivery_notification',
+                fields: ['notification_id', 'endpoint_id'],
+            },
+            // Per-endpoint delivery log
+            {
+                name: 'idx_webhook_delivery_endpoint',
+                fields: ['user_id', 'endpoint_id', 'created_at'],
+            },
+        ],
+    }
+);
+
+export default WebhookDelivery;
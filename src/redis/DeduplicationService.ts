@@ -128,6 +128,11 @@ export class DeduplicationService {
 
             if (result) {
                 const data = JSON.parse(result);
+                // A retry of the same notification (e.g. a scheduled send that
+                // failed after routing began) is not a duplicate of itself
+                if (data.notificationId === notificationId) {
+                    return { isDuplicate: false };
+                }
                 return {
                     isDuplicate: true,
                     originalNotificationId: data.notificationId,
@@ -0,0 +1,105 @@
+/**
+ * Banking Notification Service - Idempotency Store
+ *
+ * Remembers the first response sent for a caller's Idempotency-Key so
+ * retried API calls get the same answer instead of a second send.
+ */
+
+import { redis, REDIS_KEYS } from './client';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+export interface StoredResponse {
+    statusCode: number;
+    body: unknown;
+}
+
+export type IdempotencyCheck =
+    | { state: 'new' }
+    | { state: 'in_progress' }
+    | { state: 'conflict' }
+    | { state: 'replay'; response: StoredResponse };
+
+interface IdempotencyRecord {
+    requestHash: string;
+    response?: StoredResponse;
+}
+
+export class IdempotencyStore {
+    private readonly windowMs: number;
+    private readonly lockTtlSeconds: number = 60; // Max time a first request may take to complete
+
+    constructor() {
+        this.windowMs = config.notification.idempotencyWindowMs;
+    }
+
+    /**
+     * Claim a key for a new request, or return what is already stored for it
+     */
+    async begin(caller: string, key: string, requestHash: string): Promise<IdempotencyCheck> {
+        const redisKey = REDIS_KEYS.IDEMPOTENCY(caller, key);
+
+        try {
+            const pending = JSON.stringify({ requestHash } as IdempotencyRecord);
+            const claimed = await redis.set(redisKey, pending, 'EX', this.lockTtlSeconds, 'NX');
+
+            if (claimed) {
+                return { state: 'new' };
+            }
+
+            const existing = await redis.get(redisKey);
+            if (!existing) {
+                // Expired between SET and GET; treat as new
+                return { state: 'new' };
+            }
+
+            const record = JSON.parse(existing) as IdempotencyRecord;
+
+            if (record.requestHash !== requestHash) {
+                return { state: 'conflict' };
+            }
+
+            return record.response
+                ? { state: 'replay', response: record.response }
+                : { state: 'in_progress' };
+        } catch (error) {
+            logger.error('Idempotency check failed', { caller, key, error });
+            // Process the request on error to avoid blocking sends
+            return { state: 'new' };
+        }
+    }
+
+    /**
+     * Store the response for the idempotency window
+     */
+    async complete(
+        caller: string,
+        key: string,
+        requestHash: string,
+        response: StoredResponse
+    ): Promise<void> {
+        const redisKey = REDIS_KEYS.IDEMPOTENCY(caller, key);
+        const ttlSeconds = Math.ceil(this.windowMs / 1000);
+
+        try {
+            const record: IdempotencyRecord = { requestHash, response };
+            await redis.setex(redisKey, ttlSeconds, JSON.stringify(record));
+        } catch (error) {
+            logger.error('Idempotency store failed', { caller, key, error });
+        }
+    }
+
+    /**
+     * Release a claimed key so the request can be retried
+     */
+    async release(caller: string, key: string): Promise<void> {
+        try {
+            await redis.del(REDIS_KEYS.IDEMPOTENCY(caller, key));
+        } catch (error) {
+            logger.error('Idempotency release failed', { caller, key, error });
+        }
+    }
+}
+
+// Export singleton
+export const idempotencyStore = new IdempotencyStore();
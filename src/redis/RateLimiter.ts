@@ -18,6 +18,9 @@ export interface RateLimitResult {
     waitMs?: number;
 }
 
+// Channels with per-user hourly/daily limits; all others are unlimited
+const RATE_LIMITED_CHANNELS: NotificationChannel[] = ['sms', 'email', 'push'];
+
 export interface UserRateLimits {
     smsPerHour: number;
     smsPerDay: number;
@@ -49,8 +52,8 @@ export class RateLimiter {
         channel: NotificationChannel,
         userLimits?: Partial<UserRateLimits>
     ): Promise<RateLimitResult> {
-        if (channel === 'websocket') {
-            // WebSocket has no rate limit (internal, free)
+        if (!RATE_LIMITED_CHANNELS.includes(channel)) {
+            // e.g. WebSocket has no rate limit (internal, free)
             return { allowed: true, remaining: -1, limit: -1, resetAt: new Date() };
         }
 
@@ -114,7 +117,7 @@ export class RateLimiter {
         channel: NotificationChannel,
         userLimits?: Partial<UserRateLimits>
     ): Promise<void> {
-        if (channel === 'websocket') return;
+        if (!RATE_LIMITED_CHANNELS.includes(channel)) return;
 
         const limits = { ...this.defaultLimits, ...userLimits };
         const { hourKey, dayKey } = this.getChannelKeys(userId, channel, limits);
@@ -144,7 +147,7 @@ export class RateLimiter {
         channel: NotificationChannel,
         userLimits?: Partial<UserRateLimits>
     ): Promise<RateLimitResult> {
-        if (channel === 'websocket') {
+        if (!RATE_LIMITED_CHANNELS.includes(channel)) {
             return { allowed: true, remaining: -1, limit: -1, resetAt: new Date() };
         }
 
@@ -211,10 +214,9 @@ export class RateLimiter {
      * Get current usage for a user
      */
     async getUsage(userId: string): Promise<Record<string, { hour: number; day: number }>> {
-        const channels: NotificationChannel[] = ['sms', 'email', 'push'];
         const usage: Record<string, { hour: number; day: number }> = {};
 
-        for (const channel of channels) {
+        for (const channel of RATE_LIMITED_CHANNELS) {
             const { hourKey, dayKey } = this.getChannelKeys(userId, channel, this.defaultLimits);
             const [hourCount, dayCount] = await Promise.all([
                 redis.get(hourKey),
@@ -233,7 +235,9 @@ export class RateLimiter {
      * Reset rate limits for a user (admin operation)
      */
     async resetLimits(userId: string, channel?: NotificationChannel): Promise<void> {
-        const channels: NotificationChannel[] = channel ? [channel] : ['sms', 'email', 'push'];
+        const channels = channel
+            ? RATE_LIMITED_CHANNELS.filter((ch) => ch === channel)
+            : RATE_LIMITED_CHANNELS;
 
         const keys: string[] = [];
         for (const ch of channels) {
@@ -94,6 +94,9 @@ export const REDIS_KEYS = {
     DEDUP: (userId: string, eventType: string, sourceId: string) =>
         `dedup:${userId}:${eventType}:${sourceId}`,
 
+    // API idempotency keys
+    IDEMPOTENCY: (caller: string, key: string) => `idempotency:${caller}:${key}`,
+
     // Digest queues
     DIGEST_HOURLY: (userId: string) => `digest:hourly:${userId}`,
     DIGEST_DAILY: (userId: string) => `digest:daily:${userId}`,
@@ -107,6 +110,14 @@ export const REDIS_KEYS = {
 
     // Delivery tracking
     DELIVERY: (notificationId: string) => `delivery:${notificationId}`,
+
+    // Push token cleanup job (run lock and cumulative counts)
+    PUSH_TOKEN_CLEANUP_LOCK: 'lock:push_token_cleanup',
+    PUSH_TOKEN_CLEANUP_STATS: 'stats:push_token_cleanup',
+
+    // One-time codes (hash of the code, attempts and resends) and the user's current code per purpose
+    OTP: (otpId: string) => `otp:${otpId}`,
+    OTP_ACTIVE: (userId: string, purpose: string) => `otp:active:${userId}:${purpose}`,
 };
 
 // TTL values in seconds
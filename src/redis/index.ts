@@ -7,3 +7,4 @@
 export { redis, initializeRedis, closeRedis, REDIS_KEYS, REDIS_TTL } from './client';
 export { rateLimiter, RateLimiter, RateLimitResult, UserRateLimits } from './RateLimiter';
 export { deduplicationService, DeduplicationService, DedupResult } from './DeduplicationService';
+export { idempotencyStore, IdempotencyStore, IdempotencyCheck, StoredResponse } from './IdempotencyStore';
@@ -5,10 +5,27 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { asyncHandler, authenticateInternalApi } from '../middleware';
-import { NotificationEvent, DeadLetterQueue } from '../models';
-import { retryService, digestService } from '../services';
+import {
+    asyncHandler,
+    authenticateInternalApi,
+    validateBody,
+    validateQuery,
+    createTemplateSchema,
+    heldQuerySchema,
+    ApiError,
+} from '../middleware';
+import { NotificationEvent, DeadLetterQueue, HeldNotification, HoldStatus, NotificationTemplate } from '../models';
+import {
+    retryService,
+    digestService,
+    quietHoursReleaseService,
+    scheduledNotificationService,
+    pushTokenCleanupService,
+    templateService,
+    CreateTemplateInput,
+} from '../services';
 import { rateLimiter } from '../redis/RateLimiter';
+import { channelRegistry } from '../channels';
 import { Op } from 'sequelize';
 
 const router = Router();
@@ -54,6 +71,7 @@ router.get(
             service: 'banking-notification-service',
             timestamp: new Date().toISOString(),
             checks,
+            channels: channelRegistry.getHealth(),
         });
     })
 );
@@ -74,7 +92,11 @@ router.get(
             failedNotifications24h,
             notificationsByChannel,
             notificationsByStatus,
+            smsSegmentsByEventType,
             retryStats,
+            holdStats,
+            scheduledStats,
+            pushTokenStats,
         ] = await Promise.all([
             NotificationEvent.count({ where: { createdAt: { [Op.gte]: oneDayAgo } } }),
             NotificationEvent.count({
@@ -98,7 +120,21 @@ router.get(
                 group: ['deliveryStatus'],
                 raw: true,
             }),
+            // SMS cost: carriers bill per segment
+            NotificationEvent.findAll({
+                attributes: [
+                    'eventType',
+                    [NotificationEvent.sequelize!.fn('COUNT', '*'), 'messages'],
+                    [NotificationEvent.sequelize!.fn('SUM', NotificationEvent.sequelize!.col('sms_segments')), 'segments'],
+                ],
+                where: { channel: 'sms', smsSegments: { [Op.ne]: null }, createdAt: { [Op.gte]: oneDayAgo } },
+                group: ['eventType'],
+                raw: true,
+            }),
             retryService.getStats(),
+            quietHoursReleaseService.getStats(),
+            scheduledNotificationService.getStats(),
+            pushTokenCleanupService.getStats(),
         ]);
 
         const successRate = totalNotifications24h > 0
@@ -116,7 +152,11 @@ router.get(
                 },
                 byChannel: notificationsByChannel,
                 byStatus: notificationsByStatus,
+                smsSegments: smsSegmentsByEventType,
                 retries: retryStats,
+                quietHoursHolds: holdStats,
+                scheduled: scheduledStats,
+                pushTokenCleanup: pushTokenStats,
                 timestamp: now.toISOString(),
             },
         });
@@ -220,6 +260,265 @@ router.post(
     })
 );
 
+/**
+ * GET /admin/notifications/:notificationId/trace
+ * Show the routing decisions recorded for each channel of a notification
+ */
+router.get(
+    '/notifications/:notificationId/trace',
+    asyncHandler(async (req: Request, res: Response) => {
+        const { notificationId } = req.params;
+
+        const rows = await NotificationEvent.findAll({
+            where: { notificationId },
+            attributes: ['notificationId', 'userId', 'eventType', 'channel', 'deliveryStatus', 'errorMessage', 'decisionTrace', 'createdAt'],
+            order: [['createdAt', 'ASC']],
+        });
+
+        if (rows.length === 0) {
+            throw ApiError.notFound('Notification not found');
+        }
+
+        res.json({
+            success: true,
+            data: {
+                notificationId,
+                userId: rows[0]!.userId,
+                eventType: rows[0]!.eventType,
+                channels: rows.map((r) => ({
+                    channel: r.channel,
+                    status: r.deliveryStatus,
+                    error: r.errorMessage,
+                    trace: r.decisionTrace ?? [],
+                    createdAt: r.createdAt,
+                })),
+            },
+        });
+    })
+);
+
+/**
+ * GET /admin/held
+ * Get notifications in the quiet hours hold queue
+ */
+router.get(
+    '/held',
+    validateQuery(heldQuerySchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { page = 1, limit = 20, status, userId } = req.query as {
+            page?: number;
+            limit?: number;
+            status?: HoldStatus;
+            userId?: string;
+        };
+
+        const where: Record<string, unknown> = {};
+        if (status) where['status'] = status;
+        if (userId) where['userId'] = userId;
+
+        const offset = (Number(page) - 1) * Number(limit);
+
+        const { count, rows } = await HeldNotification.findAndCountAll({
+            where,
+            order: [['releaseAt', 'ASC']],
+            limit: Number(limit),
+            offset,
+        });
+
+        res.json({
+            success: true,
+            data: {
+                items: rows,
+                pagination: {
+                    page: Number(page),
+                    limit: Number(limit),
+                    total: count,
+                    totalPages: Math.ceil(count / Number(limit)),
+                },
+            },
+        });
+    })
+);
+
+/**
+ * POST /admin/held/:id/cancel
+ * Cancel a held notification
+ */
+router.post(
+    '/held/:id/cancel',
+    asyncHandler(async (req: Request, res: Response) => {
+        const { id } = req.params;
+        const { cancelledBy } = req.body as { cancelledBy?: string };
+
+        const cancelled = await quietHoursReleaseService.cancel(id, undefined, cancelledBy ?? 'admin');
+
+        if (!cancelled) {
+            res.status(404).json({
+                success: false,
+                error: { code: 'NOT_FOUND', message: 'Held notification not found' },
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'Held notification cancelled',
+        });
+    })
+);
+
+/**
+ * GET /admin/templates
+ * List notification template versions
+ */
+router.get(
+    '/templates',
+    asyncHandler(async (req: Request, res: Response) => {
+        const { page = 1, limit = 20, kind, eventType, channel, locale, status } = req.query as {
+            page?: number;
+            limit?: number;
+            kind?: string;
+            eventType?: string;
+            channel?: string;
+            locale?: string;
+            status?: string;
+        };
+
+        const filter: Record<string, unknown> = {};
+        if (kind) filter['kind'] = kind;
+        if (eventType) filter['eventType'] = eventType;
+        if (channel) filter['channel'] = channel;
+        if (locale) filter['locale'] = locale;
+        if (status) filter['status'] = status;
+
+        const offset = (Number(page) - 1) * Number(limit);
+
+        const [items, total] = await Promise.all([
+            NotificationTemplate.find(filter)
+                .sort({ kind: 1, eventType: 1, channel: 1, locale: 1, version: -1 })
+                .skip(offset)
+                .limit(Number(limit)),
+            NotificationTemplate.countDocuments(filter),
+        ]);
+
+        res.json({
+            success: true,
+            data: {
+                items,
+                pagination: {
+                    page: Number(page),
+                    limit: Number(limit),
+                    total,
+                    totalPages: Math.ceil(total / Number(limit)),
+                },
+            },
+        });
+    })
+);
+
+/**
+ * GET /admin/templates/:id
+ * Get a template version
+ */
+router.get(
+    '/templates/:id',
+    asyncHandler(async (req: Request, res: Response) => {
+        const template = await templateService.get(req.params['id']!);
+
+        if (!template) {
+            throw ApiError.notFound('Template not found');
+        }
+
+        res.json({
+            success: true,
+            data: template,
+        });
+    })
+);
+
+/**
+ * POST /admin/templates
+ * Create a new template version (optionally activating it)
+ */
+router.post(
+    '/templates',
+    validateBody(createTemplateSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { createdBy, ...input } = req.body as CreateTemplateInput & { createdBy?: string };
+
+        const template = await templateService.createVersion(input, createdBy ?? 'admin');
+
+        res.status(201).json({
+            success: true,
+            data: template,
+        });
+    })
+);
+
+/**
+ * POST /admin/templates/:id/activate
+ * Activate a template version (also used to roll back)
+ */
+router.post(
+    '/templates/:id/activate',
+    asyncHandler(async (req: Request, res: Response) => {
+        const { activatedBy } = req.body as { activatedBy?: string };
+
+        const template = await templateService.activate(req.params['id']!, activatedBy ?? 'admin');
+
+        if (!template) {
+            throw ApiError.notFound('Template not found');
+        }
+
+        res.json({
+            success: true,
+            data: template,
+        });
+    })
+);
+
+/**
+ * POST /admin/templates/:id/archive
+ * Archive a template version
+ */
+router.post(
+    '/templates/:id/archive',
+    asyncHandler(async (req: Request, res: Response) => {
+        const template = await templateService.archive(req.params['id']!);
+
+        if (!template) {
+            throw ApiError.notFound('Template not found');
+        }
+
+        res.json({
+            success: true,
+            data: template,
+        });
+    })
+);
+
+/**
+ * POST /admin/templates/:id/preview
+ * Render a template version with sample data
+ */
+router.post(
+    '/templates/:id/preview',
+    asyncHandler(async (req: Request, res: Response) => {
+        const { data } = req.body as { data?: Record<string, unknown> };
+
+        const rendered = await templateService.preview(req.params['id']!, data);
+
+        if (!rendered) {
+            throw ApiError.notFound('Template not found');
+        }
+
+        res.json({
+            success: true,
+            data: rendered,
+        });
+    })
+);
+
 /**
  * POST /admin/digest/:userId/send
  * Force send digest for a user
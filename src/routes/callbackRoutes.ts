@@ -0,0 +1,128 @@
+/**
+ * Banking Notification Service - Provider Callback Routes
+ *
+ * Delivery receipts and inbound messages posted by messaging providers.
+ * Authenticated by the provider's request signature rather than our API keys.
+ */
+
+import { Router, Request, Response } from 'express';
+import Twilio from 'twilio';
+import {
+    asyncHandler,
+    authenticateTwilioWebhook,
+    authenticateSendGridWebhook,
+    validateBody,
+    twilioStatusCallbackSchema,
+    twilioInboundSmsSchema,
+    sendGridEventsSchema,
+    sendGridEventSchema,
+    ApiError,
+} from '../middleware';
+import { deliveryStatusService, inboundSmsService, SendGridEvent } from '../services';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/**
+ * POST /callbacks/twilio/sms-status
+ * Twilio message status callback (set TWILIO_STATUS_CALLBACK_URL to this route)
+ */
+router.post(
+    '/twilio/sms-status',
+    authenticateTwilioWebhook, // Before validation: the signature covers every posted field
+    validateBody(twilioStatusCallbackSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { MessageSid, MessageStatus, ErrorCode, ErrorMessage } = req.body;
+
+        const outcome = await deliveryStatusService.applyTwilioStatus({
+            messageSid: MessageSid,
+            messageStatus: MessageStatus,
+            errorCode: ErrorCode,
+            errorMessage: ErrorMessage,
+        });
+
+        // Always acknowledge so Twilio does not resend unknown or intermediate statuses
+        res.json({
+            success: true,
+            data: { outcome },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /callbacks/twilio/sms-inbound
+ * Twilio incoming message webhook (set as the number's "A message comes in" URL).
+ * Replies, e.g. to HELP, are returned as TwiML.
+ */
+router.post(
+    '/twilio/sms-inbound',
+    authenticateTwilioWebhook,
+    validateBody(twilioInboundSmsSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { MessageSid, From, Body } = req.body;
+
+        const result = await inboundSmsService.handleInbound({
+            provider: 'twilio',
+            messageId: MessageSid,
+            from: From,
+            body: Body,
+        });
+
+        const twiml = new Twilio.twiml.MessagingResponse();
+        if (result.reply) {
+            twiml.message(result.reply);
+        }
+
+        res.type('text/xml').send(twiml.toString());
+    })
+);
+
+/**
+ * POST /callbacks/sendgrid/events
+ * SendGrid signed event webhook (delivered, bounce, dropped, spamreport, open, ...)
+ */
+router.post(
+    '/sendgrid/events',
+    authenticateSendGridWebhook, // Needs the raw body, which index.ts leaves unparsed for this path
+    asyncHandler(async (req: Request, res: Response) => {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse((req.body as Buffer).toString('utf8'));
+        } catch {
+            throw ApiError.badRequest('Invalid JSON body');
+        }
+
+        const { error } = sendGridEventsSchema.validate(parsed);
+        if (error) {
+            throw ApiError.badRequest('Validation failed', {
+                errors: error.details.map((d) => ({ field: d.path.join('.'), message: d.message })),
+            });
+        }
+
+        // SendGrid retries the whole batch on an error response, so a
+        // malformed event is skipped rather than failing the others
+        const events: SendGridEvent[] = [];
+        let invalid = 0;
+
+        (parsed as unknown[]).forEach((event, index) => {
+            const result = sendGridEventSchema.validate(event);
+            if (result.error) {
+                invalid++;
+                logger.warn('Invalid SendGrid event skipped', { index, error: result.error.message });
+                return;
+            }
+            events.push(result.value as SendGridEvent);
+        });
+
+        const summary = await deliveryStatusService.applySendGridEvents(events);
+
+        res.json({
+            success: true,
+            data: { ...summary, invalid },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+export default router;
@@ -0,0 +1,231 @@
+/**
+ * Banking Notification Service - Inbox Routes
+ *
+ * User-facing API for the persistent in-app inbox.
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+    asyncHandler,
+    authenticateUser,
+    validateBody,
+    validateQuery,
+    validateUuidParam,
+    inboxQuerySchema,
+    inboxBulkSchema,
+    requireUserId,
+    ApiError,
+} from '../middleware';
+import { inboxService, InboxAction, InboxView } from '../services';
+import { InboxEntry } from '../models';
+import { InboxCategory } from '../types';
+
+const router = Router();
+
+// Actions available on a single entry (delete has its own route)
+const ENTRY_ACTIONS: ReadonlyArray<Exclude<InboxAction, 'delete'>> = [
+    'seen',
+    'read',
+    'unread',
+    'archive',
+    'unarchive',
+    'pin',
+    'unpin',
+];
+
+/**
+ * Shape an inbox entry for the app
+ */
+function toInboxItem(entry: InboxEntry): Record<string, unknown> {
+    return {
+        id: entry.id,
+        notificationId: entry.notificationId,
+        eventType: entry.eventType,
+        category: entry.category,
+        priority: entry.priority,
+        title: entry.title,
+        message: entry.message,
+        data: entry.data,
+        actions: entry.actions,
+        seen: !!entry.seenAt,
+        read: !!entry.readAt,
+        archived: !!entry.archivedAt,
+        pinned: !!entry.pinnedAt,
+        readAt: entry.readAt,
+        createdAt: entry.createdAt,
+    };
+}
+
+/**
+ * GET /inbox
+ * List inbox entries, newest first, one cursor page at a time
+ */
+router.get(
+    '/',
+    authenticateUser,
+    validateQuery(inboxQuerySchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { view = 'inbox', category, cursor, limit = 20 } = req.query as {
+            view?: InboxView;
+            category?: InboxCategory;
+            cursor?: string;
+            limit?: number;
+        };
+
+        const decoded = cursor ? inboxService.decodeCursor(cursor) : undefined;
+        if (decoded === null) {
+            throw ApiError.badRequest('Invalid cursor');
+        }
+
+        const page = await inboxService.list(userId, { view, category, cursor: decoded, limit });
+
+        res.json({
+            success: true,
+            data: {
+                entries: page.entries.map(toInboxItem),
+                nextCursor: page.nextCursor,
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * GET /inbox/counts
+ * Unseen and unread counts for the inbox badge
+ */
+router.get(
+    '/counts',
+    authenticateUser,
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+
+        const counts = await inboxService.getCounts(userId);
+
+        res.json({
+            success: true,
+            data: counts,
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /inbox/bulk
+ * Apply an action to the given entries, or to every entry in a view/category
+ */
+router.post(
+    '/bulk',
+    authenticateUser,
+    validateBody(inboxBulkSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { action, entryIds, view, category } = req.body;
+
+        const count = await inboxService.applyBulkAction(userId, action, { entryIds, view, category });
+
+        res.json({
+            success: true,
+            data: { action, updatedCount: count },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * GET /inbox/:entryId
+ * Get a single inbox entry
+ */
+router.get(
+    '/:entryId',
+    authenticateUser,
+    validateUuidParam('entryId'),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { entryId } = req.params;
+
+        const entry = await inboxService.getEntry(userId, entryId);
+
+        if (!entry) {
+            res.status(404).json({
+                success: false,
+                error: { code: 'NOT_FOUND', message: 'Inbox entry not found' },
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: toInboxItem(entry),
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /inbox/:entryId/:action
+ * Mark an entry seen/read/unread, archive or unarchive it, pin or unpin it
+ */
+router.post(
+    '/:entryId/:action',
+    authenticateUser,
+    validateUuidParam('entryId'),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { entryId, action } = req.params;
+
+        const entryAction = ENTRY_ACTIONS.find((a) => a === action);
+        if (!entryAction) {
+            throw ApiError.badRequest(`Unknown inbox action: ${action}`);
+        }
+
+        const entry = await inboxService.applyAction(userId, entryId, entryAction);
+
+        if (!entry) {
+            res.status(404).json({
+                success: false,
+                error: { code: 'NOT_FOUND', message: 'Inbox entry not found' },
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: toInboxItem(entry),
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * DELETE /inbox/:entryId
+ * Delete an inbox entry
+ */
+router.delete(
+    '/:entryId',
+    authenticateUser,
+    validateUuidParam('entryId'),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { entryId } = req.params;
+
+        const deleted = await inboxService.deleteEntry(userId, entryId);
+
+        if (!deleted) {
+            res.status(404).json({
+                success: false,
+                error: { code: 'NOT_FOUND', message: 'Inbox entry not found' },
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'Inbox entry deleted',
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+export default router;
@@ -6,4 +6,8 @@
 
 export { default as notificationRoutes } from './notificationRoutes';
 export { default as preferencesRoutes } from './preferencesRoutes';
+export { default as inboxRoutes } from './inboxRoutes';
 export { default as adminRoutes } from './adminRoutes';
+export { default as callbackRoutes } from './callbackRoutes';
+export { default as otpRoutes } from './otpRoutes';
+export { default as unsubscribeRoutes } from './unsubscribeRoutes';
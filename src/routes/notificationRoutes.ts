@@ -10,15 +10,19 @@ import {
     asyncHandler,
     authenticateInternalApi,
     authenticateUser,
+    idempotency,
     validateBody,
     validateQuery,
     validateUuidParam,
     sendNotificationSchema,
     historyQuerySchema,
+    scheduledQuerySchema,
+    rescheduleSchema,
     requireUserId,
 } from '../middleware';
-import { notificationRouter } from '../services';
-import { NotificationEvent } from '../models';
+import { notificationRouter, quietHoursReleaseService, scheduledNotificationService } from '../services';
+import { NotificationEvent, ScheduleStatus } from '../models';
+import { channelRegistry } from '../channels';
 import { NotificationEventType } from '../types';
 import { Op } from 'sequelize';
 
@@ -28,16 +32,33 @@ const router = Router();
 
 /**
  * POST /notifications/send
- * Send a notification (called by other services)
+ * Send a notification (called by other services).
+ * With sendAt, the notification is stored and sent at that time.
+ * Repeats with the same Idempotency-Key replay the first response.
  */
 router.post(
     '/send',
     authenticateInternalApi,
+    idempotency,
     validateBody(sendNotificationSchema),
     asyncHandler(async (req: Request, res: Response) => {
-        const { userId, eventType, title, message, eventSourceId, priority, data, correlationId } = req.body;
-
-        const result = await notificationRouter.route({
+        const {
+            userId,
+            eventType,
+            title,
+            message,
+            eventSourceId,
+            priority,
+            data,
+            correlationId,
+            sendAt,
+            expiresAt,
+            ttlSeconds,
+            actions,
+            push,
+        } = req.body;
+
+        const request = {
             userId,
             eventType: eventType as NotificationEventType,
             title,
@@ -46,7 +67,29 @@ router.post(
             priority,
             data,
             correlationId: correlationId ?? req.correlationId,
-        });
+            expiresAt,
+            ttlMs: ttlSeconds !== undefined ? ttlSeconds * 1000 : undefined,
+            actions,
+            push,
+        };
+
+        if (sendAt) {
+            const scheduled = await scheduledNotificationService.schedule(request, sendAt);
+
+            res.status(202).json({
+                success: true,
+                data: {
+                    notificationId: scheduled.notificationId,
+                    scheduleId: scheduled.id,
+                    sendAt: scheduled.sendAt,
+                    scheduled: true,
+                },
+                correlationId: req.correlationId,
+            });
+            return;
+        }
+
+        const result = await notificationRouter.route(request);
 
         res.status(200).json({
             success: true,
@@ -59,7 +102,80 @@ router.post(
                 })),
                 skipped: result.skippedChannels,
                 queued: result.queued,
+                holdId: result.holdId,
+                heldUntil: result.heldUntil,
+                digestQueued: result.digestQueued,
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /notifications/preview
+ * Dry-run routing: run every routing check without sending and
+ * explain which channels would be used and why others are skipped
+ */
+router.post(
+    '/preview',
+    authenticateInternalApi,
+    validateBody(sendNotificationSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const {
+            userId,
+            eventType,
+            title,
+            message,
+            eventSourceId,
+            priority,
+            data,
+            expiresAt,
+            ttlSeconds,
+            actions,
+            push,
+        } = req.body;
+
+        const result = await notificationRouter.route(
+            {
+                userId,
+                eventType: eventType as NotificationEventType,
+                title,
+                message,
+                eventSourceId,
+                priority,
+                data,
+                correlationId: req.correlationId,
+                expiresAt,
+                ttlMs: ttlSeconds !== undefined ? ttlSeconds * 1000 : undefined,
+                actions,
+                push,
+            },
+            { dryRun: true }
+        );
+
+        // Explain every channel that would not be used: its own failed
+        // check, or the notification-wide check that stopped routing
+        const blockedBy = result.trace.find((d) => !d.passed && !d.channel);
+        const skipped = channelRegistry.getChannels()
+            .filter((channel) => !result.plannedChannels.includes(channel))
+            .map((channel) => {
+                const decision = result.trace.find((d) => !d.passed && d.channel === channel) ?? blockedBy;
+                return {
+                    channel,
+                    check: decision?.check ?? 'channel_selection',
+                    reason: decision?.detail ?? 'Not selected',
+                };
+            });
+
+        res.json({
+            success: true,
+            data: {
+                channels: result.plannedChannels,
+                skipped,
+                queued: result.queued,
+                heldUntil: result.heldUntil,
                 digestQueued: result.digestQueued,
+                trace: result.trace,
             },
             correlationId: req.correlationId,
         });
@@ -73,6 +189,7 @@ router.post(
 router.post(
     '/batch',
     authenticateInternalApi,
+    idempotency,
     asyncHandler(async (req: Request, res: Response) => {
         const { notifications } = req.body as {
             notifications: Array<{
@@ -134,6 +251,110 @@ router.post(
     })
 );
 
+/**
+ * GET /notifications/scheduled
+ * List a user's scheduled notifications
+ */
+router.get(
+    '/scheduled',
+    authenticateInternalApi,
+    validateQuery(scheduledQuerySchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { userId, status } = req.query as { userId: string; status?: ScheduleStatus };
+
+        const scheduled = await scheduledNotificationService.listScheduled(userId, status);
+
+        res.json({
+            success: true,
+            data: {
+                notifications: scheduled.map((s) => ({
+                    scheduleId: s.id,
+                    notificationId: s.notificationId,
+                    eventType: s.eventType,
+                    eventSourceId: s.eventSourceId,
+                    title: (s.request['title'] as string | undefined) ?? '',
+                    message: (s.request['message'] as string | undefined) ?? '',
+                    status: s.status,
+                    sendAt: s.sendAt,
+                    outcome: s.outcome,
+                    sentAt: s.sentAt,
+                    createdAt: s.createdAt,
+                })),
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * PATCH /notifications/scheduled/:scheduleId
+ * Move a scheduled notification to a new send time
+ */
+router.patch(
+    '/scheduled/:scheduleId',
+    authenticateInternalApi,
+    validateUuidParam('scheduleId'),
+    validateBody(rescheduleSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { scheduleId } = req.params;
+        const { sendAt } = req.body as { sendAt: Date };
+
+        const scheduled = await scheduledNotificationService.reschedule(scheduleId, undefined, sendAt);
+
+        if (!scheduled) {
+            res.status(404).json({
+                success: false,
+                error: { code: 'NOT_FOUND', message: 'Scheduled notification not found or already sent' },
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: {
+                scheduleId: scheduled.id,
+                notificationId: scheduled.notificationId,
+                sendAt: scheduled.sendAt,
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * DELETE /notifications/scheduled/:scheduleId
+ * Cancel a scheduled notification before it is sent
+ */
+router.delete(
+    '/scheduled/:scheduleId',
+    authenticateInternalApi,
+    validateUuidParam('scheduleId'),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { scheduleId } = req.params;
+        const { cancelledBy } = req.body as { cancelledBy?: string };
+
+        const cancelled = await scheduledNotificationService.cancel(
+            scheduleId,
+            undefined,
+            cancelledBy ?? 'service'
+        );
+
+        if (!cancelled) {
+            res.status(404).json({
+                success: false,
+                error: { code: 'NOT_FOUND', message: 'Scheduled notification not found or already sent' },
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'Scheduled notification cancelled',
+            correlationId: req.correlationId,
+        });
+    })
+);
+
 // ==================== User-Facing Endpoints ====================
 
 /**
@@ -212,6 +433,68 @@ router.get(
     })
 );
 
+/**
+ * GET /notifications/held
+ * List notifications held back by quiet hours
+ */
+router.get(
+    '/held',
+    authenticateUser,
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+
+        const held = await quietHoursReleaseService.listHeld(userId);
+
+        res.json({
+            success: true,
+            data: {
+                notifications: held.map((h) => ({
+                    holdId: h.id,
+                    notificationId: h.notificationId,
+                    eventType: h.eventType,
+                    title: (h.payload['title'] as string | undefined) ?? '',
+                    message: (h.payload['message'] as string | undefined) ?? '',
+                    priority: h.priority,
+                    status: h.status,
+                    releaseAt: h.releaseAt,
+                    createdAt: h.createdAt,
+                })),
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * DELETE /notifications/held/:holdId
+ * Cancel a held notification before it is released
+ */
+router.delete(
+    '/held/:holdId',
+    authenticateUser,
+    validateUuidParam('holdId'),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { holdId } = req.params;
+
+        const cancelled = await quietHoursReleaseService.cancel(holdId, userId, userId);
+
+        if (!cancelled) {
+            res.status(404).json({
+                success: false,
+                error: { code: 'NOT_FOUND', message: 'Held notification not found' },
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            message: 'Held notification cancelled',
+            correlationId: req.correlationId,
+        });
+    })
+);
+
 /**
  * GET /notifications/:id
  * Get single notification details
@@ -0,0 +1,127 @@
+/**
+ * Banking Notification Service - One-Time Code Routes
+ *
+ * Service-to-service endpoints for issuing and verifying one-time codes.
+ * Codes are only ever sent to the user; responses never contain them.
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+    asyncHandler,
+    authenticateInternalApi,
+    validateBody,
+    validateUuidParam,
+    issueOtpSchema,
+    verifyOtpSchema,
+    ApiError,
+} from '../middleware';
+import { otpService } from '../services';
+
+const router = Router();
+
+/**
+ * POST /otp/send
+ * Generate a code and send it to the user over SMS, email or push.
+ * Replaces any code previously issued to the user for the same purpose
+ * (subject to the resend cooldown and limit).
+ */
+router.post(
+    '/send',
+    authenticateInternalApi,
+    validateBody(issueOtpSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { userId, purpose, channel, locale } = req.body;
+
+        const result = await otpService.issue({ userId, purpose, channel, locale });
+
+        switch (result.outcome) {
+            case 'no_contact':
+                throw ApiError.conflict(`User has no ${channel} contact to send a code to`);
+            case 'failed':
+                throw new ApiError(502, 'Code could not be delivered', 'DELIVERY_FAILED', { error: result.error });
+            case 'cooldown':
+                res.setHeader('Retry-After', String(result.retryAfterSeconds));
+                throw ApiError.tooManyRequests(`Wait ${result.retryAfterSeconds}s before requesting another code`);
+            case 'limit_reached':
+                throw ApiError.tooManyRequests('Too many codes requested; wait for the current code to expire');
+        }
+
+        res.status(201).json({
+            success: true,
+            data: {
+                otpId: result.otpId,
+                channel,
+                destination: result.destination,
+                expiresAt: result.expiresAt,
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /otp/:otpId/resend
+ * Send a new code for an existing OTP (limited, with a cooldown between sends)
+ */
+router.post(
+    '/:otpId/resend',
+    authenticateInternalApi,
+    validateUuidParam('otpId'),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { otpId } = req.params;
+
+        const result = await otpService.resend(otpId!);
+
+        switch (result.outcome) {
+            case 'not_found':
+                throw ApiError.notFound('Code not found or expired');
+            case 'no_contact':
+                throw ApiError.conflict('User no longer has a contact for this channel');
+            case 'failed':
+                throw new ApiError(502, 'Code could not be delivered', 'DELIVERY_FAILED');
+            case 'cooldown':
+                res.setHeader('Retry-After', String(result.retryAfterSeconds));
+                throw ApiError.tooManyRequests(`Wait ${result.retryAfterSeconds}s before resending`);
+            case 'limit_reached':
+                throw ApiError.tooManyRequests('Resend limit reached; issue a new code');
+        }
+
+        res.json({
+            success: true,
+            data: {
+                otpId,
+                expiresAt: result.expiresAt,
+                resendsRemaining: result.resendsRemaining,
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /otp/verify
+ * Check a code entered by the user. Always 200 when the request is valid;
+ * data.verified is true only for a correct, unexpired code, which is then used up.
+ */
+router.post(
+    '/verify',
+    authenticateInternalApi,
+    validateBody(verifyOtpSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const { otpId, userId, purpose, code } = req.body;
+
+        const result = await otpService.verify(otpId, code, userId, purpose);
+
+        res.json({
+            success: true,
+            data: {
+                verified: result.outcome === 'verified',
+                outcome: result.outcome,
+                attemptsRemaining: result.attemptsRemaining,
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+export default router;
@@ -11,13 +11,69 @@ import {
     validateBody,
     updatePreferencesSchema,
     registerDeviceSchema,
+    registerWebhookSchema,
+    updateWebhookSchema,
+    confirmContactVerificationSchema,
+    validateUuidParam,
     requireUserId,
+    ApiError,
 } from '../middleware';
-import { UserPreferences } from '../models';
+import { ContactChannel, UserPreferences, WebhookDelivery, WebhookEndpoint } from '../models';
+import { contactVerificationService } from '../services';
+import { config } from '../config/config';
 import { rateLimiter } from '../redis/RateLimiter';
+import { NotificationChannel } from '../types';
+import { normalizeLocale } from '../utils/locale';
+import { checkPublicUrl } from '../utils/network';
 
 const router = Router();
 
+// Contacts as named in URLs
+const CONTACT_CHANNELS: Record<string, ContactChannel> = {
+    phone: 'sms',
+    email: 'email',
+};
+
+/**
+ * Resolve the :contact URL parameter ('phone' or 'email')
+ */
+function requireContactChannel(req: Request): ContactChannel {
+    const channel = CONTACT_CHANNELS[req.params['contact'] ?? ''];
+    if (!channel) {
+        throw ApiError.notFound('Unknown contact; use phone or email');
+    }
+    return channel;
+}
+
+/**
+ * Reject webhook URLs that resolve to loopback, private or metadata addresses
+ */
+async function assertPublicWebhookUrl(url: string): Promise<void> {
+    const reason = await checkPublicUrl(url);
+    if (reason) {
+        throw ApiError.badRequest(`Webhook URL not allowed: ${reason}`);
+    }
+}
+
+/**
+ * Shape a webhook endpoint for responses (never includes the secret)
+ */
+function toWebhookResponse(endpoint: WebhookEndpoint): Record<string, unknown> {
+    return {
+        endpointId: endpoint.endpointId,
+        url: endpoint.url,
+        description: endpoint.description,
+        eventTypes: endpoint.eventTypes ?? [],
+        enabled: endpoint.enabled && !endpoint.disabledAt,
+        consecutiveFailures: endpoint.consecutiveFailures ?? 0,
+        disabledAt: endpoint.disabledAt,
+        disabledReason: endpoint.disabledReason,
+        lastSuccessAt: endpoint.lastSuccessAt,
+        lastFailureAt: endpoint.lastFailureAt,
+        createdAt: endpoint.createdAt,
+    };
+}
+
 /**
  * GET /preferences
  * Get user notification preferences
@@ -54,8 +110,13 @@ router.get(
                     enabled: preferences.channels?.push?.enabled ?? true,
                     deviceCount: preferences.channels?.push?.devices?.length ?? 0,
                 },
+                webhook: {
+                    enabled: preferences.channels?.webhook?.enabled ?? true,
+                    endpointCount: preferences.channels?.webhook?.endpoints?.length ?? 0,
+                },
             },
             notificationTypes: Object.fromEntries(preferences.notificationTypes ?? new Map()),
+            locale: preferences.locale,
             quietHours: preferences.quietHours,
             rateLimits: preferences.rateLimits,
             doNotContact: {
@@ -87,6 +148,7 @@ router.put(
         const updates = req.body;
 
         const preferences = await UserPreferences.findOrCreateByUserId(userId);
+        const contactChanges: Array<{ channel: ContactChannel; previous: string | null }> = [];
 
         // Update channels
         if (updates.channels) {
@@ -98,7 +160,10 @@ router.put(
             }
             if (updates.channels.sms) {
                 if (updates.channels.sms.phoneNumber) {
-                    preferences.setEncryptedPhoneNumber(updates.channels.sms.phoneNumber);
+                    const previous = preferences.getDecryptedPhoneNumber();
+                    if (preferences.setEncryptedPhoneNumber(updates.channels.sms.phoneNumber)) {
+                        contactChanges.push({ channel: 'sms', previous });
+                    }
                     delete updates.channels.sms.phoneNumber;
                 }
                 preferences.channels.sms = {
@@ -108,7 +173,10 @@ router.put(
             }
             if (updates.channels.email) {
                 if (updates.channels.email.address) {
-                    preferences.setEncryptedEmail(updates.channels.email.address);
+                    const previous = preferences.getDecryptedEmail();
+                    if (preferences.setEncryptedEmail(updates.channels.email.address)) {
+                        contactChanges.push({ channel: 'email', previous });
+                    }
                     delete updates.channels.email.address;
                 }
                 preferences.channels.email = {
@@ -124,12 +192,17 @@ router.put(
             }
         }
 
+        // Update locale
+        if (updates.locale) {
+            preferences.locale = normalizeLocale(updates.locale);
+        }
+
         // Update notification types
         if (updates.notificationTypes) {
             for (const [eventType, prefs] of Object.entries(updates.notificationTypes)) {
                 preferences.notificationTypes.set(eventType as any, prefs as {
                     enabled: boolean;
-                    channels: ('websocket' | 'sms' | 'email' | 'push')[];
+                    channels: NotificationChannel[];
                     quietHoursOverride: boolean;
                 });
             }
@@ -162,9 +235,85 @@ router.put(
 
         await preferences.save();
 
+        // Changed contacts need verifying again; the old contact is told
+        for (const { channel, previous } of contactChanges) {
+            await contactVerificationService.contactChanged(preferences, channel, previous);
+        }
+
         res.json({
             success: true,
             message: 'Preferences updated successfully',
+            data: {
+                verificationRequired: contactChanges.map((c) => (c.channel === 'sms' ? 'phone' : 'email')),
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /preferences/contacts/:contact/verification
+ * Send a verification code to the user's phone number or email address
+ * (:contact is 'phone' or 'email')
+ */
+router.post(
+    '/contacts/:contact/verification',
+    authenticateUser,
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const channel = requireContactChannel(req);
+
+        const result = await contactVerificationService.start(userId, channel);
+
+        switch (result.outcome) {
+            case 'already_verified':
+                throw ApiError.conflict(`The ${req.params['contact']} is already verified`);
+            case 'no_contact':
+                throw ApiError.badRequest(`No ${req.params['contact']} to verify; add one first`);
+            case 'failed':
+                throw new ApiError(502, 'Verification code could not be delivered', 'DELIVERY_FAILED');
+            case 'cooldown':
+                res.setHeader('Retry-After', String(result.retryAfterSeconds));
+                throw ApiError.tooManyRequests(`Wait ${result.retryAfterSeconds}s before requesting another code`);
+            case 'limit_reached':
+                throw ApiError.tooManyRequests('Too many codes requested; wait for the current code to expire');
+        }
+
+        res.status(201).json({
+            success: true,
+            data: {
+                otpId: result.otpId,
+                destination: result.destination,
+                expiresAt: result.expiresAt,
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /preferences/contacts/:contact/verification/confirm
+ * Confirm the phone number or email address with the code sent to it
+ */
+router.post(
+    '/contacts/:contact/verification/confirm',
+    authenticateUser,
+    validateBody(confirmContactVerificationSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const channel = requireContactChannel(req);
+        const { otpId, code } = req.body;
+
+        const result = await contactVerificationService.confirm(userId, channel, otpId, code);
+
+        res.json({
+            success: true,
+            data: {
+                verified: result.outcome === 'verified',
+                outcome: result.outcome,
+                attemptsRemaining: result.attemptsRemaining,
+                verifiedAt: result.verifiedAt,
+            },
             correlationId: req.correlationId,
         });
     })
@@ -263,6 +412,204 @@ router.delete(
     })
 );
 
+/**
+ * GET /preferences/webhooks
+ * List registered webhook endpoints
+ */
+router.get(
+    '/webhooks',
+    authenticateUser,
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+
+        const preferences = await UserPreferences.findOrCreateByUserId(userId);
+
+        res.json({
+            success: true,
+            data: {
+                endpoints: (preferences.channels.webhook?.endpoints ?? []).map(toWebhookResponse),
+            },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /preferences/webhooks
+ * Register a webhook endpoint. The signing secret is only returned here
+ * and when rotated.
+ */
+router.post(
+    '/webhooks',
+    authenticateUser,
+    validateBody(registerWebhookSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { url, description, eventTypes } = req.body;
+
+        const preferences = await UserPreferences.findOrCreateByUserId(userId);
+
+        if ((preferences.channels.webhook?.endpoints?.length ?? 0) >= config.webhook.maxEndpointsPerUser) {
+            throw ApiError.badRequest(`At most ${config.webhook.maxEndpointsPerUser} webhook endpoints can be registered`);
+        }
+
+        await assertPublicWebhookUrl(url);
+
+        const { endpoint, secret } = preferences.addWebhookEndpoint({ url, description, eventTypes });
+        await preferences.save();
+
+        res.status(201).json({
+            success: true,
+            message: 'Webhook endpoint registered',
+            data: { ...toWebhookResponse(endpoint), secret },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * PATCH /preferences/webhooks/:endpointId
+ * Update a webhook endpoint. Enabling it clears an automatic disable.
+ */
+router.patch(
+    '/webhooks/:endpointId',
+    authenticateUser,
+    validateUuidParam('endpointId'),
+    validateBody(updateWebhookSchema),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { endpointId } = req.params;
+        const { url, description, eventTypes, enabled } = req.body;
+
+        const preferences = await UserPreferences.findOrCreateByUserId(userId);
+        const endpoint = preferences.channels.webhook?.endpoints?.find((e) => e.endpointId === endpointId);
+
+        if (!endpoint) {
+            throw ApiError.notFound('Webhook endpoint not found');
+        }
+
+        if (url !== undefined) {
+            await assertPublicWebhookUrl(url);
+            endpoint.url = url;
+        }
+        if (description !== undefined) endpoint.description = description || undefined;
+        if (eventTypes !== undefined) endpoint.eventTypes = eventTypes;
+        if (enabled !== undefined) {
+            endpoint.enabled = enabled;
+            if (enabled) {
+                endpoint.consecutiveFailures = 0;
+                endpoint.disabledAt = undefined;
+                endpoint.disabledReason = undefined;
+            }
+        }
+
+        await preferences.save();
+
+        res.json({
+            success: true,
+            data: toWebhookResponse(endpoint),
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * POST /preferences/webhooks/:endpointId/rotate-secret
+ * Replace an endpoint's signing secret
+ */
+router.post(
+    '/webhooks/:endpointId/rotate-secret',
+    authenticateUser,
+    validateUuidParam('endpointId'),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { endpointId } = req.params;
+
+        const preferences = await UserPreferences.findOrCreateByUserId(userId);
+        const secret = preferences.rotateWebhookSecret(endpointId);
+
+        if (!secret) {
+            throw ApiError.notFound('Webhook endpoint not found');
+        }
+
+        await preferences.save();
+
+        res.json({
+            success: true,
+            data: { endpointId, secret },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * DELETE /preferences/webhooks/:endpointId
+ * Remove a webhook endpoint
+ */
+router.delete(
+    '/webhooks/:endpointId',
+    authenticateUser,
+    validateUuidParam('endpointId'),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { endpointId } = req.params;
+
+        const preferences = await UserPreferences.findOrCreateByUserId(userId);
+        const endpoints = preferences.channels.webhook?.endpoints ?? [];
+
+        if (!endpoints.some((e) => e.endpointId === endpointId)) {
+            throw ApiError.notFound('Webhook endpoint not found');
+        }
+
+        preferences.channels.webhook!.endpoints = endpoints.filter((e) => e.endpointId !== endpointId);
+        await preferences.save();
+
+        res.json({
+            success: true,
+            message: 'Webhook endpoint removed',
+            correlationId: req.correlationId,
+        });
+    })
+);
+
+/**
+ * GET /preferences/webhooks/:endpointId/deliveries
+ * Recent delivery attempts for an endpoint
+ */
+router.get(
+    '/webhooks/:endpointId/deliveries',
+    authenticateUser,
+    validateUuidParam('endpointId'),
+    asyncHandler(async (req: Request, res: Response) => {
+        const userId = requireUserId(req);
+        const { endpointId } = req.params;
+
+        const deliveries = await WebhookDelivery.findAll({
+            where: { userId, endpointId },
+            order: [['createdAt', 'DESC']],
+            limit: 100,
+            attributes: [
+                'id',
+                'notificationId',
+                'eventType',
+                'url',
+                'attempt',
+                'success',
+                'statusCode',
+                'errorMessage',
+                'latencyMs',
+                'createdAt',
+            ],
+        });
+
+        res.json({
+            success: true,
+            data: { deliveries },
+            correlationId: req.correlationId,
+        });
+    })
+);
+
 /**
  * GET /preferences/usage
  * Get rate limit usage for current user
@@ -300,11 +647,7 @@ router.post(
 
         const preferences = await UserPreferences.findOrCreateByUserId(userId);
 
-        preferences.doNotContact = {
-            enabled: true,
-            reason: reason ?? 'user_requested',
-            updatedAt: new Date(),
-        };
+        preferences.unsubscribe('all', reason);
 
         await preferences.save();
 
@@ -0,0 +1,123 @@
+/**
+ * Banking Notification Service - Email Unsubscribe Routes
+ *
+ * Public pages behind the unsubscribe links in marketing and digest emails.
+ * Authenticated by the signed token in the link rather than a login.
+ * GET shows a confirmation page (so link scanners never unsubscribe anyone);
+ * POST unsubscribes, both from that page and as the RFC 8058 one-click
+ * request mail clients send to the List-Unsubscribe URL.
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../middleware';
+import { UserPreferences } from '../models';
+import { verifyUnsubscribeToken } from '../channels';
+import { translate } from '../i18n';
+import { escapeHtml } from '../utils/template';
+import { logger } from '../utils/logger';
+import { UnsubscribeCategory } from '../types';
+
+const router = Router();
+
+/**
+ * Localized description of what the link unsubscribes from
+ */
+function describeCategory(category: UnsubscribeCategory, locale?: string): string {
+    return translate(`unsubscribe.category.${category}`, locale)
+        ?? translate('unsubscribe.category.default', locale)!;
+}
+
+/**
+ * Minimal standalone page (no inline styles or scripts; see the CSP in index.ts)
+ */
+function renderPage(locale: string | undefined, body: string): string {
+    const title = escapeHtml(translate('unsubscribe.title', locale)!);
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale ?? 'en')}">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta name="robots" content="noindex">
+    <title>${title}</title>
+</head>
+<body>
+    <h1>${title}</h1>
+    ${body}
+</body>
+</html>`;
+}
+
+function readToken(req: Request): string {
+    const token = req.query['token'];
+    return typeof token === 'string' ? token : '';
+}
+
+function sendInvalidLink(res: Response): void {
+    res.status(400).type('html').send(
+        renderPage(undefined, `<p>${escapeHtml(translate('unsubscribe.invalid', undefined)!)}</p>`)
+    );
+}
+
+/**
+ * GET /unsubscribe?token=
+ * Confirmation page
+ */
+router.get(
+    '/',
+    asyncHandler(async (req: Request, res: Response) => {
+        const token = readToken(req);
+        const claims = verifyUnsubscribeToken(token);
+        if (!claims) {
+            sendInvalidLink(res);
+            return;
+        }
+
+        const prefs = await UserPreferences.findByUserId(claims.userId);
+        const locale = prefs?.locale;
+        const prompt = translate('unsubscribe.confirm_prompt', locale, {
+            category: describeCategory(claims.category, locale),
+        })!;
+        const action = `${req.baseUrl}?token=${encodeURIComponent(token)}`;
+
+        res.type('html').send(renderPage(locale, `
+    <p>${escapeHtml(prompt)}</p>
+    <form method="post" action="${escapeHtml(action)}">
+        <button type="submit">${escapeHtml(translate('unsubscribe.button', locale)!)}</button>
+    </form>`));
+    })
+);
+
+/**
+ * POST /unsubscribe?token=
+ * Unsubscribe (confirmation form or List-Unsubscribe-Post one-click)
+ */
+router.post(
+    '/',
+    asyncHandler(async (req: Request, res: Response) => {
+        const claims = verifyUnsubscribeToken(readToken(req));
+        if (!claims) {
+            sendInvalidLink(res);
+            return;
+        }
+
+        const prefs = await UserPreferences.findOrCreateByUserId(claims.userId);
+        const changed = prefs.unsubscribe(claims.category, 'unsubscribed');
+        if (changed) {
+            await prefs.save();
+        }
+
+        logger.info('Unsubscribed by email link', {
+            userId: claims.userId,
+            category: claims.category,
+            oneClick: req.body?.['List-Unsubscribe'] === 'One-Click',
+            changed,
+        });
+
+        const done = translate('unsubscribe.done', prefs.locale, {
+            category: describeCategory(claims.category, prefs.locale),
+        })!;
+        res.type('html').send(renderPage(prefs.locale, `<p>${escapeHtml(done)}</p>`));
+    })
+);
+
+export default router;
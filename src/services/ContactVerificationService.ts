@@ -0,0 +1,109 @@
+/**
+ * Banking Notification Service - Contact Verification Service
+ *
+ * Verifies the user's phone number and email address with a one-time code
+ * sent to them (see OtpService); NotificationRouter only uses SMS and email
+ * once verified. When a contact changes, verification is reset, any code
+ * sent to the old contact is discarded and the old contact gets a security
+ * notice.
+ */
+
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { translate } from '../i18n';
+import { ContactChannel, IUserPreferences, UserPreferences } from '../models';
+import { smsHandler, emailHandler } from '../channels';
+import { otpService, maskDestination, OtpIssueResult, OtpVerifyResult } from './OtpService';
+
+// OTP purpose per contact
+const PURPOSES: Record<ContactChannel, string> = {
+    sms: 'verify_phone',
+    email: 'verify_email',
+};
+
+export interface ContactVerificationStart extends Omit<OtpIssueResult, 'outcome'> {
+    outcome: OtpIssueResult['outcome'] | 'already_verified';
+}
+
+export interface ContactVerificationResult extends OtpVerifyResult {
+    verifiedAt: Date | null;
+}
+
+export class ContactVerificationService {
+    /**
+     * Send a verification code to the user's current phone number or email address
+     */
+    async start(userId: string, channel: ContactChannel): Promise<ContactVerificationStart> {
+        const prefs = await UserPreferences.findByUserId(userId);
+        if (prefs?.channels?.[channel]?.verifiedAt) {
+            return { outcome: 'already_verified', otpId: null, expiresAt: null, destination: null };
+        }
+
+        return otpService.issue({ userId, purpose: PURPOSES[channel], channel });
+    }
+
+    /**
+     * Check the code the user entered and mark the contact verified
+     */
+    async confirm(
+        userId: string,
+        channel: ContactChannel,
+        otpId: string,
+        code: string
+    ): Promise<ContactVerificationResult> {
+        const result = await otpService.verify(otpId, code, userId, PURPOSES[channel]);
+        if (result.outcome !== 'verified') {
+            return { ...result, verifiedAt: null };
+        }
+
+        // Codes are revoked when the contact changes, so this is the contact the code went to
+        const prefs = await UserPreferences.findOrCreateByUserId(userId);
+        prefs.markContactVerified(channel);
+        await prefs.save();
+
+        logger.info('Contact verified', { userId, channel });
+        return { ...result, verifiedAt: prefs.channels[channel].verifiedAt ?? null };
+    }
+
+    /**
+     * Follow up a saved contact change: discard codes sent to the old contact
+     * and tell the old contact about the change
+     */
+    async contactChanged(prefs: IUserPreferences, channel: ContactChannel, previous: string | null): Promise<void> {
+        await otpService.revoke(prefs.userId, PURPOSES[channel]);
+
+        logger.info('Contact changed', { userId: prefs.userId, channel, hadPrevious: !!previous });
+        if (!previous) {
+            return;
+        }
+
+        const current = channel === 'sms' ? prefs.getDecryptedPhoneNumber() : prefs.getDecryptedEmail();
+        const variables = {
+            contact: current ? maskDestination(channel, current) : '',
+            supportContact: config.sms.supportContact,
+        };
+
+        let result;
+        if (channel === 'sms') {
+            result = await smsHandler.sendRaw({
+                to: previous,
+                message: translate('contact_changed.sms', prefs.locale, variables)!,
+            });
+        } else {
+            const text = translate('contact_changed.email.body', prefs.locale, variables)!;
+            result = await emailHandler.sendRaw({
+                to: previous,
+                subject: translate('contact_changed.email.subject', prefs.locale)!,
+                textContent: text,
+                locale: prefs.locale,
+            });
+        }
+
+        if (result.status === 'failed') {
+            logger.warn('Contact change notice not sent', { userId: prefs.userId, channel, error: result.error });
+        }
+    }
+}
+
+// Export singleton
+export const contactVerificationService = new ContactVerificationService();
@@ -0,0 +1,251 @@
+/**
+ * Banking Notification Service - Delivery Status Service
+ *
+ * Applies delivery receipts reported by providers after a message was
+ * accepted: moves the stored notification to delivered or failed and
+ * publishes the outcome to Kafka. Email hard bounces and spam reports
+ * also unverify the user's address so we stop sending to it.
+ */
+
+import { logger } from '../utils/logger';
+import { EmailEvent, NotificationEvent, UserPreferences } from '../models';
+import { notificationEventPublisher } from '../kafka';
+
+export type DeliveryStatusOutcome = 'delivered' | 'failed' | 'ignored' | 'not_found';
+
+export interface TwilioStatusUpdate {
+    messageSid: string;
+    messageStatus: string;
+    errorCode?: string;
+    errorMessage?: string;
+}
+
+// Event posted by SendGrid's event webhook (custom args appear as top-level fields)
+export interface SendGridEvent {
+    email: string;
+    timestamp: number; // Unix seconds
+    event: string;
+    sg_event_id: string;
+    sg_message_id?: string;
+    reason?: string;
+    type?: string; // Bounces: 'bounce' (hard) or 'blocked' (soft)
+    notification_id?: string;
+    user_id?: string;
+}
+
+export interface EmailEventSummary {
+    processed: number;
+    duplicates: number;
+    suppressed: number; // Addresses unverified
+}
+
+// Final Twilio message statuses; queued/sending/sent are intermediate
+const TWILIO_FINAL_STATUS: Record<string, 'delivered' | 'failed'> = {
+    delivered: 'delivered',
+    undelivered: 'failed',
+    failed: 'failed',
+};
+
+export class DeliveryStatusService {
+    /**
+     * Apply a Twilio SMS status callback
+     */
+    async applyTwilioStatus(update: TwilioStatusUpdate): Promise<DeliveryStatusOutcome> {
+        const outcome = TWILIO_FINAL_STATUS[update.messageStatus];
+        if (!outcome) {
+            return 'ignored';
+        }
+
+        const notification = await NotificationEvent.findOne({
+            where: { providerMessageId: update.messageSid, channel: 'sms' },
+        });
+
+        if (!notification) {
+            logger.warn('SMS status callback for unknown message', {
+                messageSid: update.messageSid,
+                messageStatus: update.messageStatus,
+            });
+            return 'not_found';
+        }
+
+        // Twilio may repeat callbacks
+        if (notification.deliveryStatus === outcome) {
+            return 'ignored';
+        }
+
+        if (outcome === 'delivered') {
+            await notification.markDelivered();
+            await notificationEventPublisher.publishNotificationDelivered(
+                notification.notificationId,
+                notification.userId,
+                'sms',
+                update.messageSid
+            );
+        } else {
+            const error = update.errorCode
+                ? `Carrier error ${update.errorCode}${update.errorMessage ? `: ${update.errorMessage}` : ''}`
+                : `SMS ${update.messageStatus}`;
+
+            await notification.markFailed(error);
+            await notificationEventPublisher.publishNotificationFailed(
+                notification.notificationId,
+                notification.userId,
+                'sms',
+                error,
+                notification.retryCount
+            );
+        }
+
+        logger.info('SMS delivery status updated', {
+            notificationId: notification.notificationId,
+            messageSid: update.messageSid,
+            status: outcome,
+            errorCode: update.errorCode,
+        });
+
+        return outcome;
+    }
+
+    /**
+     * Apply a batch from the SendGrid event webhook. Each event is recorded once
+     * in the email event log; batches SendGrid redelivers are skipped.
+     */
+    async applySendGridEvents(events: SendGridEvent[]): Promise<EmailEventSummary> {
+        const summary: EmailEventSummary = { processed: 0, duplicates: 0, suppressed: 0 };
+
+        for (const event of events) {
+            const result = await this.applySendGridEvent(event);
+            if (result === 'duplicate') {
+                summary.duplicates++;
+                continue;
+            }
+            summary.processed++;
+            if (result === 'suppressed') summary.suppressed++;
+        }
+
+        return summary;
+    }
+
+    private async applySendGridEvent(event: SendGridEvent): Promise<'processed' | 'suppressed' | 'duplicate'> {
+        // sg_message_id is the X-Message-Id we stored plus a per-recipient suffix
+        const providerMessageId = event.sg_message_id?.split('.')[0] ?? null;
+        const notification = await this.findEmailNotification(event.notification_id, providerMessageId);
+        const userId = event.user_id ?? notification?.userId ?? null;
+
+        const [record, created] = await EmailEvent.findOrCreate({
+            where: { provider: 'sendgrid', providerEventId: event.sg_event_id },
+            defaults: {
+                provider: 'sendgrid',
+                providerEventId: event.sg_event_id,
+                providerMessageId,
+                notificationId: notification?.notificationId ?? null,
+                userId,
+                event: event.event,
+                bounceType: event.type ?? null,
+                reason: event.reason ?? null,
+                occurredAt: new Date(event.timestamp * 1000),
+            },
+        });
+
+        if (!created) {
+            return 'duplicate';
+        }
+
+        if (notification) {
+            await this.updateEmailNotification(notification, event);
+        }
+
+        const hardBounce = event.event === 'bounce' && event.type !== 'blocked';
+        if ((hardBounce || event.event === 'spamreport') && userId) {
+            const preferences = await UserPreferences.findByUserId(userId);
+
+            if (preferences?.unverifyEmail(event.email)) {
+                await preferences.save();
+                record.contactSuppressed = true;
+                await record.save();
+
+                logger.warn('Email address unverified after provider event', {
+                    userId,
+                    event: event.event,
+                    reason: event.reason,
+                });
+                return 'suppressed';
+            }
+        }
+
+        return 'processed';
+    }
+
+    /**
+     * Find the notification an email event belongs to
+     */
+    private async findEmailNotification(
+        notificationId: string | undefined,
+        providerMessageId: string | null
+    ): Promise<NotificationEvent | null> {
+        if (notificationId) {
+            return NotificationEvent.findOne({ where: { notificationId, channel: 'email' } });
+        }
+        if (providerMessageId) {
+            return NotificationEvent.findOne({ where: { providerMessageId, channel: 'email' } });
+        }
+        return null;
+    }
+
+    /**
+     * Move an email notification forward (sent -> delivered -> opened) or to bounced/failed
+     */
+    private async updateEmailNotification(notification: NotificationEvent, event: SendGridEvent): Promise<void> {
+        const status = notification.deliveryStatus;
+
+        switch (event.event) {
+            case 'delivered':
+                if (status !== 'sent') return;
+                await notification.markDelivered();
+                await notificationEventPublisher.publishNotificationDelivered(
+                    notification.notificationId,
+                    notification.userId,
+                    'email',
+                    event.sg_message_id
+                );
+                break;
+
+            case 'open':
+                if (status !== 'sent' && status !== 'delivered') return;
+                await notification.markOpened();
+                break;
+
+            case 'bounce':
+            case 'dropped': {
+                if (status === 'bounced' || status === 'failed') return;
+                const error = `${event.event === 'bounce' ? 'Bounced' : 'Dropped'}: ${event.reason ?? 'no reason given'}`;
+
+                if (event.event === 'bounce') {
+                    await notification.markBounced(error);
+                } else {
+                    await notification.markFailed(error);
+                }
+                await notificationEventPublisher.publishNotificationFailed(
+                    notification.notificationId,
+                    notification.userId,
+                    'email',
+                    error,
+                    notification.retryCount
+                );
+                break;
+            }
+
+            default:
+                // processed, deferred, click, spamreport, unsubscribe: logged only
+                return;
+        }
+
+        logger.info('Email delivery status updated', {
+            notificationId: notification.notificationId,
+            event: event.event,
+        });
+    }
+}
+
+// Export singleton
+export const deliveryStatusService = new DeliveryStatusService();
@@ -5,6 +5,7 @@
  * Sends hourly, daily, or weekly email summaries.
  */
 
+import { Op } from 'sequelize';
 import { redis, REDIS_KEYS, REDIS_TTL } from '../redis/client';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
@@ -18,6 +19,7 @@ interface DigestEntry {
     title: string;
     message: string;
     createdAt: string;
+    expiresAt?: string;
     data?: Record<string, unknown>;
 }
 
@@ -82,6 +84,7 @@ export class DigestService {
             title: notification.title,
             message: notification.message,
             createdAt: notification.createdAt.toISOString(),
+            expiresAt: notification.expiresAt?.toISOString(),
             data: notification.data,
         };
 
@@ -207,7 +210,28 @@ export class DigestService {
         const entries = await redis.lrange(key, 0, -1);
         if (entries.length === 0) return;
 
-        const notifications: DigestEntry[] = entries.map((e) => JSON.parse(e));
+        const queued: DigestEntry[] = entries.map((e) => JSON.parse(e));
+
+        // Drop entries that went stale while waiting for the digest
+        const now = Date.now();
+        const notifications = queued.filter((n) => !n.expiresAt || new Date(n.expiresAt).getTime() > now);
+        const expiredIds = queued
+            .filter((n) => !notifications.includes(n))
+            .map((n) => n.notificationId);
+
+        if (expiredIds.length > 0) {
+            await this.updateQueuedRows(expiredIds, { deliveryStatus: 'expired' });
+            logger.info('Expired notifications dropped from digest', {
+                userId,
+                frequency,
+                count: expiredIds.length,
+            });
+        }
+
+        if (notifications.length === 0) {
+            await redis.del(key);
+            return;
+        }
 
         // Get user preferences for email
         const preferences = await UserPreferences.findByUserId(userId);
@@ -216,9 +240,23 @@ export class DigestService {
             return;
         }
 
+        // Opt-outs, bounces and spam reports since the notifications were queued
         const email = preferences.getDecryptedEmail();
-        if (!email) {
-            logger.warn('No email found for digest', { userId });
+        const undeliverable = !preferences.isChannelEnabled('email')
+            ? 'User has opted out of email'
+            : !email || !preferences.channels?.email?.verifiedAt
+                ? 'Email not verified'
+                : null;
+
+        if (undeliverable || !email) {
+            await redis.del(key);
+
+            logger.warn('Digest not sent', { userId, frequency, reason: undeliverable });
+
+            await this.updateQueuedRows(notifications.map((n) => n.notificationId), {
+                deliveryStatus: 'failed',
+                errorMessage: undeliverable,
+            });
             return;
         }
 
@@ -232,6 +270,8 @@ export class DigestService {
             data: n.data,
             priority: 'low' as const,
             channels: ['email'],
+            locale: preferences.locale,
+            timeZone: preferences.getTimeZone(),
             createdAt: new Date(n.createdAt),
         }));
 
@@ -253,22 +293,46 @@ export class DigestService {
                 notificationCount: notifications.length,
             });
 
-            // Store digest notification in database
-            for (const notification of notifications) {
-                await NotificationEvent.update(
-                    { deliveryStatus: 'delivered' },
-                    { where: { notificationId: notification.notificationId } }
-                );
-            }
+            // Move the queued_for_digest rows forward
+            await this.updateQueuedRows(notifications.map((n) => n.notificationId), {
+                deliveryStatus: 'sent',
+                sentAt: result.sentAt ?? new Date(),
+                providerMessageId: result.providerMessageId ?? null,
+            });
         } else {
+            // Like a single email, a failed digest is not resent; record it on each row
+            await redis.del(key);
+
             logger.warn('Digest send failed', {
                 userId,
                 frequency,
+                notificationCount: notifications.length,
                 error: result.error,
             });
+
+            await this.updateQueuedRows(notifications.map((n) => n.notificationId), {
+                deliveryStatus: 'failed',
+                errorMessage: result.error ?? 'Digest send failed',
+            });
         }
     }
 
+    /**
+     * Move the queued_for_digest email rows of these notifications forward
+     */
+    private async updateQueuedRows(
+        notificationIds: string[],
+        values: Parameters<typeof NotificationEvent.update>[0]
+    ): Promise<void> {
+        await NotificationEvent.update(values, {
+            where: {
+                notificationId: { [Op.in]: notificationIds },
+                channel: 'email',
+                deliveryStatus: 'queued_for_digest',
+            },
+        });
+    }
+
     /**
      * Get Redis key for digest queue
      */
@@ -0,0 +1,115 @@
+/**
+ * Banking Notification Service - Inbound SMS Service
+ *
+ * Handles replies to our SMS. STOP turns off SMS (or, with
+ * SMS_STOP_SCOPE=all, sets do-not-contact as unsubscribed), START turns
+ * it back on and HELP gets an automatic reply. Users are found from the
+ * sender's number through its lookup hash, and every STOP/START is kept
+ * in the sms_opt_out_events audit log. Other messages are treated as
+ * answers to a pending YES/NO question (see SmsConfirmationService).
+ */
+
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { translate } from '../i18n';
+import { SmsOptOutAction, SmsOptOutEvent, UserPreferences } from '../models';
+import { smsConfirmationService, SmsConfirmationOutcome } from './SmsConfirmationService';
+
+export type SmsKeywordAction = SmsOptOutAction | 'help';
+
+export interface InboundSms {
+    provider: string;
+    messageId: string;
+    from: string; // E.164
+    body: string;
+}
+
+export interface InboundSmsResult {
+    action: SmsKeywordAction | Exclude<SmsConfirmationOutcome, 'no_pending'> | 'ignored';
+    usersMatched: number;
+    reply: string | null; // Text to send back to the sender
+}
+
+// Standard carrier keywords, matched against the whole message
+const KEYWORDS: Record<string, SmsKeywordAction> = {
+    STOP: 'opt_out',
+    STOPALL: 'opt_out',
+    UNSUBSCRIBE: 'opt_out',
+    CANCEL: 'opt_out',
+    END: 'opt_out',
+    QUIT: 'opt_out',
+    START: 'opt_in',
+    UNSTOP: 'opt_in',
+    HELP: 'help',
+    INFO: 'help',
+};
+
+/**
+ * Reduce a message to a possible keyword: "Stop." -> "STOP"
+ */
+export function parseSmsKeyword(body: string): string {
+    return body.trim().replace(/[.!]+$/, '').toUpperCase();
+}
+
+export class InboundSmsService {
+    /**
+     * Handle an inbound SMS
+     */
+    async handleInbound(sms: InboundSms): Promise<InboundSmsResult> {
+        const keyword = parseSmsKeyword(sms.body);
+        const action = KEYWORDS[keyword];
+        const users = await UserPreferences.findByPhoneNumber(sms.from);
+
+        if (!action) {
+            const { outcome, reply } = await smsConfirmationService.applyReply(users, keyword, sms.messageId);
+            return { action: outcome === 'no_pending' ? 'ignored' : outcome, usersMatched: users.length, reply };
+        }
+
+        if (action === 'help') {
+            return {
+                action,
+                usersMatched: users.length,
+                reply: translate('sms.help_reply', users[0]?.locale, { supportContact: config.sms.supportContact }),
+            };
+        }
+
+        // Providers redeliver webhooks; apply each message once
+        const seen = await SmsOptOutEvent.count({
+            where: { provider: sms.provider, providerMessageId: sms.messageId },
+        });
+        if (seen > 0) {
+            return { action: 'duplicate', usersMatched: users.length, reply: null };
+        }
+
+        const scope = action === 'opt_out' ? config.sms.stopScope : null;
+        const audit = {
+            action,
+            keyword,
+            scope,
+            phoneSuffix: sms.from.slice(-4),
+            provider: sms.provider,
+            providerMessageId: sms.messageId,
+        };
+
+        if (users.length === 0) {
+            await SmsOptOutEvent.create({ ...audit, userId: null, preferencesChanged: false });
+            logger.warn('SMS keyword from unknown number', { keyword, phoneSuffix: audit.phoneSuffix });
+            return { action, usersMatched: 0, reply: null };
+        }
+
+        for (const prefs of users) {
+            const changed = action === 'opt_out' ? prefs.optOutOfSms(config.sms.stopScope) : prefs.optInToSms();
+            if (changed) {
+                await prefs.save();
+            }
+
+            await SmsOptOutEvent.create({ ...audit, userId: prefs.userId, preferencesChanged: changed });
+            logger.info('SMS keyword applied', { userId: prefs.userId, keyword, action, scope, changed });
+        }
+
+        return { action, usersMatched: users.length, reply: null };
+    }
+}
+
+// Export singleton
+export const inboundSmsService = new InboundSmsService();
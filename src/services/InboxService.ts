@@ -0,0 +1,232 @@
+/**
+ * Banking Notification Service - Inbox Service
+ *
+ * User operations on the in-app inbox: cursor listing, counts, and
+ * seen/read/archived/pinned state changes for single entries or in bulk.
+ * Entries are written by the inbox channel handler.
+ */
+
+import { Op, WhereOptions } from 'sequelize';
+import { logger } from '../utils/logger';
+import { InboxEntry } from '../models';
+import { InboxCategory } from '../types';
+
+export type InboxView = 'inbox' | 'unread' | 'pinned' | 'archived';
+
+export type InboxAction = 'seen' | 'read' | 'unread' | 'archive' | 'unarchive' | 'pin' | 'unpin' | 'delete';
+
+type InboxStateField = 'seenAt' | 'readAt' | 'archivedAt' | 'pinnedAt';
+
+// State column each action sets (or clears)
+const ACTION_STATE: Record<Exclude<InboxAction, 'delete'>, { field: InboxStateField; set: boolean }> = {
+    seen: { field: 'seenAt', set: true },
+    read: { field: 'readAt', set: true },
+    unread: { field: 'readAt', set: false },
+    archive: { field: 'archivedAt', set: true },
+    unarchive: { field: 'archivedAt', set: false },
+    pin: { field: 'pinnedAt', set: true },
+    unpin: { field: 'pinnedAt', set: false },
+};
+
+export interface InboxCursor {
+    createdAt: Date;
+    id: string;
+}
+
+export interface InboxListOptions {
+    view?: InboxView;
+    category?: InboxCategory;
+    cursor?: InboxCursor;
+    limit?: number;
+}
+
+export interface InboxPage {
+    entries: InboxEntry[];
+    nextCursor: string | null;
+}
+
+export interface InboxCounts {
+    unseen: number;
+    unread: number;
+    byCategory: Partial<Record<InboxCategory, number>>; // Unread per category
+}
+
+// Entries a bulk action applies to: explicit IDs, or everything in a view/category
+export interface InboxSelection {
+    entryIds?: string[];
+    view?: InboxView;
+    category?: InboxCategory;
+}
+
+export class InboxService {
+    /**
+     * List a page of inbox entries, newest first
+     */
+    async list(userId: string, options: InboxListOptions = {}): Promise<InboxPage> {
+        const limit = options.limit ?? 20;
+        const conditions: WhereOptions[] = [this.viewWhere(userId, options.view ?? 'inbox', options.category)];
+
+        if (options.cursor) {
+            const { createdAt, id } = options.cursor;
+            conditions.push({
+                [Op.or]: [
+                    { createdAt: { [Op.lt]: createdAt } },
+                    { createdAt, id: { [Op.lt]: id } },
+                ],
+            });
+        }
+
+        // Fetch one extra row to know whether there is another page
+        const rows = await InboxEntry.findAll({
+            where: { [Op.and]: conditions },
+            order: [['createdAt', 'DESC'], ['id', 'DESC']],
+            limit: limit + 1,
+        });
+
+        const entries = rows.slice(0, limit);
+        const last = entries[entries.length - 1];
+
+        return {
+            entries,
+            nextCursor: rows.length > limit && last ? this.encodeCursor(last) : null,
+        };
+    }
+
+    /**
+     * Get unseen and unread counts for the inbox badge
+     */
+    async getCounts(userId: string): Promise<InboxCounts> {
+        const active = { userId, archivedAt: null };
+
+        const [unseen, unread, perCategory] = await Promise.all([
+            InboxEntry.count({ where: { ...active, seenAt: null } }),
+            InboxEntry.count({ where: { ...active, readAt: null } }),
+            InboxEntry.count({ where: { ...active, readAt: null }, group: ['category'] }),
+        ]);
+
+        const byCategory: Partial<Record<InboxCategory, number>> = {};
+        for (const row of perCategory) {
+            byCategory[row['category'] as InboxCategory] = row.count;
+        }
+
+        return { unseen, unread, byCategory };
+    }
+
+    /**
+     * Get a single entry owned by the user
+     */
+    async getEntry(userId: string, entryId: string): Promise<InboxEntry | null> {
+        return InboxEntry.findOne({ where: { id: entryId, userId } });
+    }
+
+    /**
+     * Apply a state action to one entry. Returns the updated entry, or null if not found.
+     */
+    async applyAction(
+        userId: string,
+        entryId: string,
+        action: Exclude<InboxAction, 'delete'>
+    ): Promise<InboxEntry | null> {
+        const entry = await this.getEntry(userId, entryId);
+        if (!entry) return null;
+
+        await this.applyBulkAction(userId, action, { entryIds: [entryId] });
+        return entry.reload();
+    }
+
+    /**
+     * Delete one entry. Returns false if not found.
+     */
+    async deleteEntry(userId: string, entryId: string): Promise<boolean> {
+        return (await this.applyBulkAction(userId, 'delete', { entryIds: [entryId] })) > 0;
+    }
+
+    /**
+     * Apply an action to many entries. Returns the number of entries changed;
+     * entries already in the target state keep their original timestamp.
+     */
+    async applyBulkAction(userId: string, action: InboxAction, selection: InboxSelection): Promise<number> {
+        const where: Record<string, unknown> = selection.entryIds
+            ? { userId, id: { [Op.in]: selection.entryIds } }
+            : this.viewWhere(userId, selection.view ?? 'inbox', selection.category);
+
+        let count: number;
+
+        if (action === 'delete') {
+            count = await InboxEntry.destroy({ where });
+        } else {
+            // Reading an entry also marks it seen
+            if (action === 'read') {
+                await this.updateState(where, ACTION_STATE.seen);
+            }
+            count = await this.updateState(where, ACTION_STATE[action]);
+        }
+
+        logger.info('Inbox action applied', { userId, action, count });
+        return count;
+    }
+
+    /**
+     * Build the cursor pointing after an entry
+     */
+    encodeCursor(entry: InboxEntry): string {
+        return Buffer.from(`${entry.createdAt.toISOString()}|${entry.id}`).toString('base64url');
+    }
+
+    /**
+     * Parse a cursor from a previous page (null if malformed)
+     */
+    decodeCursor(value: string): InboxCursor | null {
+        const [timestamp, id] = Buffer.from(value, 'base64url').toString('utf8').split('|');
+        const createdAt = new Date(timestamp ?? '');
+
+        if (!id || Number.isNaN(createdAt.getTime())) {
+            return null;
+        }
+
+        return { createdAt, id };
+    }
+
+    /**
+     * Set or clear a state column on entries not already in that state
+     */
+    private async updateState(
+        where: Record<string, unknown>,
+        state: { field: InboxStateField; set: boolean }
+    ): Promise<number> {
+        const [count] = await InboxEntry.update(
+            { [state.field]: state.set ? new Date() : null },
+            { where: { [Op.and]: [where, { [state.field]: state.set ? null : { [Op.ne]: null } }] } }
+        );
+        return count;
+    }
+
+    /**
+     * Filter for a view of the user's inbox
+     */
+    private viewWhere(userId: string, view: InboxView, category?: InboxCategory): Record<string, unknown> {
+        const where: Record<string, unknown> = { userId };
+        if (category) where['category'] = category;
+
+        switch (view) {
+            case 'inbox':
+                where['archivedAt'] = null;
+                break;
+            case 'unread':
+                where['archivedAt'] = null;
+                where['readAt'] = null;
+                break;
+            case 'pinned':
+                where['pinnedAt'] = { [Op.ne]: null };
+                break;
+            case 'archived':
+                where['archivedAt'] = { [Op.ne]: null };
+                break;
+        }
+
+        return where;
+    }
+}
+
+// Export singleton
+export const inboxService = new InboxService();
@@ -11,6 +11,8 @@ import { logger, logKafkaMessage } from '../utils/logger';
 import { IncomingEvent } from '../types';
 import { DeadLetterQueue } from '../models';
 import { notificationRouter, NotificationRequest } from './NotificationRouter';
+import { localizeMessage } from '../i18n';
+import { DEFAULT_LOCALE } from '../utils/locale';
 
 export class KafkaEventConsumer {
     private kafka: Kafka;
@@ -275,6 +277,18 @@ export class KafkaEventConsumer {
         }
     }
 
+    /**
+     * Build title and message from the message catalog.
+     * The router re-localizes them for the recipient's locale via messageKey.
+     */
+    private localizedContent(
+        messageKey: string,
+        payload: Record<string, unknown>
+    ): Pick<NotificationRequest, 'messageKey' | 'title' | 'message'> {
+        const { title, message } = localizeMessage(messageKey, payload, DEFAULT_LOCALE)!;
+        return { messageKey, title, message };
+    }
+
     /**
      * Map security events
      */
@@ -289,8 +303,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'login_attempt',
-                    title: 'New Login Detected',
-                    message: `A new login was detected from ${payload['deviceInfo'] ?? 'unknown device'}`,
+                    ...this.localizedContent('login_success', payload),
                     data: payload,
                     priority: 'medium',
                     correlationId,
@@ -300,8 +313,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'login_failed',
-                    title: 'Failed Login Attempt',
-                    message: 'Someone attempted to log into your account with incorrect credentials',
+                    ...this.localizedContent('login_failed', payload),
                     data: payload,
                     priority: 'high',
                     correlationId,
@@ -311,8 +323,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'account_locked',
-                    title: 'Account Locked',
-                    message: 'Your account has been locked due to multiple failed login attempts',
+                    ...this.localizedContent('account_locked', payload),
                     data: payload,
                     priority: 'critical',
                     correlationId,
@@ -322,8 +333,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'password_changed',
-                    title: 'Password Changed',
-                    message: 'Your account password was successfully changed',
+                    ...this.localizedContent('password_changed', payload),
                     data: payload,
                     priority: 'medium',
                     correlationId,
@@ -333,8 +343,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'new_device_added',
-                    title: 'New Device Added',
-                    message: `A new device "${payload['deviceName'] ?? 'Unknown'}" was added to your account`,
+                    ...this.localizedContent('new_device_added', payload),
                     data: payload,
                     priority: 'low',
                     correlationId,
@@ -345,8 +354,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'suspicious_activity',
-                    title: 'Suspicious Activity Detected',
-                    message: 'We detected unusual activity on your account. Please review immediately.',
+                    ...this.localizedContent('suspicious_activity', payload),
                     data: payload,
                     priority: 'critical',
                     correlationId,
@@ -366,21 +374,14 @@ export class KafkaEventConsumer {
         userId: string,
         correlationId?: string
     ): NotificationRequest | null {
-        const amount = payload['amount'] as number | undefined;
-        const currency = (payload['currency'] as string) ?? 'USD';
-        const recipientName = payload['recipientName'] as string | undefined;
         const transactionId = payload['transactionId'] as string | undefined;
 
-        const formatAmount = (amt: number) =>
-            new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amt);
-
         switch (eventType) {
             case 'transfer.initiated':
                 return {
                     userId,
                     eventType: 'transfer_initiated',
-                    title: 'Transfer Initiated',
-                    message: `Your transfer of ${amount ? formatAmount(amount) : 'funds'} to ${recipientName ?? 'recipient'} has been initiated`,
+                    ...this.localizedContent('transfer_initiated', payload),
                     eventSourceId: transactionId,
                     data: payload,
                     priority: 'low',
@@ -391,8 +392,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'transfer_approved',
-                    title: 'Transfer Approved',
-                    message: `Your transfer of ${amount ? formatAmount(amount) : 'funds'} has been approved and is processing`,
+                    ...this.localizedContent('transfer_approved', payload),
                     eventSourceId: transactionId,
                     data: payload,
                     priority: 'medium',
@@ -403,8 +403,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'transfer_completed',
-                    title: 'Transfer Complete',
-                    message: `Your transfer of ${amount ? formatAmount(amount) : 'funds'} to ${recipientName ?? 'recipient'} was successful`,
+                    ...this.localizedContent('transfer_completed', payload),
                     eventSourceId: transactionId,
                     data: payload,
                     priority: 'high',
@@ -415,8 +414,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'transfer_rejected',
-                    title: 'Transfer Rejected',
-                    message: `Your transfer of ${amount ? formatAmount(amount) : 'funds'} was not approved. ${payload['reason'] ?? 'Please contact support.'}`,
+                    ...this.localizedContent('transfer_rejected', payload),
                     eventSourceId: transactionId,
                     data: payload,
                     priority: 'high',
@@ -427,8 +425,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'transfer_failed',
-                    title: 'Transfer Failed',
-                    message: `Your transfer could not be completed due to a technical issue. Please try again.`,
+                    ...this.localizedContent('transfer_failed', payload),
                     eventSourceId: transactionId,
                     data: payload,
                     priority: 'high',
@@ -439,12 +436,12 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'large_transaction',
-                    title: 'Large Transaction Alert',
-                    message: `A large transaction of ${amount ? formatAmount(amount) : 'significant funds'} was processed on your account`,
+                    ...this.localizedContent('large_transaction', payload),
                     eventSourceId: transactionId,
                     data: payload,
                     priority: 'medium',
                     correlationId,
+                    smsConfirmation: true,
                 };
 
             default:
@@ -467,20 +464,19 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'fraud_detected',
-                    title: 'Fraud Alert',
-                    message: 'We detected potentially fraudulent activity on your account. Please verify recent transactions.',
+                    ...this.localizedContent('fraud_detected', payload),
                     eventSourceId: payload['caseId'] as string | undefined,
                     data: payload,
                     priority: 'critical',
                     correlationId,
+                    smsConfirmation: true,
                 };
 
             case 'fraud.alert.resolved':
                 return {
                     userId,
                     eventType: 'general_notification',
-                    title: 'Fraud Alert Resolved',
-                    message: 'The fraud alert on your account has been resolved.',
+                    ...this.localizedContent('fraud_resolved', payload),
                     eventSourceId: payload['caseId'] as string | undefined,
                     data: payload,
                     priority: 'medium',
@@ -506,8 +502,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'general_notification',
-                    title: 'Welcome to Banking App',
-                    message: 'Your account has been created successfully. Please complete your profile.',
+                    ...this.localizedContent('user_registered', payload),
                     data: payload,
                     priority: 'medium',
                     correlationId,
@@ -517,8 +512,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'kyc_verification_needed',
-                    title: 'Verification Required',
-                    message: 'Please complete identity verification to access all features.',
+                    ...this.localizedContent('kyc_required', payload),
                     data: payload,
                     priority: 'critical',
                     correlationId,
@@ -528,8 +522,7 @@ export class KafkaEventConsumer {
                 return {
                     userId,
                     eventType: 'kyc_verification_needed',
-                    title: 'Verification Expired',
-                    message: 'Your identity verification has expired. Please re-verify to continue using your account.',
+                    ...this.localizedContent('kyc_expired', payload),
                     data: payload,
                     priority: 'critical',
                     correlationId,
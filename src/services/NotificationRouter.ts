@@ -6,20 +6,30 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
 import { logger, logNotification } from '../utils/logger';
 import {
     NotificationPayload,
     NotificationChannel,
     NotificationEventType,
     NotificationPriority,
+    NotificationAction,
+    PushOptions,
     DeliveryResult,
+    DigestFrequency,
+    DeliveryStatus,
+    RoutingCheck,
+    RoutingDecision,
     EVENT_TYPE_CONFIGS,
     UserContactInfo,
 } from '../types';
-import { UserPreferences, IUserPreferences, NotificationEvent } from '../models';
+import { UserPreferences, IUserPreferences, NotificationEvent, HeldNotification } from '../models';
 import { rateLimiter } from '../redis/RateLimiter';
 import { deduplicationService } from '../redis/DeduplicationService';
-import { webSocketHandler, smsHandler, emailHandler, pushHandler } from '../channels';
+import { digestService } from './DigestService';
+import { templateService } from './TemplateService';
+import { localizeMessage, translate } from '../i18n';
+import { channelRegistry } from '../channels';
 
 export interface RouteResult {
     notificationId: string;
@@ -29,47 +39,73 @@ export interface RouteResult {
     skippedChannels: Array<{ channel: NotificationChannel; reason: string }>;
     queued: boolean;
     digestQueued: boolean;
+    holdId?: string;
+    heldUntil?: Date;
+    plannedChannels: NotificationChannel[]; // Channels that passed every check
+    trace: RoutingDecision[];
+    dryRun: boolean;
+}
+
+export interface RouteOptions {
+    dryRun?: boolean; // Evaluate every decision without sending, holding or recording
 }
 
 export interface NotificationRequest {
+    notificationId?: string; // Reserved ahead of time for scheduled notifications
     userId: string;
     eventType: NotificationEventType;
     title: string;
     message: string;
+    messageKey?: string; // Catalog key used to localize title/message
     eventSourceId?: string;
     data?: Record<string, unknown>;
     priority?: NotificationPriority;
     correlationId?: string;
+    expiresAt?: Date; // Absolute expiry; takes precedence over ttlMs
+    ttlMs?: number; // Overrides the event type's default TTL
+    actions?: NotificationAction[]; // Replaces the event type's default actions
+    push?: PushOptions; // Merged over the event type's push defaults
+    smsConfirmation?: boolean; // Ask the user to reply YES/NO to the SMS (see SmsConfirmationService)
 }
 
 export class NotificationRouter {
     /**
-     * Route notification to appropriate channels
+     * Route notification to appropriate channels.
+     * Every decision is recorded in the result trace; with dryRun the
+     * same pipeline runs without sending, holding or recording anything.
      */
-    async route(request: NotificationRequest): Promise<RouteResult> {
+    async route(request: NotificationRequest, options: RouteOptions = {}): Promise<RouteResult> {
         const startTime = Date.now();
-        const notificationId = uuidv4();
+        const dryRun = options.dryRun ?? false;
+        const notificationId = request.notificationId ?? uuidv4();
         const eventConfig = EVENT_TYPE_CONFIGS[request.eventType];
         const priority = request.priority ?? eventConfig.priority;
 
-        const result: RouteResult = {
-            notificationId,
-            userId: request.userId,
-            eventType: request.eventType,
-            results: [],
-            skippedChannels: [],
-            queued: false,
-            digestQueued: false,
-        };
+        const result = this.createResult(notificationId, request.userId, request.eventType, dryRun);
 
         try {
-            // 1. Check deduplication
-            const dedupResult = await deduplicationService.checkAndMark(
-                request.userId,
-                request.eventType,
-                request.eventSourceId,
-                notificationId,
-                eventConfig.dedupWindowMs
+            // 1. Check deduplication (dry runs only look, never mark)
+            const dedupResult = dryRun
+                ? await deduplicationService.checkDuplicate(
+                    request.userId,
+                    request.eventType,
+                    request.eventSourceId
+                )
+                : await deduplicationService.checkAndMark(
+                    request.userId,
+                    request.eventType,
+                    request.eventSourceId,
+                    notificationId,
+                    eventConfig.dedupWindowMs
+                );
+
+            this.addDecision(
+                result,
+                'dedup',
+                !dedupResult.isDuplicate,
+                dedupResult.isDuplicate
+                    ? `Duplicate of ${dedupResult.originalNotificationId ?? 'a recent notification'}`
+                    : 'Not a duplicate'
             );
 
             if (dedupResult.isDuplicate) {
@@ -90,6 +126,13 @@ export class NotificationRouter {
             const preferences = await UserPreferences.findOrCreateByUserId(request.userId);
 
             // 3. Check do-not-contact
+            this.addDecision(
+                result,
+                'do_not_contact',
+                !preferences.doNotContact?.enabled,
+                preferences.doNotContact?.enabled ? 'User has opted out of notifications' : 'User can be contacted'
+            );
+
             if (preferences.doNotContact?.enabled) {
                 logger.info('User has do-not-contact enabled', { userId: request.userId });
                 result.skippedChannels.push({
@@ -106,58 +149,79 @@ export class NotificationRouter {
                 eventConfig.defaultChannels,
                 priority
             );
+            this.traceChannelSelection(result, channels);
 
-            // 5. Check quiet hours
-            const inQuietHours = preferences.isInQuietHours();
-            const bypassQuietHours = eventConfig.bypassQuietHours ||
-                preferences.shouldBypassQuietHours(request.eventType) ||
-                priority === 'critical';
+            // 5. Build notification payload in the user's locale
+            const locale = preferences.locale;
+            const timeZone = preferences.getTimeZone();
+            const localized = request.messageKey
+                ? localizeMessage(request.messageKey, request.data ?? {}, locale, timeZone)
+                : null;
 
-            if (inQuietHours && !bypassQuietHours) {
-                // Queue for later or digest
-                logger.info('Notification queued due to quiet hours', {
-                    userId: request.userId,
-                    eventType: request.eventType,
-                });
-
-                if (eventConfig.allowDigest && preferences.channels?.email?.digestEnabled) {
-                    result.digestQueued = true;
-                    // Store in digest queue (handled by DigestService)
-                } else {
-                    result.queued = true;
-                    // Store for sending after quiet hours end
-                }
-                return result;
-            }
-
-            // 6. Build notification payload
+            const createdAt = new Date();
             const payload: NotificationPayload = {
                 notificationId,
                 userId: request.userId,
                 eventType: request.eventType,
                 eventSourceId: request.eventSourceId,
-                title: request.title,
-                message: request.message,
+                title: localized?.title ?? request.title,
+                message: localized?.message ?? request.message,
                 data: request.data,
+                actions: this.localizeActions(request.actions ?? eventConfig.actions, locale, timeZone),
+                push: this.resolvePushOptions(request),
+                smsConfirmation: request.smsConfirmation,
                 priority,
                 channels,
                 correlationId: request.correlationId,
-                createdAt: new Date(),
+                expiresAt: this.resolveExpiry(request, createdAt),
+                locale,
+                timeZone,
+                createdAt,
             };
 
-            // 7. Load user contact info
-            const contactInfo = await this.loadUserContactInfo(request.userId, preferences);
+            // 6. Check quiet hours
+            const heldByQuietHours = this.isHeldByQuietHours(preferences, request.eventType, priority);
+            this.addDecision(
+                result,
+                'quiet_hours',
+                !heldByQuietHours,
+                heldByQuietHours ? 'User is in quiet hours' : 'Not held by quiet hours'
+            );
 
-            // 8. Send to each channel
-            const deliveryPromises: Promise<void>[] = [];
+            if (heldByQuietHours) {
+                // Queue for later or digest
+                logger.info('Notification queued due to quiet hours', {
+                    userId: request.userId,
+                    eventType: request.eventType,
+                    dryRun,
+                });
 
-            for (const channel of channels) {
-                deliveryPromises.push(
-                    this.sendToChannel(channel, payload, preferences, contactInfo, result)
-                );
+                if (eventConfig.allowDigest && await this.canQueueForDigest(payload, preferences, result)) {
+                    await this.queueForDigest(payload, preferences, result);
+                } else if (dryRun) {
+                    result.queued = true;
+                    result.heldUntil = preferences.getQuietHoursEnd();
+                } else {
+                    const held = await this.holdForQuietHours(payload, preferences);
+                    result.queued = true;
+                    result.holdId = held.id;
+                    result.heldUntil = held.releaseAt;
+                }
+                return result;
             }
 
-            await Promise.all(deliveryPromises);
+            // 7. Batch low-priority digestable events for digest-mode users
+            if (eventConfig.allowDigest && priority === 'low' && await this.canQueueForDigest(payload, preferences, result)) {
+                await this.queueForDigest(payload, preferences, result);
+                return result;
+            }
+
+            // 8. Deliver to channels
+            await this.dispatch(payload, preferences, result);
+
+            if (dryRun) {
+                return result;
+            }
 
             // 9. Log notification
             const duration = Date.now() - startTime;
@@ -183,6 +247,343 @@ export class NotificationRouter {
         }
     }
 
+    /**
+     * Release a notification previously held for quiet hours.
+     * Preferences are re-evaluated, so opt-outs and channel changes made
+     * while the notification was held are respected. If the user is still
+     * in quiet hours, the result is marked queued with the new release time.
+     */
+    async releaseHeld(payload: NotificationPayload): Promise<RouteResult> {
+        const eventConfig = EVENT_TYPE_CONFIGS[payload.eventType];
+        const result = this.createResult(payload.notificationId, payload.userId, payload.eventType, false);
+
+        const preferences = await UserPreferences.findOrCreateByUserId(payload.userId);
+
+        this.addDecision(
+            result,
+            'do_not_contact',
+            !preferences.doNotContact?.enabled,
+            preferences.doNotContact?.enabled ? 'User has opted out of notifications' : 'User can be contacted'
+        );
+
+        if (preferences.doNotContact?.enabled) {
+            result.skippedChannels.push({
+                channel: 'websocket',
+                reason: 'User has opted out of notifications',
+            });
+            return result;
+        }
+
+        if (this.isHeldByQuietHours(preferences, payload.eventType, payload.priority)) {
+            this.addDecision(result, 'quiet_hours', false, 'User is still in quiet hours');
+            result.queued = true;
+            result.heldUntil = preferences.getQuietHoursEnd();
+            return result;
+        }
+        this.addDecision(result, 'quiet_hours', true, 'Released after quiet hours');
+
+        const channels = this.selectChannels(
+            preferences,
+            payload.eventType,
+            eventConfig.defaultChannels,
+            payload.priority
+        );
+        this.traceChannelSelection(result, channels);
+
+        await this.dispatch(
+            { ...payload, channels, locale: preferences.locale, timeZone: preferences.getTimeZone() },
+            preferences,
+            result
+        );
+
+        logNotification({
+            notificationId: payload.notificationId,
+            userId: payload.userId,
+            eventType: payload.eventType,
+            channels,
+            status: result.results.some((r) => r.status === 'sent' || r.status === 'delivered') ? 'success' : 'failed',
+            correlationId: payload.correlationId,
+        });
+
+        return result;
+    }
+
+    /**
+     * Deliver a stored notification again on a single channel.
+     * Used by the retry service; does not record history, the caller
+     * updates the original notification row with the outcome.
+     */
+    async redeliver(payload: NotificationPayload, channel: NotificationChannel): Promise<DeliveryResult> {
+        const handler = channelRegistry.get(channel);
+
+        if (!handler) {
+            return { channel, status: 'failed', error: `Unknown channel: ${channel}` };
+        }
+
+        if (this.isExpired(payload)) {
+            return { channel, status: 'expired', error: 'Notification expired' };
+        }
+
+        const preferences = await UserPreferences.findOrCreateByUserId(payload.userId);
+
+        if (preferences.doNotContact?.enabled || !preferences.isChannelEnabled(channel)) {
+            return { channel, status: 'failed', error: 'User has opted out of this channel' };
+        }
+
+        const contactInfo = await this.loadUserContactInfo(payload.userId, preferences);
+        const contactError = handler.checkContact(contactInfo);
+
+        if (contactError) {
+            return { channel, status: 'failed', error: contactError };
+        }
+
+        return handler.deliver(
+            await this.renderForChannel(
+                { ...payload, locale: preferences.locale, timeZone: preferences.getTimeZone() },
+                channel
+            ),
+            contactInfo
+        );
+    }
+
+    /**
+     * Create an empty routing result
+     */
+    private createResult(
+        notificationId: string,
+        userId: string,
+        eventType: NotificationEventType,
+        dryRun: boolean
+    ): RouteResult {
+        return {
+            notificationId,
+            userId,
+            eventType,
+            results: [],
+            skippedChannels: [],
+            queued: false,
+            digestQueued: false,
+            plannedChannels: [],
+            trace: [],
+            dryRun,
+        };
+    }
+
+    /**
+     * Record a routing decision in the result trace
+     */
+    private addDecision(
+        result: RouteResult,
+        check: RoutingCheck,
+        passed: boolean,
+        detail: string,
+        channel?: NotificationChannel
+    ): void {
+        result.trace.push(channel ? { check, passed, detail, channel } : { check, passed, detail });
+    }
+
+    /**
+     * Record which registered channels preferences selected or left out
+     */
+    private traceChannelSelection(result: RouteResult, selected: NotificationChannel[]): void {
+        for (const channel of channelRegistry.getChannels()) {
+            const isSelected = selected.includes(channel);
+            this.addDecision(
+                result,
+                'channel_selection',
+                isSelected,
+                isSelected ? 'Enabled for this event type' : 'Not enabled for this event type in user preferences',
+                channel
+            );
+        }
+    }
+
+    /**
+     * Work out when a notification expires: an explicit expiresAt wins,
+     * then the request TTL, then the event type default (0 = never)
+     */
+    private resolveExpiry(request: NotificationRequest, createdAt: Date): Date | undefined {
+        if (request.expiresAt) {
+            return new Date(request.expiresAt);
+        }
+
+        const ttlMs = request.ttlMs ?? EVENT_TYPE_CONFIGS[request.eventType].ttlMs;
+        return ttlMs > 0 ? new Date(createdAt.getTime() + ttlMs) : undefined;
+    }
+
+    /**
+     * Translate action labels that have a catalog key; the given label is the fallback
+     */
+    private localizeActions(
+        actions: NotificationAction[] | undefined,
+        locale: string,
+        timeZone: string
+    ): NotificationAction[] | undefined {
+        return actions?.map((action) => ({
+            ...action,
+            label: (action.labelKey && translate(action.labelKey, locale, {}, timeZone)) || action.label,
+        }));
+    }
+
+    /**
+     * Per-send push options override the event type defaults field by field
+     */
+    private resolvePushOptions(request: NotificationRequest): PushOptions | undefined {
+        const defaults = EVENT_TYPE_CONFIGS[request.eventType].push;
+        if (!defaults && !request.push) return undefined;
+        return { ...defaults, ...request.push };
+    }
+
+    /**
+     * Check whether a notification is past its expiry
+     */
+    private isExpired(payload: NotificationPayload): boolean {
+        return !!payload.expiresAt && payload.expiresAt.getTime() <= Date.now();
+    }
+
+    /**
+     * Check whether quiet hours currently hold back this notification
+     */
+    private isHeldByQuietHours(
+        preferences: IUserPreferences,
+        eventType: NotificationEventType,
+        priority: NotificationPriority
+    ): boolean {
+        const eventConfig = EVENT_TYPE_CONFIGS[eventType];
+        const bypassQuietHours = eventConfig.bypassQuietHours ||
+            preferences.shouldBypassQuietHours(eventType) ||
+            priority === 'critical';
+
+        return !bypassQuietHours && preferences.isInQuietHours();
+    }
+
+    /**
+     * Check whether the user batches notifications into email digests
+     */
+    private isDigestMode(preferences: IUserPreferences): boolean {
+        const email = preferences.channels?.email;
+        return !!email?.digestEnabled && (email.digestFrequency ?? 'daily') !== 'immediate';
+    }
+
+    /**
+     * Check whether the notification can be batched into the user's email
+     * digest: the user is in digest mode, email was selected for this event
+     * and the address can receive it. Otherwise it is held or sent as usual.
+     */
+    private async canQueueForDigest(
+        payload: NotificationPayload,
+        preferences: IUserPreferences,
+        result: RouteResult
+    ): Promise<boolean> {
+        if (!this.isDigestMode(preferences)) return false;
+
+        const handler = channelRegistry.get('email');
+        const reason = !handler || !payload.channels.includes('email')
+            ? 'Email not enabled for this event type'
+            : handler.checkContact(await this.loadUserContactInfo(payload.userId, preferences));
+
+        if (reason) {
+            this.addDecision(result, 'digest', false, `Not batched into the email digest: ${reason}`, 'email');
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Add notification to the user's digest and record it as queued
+     */
+    private async queueForDigest(
+        payload: NotificationPayload,
+        preferences: IUserPreferences,
+        result: RouteResult
+    ): Promise<void> {
+        const frequency = (preferences.channels?.email?.digestFrequency ?? 'daily') as DigestFrequency;
+
+        this.addDecision(result, 'digest', true, `Batched into the ${frequency} email digest`, 'email');
+        result.digestQueued = true;
+
+        // The inbox entry is not part of the digest
+        if (payload.channels.includes('inbox')) {
+            const contactInfo = await this.loadUserContactInfo(payload.userId, preferences);
+            await this.sendToChannel('inbox', payload, preferences, contactInfo, result);
+        }
+
+        if (result.dryRun) return;
+
+        await digestService.queueForDigest(payload.userId, payload, frequency);
+        await this.storeNotification(payload, 'email', 'queued_for_digest', result);
+
+        logger.debug('Notification queued for digest', {
+            notificationId: payload.notificationId,
+            userId: payload.userId,
+            frequency,
+        });
+    }
+
+    /**
+     * Persist notification in the hold queue until quiet hours end
+     */
+    private async holdForQuietHours(
+        payload: NotificationPayload,
+        preferences: IUserPreferences
+    ): Promise<HeldNotification> {
+        return HeldNotification.create({
+            notificationId: payload.notificationId,
+            userId: payload.userId,
+            eventType: payload.eventType,
+            priority: payload.priority,
+            payload: JSON.parse(JSON.stringify(payload)),
+            reason: 'quiet_hours',
+            releaseAt: preferences.getQuietHoursEnd(),
+        });
+    }
+
+    /**
+     * Send payload to each of its channels
+     */
+    private async dispatch(
+        payload: NotificationPayload,
+        preferences: IUserPreferences,
+        result: RouteResult
+    ): Promise<void> {
+        // Held or scheduled notifications may be past their expiry by now
+        const expired = this.isExpired(payload);
+        this.addDecision(
+            result,
+            'expiry',
+            !expired,
+            payload.expiresAt
+                ? `${expired ? 'Expired' : 'Expires'} at ${payload.expiresAt.toISOString()}`
+                : 'Does not expire'
+        );
+
+        if (expired) {
+            logger.info('Expired notification dropped', {
+                notificationId: payload.notificationId,
+                userId: payload.userId,
+                eventType: payload.eventType,
+                expiresAt: payload.expiresAt,
+            });
+            await Promise.all(
+                payload.channels.map(async (channel) => {
+                    result.skippedChannels.push({ channel, reason: 'Notification expired' });
+                    if (!result.dryRun) {
+                        await this.storeNotification(payload, channel, 'expired', result);
+                    }
+                })
+            );
+            return;
+        }
+
+        const contactInfo = await this.loadUserContactInfo(payload.userId, preferences);
+
+        await Promise.all(
+            payload.channels.map((channel) =>
+                this.sendToChannel(channel, payload, preferences, contactInfo, result)
+            )
+        );
+    }
+
     /**
      * Select channels based on preferences and priority
      */
@@ -203,6 +604,18 @@ export class NotificationRouter {
             }
         }
 
+        // Business customers receive subscribed events on their webhook endpoints
+        const hasWebhook = preferences.getActiveWebhookEndpoints()
+            .some((e) => e.eventTypes.length === 0 || e.eventTypes.includes(eventType));
+        if (hasWebhook && preferences.isChannelEnabled('webhook') && !channels.includes('webhook')) {
+            channels = [...channels, 'webhook'];
+        }
+
+        // The in-app inbox keeps every notification, whatever else was chosen
+        if (channelRegistry.has('inbox') && !channels.includes('inbox')) {
+            channels = [...channels, 'inbox'];
+        }
+
         return channels;
     }
 
@@ -216,99 +629,87 @@ export class NotificationRouter {
         contactInfo: UserContactInfo,
         result: RouteResult
     ): Promise<void> {
-        // Check rate limit
-        const rateLimitResult = await rateLimiter.consumeLimit(
-            payload.userId,
-            channel,
-            {
-                smsPerHour: preferences.rateLimits?.smsPerHour,
-                smsPerDay: preferences.rateLimits?.smsPerDay,
-                emailPerHour: preferences.rateLimits?.emailPerHour,
-                emailPerDay: preferences.rateLimits?.emailPerDay,
-                pushPerHour: preferences.rateLimits?.pushPerHour,
-                pushPerDay: preferences.rateLimits?.pushPerDay,
-            }
-        );
+        const handler = channelRegistry.get(channel);
+
+        if (!handler) {
+            const reason = `Unknown channel: ${channel}`;
+            this.addDecision(result, 'channel_selection', false, reason, channel);
+            result.skippedChannels.push({ channel, reason });
+            return;
+        }
+
+        // Check the user can be reached on this channel
+        const contactError = handler.checkContact(contactInfo);
+        this.addDecision(result, 'contact', !contactError, contactError ?? 'Contact details verified', channel);
+        if (contactError) {
+            result.skippedChannels.push({ channel, reason: contactError });
+            return;
+        }
+
+        // Check rate limit (dry runs only look, never consume)
+        const userLimits = {
+            smsPerHour: preferences.rateLimits?.smsPerHour,
+            smsPerDay: preferences.rateLimits?.smsPerDay,
+            emailPerHour: preferences.rateLimits?.emailPerHour,
+            emailPerDay: preferences.rateLimits?.emailPerDay,
+            pushPerHour: preferences.rateLimits?.pushPerHour,
+            pushPerDay: preferences.rateLimits?.pushPerDay,
+        };
+        const rateLimitResult = result.dryRun
+            ? await rateLimiter.checkLimit(payload.userId, channel, userLimits)
+            : await rateLimiter.consumeLimit(payload.userId, channel, userLimits);
 
         if (!rateLimitResult.allowed) {
-            result.skippedChannels.push({
-                channel,
-                reason: `Rate limit exceeded. Resets at ${rateLimitResult.resetAt.toISOString()}`,
-            });
+            const reason = `Rate limit exceeded. Resets at ${rateLimitResult.resetAt.toISOString()}`;
+            this.addDecision(result, 'rate_limit', false, reason, channel);
+            result.skippedChannels.push({ channel, reason });
 
             // Store in database with rate_limited status
-            await this.storeNotification(payload, channel, 'rate_limited');
+            if (!result.dryRun) {
+                await this.storeNotification(payload, channel, 'rate_limited', result);
+            }
             return;
         }
+        this.addDecision(
+            result,
+            'rate_limit',
+            true,
+            rateLimitResult.limit < 0 ? 'Channel is not rate limited' : `${rateLimitResult.remaining} of ${rateLimitResult.limit} remaining`,
+            channel
+        );
 
-        let deliveryResult: DeliveryResult;
+        result.plannedChannels.push(channel);
+
+        if (result.dryRun) {
+            this.addDecision(result, 'delivery', true, `Would send via ${handler.providerName}`, channel);
+            return;
+        }
 
         try {
-            switch (channel) {
-                case 'websocket':
-                    deliveryResult = await webSocketHandler.send(payload.userId, payload);
-                    break;
-
-                case 'sms':
-                    if (!contactInfo.phoneNumber || !contactInfo.phoneVerified) {
-                        result.skippedChannels.push({
-                            channel,
-                            reason: 'Phone number not verified',
-                        });
-                        return;
-                    }
-                    deliveryResult = await smsHandler.send(contactInfo.phoneNumber, payload);
-                    break;
-
-                case 'email':
-                    if (!contactInfo.email || !contactInfo.emailVerified) {
-                        result.skippedChannels.push({
-                            channel,
-                            reason: 'Email not verified',
-                        });
-                        return;
-                    }
-                    deliveryResult = await emailHandler.send(
-                        contactInfo.email,
-                        undefined, // toName
-                        payload
-                    );
-                    break;
-
-                case 'push':
-                    if (!contactInfo.pushTokens?.length) {
-                        result.skippedChannels.push({
-                            channel,
-                            reason: 'No push tokens registered',
-                        });
-                        return;
-                    }
-                    deliveryResult = await pushHandler.send(
-                        contactInfo.pushTokens.map((t) => ({
-                            token: t.token,
-                            platform: t.platform,
-                        })),
-                        payload
-                    );
-                    break;
-
-                default:
-                    result.skippedChannels.push({
-                        channel,
-                        reason: `Unknown channel: ${channel}`,
-                    });
-                    return;
-            }
+            const deliveryResult = await handler.deliver(
+                await this.renderForChannel(payload, channel),
+                contactInfo
+            );
 
             result.results.push(deliveryResult);
+            this.addDecision(
+                result,
+                'delivery',
+                deliveryResult.status !== 'failed' && deliveryResult.status !== 'retrying',
+                deliveryResult.error ?? `${deliveryResult.status} via ${deliveryResult.provider ?? handler.providerName}`,
+                channel
+            );
 
             // Store notification in database
             await this.storeNotification(
                 payload,
                 channel,
                 deliveryResult.status,
+                result,
                 deliveryResult.providerMessageId,
-                deliveryResult.error
+                deliveryResult.error,
+                deliveryResult.provider,
+                deliveryResult.segments
             );
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -317,10 +718,29 @@ export class NotificationRouter {
                 status: 'failed',
                 error: errorMessage,
             });
-            await this.storeNotification(payload, channel, 'failed', undefined, errorMessage);
+            this.addDecision(result, 'delivery', false, errorMessage, channel);
+            await this.storeNotification(payload, channel, 'failed', result, undefined, errorMessage);
         }
     }
 
+    /**
+     * Apply the channel's template to the payload, if one is configured
+     */
+    private async renderForChannel(
+        payload: NotificationPayload,
+        channel: NotificationChannel
+    ): Promise<NotificationPayload> {
+        const content = await templateService.render(payload, channel);
+        if (!content) return payload;
+
+        return {
+            ...payload,
+            title: content.title,
+            message: content.body,
+            content,
+        };
+    }
+
     /**
      * Load user contact information
      */
@@ -347,14 +767,21 @@ export class NotificationRouter {
         }
 
         // Get push tokens
-        if (preferences.channels?.push?.devices?.length) {
-            contactInfo.pushTokens = preferences.channels.push.devices.map((d) => ({
+        const pushDevices = preferences.channels?.push?.devices?.filter((d) => !d.invalidatedAt) ?? [];
+        if (pushDevices.length) {
+            contactInfo.pushTokens = pushDevices.map((d) => ({
                 token: d.token, // Should be decrypted if encrypted
                 deviceId: d.deviceId,
                 platform: d.platform as 'ios' | 'android',
             }));
         }
 
+        // Get webhook endpoints (secrets decrypted for signing)
+        const webhookEndpoints = preferences.getActiveWebhookEndpoints();
+        if (webhookEndpoints.length) {
+            contactInfo.webhookEndpoints = webhookEndpoints;
+        }
+
         return contactInfo;
     }
 
@@ -364,9 +791,12 @@ export class NotificationRouter {
     private async storeNotification(
         payload: NotificationPayload,
         channel: NotificationChannel,
-        status: string,
+        status: DeliveryStatus,
+        result: RouteResult,
         providerMessageId?: string,
-        error?: string
+        error?: string,
+        deliveryProvider?: string,
+        smsSegments?: number
     ): Promise<void> {
         try {
             await NotificationEvent.create({
@@ -377,15 +807,22 @@ export class NotificationRouter {
                 title: payload.title,
                 message: payload.message,
                 metadata: payload.data,
+                payload: JSON.parse(JSON.stringify(payload)),
                 channel,
                 priority: payload.priority,
-                deliveryStatus: status as 'pending' | 'sent' | 'delivered' | 'failed' | 'retrying' | 'rate_limited' | 'queued_for_digest',
-                deliveryProvider: this.getProviderForChannel(channel),
+                deliveryStatus: status,
+                deliveryProvider: deliveryProvider ?? channelRegistry.getProviderName(channel),
                 providerMessageId,
+                smsSegments,
                 errorMessage: error,
                 correlationId: payload.correlationId,
-                idempotencyKey: `${payload.userId}:${payload.eventType}:${payload.eventSourceId ?? 'none'}:${channel}`,
+                idempotencyKey: `${payload.userId}:${payload.eventType}:${payload.eventSourceId ?? payload.notificationId}:${channel}`,
                 sentAt: status === 'sent' || status === 'delivered' ? new Date() : undefined,
+                // Handlers report 'retrying' for failures RetryService should pick up
+                nextRetryAt: status === 'retrying' ? new Date(Date.now() + (config.retryDelaySchedule[1] ?? 1000)) : undefined,
+                expiresAt: payload.expiresAt,
+                // Decisions for the whole notification plus this channel's own
+                decisionTrace: result.trace.filter((d) => !d.channel || d.channel === channel),
             });
         } catch (error) {
             logger.error('Failed to store notification', {
@@ -396,18 +833,6 @@ export class NotificationRouter {
         }
     }
 
-    /**
-     * Get provider name for channel
-     */
-    private getProviderForChannel(channel: NotificationChannel): string {
-        switch (channel) {
-            case 'websocket': return 'internal';
-            case 'sms': return 'twilio';
-            case 'email': return 'sendgrid';
-            case 'push': return 'firebase';
-            default: return 'unknown';
-        }
-    }
 }
 
 // Export singleton
@@ -0,0 +1,367 @@
+/**
+ * Banking Notification Service - One-Time Code Service
+ *
+ * Issues and verifies one-time codes (login, transfer approval, contact
+ * changes). Only an HMAC of each code is kept, in Redis with the code's
+ * TTL, together with its wrong-attempt and resend counts. Codes are sent
+ * straight to the channel handler rather than through NotificationRouter,
+ * so they never reach notification history, and are never logged.
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { deriveKey } from '../utils/keys';
+import { translate } from '../i18n';
+import { redis, REDIS_KEYS } from '../redis/client';
+import { IUserPreferences, UserPreferences } from '../models';
+import { smsHandler, emailHandler, pushHandler } from '../channels';
+import { DeliveryResult } from '../types';
+
+export type OtpChannel = 'sms' | 'email' | 'push';
+
+export interface OtpRequest {
+    userId: string;
+    purpose: string; // e.g. 'login', 'transfer'; a new code replaces the user's previous one for the purpose
+    channel: OtpChannel;
+    locale?: string; // Defaults to the user's preferred locale
+}
+
+export interface OtpIssueResult {
+    outcome: 'sent' | 'no_contact' | 'cooldown' | 'limit_reached' | 'failed';
+    otpId: string | null;
+    expiresAt: Date | null;
+    destination: string | null; // Masked, e.g. '***4567'
+    retryAfterSeconds?: number;
+    error?: string;
+}
+
+export interface OtpResendResult {
+    outcome: 'sent' | 'not_found' | 'cooldown' | 'limit_reached' | 'no_contact' | 'failed';
+    expiresAt: Date | null;
+    resendsRemaining: number;
+    retryAfterSeconds?: number;
+}
+
+export interface OtpVerifyResult {
+    outcome: 'verified' | 'invalid' | 'expired' | 'locked';
+    attemptsRemaining: number;
+}
+
+// Fields of the OTP hash in Redis
+interface StoredOtp {
+    userId: string;
+    purpose: string;
+    channel: OtpChannel;
+    locale: string;
+    codeHash: string;
+    attempts: number;
+    resends: number;
+    lastSentAt: number; // Epoch ms
+    expiresAt: number; // Epoch ms
+}
+
+/**
+ * Generate a numeric code with uniformly distributed digits
+ */
+export function generateOtpCode(length: number): string {
+    let code = '';
+    for (let i = 0; i < length; i++) {
+        code += crypto.randomInt(10).toString();
+    }
+    return code;
+}
+
+// Keyed by the OTP ID so equal codes never share a hash
+function hashCode(otpId: string, code: string): string {
+    return crypto.createHmac('sha256', deriveKey('otp_code')).update(`${otpId}:${code}`).digest('hex');
+}
+
+/**
+ * Mask a phone number, email address or device count for display
+ */
+export function maskDestination(channel: OtpChannel, destination: string): string {
+    if (channel === 'email') {
+        const [local = '', domain = ''] = destination.split('@');
+        return `${local.slice(0, 1)}***@${domain}`;
+    }
+    if (channel === 'sms') {
+        return `***${destination.slice(-4)}`;
+    }
+    return destination; // Push: device count
+}
+
+export class OtpService {
+    /**
+     * Issue a code and send it to the user. While the user's previous code
+     * for the purpose is live this counts as a resend: the cooldown and
+     * resend limit apply and wrong attempts carry over.
+     */
+    async issue(request: OtpRequest, now: Date = new Date()): Promise<OtpIssueResult> {
+        const activeKey = REDIS_KEYS.OTP_ACTIVE(request.userId, request.purpose);
+        const previousId = await redis.get(activeKey);
+        const previous = previousId ? await this.load(previousId) : null;
+
+        if (previous) {
+            const blocked = this.checkResend(previous, now);
+            if (blocked) {
+                return { ...blocked, otpId: null, expiresAt: null, destination: null };
+            }
+        }
+
+        const prefs = await UserPreferences.findByUserId(request.userId);
+        const locale = request.locale ?? prefs?.locale ?? 'en';
+        const destination = prefs ? this.resolveDestination(request.channel, prefs) : null;
+        if (!destination) {
+            return { outcome: 'no_contact', otpId: null, expiresAt: null, destination: null };
+        }
+
+        const otpId = uuidv4();
+        const code = generateOtpCode(config.otp.length);
+        const expiresAt = now.getTime() + config.otp.ttlSeconds * 1000;
+
+        const stored: StoredOtp = {
+            userId: request.userId,
+            purpose: request.purpose,
+            channel: request.channel,
+            locale,
+            codeHash: hashCode(otpId, code),
+            attempts: previous?.attempts ?? 0,
+            resends: previous ? previous.resends + 1 : 0,
+            lastSentAt: now.getTime(),
+            expiresAt,
+        };
+
+        // Only the latest code for a purpose is valid
+        const multi = redis.multi()
+            .hset(REDIS_KEYS.OTP(otpId), { ...stored })
+            .pexpireat(REDIS_KEYS.OTP(otpId), expiresAt)
+            .set(activeKey, otpId, 'PX', config.otp.ttlSeconds * 1000);
+        if (previousId) {
+            multi.del(REDIS_KEYS.OTP(previousId));
+        }
+        await multi.exec();
+
+        const result = await this.deliver(request.channel, destination.to, code, locale);
+        if (result.status === 'failed') {
+            await redis.del(REDIS_KEYS.OTP(otpId), activeKey);
+            logger.warn('OTP delivery failed', {
+                otpId,
+                userId: request.userId,
+                purpose: request.purpose,
+                channel: request.channel,
+                error: result.error,
+            });
+            return { outcome: 'failed', otpId: null, expiresAt: null, destination: null, error: result.error };
+        }
+
+        logger.info('OTP issued', {
+            otpId,
+            userId: request.userId,
+            purpose: request.purpose,
+            channel: request.channel,
+            providerMessageId: result.providerMessageId,
+        });
+
+        return {
+            outcome: 'sent',
+            otpId,
+            expiresAt: new Date(expiresAt),
+            destination: maskDestination(request.channel, destination.label),
+        };
+    }
+
+    /**
+     * Send a fresh code for an existing OTP. The previous code stops working
+     * and the TTL restarts; wrong attempts still count.
+     */
+    async resend(otpId: string, now: Date = new Date()): Promise<OtpResendResult> {
+        const stored = await this.load(otpId);
+        if (!stored) {
+            return { outcome: 'not_found', expiresAt: null, resendsRemaining: 0 };
+        }
+
+        const resendsRemaining = Math.max(config.otp.maxResends - stored.resends, 0);
+        const blocked = this.checkResend(stored, now);
+        if (blocked) {
+            return { ...blocked, expiresAt: new Date(stored.expiresAt), resendsRemaining };
+        }
+
+        const prefs = await UserPreferences.findByUserId(stored.userId);
+        const destination = prefs ? this.resolveDestination(stored.channel, prefs) : null;
+        if (!destination) {
+            return { outcome: 'no_contact', expiresAt: new Date(stored.expiresAt), resendsRemaining };
+        }
+
+        const code = generateOtpCode(config.otp.length);
+        const expiresAt = now.getTime() + config.otp.ttlSeconds * 1000;
+
+        await redis.multi()
+            .hset(REDIS_KEYS.OTP(otpId), {
+                codeHash: hashCode(otpId, code),
+                resends: stored.resends + 1,
+                lastSentAt: now.getTime(),
+                expiresAt,
+            })
+            .pexpireat(REDIS_KEYS.OTP(otpId), expiresAt)
+            .pexpireat(REDIS_KEYS.OTP_ACTIVE(stored.userId, stored.purpose), expiresAt)
+            .exec();
+
+        const result = await this.deliver(stored.channel, destination.to, code, stored.locale);
+        if (result.status === 'failed') {
+            logger.warn('OTP resend failed', { otpId, userId: stored.userId, channel: stored.channel, error: result.error });
+            return { outcome: 'failed', expiresAt: new Date(expiresAt), resendsRemaining: resendsRemaining - 1 };
+        }
+
+        logger.info('OTP resent', { otpId, userId: stored.userId, channel: stored.channel, resends: stored.resends + 1 });
+
+        return { outcome: 'sent', expiresAt: new Date(expiresAt), resendsRemaining: resendsRemaining - 1 };
+    }
+
+    /**
+     * Check a code. A code verifies once; too many wrong codes discard it.
+     * userId and purpose must match what the code was issued for.
+     */
+    async verify(otpId: string, code: string, userId: string, purpose: string): Promise<OtpVerifyResult> {
+        const key = REDIS_KEYS.OTP(otpId);
+        const stored = await this.load(otpId);
+        if (!stored || stored.userId !== userId || stored.purpose !== purpose) {
+            return { outcome: 'expired', attemptsRemaining: 0 };
+        }
+
+        // Counted before comparing so concurrent guesses cannot exceed the limit
+        const attempts = await redis.hincrby(key, 'attempts', 1);
+        if (attempts > config.otp.maxAttempts) {
+            return { outcome: 'locked', attemptsRemaining: 0 };
+        }
+
+        const expected = Buffer.from(stored.codeHash, 'hex');
+        const actual = Buffer.from(hashCode(otpId, code), 'hex');
+        if (crypto.timingSafeEqual(expected, actual)) {
+            await redis.del(key, REDIS_KEYS.OTP_ACTIVE(userId, purpose));
+            logger.info('OTP verified', { otpId, userId, purpose });
+            return { outcome: 'verified', attemptsRemaining: 0 };
+        }
+
+        const attemptsRemaining = config.otp.maxAttempts - attempts;
+        if (attemptsRemaining === 0) {
+            await redis.del(key, REDIS_KEYS.OTP_ACTIVE(userId, purpose));
+            logger.warn('OTP locked after too many attempts', { otpId, userId, purpose });
+            return { outcome: 'locked', attemptsRemaining };
+        }
+
+        return { outcome: 'invalid', attemptsRemaining };
+    }
+
+    /**
+     * Discard the user's live code for a purpose, e.g. when the contact it
+     * was sent to changes
+     */
+    async revoke(userId: string, purpose: string): Promise<void> {
+        const activeKey = REDIS_KEYS.OTP_ACTIVE(userId, purpose);
+        const otpId = await redis.get(activeKey);
+        if (otpId) {
+            await redis.del(REDIS_KEYS.OTP(otpId), activeKey);
+            logger.info('OTP revoked', { otpId, userId, purpose });
+        }
+    }
+
+    /**
+     * Whether another code may be sent yet
+     */
+    private checkResend(
+        stored: StoredOtp,
+        now: Date
+    ): { outcome: 'cooldown' | 'limit_reached'; retryAfterSeconds?: number } | null {
+        if (stored.resends >= config.otp.maxResends) {
+            return { outcome: 'limit_reached' };
+        }
+
+        const retryAfterMs = stored.lastSentAt + config.otp.resendCooldownSeconds * 1000 - now.getTime();
+        if (retryAfterMs > 0) {
+            return { outcome: 'cooldown', retryAfterSeconds: Math.ceil(retryAfterMs / 1000) };
+        }
+        return null;
+    }
+
+    /**
+     * Read a stored OTP (null once expired, verified or locked)
+     */
+    private async load(otpId: string): Promise<StoredOtp | null> {
+        const fields = await redis.hgetall(REDIS_KEYS.OTP(otpId));
+        if (!fields['codeHash']) {
+            return null;
+        }
+
+        return {
+            userId: fields['userId'] ?? '',
+            purpose: fields['purpose'] ?? '',
+            channel: fields['channel'] as OtpChannel,
+            locale: fields['locale'] ?? 'en',
+            codeHash: fields['codeHash'],
+            attempts: Number(fields['attempts'] ?? 0),
+            resends: Number(fields['resends'] ?? 0),
+            lastSentAt: Number(fields['lastSentAt'] ?? 0),
+            expiresAt: Number(fields['expiresAt'] ?? 0),
+        };
+    }
+
+    /**
+     * Where the code goes on the channel; label is what gets masked in the response
+     */
+    private resolveDestination(
+        channel: OtpChannel,
+        prefs: IUserPreferences
+    ): { to: string | string[]; label: string } | null {
+        if (channel === 'sms') {
+            const phone = prefs.getDecryptedPhoneNumber();
+            return phone ? { to: phone, label: phone } : null;
+        }
+        if (channel === 'email') {
+            const email = prefs.getDecryptedEmail();
+            return email ? { to: email, label: email } : null;
+        }
+
+        const tokens = (prefs.channels?.push?.devices ?? []).filter((d) => !d.invalidatedAt).map((d) => d.token);
+        return tokens.length ? { to: tokens, label: `${tokens.length} device(s)` } : null;
+    }
+
+    /**
+     * Send the code with the localized template for the channel
+     */
+    private async deliver(
+        channel: OtpChannel,
+        to: string | string[],
+        code: string,
+        locale: string
+    ): Promise<DeliveryResult> {
+        const variables = { code, minutes: Math.ceil(config.otp.ttlSeconds / 60) };
+
+        if (channel === 'sms') {
+            return smsHandler.sendRaw({ to: to as string, message: translate('otp.sms', locale, variables)! });
+        }
+
+        if (channel === 'email') {
+            const text = translate('otp.email.body', locale, variables)!;
+            return emailHandler.sendRaw({
+                to: to as string,
+                subject: translate('otp.email.subject', locale)!,
+                textContent: text,
+                locale,
+            });
+        }
+
+        return pushHandler.sendRaw({
+            deviceTokens: to as string[],
+            title: translate('otp.push.title', locale)!,
+            body: translate('otp.push.body', locale, variables)!,
+            data: { type: 'otp' },
+            android: { priority: 'high', ttlSeconds: config.otp.ttlSeconds },
+            apns: { priority: 10 },
+        });
+    }
+}
+
+// Export singleton
+export const otpService = new OtpService();
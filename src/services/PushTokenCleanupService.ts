@@ -0,0 +1,224 @@
+/**
+ * Banking Notification Service - Push Token Cleanup Service
+ *
+ * Periodically removes push devices that can no longer receive pushes:
+ * devices flagged dead by FCM during sends, idle devices whose tokens
+ * fail a dry-run validation, and devices idle past the maximum age.
+ */
+
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { redis, REDIS_KEYS } from '../redis/client';
+import { UserPreferences, IUserPreferences } from '../models';
+import { pushHandler } from '../channels';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PushTokenCleanupResult {
+    usersScanned: number;
+    removedFlagged: number; // Reported dead by FCM on send
+    removedInvalid: number; // Failed dry-run validation
+    removedInactive: number; // Idle past the maximum age
+    validated: number;
+}
+
+export interface PushTokenCleanupStats {
+    flaggedPending: number; // Users with flagged devices awaiting removal
+    removedFlagged: number;
+    removedInvalid: number;
+    removedInactive: number;
+    lastRunAt: string | null;
+}
+
+type PushDevice = IUserPreferences['channels']['push']['devices'][number];
+
+export class PushTokenCleanupService {
+    private isRunning: boolean = false;
+    private checkInterval: NodeJS.Timeout | null = null;
+    private readonly checkIntervalMs: number;
+    private readonly batchSize: number = 500; // Users per run
+    private readonly lockTtlSeconds: number = 1800; // One replica cleans at a time
+
+    constructor() {
+        this.checkIntervalMs = config.notification.pushTokenCleanupIntervalMs;
+    }
+
+    /**
+     * Start the cleanup scheduler
+     */
+    async start(): Promise<void> {
+        if (this.isRunning) return;
+
+        this.isRunning = true;
+        logger.info('Push token cleanup service started');
+
+        this.checkInterval = setInterval(() => {
+            this.runCleanup().catch((error) => {
+                logger.error('Push token cleanup failed', { error });
+            });
+        }, this.checkIntervalMs);
+    }
+
+    /**
+     * Stop the cleanup scheduler
+     */
+    async stop(): Promise<void> {
+        if (!this.isRunning) return;
+
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = null;
+        }
+
+        this.isRunning = false;
+        logger.info('Push token cleanup service stopped');
+    }
+
+    /**
+     * Run one cleanup pass. Returns null if another replica is already running one.
+     */
+    async runCleanup(now: Date = new Date()): Promise<PushTokenCleanupResult | null> {
+        const locked = await redis.set(REDIS_KEYS.PUSH_TOKEN_CLEANUP_LOCK, '1', 'EX', this.lockTtlSeconds, 'NX');
+        if (!locked) return null;
+
+        try {
+            const result = await this.cleanup(now);
+
+            await redis
+                .multi()
+                .hincrby(REDIS_KEYS.PUSH_TOKEN_CLEANUP_STATS, 'removedFlagged', result.removedFlagged)
+                .hincrby(REDIS_KEYS.PUSH_TOKEN_CLEANUP_STATS, 'removedInvalid', result.removedInvalid)
+                .hincrby(REDIS_KEYS.PUSH_TOKEN_CLEANUP_STATS, 'removedInactive', result.removedInactive)
+                .hset(REDIS_KEYS.PUSH_TOKEN_CLEANUP_STATS, 'lastRunAt', now.toISOString())
+                .exec();
+
+            logger.info('Push token cleanup complete', { ...result });
+            return result;
+        } finally {
+            await redis.del(REDIS_KEYS.PUSH_TOKEN_CLEANUP_LOCK);
+        }
+    }
+
+    /**
+     * Cumulative cleanup counts for admin metrics
+     */
+    async getStats(): Promise<PushTokenCleanupStats> {
+        const [stats, flaggedPending] = await Promise.all([
+            redis.hgetall(REDIS_KEYS.PUSH_TOKEN_CLEANUP_STATS),
+            UserPreferences.countDocuments({ 'channels.push.devices.invalidatedAt': { $ne: null } }),
+        ]);
+
+        return {
+            flaggedPending,
+            removedFlagged: Number(stats['removedFlagged'] ?? 0),
+            removedInvalid: Number(stats['removedInvalid'] ?? 0),
+            removedInactive: Number(stats['removedInactive'] ?? 0),
+            lastRunAt: stats['lastRunAt'] ?? null,
+        };
+    }
+
+    private async cleanup(now: Date): Promise<PushTokenCleanupResult> {
+        const validateBefore = new Date(now.getTime() - config.notification.pushTokenValidateAfterDays * DAY_MS);
+        const removeBefore = new Date(now.getTime() - config.notification.pushDeviceMaxInactiveDays * DAY_MS);
+        const canValidate = pushHandler.isAvailable();
+
+        const result: PushTokenCleanupResult = {
+            usersScanned: 0,
+            removedFlagged: 0,
+            removedInvalid: 0,
+            removedInactive: 0,
+            validated: 0,
+        };
+
+        const needsWork: Record<string, unknown>[] = [
+            { invalidatedAt: { $ne: null } },
+            { lastActiveAt: { $lt: removeBefore } },
+        ];
+        if (canValidate) {
+            needsWork.push({
+                lastActiveAt: { $lt: validateBefore },
+                $or: [{ lastValidatedAt: null }, { lastValidatedAt: { $lt: validateBefore } }],
+            });
+        }
+
+        const users = await UserPreferences.find({
+            'channels.push.devices': { $elemMatch: { $or: needsWork } },
+        }).limit(this.batchSize);
+
+        for (const preferences of users) {
+            result.usersScanned++;
+            const removed: PushDevice[] = [];
+            const validated: PushDevice[] = [];
+
+            for (const device of preferences.channels.push.devices) {
+                const outcome = await this.checkDevice(device, validateBefore, removeBefore, canValidate);
+
+                switch (outcome) {
+                    case 'flagged':
+                        result.removedFlagged++;
+                        removed.push(device);
+                        break;
+                    case 'invalid':
+                        result.removedInvalid++;
+                        removed.push(device);
+                        break;
+                    case 'inactive':
+                        result.removedInactive++;
+                        removed.push(device);
+                        break;
+                    case 'validated':
+                        result.validated++;
+                        validated.push(device);
+                        break;
+                }
+            }
+
+            // Updated in place: devices can be registered or refreshed while tokens are validated
+            if (validated.length > 0) {
+                await UserPreferences.markPushTokensValidated(
+                    preferences.userId,
+                    validated.map((d) => d.token),
+                    now
+                );
+            }
+            if (removed.length > 0) {
+                await UserPreferences.removePushDevices(preferences.userId, removed);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Decide whether to keep a device
+     */
+    private async checkDevice(
+        device: PushDevice,
+        validateBefore: Date,
+        removeBefore: Date,
+        canValidate: boolean
+    ): Promise<'flagged' | 'invalid' | 'inactive' | 'validated' | 'keep'> {
+        if (device.invalidatedAt) return 'flagged';
+
+        const lastActiveAt = device.lastActiveAt ?? device.createdAt;
+        if (lastActiveAt < removeBefore) return 'inactive';
+
+        const dueForCheck = lastActiveAt < validateBefore
+            && (!device.lastValidatedAt || device.lastValidatedAt < validateBefore);
+        if (!canValidate || !dueForCheck) return 'keep';
+
+        try {
+            return (await pushHandler.validateToken(device.token)) ? 'validated' : 'invalid';
+        } catch (error) {
+            // FCM unavailable: keep the device and check again next run
+            logger.warn('Push token validation failed', {
+                deviceId: device.deviceId,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            return 'keep';
+        }
+    }
+}
+
+// Export singleton
+export const pushTokenCleanupService = new PushTokenCleanupService();
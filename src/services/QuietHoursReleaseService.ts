@@ -0,0 +1,195 @@
+/**
+ * Banking Notification Service - Quiet Hours Release Service
+ *
+ * Releases notifications held back by quiet hours once the
+ * user's quiet period ends, and manages the hold queue.
+ */
+
+import { Op } from 'sequelize';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { HeldNotification, NotificationEvent } from '../models';
+import { notificationRouter } from './NotificationRouter';
+
+export class QuietHoursReleaseService {
+    private isRunning: boolean = false;
+    private checkInterval: NodeJS.Timeout | null = null;
+    private readonly checkIntervalMs: number;
+    private readonly batchSize: number = 100;
+    private readonly staleClaimMs: number = 300000; // Reclaim rows stuck in 'releasing' after 5 minutes
+
+    constructor() {
+        this.checkIntervalMs = config.notification.quietHoursReleaseIntervalMs;
+    }
+
+    /**
+     * Start the release scheduler
+     */
+    async start(): Promise<void> {
+        if (this.isRunning) return;
+
+        this.isRunning = true;
+        logger.info('Quiet hours release service started');
+
+        // Run immediately then on interval
+        await this.processReleases();
+        this.checkInterval = setInterval(() => {
+            this.processReleases().catch((error) => {
+                logger.error('Quiet hours release processing failed', { error });
+            });
+        }, this.checkIntervalMs);
+    }
+
+    /**
+     * Stop the release scheduler
+     */
+    async stop(): Promise<void> {
+        if (!this.isRunning) return;
+
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = null;
+        }
+
+        this.isRunning = false;
+        logger.info('Quiet hours release service stopped');
+    }
+
+    /**
+     * Release held notifications whose quiet hours have ended
+     */
+    async processReleases(): Promise<void> {
+        try {
+            const held = await HeldNotification.claimDue(this.batchSize, this.staleClaimMs);
+
+            if (held.length === 0) return;
+
+            logger.info(`Releasing ${held.length} notifications held for quiet hours`);
+
+            for (const item of held) {
+                await this.releaseNotification(item);
+            }
+        } catch (error) {
+            logger.error('Error processing quiet hours releases', { error });
+        }
+    }
+
+    /**
+     * Release a single held notification
+     */
+    private async releaseNotification(item: HeldNotification): Promise<void> {
+        try {
+            // A reclaimed row may already have been released by a replica
+            // that stopped before marking it; never deliver it twice
+            const alreadyReleased = await NotificationEvent.count({
+                where: { userId: item.userId, notificationId: item.notificationId },
+            });
+
+            if (alreadyReleased > 0) {
+                await item.markReleased();
+                logger.warn('Held notification was already released', {
+                    holdId: item.id,
+                    notificationId: item.notificationId,
+                });
+                return;
+            }
+
+            const result = await notificationRouter.releaseHeld(item.toPayload());
+
+            if (result.queued && result.heldUntil) {
+                // Quiet hours were extended while the notification was held
+                await item.reschedule(result.heldUntil);
+                logger.info('Held notification rescheduled', {
+                    holdId: item.id,
+                    notificationId: item.notificationId,
+                    releaseAt: result.heldUntil,
+                });
+                return;
+            }
+
+            await item.markReleased();
+            logger.info('Held notification released', {
+                holdId: item.id,
+                notificationId: item.notificationId,
+                channels: result.results.map((r) => r.channel),
+                skipped: result.skippedChannels.length,
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            const retryDelayMs = config.notification.quietHoursReleaseRetryDelayMs * 2 ** (item.attempts ?? 0);
+            await item.markFailed(
+                errorMessage,
+                config.notification.quietHoursReleaseMaxAttempts,
+                new Date(Date.now() + retryDelayMs)
+            );
+            logger.error('Failed to release held notification', {
+                holdId: item.id,
+                notificationId: item.notificationId,
+                attempts: item.attempts,
+                status: item.status,
+                releaseAt: item.releaseAt,
+                error: errorMessage,
+            });
+        }
+    }
+
+    /**
+     * List held notifications for a user
+     */
+    async listHeld(userId: string, includeResolved: boolean = false): Promise<HeldNotification[]> {
+        return HeldNotification.findAll({
+            where: includeResolved
+                ? { userId }
+                : { userId, status: { [Op.in]: ['held', 'releasing'] } },
+            order: [['releaseAt', 'ASC']],
+            limit: 100,
+        });
+    }
+
+    /**
+     * Cancel a held notification before it is released.
+     * The update is conditional on the status, so a row already claimed
+     * for release can no longer be cancelled.
+     */
+    async cancel(holdId: string, userId: string | undefined, cancelledBy: string): Promise<boolean> {
+        const where: Record<string, unknown> = { id: holdId, status: 'held' };
+        if (userId) where['userId'] = userId;
+
+        const [count, rows] = await HeldNotification.update(
+            { status: 'cancelled', cancelledAt: new Date(), cancelledBy },
+            { where, returning: true }
+        );
+
+        if (count === 0) {
+            return false;
+        }
+
+        logger.info('Held notification cancelled', {
+            holdId,
+            notificationId: rows[0]!.notificationId,
+            cancelledBy,
+        });
+        return true;
+    }
+
+    /**
+     * Get hold queue statistics
+     */
+    async getStats(): Promise<{ held: number; releasedToday: number; failed: number }> {
+        const now = new Date();
+        const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+        const [held, releasedToday, failed] = await Promise.all([
+            HeldNotification.count({ where: { status: 'held' } }),
+            HeldNotification.count({
+                where: { status: 'released', releasedAt: { [Op.gte]: startOfDay } },
+            }),
+            HeldNotification.count({ where: { status: 'failed' } }),
+        ]);
+
+        return { held, releasedToday, failed };
+    }
+}
+
+// Export singleton
+export const quietHoursReleaseService = new QuietHoursReleaseService();
@@ -83,37 +83,39 @@ export class RetryService {
     }
 
     /**
-     * Retry a single notification
+     * Retry a single notification on its original channel
      */
     private async retryNotification(notification: NotificationEvent): Promise<void> {
-        try {
-            // Re-route the notification
-            const result = await notificationRouter.route({
-                userId: notification.userId,
-                eventType: notification.eventType as NotificationEventType,
-                title: notification.title,
-                message: notification.message,
-                eventSourceId: notification.eventSourceId ?? undefined,
-                data: notification.metadata as Record<string, unknown>,
-                priority: notification.priority,
-                correlationId: notification.correlationId ?? undefined,
+        // A late retry must not deliver a stale alert
+        if (notification.isExpired()) {
+            await notification.markExpired();
+            logger.info('Expired notification dropped from retry', {
+                notificationId: notification.notificationId,
+                channel: notification.channel,
+                expiresAt: notification.expiresAt,
             });
+            return;
+        }
 
-            // Check if any channel succeeded
-            const succeeded = result.results.some(
-                (r) => r.status === 'sent' || r.status === 'delivered'
+        try {
+            const result = await notificationRouter.redeliver(
+                notification.toPayload(),
+                notification.channel
             );
 
-            if (succeeded) {
+            if (result.status === 'sent' || result.status === 'delivered') {
                 // Update original notification as sent
-                await notification.markSent();
+                await notification.markSent(result.providerMessageId, result.provider, result.segments);
                 logger.info('Retry successful', {
                     notificationId: notification.notificationId,
+                    channel: notification.channel,
                     retryCount: notification.retryCount + 1,
                 });
+            } else if (result.status === 'expired') {
+                await notification.markExpired();
             } else {
                 // Schedule next retry or move to DLQ
-                await this.scheduleNextRetry(notification, result.results[0]?.error);
+                await this.scheduleNextRetry(notification, result.error);
             }
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
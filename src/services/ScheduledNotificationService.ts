@@ -0,0 +1,271 @@
+/**
+ * Banking Notification Service - Scheduled Notification Service
+ *
+ * Stores notifications submitted with a future sendAt and routes
+ * them through the normal pipeline once they are due. Scheduled
+ * items live in PostgreSQL, so they survive restarts.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Op } from 'sequelize';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import {
+    ScheduledNotification,
+    ScheduleOutcome,
+    ScheduleStatus,
+    NotificationEvent,
+    HeldNotification,
+} from '../models';
+import { notificationRouter, NotificationRequest } from './NotificationRouter';
+
+export class ScheduledNotificationService {
+    private isRunning: boolean = false;
+    private checkInterval: NodeJS.Timeout | null = null;
+    private readonly checkIntervalMs: number;
+    private readonly batchSize: number = 100;
+    private readonly staleClaimMs: number = 300000; // Reclaim rows stuck in 'sending' after 5 minutes
+
+    constructor() {
+        this.checkIntervalMs = config.notification.scheduledDispatchIntervalMs;
+    }
+
+    /**
+     * Start the dispatch scheduler
+     */
+    async start(): Promise<void> {
+        if (this.isRunning) return;
+
+        this.isRunning = true;
+        logger.info('Scheduled notification service started');
+
+        // Run immediately then on interval
+        await this.processDue();
+        this.checkInterval = setInterval(() => {
+            this.processDue().catch((error) => {
+                logger.error('Scheduled notification processing failed', { error });
+            });
+        }, this.checkIntervalMs);
+    }
+
+    /**
+     * Stop the dispatch scheduler
+     */
+    async stop(): Promise<void> {
+        if (!this.isRunning) return;
+
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = null;
+        }
+
+        this.isRunning = false;
+        logger.info('Scheduled notification service stopped');
+    }
+
+    /**
+     * Store a notification to be sent at a later time
+     */
+    async schedule(request: NotificationRequest, sendAt: Date): Promise<ScheduledNotification> {
+        const notificationId = uuidv4();
+
+        const scheduled = await ScheduledNotification.create({
+            notificationId,
+            userId: request.userId,
+            eventType: request.eventType,
+            eventSourceId: request.eventSourceId ?? null,
+            request: JSON.parse(JSON.stringify({ ...request, notificationId })),
+            sendAt,
+        });
+
+        logger.info('Notification scheduled', {
+            scheduleId: scheduled.id,
+            notificationId,
+            userId: request.userId,
+            eventType: request.eventType,
+            sendAt,
+        });
+
+        return scheduled;
+    }
+
+    /**
+     * Send scheduled notifications that are due
+     */
+    async processDue(): Promise<void> {
+        try {
+            const due = await ScheduledNotification.claimDue(this.batchSize, this.staleClaimMs);
+
+            if (due.length === 0) return;
+
+            logger.info(`Sending ${due.length} scheduled notifications`);
+
+            for (const item of due) {
+                await this.sendScheduled(item);
+            }
+        } catch (error) {
+            logger.error('Error processing scheduled notifications', { error });
+        }
+    }
+
+    /**
+     * Route a single scheduled notification
+     */
+    private async sendScheduled(item: ScheduledNotification): Promise<void> {
+        try {
+            // A reclaimed row may already have been routed by a replica that
+            // stopped before marking it sent; never route it twice
+            const previousOutcome = await this.findRoutedOutcome(item);
+
+            if (previousOutcome) {
+                await item.markSent(previousOutcome);
+                logger.warn('Scheduled notification was already routed', {
+                    scheduleId: item.id,
+                    notificationId: item.notificationId,
+                    outcome: previousOutcome,
+                });
+                return;
+            }
+
+            const result = await notificationRouter.route(
+                item.request as unknown as NotificationRequest
+            );
+
+            const outcome: ScheduleOutcome = result.results.length > 0
+                ? 'sent'
+                : result.queued
+                    ? 'held'
+                    : result.digestQueued ? 'digest' : 'skipped';
+
+            await item.markSent(outcome);
+            logger.info('Scheduled notification sent', {
+                scheduleId: item.id,
+                notificationId: item.notificationId,
+                outcome,
+                channels: result.results.map((r) => r.channel),
+                skipped: result.skippedChannels.map((s) => s.reason),
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            const retryDelayMs = config.notification.scheduledRetryDelayMs * 2 ** (item.attempts ?? 0);
+            await item.markFailed(
+                errorMessage,
+                config.notification.scheduledMaxAttempts,
+                new Date(Date.now() + retryDelayMs)
+            );
+            logger.error('Failed to send scheduled notification', {
+                scheduleId: item.id,
+                notificationId: item.notificationId,
+                attempts: item.attempts,
+                status: item.status,
+                sendAt: item.sendAt,
+                error: errorMessage,
+            });
+        }
+    }
+
+    /**
+     * What an earlier attempt did with a notification, if it got as far as
+     * delivering it, holding it for quiet hours or queuing it for a digest
+     */
+    private async findRoutedOutcome(item: ScheduledNotification): Promise<ScheduleOutcome | null> {
+        const [events, held] = await Promise.all([
+            NotificationEvent.findAll({
+                where: { userId: item.userId, notificationId: item.notificationId },
+                attributes: ['deliveryStatus'],
+            }),
+            HeldNotification.count({ where: { notificationId: item.notificationId } }),
+        ]);
+
+        if (held > 0) return 'held';
+        if (events.length === 0) return null;
+        return events.every((e) => e.deliveryStatus === 'queued_for_digest') ? 'digest' : 'sent';
+    }
+
+    /**
+     * List scheduled notifications for a user
+     */
+    async listScheduled(userId: string, status?: ScheduleStatus): Promise<ScheduledNotification[]> {
+        return ScheduledNotification.findAll({
+            where: status
+                ? { userId, status }
+                : { userId, status: { [Op.in]: ['scheduled', 'sending'] } },
+            order: [['sendAt', 'ASC']],
+            limit: 100,
+        });
+    }
+
+    /**
+     * Move a scheduled notification to a new send time
+     */
+    async reschedule(
+        scheduleId: string,
+        userId: string | undefined,
+        sendAt: Date
+    ): Promise<ScheduledNotification | null> {
+        const [count, rows] = await ScheduledNotification.update(
+            { sendAt },
+            { where: this.pendingWhere(scheduleId, userId), returning: true }
+        );
+
+        if (count === 0) {
+            return null;
+        }
+
+        logger.info('Scheduled notification rescheduled', {
+            scheduleId,
+            notificationId: rows[0]!.notificationId,
+            sendAt,
+        });
+        return rows[0]!;
+    }
+
+    /**
+     * Cancel a scheduled notification before it is sent
+     */
+    async cancel(scheduleId: string, userId: string | undefined, cancelledBy: string): Promise<boolean> {
+        const [count] = await ScheduledNotification.update(
+            { status: 'cancelled', cancelledAt: new Date(), cancelledBy },
+            { where: this.pendingWhere(scheduleId, userId) }
+        );
+
+        if (count === 0) {
+            return false;
+        }
+
+        logger.info('Scheduled notification cancelled', { scheduleId, cancelledBy });
+        return true;
+    }
+
+    /**
+     * Get scheduled notification statistics
+     */
+    async getStats(): Promise<{ scheduled: number; sentToday: number; failed: number }> {
+        const now = new Date();
+        const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+        const [scheduled, sentToday, failed] = await Promise.all([
+            ScheduledNotification.count({ where: { status: 'scheduled' } }),
+            ScheduledNotification.count({
+                where: { status: 'sent', sentAt: { [Op.gte]: startOfDay } },
+            }),
+            ScheduledNotification.count({ where: { status: 'failed' } }),
+        ]);
+
+        return { scheduled, sentToday, failed };
+    }
+
+    /**
+     * Match a scheduled notification that has not been picked up yet.
+     * Updates are conditional on the status, so a row claimed for
+     * sending by another replica can no longer be changed.
+     */
+    private pendingWhere(scheduleId: string, userId: string | undefined): Record<string, unknown> {
+        const where: Record<string, unknown> = { id: scheduleId, status: 'scheduled' };
+        if (userId) where['userId'] = userId;
+        return where;
+    }
+}
+
+// Export singleton
+export const scheduledNotificationService = new ScheduledNotificationService();
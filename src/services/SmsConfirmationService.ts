@@ -0,0 +1,119 @@
+/**
+ * Banking Notification Service - SMS Confirmation Service
+ *
+ * Matches YES/NO replies to the user's latest pending SMS confirmation
+ * (fraud and large-transaction alerts), records the answer and publishes
+ * notification.response so the fraud service can act on the case or
+ * transaction. Late replies are told the request expired; anything else
+ * sent while a question is pending is asked to answer YES or NO.
+ */
+
+import { Op } from 'sequelize';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { translate } from '../i18n';
+import { IUserPreferences, SmsConfirmation } from '../models';
+import { notificationEventPublisher } from '../kafka';
+
+export type SmsConfirmationOutcome = 'confirmed' | 'denied' | 'expired' | 'unclear' | 'no_pending' | 'duplicate';
+
+export interface SmsConfirmationReply {
+    outcome: SmsConfirmationOutcome;
+    confirmationId: string | null;
+    reply: string | null; // Text to send back to the sender
+}
+
+// Answers accepted in the supported languages
+const ANSWERS: Record<string, 'confirmed' | 'denied'> = {
+    YES: 'confirmed',
+    Y: 'confirmed',
+    SI: 'confirmed',
+    'SÍ': 'confirmed',
+    OUI: 'confirmed',
+    NO: 'denied',
+    N: 'denied',
+    NON: 'denied',
+};
+
+export class SmsConfirmationService {
+    /**
+     * Apply a reply from the given users' phone number.
+     * keyword is the normalized message text (see parseSmsKeyword).
+     */
+    async applyReply(
+        users: IUserPreferences[],
+        keyword: string,
+        messageId: string,
+        now: Date = new Date()
+    ): Promise<SmsConfirmationReply> {
+        if (users.length === 0) {
+            return { outcome: 'no_pending', confirmationId: null, reply: null };
+        }
+
+        // Providers redeliver webhooks; answer each message once
+        const answered = await SmsConfirmation.findOne({ where: { replyMessageId: messageId } });
+        if (answered) {
+            return { outcome: 'duplicate', confirmationId: answered.id, reply: null };
+        }
+
+        const confirmation = await SmsConfirmation.findOne({
+            where: { userId: { [Op.in]: users.map((u) => u.userId) }, status: 'pending' },
+            order: [['createdAt', 'DESC']],
+        });
+        if (!confirmation) {
+            return { outcome: 'no_pending', confirmationId: null, reply: null };
+        }
+
+        const locale = users.find((u) => u.userId === confirmation.userId)?.locale;
+
+        if (confirmation.expiresAt <= now) {
+            await confirmation.markExpired();
+            logger.info('SMS confirmation reply after expiry', {
+                notificationId: confirmation.notificationId,
+                userId: confirmation.userId,
+            });
+            return {
+                outcome: 'expired',
+                confirmationId: confirmation.id,
+                reply: translate('sms.confirmation_expired', locale, { supportContact: config.sms.supportContact }),
+            };
+        }
+
+        const answer = ANSWERS[keyword];
+        if (!answer) {
+            return {
+                outcome: 'unclear',
+                confirmationId: confirmation.id,
+                reply: translate('sms.confirmation_unclear', locale),
+            };
+        }
+
+        await confirmation.markAnswered(answer, messageId);
+
+        await notificationEventPublisher.publishNotificationResponse({
+            notificationId: confirmation.notificationId,
+            userId: confirmation.userId,
+            eventType: confirmation.eventType,
+            eventSourceId: confirmation.eventSourceId,
+            channel: 'sms',
+            response: answer,
+            respondedAt: confirmation.respondedAt ?? now,
+        });
+
+        logger.info('SMS confirmation answered', {
+            notificationId: confirmation.notificationId,
+            userId: confirmation.userId,
+            eventSourceId: confirmation.eventSourceId,
+            answer,
+        });
+
+        return {
+            outcome: answer,
+            confirmationId: confirmation.id,
+            reply: translate(`sms.confirmation_${answer}`, locale),
+        };
+    }
+}
+
+// Export singleton
+export const smsConfirmationService = new SmsConfirmationService();
@@ -0,0 +1,320 @@
+/**
+ * Banking Notification Service - Template Service
+ *
+ * Renders channel content from versioned templates and manages
+ * template versions. Templates are resolved through the recipient's
+ * locale fallback chain (es-MX -> es -> en). Active templates are cached
+ * per replica for a short time; when no template or layout is configured
+ * for a channel, handlers fall back to their built-in formatting.
+ */
+
+import { isValidObjectId } from 'mongoose';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { renderTemplate, textToHtml, RenderOptions } from '../utils/template';
+import { getLocaleFallbackChain, normalizeLocale, resolveTimeZone } from '../utils/locale';
+import {
+    NotificationTemplate,
+    INotificationTemplate,
+    TemplateKind,
+} from '../models';
+import {
+    NotificationChannel,
+    NotificationEventType,
+    NotificationPayload,
+    RenderedContent,
+} from '../types';
+
+export interface CreateTemplateInput {
+    kind: TemplateKind;
+    eventType?: NotificationEventType;
+    channel: NotificationChannel;
+    locale?: string;
+    subject?: string;
+    body: string;
+    htmlBody?: string;
+    description?: string;
+    activate?: boolean;
+}
+
+interface CacheEntry {
+    template: INotificationTemplate | null;
+    expiresAt: number;
+}
+
+export class TemplateService {
+    private cache: Map<string, CacheEntry> = new Map();
+    private readonly cacheTtlMs: number;
+
+    constructor() {
+        this.cacheTtlMs = config.notification.templateCacheTtlMs;
+    }
+
+    /**
+     * Render notification content for a channel.
+     * Returns null when neither a template nor a layout is active.
+     */
+    async render(
+        payload: NotificationPayload,
+        channel: NotificationChannel
+    ): Promise<RenderedContent | null> {
+        try {
+            const locales = getLocaleFallbackChain(payload.locale);
+            const [template, layout] = await Promise.all([
+                this.getActive('message', channel, locales, payload.eventType),
+                this.getActive('layout', channel, locales),
+            ]);
+
+            if (!template && !layout) return null;
+
+            return this.renderWith(template, layout, this.buildVariables(payload), {
+                locale: locales[0],
+                timeZone: resolveTimeZone(payload.timeZone),
+            });
+        } catch (error) {
+            logger.error('Template rendering failed, using default formatting', {
+                notificationId: payload.notificationId,
+                eventType: payload.eventType,
+                channel,
+                error,
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Render a template (and optional layout) with the given variables
+     */
+    renderWith(
+        template: INotificationTemplate | null,
+        layout: INotificationTemplate | null,
+        variables: Record<string, unknown>,
+        options: RenderOptions = {}
+    ): RenderedContent {
+        const htmlOptions = { ...options, html: true };
+        const title = renderTemplate(template?.subject ?? '{{title}}', variables, options);
+        const content = renderTemplate(template?.body ?? '{{message}}', variables, options);
+        let html = template?.htmlBody
+            ? renderTemplate(template.htmlBody, variables, htmlOptions)
+            : undefined;
+        let body = content;
+
+        if (layout) {
+            body = renderTemplate(layout.body, { ...variables, title, content }, options);
+            if (layout.htmlBody) {
+                html = renderTemplate(
+                    layout.htmlBody,
+                    { ...variables, title, content: html ?? textToHtml(content) },
+                    htmlOptions
+                );
+            }
+        }
+
+        return {
+            title,
+            body,
+            html,
+            templateId: template?.id,
+            templateVersion: template?.version,
+        };
+    }
+
+    /**
+     * Get a template version by ID
+     */
+    async get(id: string): Promise<INotificationTemplate | null> {
+        if (!isValidObjectId(id)) return null;
+        return NotificationTemplate.findById(id);
+    }
+
+    /**
+     * Preview a stored template version with sample data
+     */
+    async preview(
+        id: string,
+        data: Record<string, unknown> = {}
+    ): Promise<RenderedContent | null> {
+        const template = await this.get(id);
+        if (!template) return null;
+
+        const options = { locale: template.locale };
+
+        if (template.kind === 'layout') {
+            return this.renderWith(null, template, { title: 'Sample title', message: 'Sample message', ...data }, options);
+        }
+
+        const layout = await this.getActive('layout', template.channel, getLocaleFallbackChain(template.locale));
+        return this.renderWith(template, layout, { title: '', message: '', ...data }, options);
+    }
+
+    /**
+     * Create a new template version
+     */
+    async createVersion(input: CreateTemplateInput, createdBy: string): Promise<INotificationTemplate> {
+        const eventType = input.kind === 'message' ? input.eventType : undefined;
+        const locale = normalizeLocale(input.locale);
+        const version = await NotificationTemplate.getNextVersion(input.kind, input.channel, locale, eventType);
+
+        const template = await NotificationTemplate.create({
+            kind: input.kind,
+            eventType,
+            channel: input.channel,
+            locale,
+            version,
+            status: 'draft',
+            subject: input.subject,
+            body: input.body,
+            htmlBody: input.htmlBody,
+            description: input.description,
+            createdBy,
+        });
+
+        logger.info('Template version created', {
+            templateId: template.id,
+            kind: template.kind,
+            eventType: template.eventType,
+            channel: template.channel,
+            locale,
+            version,
+            createdBy,
+        });
+
+        if (input.activate) {
+            return (await this.activate(template.id, createdBy))!;
+        }
+
+        return template;
+    }
+
+    /**
+     * Make a template version the active one for its key.
+     * Activating an older version rolls back to it.
+     */
+    async activate(id: string, activatedBy: string): Promise<INotificationTemplate | null> {
+        const template = await this.get(id);
+        if (!template) return null;
+        if (template.status === 'active') return template;
+
+        await NotificationTemplate.updateMany(
+            {
+                kind: template.kind,
+                eventType: template.eventType ?? null,
+                channel: template.channel,
+                locale: template.locale,
+                status: 'active',
+            },
+            { status: 'archived' }
+        );
+
+        template.status = 'active';
+        template.activatedAt = new Date();
+        template.activatedBy = activatedBy;
+        await template.save();
+
+        this.invalidate(template.kind, template.channel, template.locale, template.eventType);
+        logger.info('Template version activated', {
+            templateId: template.id,
+            kind: template.kind,
+            eventType: template.eventType,
+            channel: template.channel,
+            locale: template.locale,
+            version: template.version,
+            activatedBy,
+        });
+
+        return template;
+    }
+
+    /**
+     * Archive a template version
+     */
+    async archive(id: string): Promise<INotificationTemplate | null> {
+        const template = await this.get(id);
+        if (!template) return null;
+
+        template.status = 'archived';
+        await template.save();
+
+        this.invalidate(template.kind, template.channel, template.locale, template.eventType);
+        return template;
+    }
+
+    /**
+     * Get the active template for the most specific locale that has one
+     */
+    private async getActive(
+        kind: TemplateKind,
+        channel: NotificationChannel,
+        locales: string[],
+        eventType?: NotificationEventType
+    ): Promise<INotificationTemplate | null> {
+        for (const locale of locales) {
+            const template = await this.getActiveForLocale(kind, channel, locale, eventType);
+            if (template) return template;
+        }
+        return null;
+    }
+
+    /**
+     * Get the active template for a key, cached per replica
+     */
+    private async getActiveForLocale(
+        kind: TemplateKind,
+        channel: NotificationChannel,
+        locale: string,
+        eventType?: NotificationEventType
+    ): Promise<INotificationTemplate | null> {
+        const key = this.getCacheKey(kind, channel, locale, eventType);
+        const cached = this.cache.get(key);
+
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.template;
+        }
+
+        const template = await NotificationTemplate.findActive(kind, channel, locale, eventType);
+        this.cache.set(key, { template, expiresAt: Date.now() + this.cacheTtlMs });
+        return template;
+    }
+
+    /**
+     * Drop a cached template after it changes
+     */
+    private invalidate(
+        kind: TemplateKind,
+        channel: NotificationChannel,
+        locale: string,
+        eventType?: NotificationEventType
+    ): void {
+        this.cache.delete(this.getCacheKey(kind, channel, locale, eventType));
+    }
+
+    private getCacheKey(
+        kind: TemplateKind,
+        channel: NotificationChannel,
+        locale: string,
+        eventType?: NotificationEventType
+    ): string {
+        return `${kind}:${channel}:${locale}:${eventType ?? '*'}`;
+    }
+
+    /**
+     * Build template variables from the notification.
+     * Event data is exposed at the top level ({{amount}}) and under {{data}}.
+     */
+    private buildVariables(payload: NotificationPayload): Record<string, unknown> {
+        return {
+            ...payload.data,
+            data: payload.data ?? {},
+            title: payload.title,
+            message: payload.message,
+            eventType: payload.eventType,
+            eventSourceId: payload.eventSourceId,
+            notificationId: payload.notificationId,
+            priority: payload.priority,
+            locale: payload.locale,
+        };
+    }
+}
+
+// Export singleton
+export const templateService = new TemplateService();
@@ -8,3 +8,57 @@ export { notificationRouter, NotificationRouter, NotificationRequest, RouteResul
 export { kafkaEventConsumer, KafkaEventConsumer } from './KafkaEventConsumer';
 export { retryService, RetryService } from './RetryService';
 export { digestService, DigestService } from './DigestService';
+export { quietHoursReleaseService, QuietHoursReleaseService } from './QuietHoursReleaseService';
+export {
+    scheduledNotificationService,
+    ScheduledNotificationService,
+} from './ScheduledNotificationService';
+export {
+    pushTokenCleanupService,
+    PushTokenCleanupService,
+    PushTokenCleanupResult,
+    PushTokenCleanupStats,
+} from './PushTokenCleanupService';
+export {
+    inboxService,
+    InboxService,
+    InboxAction,
+    InboxView,
+} from './InboxService';
+export { templateService, TemplateService, CreateTemplateInput } from './TemplateService';
+export {
+    deliveryStatusService,
+    DeliveryStatusService,
+    DeliveryStatusOutcome,
+    SendGridEvent,
+    EmailEventSummary,
+} from './DeliveryStatusService';
+export {
+    inboundSmsService,
+    InboundSmsService,
+    InboundSms,
+    InboundSmsResult,
+    SmsKeywordAction,
+} from './InboundSmsService';
+export {
+    smsConfirmationService,
+    SmsConfirmationService,
+    SmsConfirmationOutcome,
+    SmsConfirmationReply,
+} from './SmsConfirmationService';
+export {
+    otpService,
+    OtpService,
+    maskDestination,
+    OtpChannel,
+    OtpRequest,
+    OtpIssueResult,
+    OtpResendResult,
+    OtpVerifyResult,
+} from './OtpService';
+export {
+    contactVerificationService,
+    ContactVerificationService,
+    ContactVerificationStart,
+    ContactVerificationResult,
+} from './ContactVerificationService';
@@ -7,7 +7,22 @@
 
 // ==================== Notification Channels ====================
 
-export type NotificationChannel = 'websocket' | 'sms' | 'email' | 'push';
+/**
+ * Known notification channels. Channel modules add their channel name
+ * through declaration merging, e.g.:
+ *
+ *   declare module '../types' {
+ *       interface NotificationChannelRegistry { webhook: true }
+ *   }
+ */
+export interface NotificationChannelRegistry {
+    websocket: true;
+    sms: true;
+    email: true;
+    push: true;
+}
+
+export type NotificationChannel = keyof NotificationChannelRegistry;
 
 // ==================== Notification Priority ====================
 
@@ -54,12 +69,24 @@ export type DeliveryStatus =
     | 'failed'
     | 'retrying'
     | 'rate_limited'
-    | 'queued_for_digest';
+    | 'queued_for_digest'
+    | 'expired'
+    | 'bounced' // Email rejected by the recipient's server
+    | 'opened'; // Email opened (provider open tracking)
 
 // ==================== Digest Frequency ====================
 
 export type DigestFrequency = 'immediate' | 'hourly' | 'daily' | 'weekly';
 
+// ==================== Unsubscribe ====================
+
+// What an unsubscribe stops: all contact, digest emails, or one event type's emails
+export type UnsubscribeCategory = 'all' | 'digest' | NotificationEventType;
+
+// ==================== Inbox Categories ====================
+
+export type InboxCategory = 'transfers' | 'security' | 'account' | 'offers' | 'compliance' | 'general';
+
 // ==================== Event Configuration ====================
 
 export interface EventTypeConfig {
@@ -69,6 +96,12 @@ export interface EventTypeConfig {
     bypassQuietHours: boolean;
     allowDigest: boolean;
     dedupWindowMs: number;
+    ttlMs: number; // Drop undelivered notifications after this long; 0 = never expires
+    inboxCategory: InboxCategory;
+    smsMaxSegments: number; // SMS segments allowed; longer messages are truncated to fit
+    actions?: NotificationAction[]; // Default actions when the sender supplies none
+    push?: PushOptions; // Default push presentation; per-send options override it
+    marketing?: boolean; // Emails carry one-click unsubscribe links
 }
 
 // Default event configurations
@@ -81,6 +114,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 300000,
+        ttlMs: 3600000, // 1 hour
+        inboxCategory: 'transfers',
+        smsMaxSegments: 1,
     },
     transfer_processing: {
         eventType: 'transfer_processing',
@@ -89,6 +125,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 300000,
+        ttlMs: 3600000,
+        inboxCategory: 'transfers',
+        smsMaxSegments: 1,
     },
     transfer_approved: {
         eventType: 'transfer_approved',
@@ -97,6 +136,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 300000,
+        ttlMs: 21600000, // 6 hours
+        inboxCategory: 'transfers',
+        smsMaxSegments: 1,
     },
     transfer_rejected: {
         eventType: 'transfer_rejected',
@@ -105,6 +147,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 300000,
+        ttlMs: 86400000, // 24 hours
+        inboxCategory: 'transfers',
+        smsMaxSegments: 1,
     },
     transfer_completed: {
         eventType: 'transfer_completed',
@@ -113,6 +158,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 300000,
+        ttlMs: 86400000,
+        inboxCategory: 'transfers',
+        smsMaxSegments: 1,
     },
     transfer_failed: {
         eventType: 'transfer_failed',
@@ -121,6 +169,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 300000,
+        ttlMs: 86400000,
+        inboxCategory: 'transfers',
+        smsMaxSegments: 1,
     },
 
     // Security events
@@ -131,6 +182,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 300000,
+        ttlMs: 3600000,
+        inboxCategory: 'security',
+        smsMaxSegments: 1,
     },
     login_failed: {
         eventType: 'login_failed',
@@ -139,6 +193,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 60000,
+        ttlMs: 3600000,
+        inboxCategory: 'security',
+        smsMaxSegments: 1,
     },
     account_locked: {
         eventType: 'account_locked',
@@ -147,6 +204,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: true,
         allowDigest: false,
         dedupWindowMs: 0,
+        ttlMs: 86400000,
+        inboxCategory: 'security',
+        smsMaxSegments: 3, // Concatenated so critical details are never cut
     },
     password_changed: {
         eventType: 'password_changed',
@@ -155,6 +215,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 0,
+        ttlMs: 86400000,
+        inboxCategory: 'security',
+        smsMaxSegments: 1,
     },
     new_device_added: {
         eventType: 'new_device_added',
@@ -163,6 +226,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 300000,
+        ttlMs: 21600000,
+        inboxCategory: 'security',
+        smsMaxSegments: 1,
     },
     suspicious_activity: {
         eventType: 'suspicious_activity',
@@ -171,6 +237,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: true,
         allowDigest: false,
         dedupWindowMs: 0,
+        ttlMs: 86400000,
+        inboxCategory: 'security',
+        smsMaxSegments: 3,
     },
     fraud_detected: {
         eventType: 'fraud_detected',
@@ -179,6 +248,31 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: true,
         allowDigest: false,
         dedupWindowMs: 0,
+        ttlMs: 86400000,
+        inboxCategory: 'security',
+        smsMaxSegments: 3,
+        actions: [
+            {
+                id: 'fraud_confirm',
+                label: 'This was me',
+                labelKey: 'fraud_detected.action.confirm',
+                url: '/security/fraud/confirm',
+                type: 'secondary',
+            },
+            {
+                id: 'fraud_report',
+                label: 'This wasn\'t me',
+                labelKey: 'fraud_detected.action.report',
+                url: '/security/fraud/report',
+                type: 'primary',
+            },
+        ],
+        push: {
+            sound: 'fraud_alert.caf',
+            androidChannelId: 'security_alerts',
+            category: 'FRAUD_ALERT',
+            threadId: 'security',
+        },
     },
 
     // Account events
@@ -189,6 +283,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 86400000, // 24 hours
+        ttlMs: 86400000,
+        inboxCategory: 'account',
+        smsMaxSegments: 1,
     },
     large_transaction: {
         eventType: 'large_transaction',
@@ -197,6 +294,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 300000,
+        ttlMs: 86400000,
+        inboxCategory: 'account',
+        smsMaxSegments: 2, // Room for the YES/NO reply prompt
     },
     recurring_payment_due: {
         eventType: 'recurring_payment_due',
@@ -205,6 +305,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 86400000,
+        ttlMs: 259200000, // 3 days
+        inboxCategory: 'account',
+        smsMaxSegments: 1,
     },
     account_statement_ready: {
         eventType: 'account_statement_ready',
@@ -213,6 +316,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 86400000,
+        ttlMs: 604800000, // 7 days
+        inboxCategory: 'account',
+        smsMaxSegments: 1,
     },
     promotional_offer: {
         eventType: 'promotional_offer',
@@ -221,6 +327,10 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 86400000,
+        ttlMs: 604800000,
+        inboxCategory: 'offers',
+        smsMaxSegments: 1,
+        marketing: true,
     },
 
     // Compliance events
@@ -231,6 +341,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 86400000,
+        ttlMs: 604800000,
+        inboxCategory: 'compliance',
+        smsMaxSegments: 3,
     },
     regulatory_alert: {
         eventType: 'regulatory_alert',
@@ -239,6 +352,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 0,
+        ttlMs: 0,
+        inboxCategory: 'compliance',
+        smsMaxSegments: 3,
     },
     data_access_logged: {
         eventType: 'data_access_logged',
@@ -247,6 +363,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 300000,
+        ttlMs: 604800000,
+        inboxCategory: 'compliance',
+        smsMaxSegments: 1,
     },
     session_expired: {
         eventType: 'session_expired',
@@ -255,6 +374,9 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: false,
         dedupWindowMs: 300000,
+        ttlMs: 900000, // 15 minutes
+        inboxCategory: 'security',
+        smsMaxSegments: 1,
     },
     general_notification: {
         eventType: 'general_notification',
@@ -263,9 +385,33 @@ export const EVENT_TYPE_CONFIGS: Record<NotificationEventType, EventTypeConfig>
         bypassQuietHours: false,
         allowDigest: true,
         dedupWindowMs: 300000,
+        ttlMs: 0,
+        inboxCategory: 'general',
+        smsMaxSegments: 1,
     },
 };
 
+// ==================== Routing Decision Trace ====================
+
+export type RoutingCheck =
+    | 'dedup'
+    | 'do_not_contact'
+    | 'channel_selection'
+    | 'quiet_hours'
+    | 'digest'
+    | 'expiry'
+    | 'contact'
+    | 'rate_limit'
+    | 'delivery';
+
+// One routing decision; steps without a channel apply to the whole notification
+export interface RoutingDecision {
+    check: RoutingCheck;
+    passed: boolean;
+    detail: string;
+    channel?: NotificationChannel;
+}
+
 // ==================== Notification Payload ====================
 
 export interface NotificationPayload {
@@ -277,18 +423,43 @@ export interface NotificationPayload {
     message: string;
     data?: Record<string, unknown>;
     actions?: NotificationAction[];
+    push?: PushOptions;
+    smsConfirmation?: boolean; // Ask for a YES/NO reply by SMS
     priority: NotificationPriority;
     channels: NotificationChannel[];
     correlationId?: string;
+    expiresAt?: Date; // Not delivered after this time
+    locale?: string; // Recipient locale for templates and formatting
+    timeZone?: string; // Recipient timezone for dates and times
     createdAt: Date;
+    content?: RenderedContent; // Set per channel when rendered from a template
+}
+
+export interface RenderedContent {
+    title: string;
+    body: string;
+    html?: string; // Email only
+    templateId?: string;
+    templateVersion?: number;
 }
 
 export interface NotificationAction {
+    id?: string; // Reported back by the app when the action is tapped
     label: string;
+    labelKey?: string; // Catalog key for a localized label; label is the fallback
     url: string;
     type: 'primary' | 'secondary';
 }
 
+export interface PushOptions {
+    image?: string; // HTTPS image shown in the expanded notification
+    sound?: string; // Sound file bundled with the app; 'default' for the system sound
+    androidChannelId?: string; // Android notification channel
+    category?: string; // APNs category / Android click action the app maps to action buttons
+    threadId?: string; // Groups related notifications together
+    collapseKey?: string; // A newer notification with the same key replaces the older one
+}
+
 // ==================== Channel-Specific Payloads ====================
 
 export interface WebSocketPayload {
@@ -316,7 +487,8 @@ export interface EmailPayload {
     templateId?: string;
     templateData?: Record<string, unknown>;
     htmlContent?: string;
-    textContent?: string;
+    textContent?: string; // Rendered in the brand email layout when htmlContent is not given
+    locale?: string; // Locale of the layout's footer text
 }
 
 export interface PushPayload {
@@ -324,13 +496,24 @@ export interface PushPayload {
     title: string;
     body: string;
     data?: Record<string, unknown>;
+    image?: string;
     android?: {
         priority: 'high' | 'normal';
         ttlSeconds?: number;
+        channelId?: string;
+        sound?: string;
+        clickAction?: string;
+        tag?: string; // Replaces a shown notification with the same tag
+        collapseKey?: string;
     };
     apns?: {
         priority: number;
         badge?: number;
+        expiration?: number; // Unix timestamp in seconds
+        sound?: string;
+        category?: string;
+        threadId?: string;
+        collapseId?: string;
     };
 }
 
@@ -351,6 +534,8 @@ export interface DeliveryResult {
     channel: NotificationChannel;
     status: DeliveryStatus;
     providerMessageId?: string;
+    provider?: string; // Provider that handled it, for channels with failover
+    segments?: number; // Billable SMS segments
     sentAt?: Date;
     error?: string;
     retryCount?: number;
@@ -369,4 +554,12 @@ export interface UserContactInfo {
         deviceId: string;
         platform: 'ios' | 'android';
     }>;
+    webhookEndpoints?: WebhookEndpointContact[]; // Active endpoints only
+}
+
+export interface WebhookEndpointContact {
+    endpointId: string;
+    url: string;
+    secret: string; // Decrypted signing secret
+    eventTypes: NotificationEventType[]; // Empty = all event types
 }
@@ -0,0 +1,64 @@
+/**
+ * Banking Notification Service - HTML Email Utilities
+ *
+ * CSS inlining and plain-text conversion for the HTML we render ourselves.
+ * Many mail clients drop <style> blocks, so the stylesheet is inlined with
+ * juice; rules that cannot be inlined (media queries, pseudo selectors)
+ * stay in a <style> block for the clients that do support them. The text
+ * part is generated with html-to-text.
+ */
+
+import juice from 'juice';
+import { convert, HtmlToTextOptions } from 'html-to-text';
+
+const JUICE_OPTIONS: juice.Options = {
+    preserveMediaQueries: true,
+    preservePseudos: true,
+    removeStyleTags: true,
+    applyWidthAttributes: false, // Layout tables already set their own width attributes
+    applyHeightAttributes: false,
+    applyAttributesTableElements: false,
+};
+
+const TEXT_OPTIONS: HtmlToTextOptions = {
+    wordwrap: false,
+    formatters: {
+        // "Amount: $5.00" for the label / value rows of the details table
+        label: (elem, walk, builder) => {
+            walk(elem.children, builder);
+            builder.addInline(': ');
+        },
+    },
+    selectors: [
+        { selector: 'head', format: 'skip' },
+        { selector: 'img', format: 'skip' },
+        { selector: 'a', options: { linkBrackets: ['(', ')'], hideLinkHrefIfSameAsText: true } },
+        { selector: 'tr', format: 'block' },
+        { selector: 'th', format: 'label' },
+        ...['h1', 'h2', 'h3', 'h4', 'h5', 'h6'].map((selector) => ({
+            selector,
+            options: { uppercase: false, leadingLineBreaks: 2, trailingLineBreaks: 2 },
+        })),
+    ],
+};
+
+/**
+ * Inline a stylesheet into the HTML's style attributes. Rules that cannot be
+ * inlined are kept in a <style> element at the end of <head>.
+ */
+export function inlineCss(html: string, css: string): string {
+    const styleElement = `<style>\n${css}\n</style>`;
+    const withStyles = /<\/head>/i.test(html)
+        ? html.replace(/<\/head>/i, () => `${styleElement}\n</head>`)
+        : styleElement + html;
+
+    return juice(withStyles, JUICE_OPTIONS);
+}
+
+/**
+ * Convert an HTML email to its plain-text alternative. Block elements become
+ * paragraphs, links become "label (url)", table header cells become labels.
+ */
+export function htmlToText(html: string): string {
+    return convert(html, TEXT_OPTIONS);
+}
@@ -0,0 +1,22 @@
+/**
+ * Banking Notification Service - Derived Keys
+ *
+ * HMAC keys derived from FIELD_ENCRYPTION_KEY with HKDF, one per purpose
+ * (distinct info label), so the field encryption key is never used as an
+ * HMAC key itself and a hash or signature made for one purpose can never
+ * be replayed as another.
+ */
+
+import * as crypto from 'crypto';
+import { config } from '../config/config';
+
+export type KeyPurpose = 'phone_lookup' | 'otp_code' | 'unsubscribe_token';
+
+/**
+ * 256-bit key for one purpose
+ */
+export function deriveKey(purpose: KeyPurpose): Buffer {
+    return Buffer.from(
+        crypto.hkdfSync('sha256', config.security.fieldEncryptionKey, '', `banking-notification-service:${purpose}`, 32)
+    );
+}
@@ -0,0 +1,84 @@
+/**
+ * Banking Notification Service - Locale Utilities
+ *
+ * Locale fallback and Intl-based formatting of amounts, dates and
+ * times for the user's locale and timezone.
+ */
+
+import { isValidTimeZone } from './timezone';
+
+export const DEFAULT_LOCALE = 'en';
+
+// BCP 47 language tag with optional region (en, es-MX, fr-CA)
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+/**
+ * Normalize a locale tag (es_mx -> es-MX), falling back to the default
+ */
+export function normalizeLocale(locale?: string | null): string {
+    if (!locale) return DEFAULT_LOCALE;
+
+    const [language, region] = locale.replace('_', '-').split('-');
+    const normalized = region
+        ? `${language!.toLowerCase()}-${region.toUpperCase()}`
+        : language!.toLowerCase();
+
+    return LOCALE_PATTERN.test(normalized) ? normalized : DEFAULT_LOCALE;
+}
+
+/**
+ * Get the lookup chain for a locale, most specific first:
+ * es-MX -> [es-MX, es, en]
+ */
+export function getLocaleFallbackChain(locale?: string | null): string[] {
+    const normalized = normalizeLocale(locale);
+    const chain = [normalized];
+
+    const language = normalized.split('-')[0]!;
+    if (language !== normalized) chain.push(language);
+    if (!chain.includes(DEFAULT_LOCALE)) chain.push(DEFAULT_LOCALE);
+
+    return chain;
+}
+
+/**
+ * Resolve a timezone, falling back to UTC when invalid
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+/**
+ * Format a currency amount for a locale
+ */
+export function formatCurrency(amount: number, currency: string, locale: string): string {
+    try {
+        return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+    } catch {
+        // Unknown currency code
+        return `${new Intl.NumberFormat(locale).format(amount)} ${currency}`;
+    }
+}
+
+/**
+ * Format a number for a locale
+ */
+export function formatNumber(value: number, locale: string): string {
+    return new Intl.NumberFormat(locale).format(value);
+}
+
+/**
+ * Format a date/time for a locale and timezone
+ */
+export function formatDateTime(
+    date: Date,
+    locale: string,
+    timeZone: string,
+    style: 'date' | 'time' | 'datetime' = 'datetime'
+): string {
+    const options: Intl.DateTimeFormatOptions = { timeZone: resolveTimeZone(timeZone) };
+    if (style !== 'time') options.dateStyle = 'medium';
+    if (style !== 'date') options.timeStyle = 'short';
+
+    return new Intl.DateTimeFormat(locale, options).format(date);
+}
@@ -7,6 +7,7 @@
 
 import winston from 'winston';
 import { config } from '../config/config';
+import { NotificationChannel } from '../types';
 
 // Custom log format for development
 const devFormat = winston.format.combine(
@@ -85,13 +86,14 @@ export function logNotification(data: NotificationLogData): void {
 
 // Channel-specific logging
 interface ChannelLogData {
-    channel: 'websocket' | 'sms' | 'email' | 'push';
+    channel: NotificationChannel;
     notificationId: string;
     userId: string;
     status: 'sent' | 'failed' | 'queued' | 'rate_limited';
     provider?: string;
     providerMessageId?: string;
     latencyMs?: number;
+    segments?: number; // SMS only
     error?: string;
 }
 
@@ -0,0 +1,143 @@
+/**
+ * Banking Notification Service - Outbound URL Checks
+ *
+ * Guards requests to user-supplied URLs (webhook endpoints) against
+ * server-side request forgery: the host must resolve only to public
+ * addresses, never loopback, private, link-local (cloud metadata),
+ * carrier-grade NAT, multicast or reserved ranges. Check at registration,
+ * and connect with publicAddressLookup so each request goes only to an
+ * address that passed the check, however DNS answers change.
+ */
+
+import * as dns from 'dns';
+import * as net from 'net';
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], // "This" network
+    ['10.0.0.0', 8], // Private
+    ['100.64.0.0', 10], // Carrier-grade NAT
+    ['127.0.0.0', 8], // Loopback
+    ['169.254.0.0', 16], // Link-local, including 169.254.169.254 metadata
+    ['172.16.0.0', 12], // Private
+    ['192.0.0.0', 24], // IETF protocol assignments
+    ['192.0.2.0', 24], // Documentation
+    ['192.168.0.0', 16], // Private
+    ['198.18.0.0', 15], // Benchmarking
+    ['198.51.100.0', 24], // Documentation
+    ['203.0.113.0', 24], // Documentation
+    ['224.0.0.0', 4], // Multicast
+    ['240.0.0.0', 4], // Reserved and broadcast
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+    ['::', 128], // Unspecified
+    ['::1', 128], // Loopback
+    ['64:ff9b:1::', 48], // Local-use NAT64
+    ['100::', 64], // Discard
+    ['2001:db8::', 32], // Documentation
+    ['fc00::', 7], // Unique local, including fd00:ec2::254 metadata
+    ['fe80::', 10], // Link-local
+    ['ff00::', 8], // Multicast
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv6 forms that embed an IPv4 address: IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+const EMBEDDED_IPV4_REGEX = /^(?:::ffff:|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i;
+
+/**
+ * IPv4 address embedded in an IPv6 address, if any
+ */
+function embeddedIpv4(address: string): string | null {
+    const match = EMBEDDED_IPV4_REGEX.exec(address);
+    if (!match) return null;
+    if (match[1]) return match[1];
+
+    const high = parseInt(match[2]!, 16);
+    const low = parseInt(match[3]!, 16);
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicIpAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 4) {
+        return !BLOCKED_ADDRESSES.check(address, 'ipv4');
+    }
+    if (family === 6) {
+        const ipv4 = embeddedIpv4(address);
+        if (ipv4) return isPublicIpAddress(ipv4);
+        return !BLOCKED_ADDRESSES.check(address, 'ipv6');
+    }
+    return false;
+}
+
+/**
+ * Resolve a host name, failing unless every address is public
+ */
+async function resolvePublicAddresses(hostname: string): Promise<dns.LookupAddress[]> {
+    let addresses: dns.LookupAddress[];
+    try {
+        addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+    } catch {
+        throw new Error(`Host ${hostname} could not be resolved`);
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicIpAddress(address))) {
+        throw new Error(`Host ${hostname} resolves to a non-public address`);
+    }
+    return addresses;
+}
+
+/**
+ * Check that a URL's host resolves only to public addresses.
+ * Returns why the URL is not allowed, or null when it is.
+ */
+export async function checkPublicUrl(url: string): Promise<string | null> {
+    let hostname: string;
+    try {
+        hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    } catch {
+        return 'Invalid URL';
+    }
+
+    if (net.isIP(hostname)) {
+        return isPublicIpAddress(hostname) ? null : `Host ${hostname} resolves to a non-public address`;
+    }
+
+    try {
+        await resolvePublicAddresses(hostname);
+        return null;
+    } catch (error) {
+        return (error as Error).message;
+    }
+}
+
+/**
+ * Socket lookup that only ever connects to a checked public address.
+ * A separate check before the request is not enough on its own: the
+ * connection resolves the host again, and a rebinding DNS name can
+ * answer with a private address the second time.
+ */
+export const publicAddressLookup: net.LookupFunction = (hostname, options, callback) => {
+    resolvePublicAddresses(hostname).then(
+        (addresses) => {
+            const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family;
+            const matching = family ? addresses.filter((a) => a.family === family) : addresses;
+            if (options.all) {
+                callback(null, matching);
+            } else if (matching[0]) {
+                callback(null, matching[0].address, matching[0].family);
+            } else {
+                callback(Object.assign(new Error(`Host ${hostname} has no IPv${family} address`), { code: 'ENOTFOUND' }), '');
+            }
+        },
+        (error: Error) => callback(error, '')
+    );
+};
@@ -0,0 +1,142 @@
+/**
+ * Banking Notification Service - Template Rendering
+ *
+ * Minimal mustache-style substitution for notification templates.
+ * {{path}} inserts a value (HTML-escaped in HTML templates),
+ * {{{path}}} inserts it unescaped. Paths may be dotted (account.last4).
+ *
+ * Values can be piped through filters that format for the
+ * recipient's locale and timezone:
+ *   {{amount | currency}}          $1,250.00 / 1.250,00 €
+ *   {{amount | currency:"EUR"}}    explicit currency code
+ *   {{count | number}}
+ *   {{createdAt | date}}, {{createdAt | time}}, {{createdAt | datetime}}
+ *   {{reason | default:"Please contact support."}}
+ */
+
+import { DEFAULT_LOCALE, formatCurrency, formatDateTime, formatNumber } from './locale';
+
+const PLACEHOLDER_REGEX = /\{\{\{\s*([^{}]+?)\s*\}\}\}|\{\{\s*([^{}]+?)\s*\}\}/g;
+const FILTER_REGEX = /^(\w+)(?::\s*"([^"]*)")?$/;
+
+export interface RenderOptions {
+    html?: boolean; // Escape {{...}} values for HTML output
+    locale?: string; // Defaults to 'en'
+    timeZone?: string; // Defaults to UTC
+}
+
+/**
+ * Escape a string for safe inclusion in HTML
+ */
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Convert plain text to HTML paragraphs
+ */
+export function textToHtml(text: string): string {
+    return text
+        .split(/\n{2,}/)
+        .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+        .join('\n');
+}
+
+/**
+ * Resolve a dotted path against a variables object
+ */
+function resolvePath(variables: Record<string, unknown>, path: string): unknown {
+    let current: unknown = variables;
+    for (const key of path.split('.')) {
+        if (current === null || typeof current !== 'object') return undefined;
+        current = (current as Record<string, unknown>)[key];
+    }
+    return current;
+}
+
+/**
+ * Convert a value to a Date if it is one (or an ISO string / timestamp)
+ */
+function toDate(value: unknown): Date | null {
+    if (value instanceof Date) return value;
+    if (typeof value === 'string' || typeof value === 'number') {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date;
+    }
+    return null;
+}
+
+/**
+ * Format a value for insertion into a template
+ */
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return '';
+    return String(value);
+}
+
+/**
+ * Apply a named filter to a value
+ */
+function applyFilter(
+    value: unknown,
+    filter: string,
+    variables: Record<string, unknown>,
+    options: RenderOptions
+): unknown {
+    const match = FILTER_REGEX.exec(filter);
+    if (!match) return value;
+
+    const [, name, arg] = match;
+    const locale = options.locale ?? DEFAULT_LOCALE;
+    const timeZone = options.timeZone ?? 'UTC';
+
+    switch (name) {
+        case 'currency': {
+            const amount = typeof value === 'string' ? Number(value) : value;
+            if (typeof amount !== 'number' || isNaN(amount)) return value;
+            const currency = arg ?? (typeof variables['currency'] === 'string' ? variables['currency'] : 'USD');
+            return formatCurrency(amount, currency, locale);
+        }
+        case 'number':
+            return typeof value === 'number' ? formatNumber(value, locale) : value;
+        case 'date':
+        case 'time':
+        case 'datetime': {
+            const date = toDate(value);
+            return date ? formatDateTime(date, locale, timeZone, name) : value;
+        }
+        case 'default':
+            return value === undefined || value === null || value === '' ? arg ?? '' : value;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Render a template string with the given variables.
+ * Missing variables render as an empty string.
+ */
+export function renderTemplate(
+    template: string,
+    variables: Record<string, unknown>,
+    options: RenderOptions = {}
+): string {
+    return template.replace(PLACEHOLDER_REGEX, (_match, rawExpression?: string, expression?: string) => {
+        const [path, ...filters] = (rawExpression ?? expression)!.split(/\s*\|\s*/);
+
+        let value = resolvePath(variables, path!.trim());
+        for (const filter of filters) {
+            value = applyFilter(value, filter.trim(), variables, options);
+        }
+
+        const text = formatValue(value);
+        return options.html && !rawExpression ? escapeHtml(text) : text;
+    });
+}
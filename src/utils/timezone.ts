@@ -0,0 +1,136 @@
+/**
+ * Banking Notification Service - Timezone Utilities
+ *
+ * IANA timezone helpers built on Intl, used to evaluate user-facing
+ * wall-clock settings (quiet hours, schedules) in the user's timezone.
+ */
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface ZonedDateParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    weekday: Weekday;
+}
+
+// Intl formatters are expensive to build, cache one per timezone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+            weekday: 'short',
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Check if a string is a valid IANA timezone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get wall-clock date parts for an instant in a timezone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+    const parts = getFormatter(timeZone).formatToParts(date);
+    const lookup = (type: Intl.DateTimeFormatPartTypes): string =>
+        parts.find((p) => p.type === type)?.value ?? '';
+
+    return {
+        year: Number(lookup('year')),
+        month: Number(lookup('month')),
+        day: Number(lookup('day')),
+        hour: Number(lookup('hour')),
+        minute: Number(lookup('minute')),
+        second: Number(lookup('second')),
+        weekday: lookup('weekday').toLowerCase().slice(0, 3) as Weekday,
+    };
+}
+
+/**
+ * Get the UTC offset (ms) of a timezone at a given instant
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+    const p = getZonedDateParts(date, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant.
+ * Times inside a DST gap are shifted forward by the gap (02:30 -> 03:30);
+ * ambiguous times (DST fall-back) resolve to the earlier instant.
+ */
+export function zonedTimeToUtc(
+    local: { year: number; month: number; day: number; hour: number; minute: number },
+    timeZone: string
+): Date {
+    const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+    // Offsets on either side of the target cover both DST transitions
+    const offsetBefore = getTimeZoneOffsetMs(new Date(asUtc - 86400000), timeZone);
+    const offsetAfter = getTimeZoneOffsetMs(new Date(asUtc + 86400000), timeZone);
+
+    const candidates = [asUtc - offsetBefore, asUtc - offsetAfter]
+        .filter((ts) => {
+            const p = getZonedDateParts(new Date(ts), timeZone);
+            return p.hour === local.hour && p.minute === local.minute && p.day === local.day;
+        })
+        .sort((a, b) => a - b);
+
+    if (candidates.length > 0) {
+        return new Date(candidates[0]!);
+    }
+
+    // Wall time does not exist (spring-forward gap)
+    return new Date(asUtc - offsetBefore);
+}
+
+/**
+ * Shift a calendar date by a number of days
+ */
+export function addCalendarDays(
+    date: { year: number; month: number; day: number },
+    days: number
+): { year: number; month: number; day: number; weekday: Weekday } {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return {
+        year: shifted.getUTCFullYear(),
+        month: shifted.getUTCMonth() + 1,
+        day: shifted.getUTCDate(),
+        weekday: WEEKDAYS[shifted.getUTCDay()]!,
+    };
+}
+
+/**
+ * Parse HH:MM into minutes since midnight
+ */
+export function parseTimeOfDay(value: string): number {
+    const [hours, minutes] = value.split(':').map(Number);
+    return (hours ?? 0) * 60 + (minutes ?? 0);
+}
@@ -0,0 +1,84 @@
+/**
+ * Integration Tests - SMTP Email Provider
+ *
+ * Sends real email through a local SMTP catcher (Mailpit) and reads it
+ * back from the catcher's API. Skipped unless SMTP_TEST_HOST is set:
+ *
+ *   docker compose up -d mailpit
+ *   SMTP_TEST_HOST=localhost npm run test:integration
+ */
+
+import { SmtpProvider } from '../../src/channels/email';
+import { NotificationPayload } from '../../src/types';
+
+// EmailHandler is mocked globally in tests/setup.ts
+const { EmailHandler } = jest.requireActual<typeof import('../../src/channels/EmailHandler')>(
+    '../../src/channels/EmailHandler'
+);
+
+const smtpHost = process.env['SMTP_TEST_HOST'];
+const smtpPort = parseInt(process.env['SMTP_TEST_PORT'] ?? '1025', 10);
+const apiUrl = process.env['SMTP_TEST_API_URL'] ?? `http://${smtpHost}:8025`;
+
+const describeWithCatcher = smtpHost ? describe : describe.skip;
+
+interface CaughtMessage {
+    Subject: string;
+    To: Array<{ Address: string }>;
+}
+
+async function findMessages(recipient: string): Promise<CaughtMessage[]> {
+    const response = await fetch(`${apiUrl}/api/v1/search?query=${encodeURIComponent(`to:${recipient}`)}`);
+    const body = (await response.json()) as { messages: CaughtMessage[] };
+    return body.messages;
+}
+
+describeWithCatcher('SMTP email provider', () => {
+    const recipient = `smtp-test-${Date.now()}@example.com`;
+    let provider: SmtpProvider;
+
+    const notification: NotificationPayload = {
+        notificationId: '7d3b1f0e-3333-4a4a-9c9c-000000000001',
+        userId: 'user-1',
+        eventType: 'transfer_completed',
+        title: 'Transfer Complete',
+        message: 'Your transfer was successful',
+        priority: 'medium',
+        channels: ['email'],
+        createdAt: new Date(),
+    };
+
+    beforeAll(() => {
+        provider = new SmtpProvider(
+            {
+                host: smtpHost!,
+                port: smtpPort,
+                secure: false,
+                requireTls: false,
+                tlsRejectUnauthorized: false,
+                user: '',
+                password: '',
+            },
+            true
+        );
+    });
+
+    afterAll(() => {
+        provider.close();
+    });
+
+    it('should deliver notification and digest emails to the catcher', async () => {
+        const handler = new EmailHandler(provider);
+
+        const sent = await handler.send(recipient, 'Jane', notification);
+        const digest = await handler.sendDigest(recipient, 'Jane', [notification], 'daily');
+
+        expect(sent.status).toBe('sent');
+        expect(sent.providerMessageId).toBeDefined();
+        expect(digest.status).toBe('sent');
+
+        const subjects = (await findMessages(recipient)).map((m) => m.Subject);
+        expect(subjects).toContain('Transfer Complete');
+        expect(subjects.some((s) => s.startsWith('Your Daily Banking Summary'))).toBe(true);
+    });
+});
@@ -32,6 +32,10 @@ jest.setTimeout(10000);
 // Mock external services
 jest.mock('../src/channels/SMSHandler', () => ({
     smsHandler: {
+        channel: 'sms',
+        providerName: 'twilio',
+        checkContact: jest.fn().mockReturnValue(null),
+        deliver: jest.fn().mockResolvedValue({ channel: 'sms', status: 'sent' }),
         send: jest.fn().mockResolvedValue({ channel: 'sms', status: 'sent' }),
         isAvailable: jest.fn().mockReturnValue(true),
     },
@@ -40,6 +44,10 @@ jest.mock('../src/channels/SMSHandler', () => ({
 
 jest.mock('../src/channels/EmailHandler', () => ({
     emailHandler: {
+        channel: 'email',
+        providerName: 'sendgrid',
+        checkContact: jest.fn().mockReturnValue(null),
+        deliver: jest.fn().mockResolvedValue({ channel: 'email', status: 'sent' }),
         send: jest.fn().mockResolvedValue({ channel: 'email', status: 'sent' }),
         sendDigest: jest.fn().mockResolvedValue({ channel: 'email', status: 'sent' }),
         isAvailable: jest.fn().mockReturnValue(true),
@@ -49,6 +57,10 @@ jest.mock('../src/channels/EmailHandler', () => ({
 
 jest.mock('../src/channels/PushHandler', () => ({
     pushHandler: {
+        channel: 'push',
+        providerName: 'firebase',
+        checkContact: jest.fn().mockReturnValue(null),
+        deliver: jest.fn().mockResolvedValue({ channel: 'push', status: 'sent' }),
         send: jest.fn().mockResolvedValue({ channel: 'push', status: 'sent' }),
         isAvailable: jest.fn().mockReturnValue(true),
     },
@@ -57,6 +69,10 @@ jest.mock('../src/channels/PushHandler', () => ({
 
 jest.mock('../src/channels/WebSocketHandler', () => ({
     webSocketHandler: {
+        channel: 'websocket',
+        providerName: 'internal',
+        checkContact: jest.fn().mockReturnValue(null),
+        deliver: jest.fn().mockResolvedValue({ channel: 'websocket', status: 'delivered' }),
         send: jest.fn().mockResolvedValue({ channel: 'websocket', status: 'delivered' }),
         isUserOnline: jest.fn().mockResolvedValue(true),
     },
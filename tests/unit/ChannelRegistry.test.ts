@@ -0,0 +1,63 @@
+/**
+ * Unit Tests - Channel Registry
+ *
+ * Tests for registering channel handlers and looking them up.
+ */
+
+import { ChannelRegistry } from '../../src/channels/ChannelRegistry';
+import { ChannelHandler } from '../../src/channels/ChannelHandler';
+import { NotificationChannel } from '../../src/types';
+
+function buildHandler(channel: NotificationChannel, providerName: string, available: boolean = true): ChannelHandler {
+    return {
+        channel,
+        providerName,
+        isAvailable: () => available,
+        checkContact: () => null,
+        deliver: async () => ({ channel, status: 'sent' }),
+    };
+}
+
+describe('ChannelRegistry', () => {
+    let registry: ChannelRegistry;
+
+    beforeEach(() => {
+        registry = new ChannelRegistry();
+    });
+
+    it('should look up registered handlers by channel', () => {
+        const sms = buildHandler('sms', 'twilio');
+        registry.register(sms);
+        registry.register(buildHandler('email', 'sendgrid'));
+
+        expect(registry.get('sms')).toBe(sms);
+        expect(registry.has('email')).toBe(true);
+        expect(registry.getChannels()).toEqual(['sms', 'email']);
+    });
+
+    it('should not know unregistered channels', () => {
+        registry.register(buildHandler('sms', 'twilio'));
+
+        expect(registry.get('fax')).toBeUndefined();
+        expect(registry.has('fax')).toBe(false);
+        expect(registry.getProviderName('push')).toBe('unknown');
+    });
+
+    it('should refuse a second handler for the same channel', () => {
+        registry.register(buildHandler('sms', 'twilio'));
+
+        expect(() => registry.register(buildHandler('sms', 'http_gateway')))
+            .toThrow('Channel already registered: sms');
+        expect(registry.getProviderName('sms')).toBe('twilio');
+    });
+
+    it('should report availability and provider of every channel', () => {
+        registry.register(buildHandler('sms', 'twilio', false));
+        registry.register(buildHandler('push', 'firebase'));
+
+        expect(registry.getHealth()).toEqual({
+            sms: { available: false, provider: 'twilio' },
+            push: { available: true, provider: 'firebase' },
+        });
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit Tests - Contact Verification
+ *
+ * Tests for verifying phone numbers and email addresses, and for what
+ * happens when they change.
+ */
+
+import { ContactVerificationService } from '../../src/services/ContactVerificationService';
+import { otpService } from '../../src/services/OtpService';
+import { IUserPreferences, UserPreferences } from '../../src/models';
+import { smsHandler, emailHandler } from '../../src/channels';
+
+jest.mock('../../src/models', () => ({
+    UserPreferences: {
+        findByUserId: jest.fn(),
+        findOrCreateByUserId: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/channels', () => ({
+    smsHandler: { sendRaw: jest.fn() },
+    emailHandler: { sendRaw: jest.fn() },
+    pushHandler: { sendRaw: jest.fn() },
+}));
+
+jest.mock('../../src/services/OtpService', () => ({
+    ...jest.requireActual('../../src/services/OtpService'),
+    otpService: {
+        issue: jest.fn(),
+        verify: jest.fn(),
+        revoke: jest.fn(),
+    },
+}));
+
+const { UserPreferences: RealUserPreferences } = jest.requireActual<
+    typeof import('../../src/models/mongodb/UserPreferences')
+>('../../src/models/mongodb/UserPreferences');
+
+const preferences = UserPreferences as jest.Mocked<typeof UserPreferences>;
+const otp = otpService as jest.Mocked<typeof otpService>;
+const sms = smsHandler as jest.Mocked<typeof smsHandler>;
+const email = emailHandler as jest.Mocked<typeof emailHandler>;
+
+function buildPreferences(): IUserPreferences {
+    const prefs = new RealUserPreferences({ userId: 'user-1', locale: 'en' });
+    prefs.setEncryptedPhoneNumber('+15551234567');
+    prefs.setEncryptedEmail('jane@example.com');
+    jest.spyOn(prefs, 'save').mockResolvedValue(prefs);
+    return prefs;
+}
+
+describe('UserPreferences contact setters', () => {
+    it('should reset verification only when the contact changes', () => {
+        const prefs = buildPreferences();
+        prefs.markContactVerified('sms');
+        prefs.markContactVerified('email');
+
+        expect(prefs.setEncryptedPhoneNumber('+15551234567')).toBe(false);
+        expect(prefs.setEncryptedEmail('Jane@Example.com')).toBe(false);
+        expect(prefs.channels.sms.verifiedAt).toBeInstanceOf(Date);
+        expect(prefs.channels.email.verifiedAt).toBeInstanceOf(Date);
+
+        expect(prefs.setEncryptedPhoneNumber('+15559876543')).toBe(true);
+        expect(prefs.channels.sms.verifiedAt).toBeUndefined();
+        expect(prefs.channels.email.verifiedAt).toBeInstanceOf(Date);
+    });
+});
+
+describe('ContactVerificationService', () => {
+    let service: ContactVerificationService;
+
+    beforeEach(() => {
+        service = new ContactVerificationService();
+        sms.sendRaw.mockResolvedValue({ channel: 'sms', status: 'sent' });
+        email.sendRaw.mockResolvedValue({ channel: 'email', status: 'sent' });
+    });
+
+    it('should send a code for an unverified phone number', async () => {
+        preferences.findByUserId.mockResolvedValue(buildPreferences());
+        otp.issue.mockResolvedValue({ outcome: 'sent', otpId: 'otp-1', expiresAt: new Date(), destination: '***4567' });
+
+        const result = await service.start('user-1', 'sms');
+
+        expect(result.outcome).toBe('sent');
+        expect(otp.issue).toHaveBeenCalledWith({ userId: 'user-1', purpose: 'verify_phone', channel: 'sms' });
+    });
+
+    it('should not send a code for a verified contact', async () => {
+        const prefs = buildPreferences();
+        prefs.markContactVerified('email');
+        preferences.findByUserId.mockResolvedValue(prefs);
+
+        const result = await service.start('user-1', 'email');
+
+        expect(result.outcome).toBe('already_verified');
+        expect(otp.issue).not.toHaveBeenCalled();
+    });
+
+    it('should mark the contact verified when the code is right', async () => {
+        const prefs = buildPreferences();
+        preferences.findOrCreateByUserId.mockResolvedValue(prefs);
+        otp.verify.mockResolvedValue({ outcome: 'verified', attemptsRemaining: 0 });
+
+        const result = await service.confirm('user-1', 'email', 'otp-1', '123456');
+
+        expect(otp.verify).toHaveBeenCalledWith('otp-1', '123456', 'user-1', 'verify_email');
+        expect(result.verifiedAt).toBeInstanceOf(Date);
+        expect(prefs.channels.email.verifiedAt).toBe(result.verifiedAt);
+        expect(prefs.save).toHaveBeenCalled();
+    });
+
+    it('should leave the contact unverified when the code is wrong', async () => {
+        otp.verify.mockResolvedValue({ outcome: 'invalid', attemptsRemaining: 2 });
+
+        const result = await service.confirm('user-1', 'sms', 'otp-1', '000000');
+
+        expect(result).toEqual({ outcome: 'invalid', attemptsRemaining: 2, verifiedAt: null });
+        expect(preferences.findOrCreateByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should revoke pending codes and notify the old number of a change', async () => {
+        const prefs = buildPreferences();
+        prefs.setEncryptedPhoneNumber('+15559876543');
+
+        await service.contactChanged(prefs, 'sms', '+15551234567');
+
+        expect(otp.revoke).toHaveBeenCalledWith('user-1', 'verify_phone');
+        expect(sms.sendRaw).toHaveBeenCalledWith({
+            to: '+15551234567',
+            message: expect.stringContaining('changed to ***6543'),
+        });
+    });
+
+    it('should notify the old email address of a change', async () => {
+        const prefs = buildPreferences();
+        prefs.setEncryptedEmail('new@example.org');
+
+        await service.contactChanged(prefs, 'email', 'jane@example.com');
+
+        expect(email.sendRaw).toHaveBeenCalledWith(expect.objectContaining({
+            to: 'jane@example.com',
+            subject: 'Your email address was changed',
+            textContent: expect.stringContaining('changed to n***@example.org'),
+        }));
+    });
+
+    it('should not send a notice when there was no previous contact', async () => {
+        await service.contactChanged(buildPreferences(), 'email', null);
+
+        expect(otp.revoke).toHaveBeenCalled();
+        expect(email.sendRaw).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,347 @@
+/**
+ * Unit Tests - Delivery Status Callbacks
+ *
+ * Tests for provider signature checks and applying SMS and email delivery receipts.
+ */
+
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express, { Request, Response } from 'express';
+import Twilio from 'twilio';
+import { config } from '../../src/config/config';
+import { authenticateSendGridWebhook, authenticateTwilioWebhook } from '../../src/middleware/authentication';
+import { ApiError } from '../../src/middleware/errorHandler';
+import { DeliveryStatusService } from '../../src/services/DeliveryStatusService';
+import { EmailEvent, NotificationEvent, UserPreferences } from '../../src/models';
+import { notificationEventPublisher } from '../../src/kafka';
+import { errorHandler } from '../../src/middleware/errorHandler';
+import callbackRoutes from '../../src/routes/callbackRoutes';
+import { deliveryStatusService } from '../../src/services';
+
+jest.mock('../../src/models', () => ({
+    NotificationEvent: {
+        findOne: jest.fn(),
+    },
+    EmailEvent: {
+        findOrCreate: jest.fn(),
+    },
+    UserPreferences: {
+        findByUserId: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/kafka', () => ({
+    notificationEventPublisher: {
+        publishNotificationDelivered: jest.fn(),
+        publishNotificationFailed: jest.fn(),
+    },
+}));
+
+const events = NotificationEvent as jest.Mocked<typeof NotificationEvent>;
+const emailEvents = EmailEvent as jest.Mocked<typeof EmailEvent>;
+const preferences = UserPreferences as jest.Mocked<typeof UserPreferences>;
+const publisher = notificationEventPublisher as jest.Mocked<typeof notificationEventPublisher>;
+
+function buildNotification(deliveryStatus: string): NotificationEvent {
+    return {
+        notificationId: 'notif-1',
+        userId: 'user-1',
+        deliveryStatus,
+        retryCount: 0,
+        markDelivered: jest.fn(),
+        markFailed: jest.fn(),
+        markBounced: jest.fn(),
+        markOpened: jest.fn(),
+    } as unknown as NotificationEvent;
+}
+
+describe('authenticateTwilioWebhook', () => {
+    const params = { MessageSid: 'SM123', MessageStatus: 'delivered' };
+    const url = 'https://notify.example.com/api/callbacks/twilio/sms-status';
+
+    beforeEach(() => {
+        config.twilio.authToken = 'twilio-auth-token';
+        config.twilio.webhookBaseUrl = 'https://notify.example.com';
+    });
+
+    function buildRequest(signature: string): Request {
+        return {
+            headers: { 'x-twilio-signature': signature },
+            originalUrl: '/api/callbacks/twilio/sms-status',
+            path: '/twilio/sms-status',
+            body: params,
+        } as unknown as Request;
+    }
+
+    it('should accept a correctly signed request', () => {
+        const signature = Twilio.getExpectedTwilioSignature('twilio-auth-token', url, params);
+        const next = jest.fn();
+
+        authenticateTwilioWebhook(buildRequest(signature), {} as Response, next);
+
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('should reject a request with a wrong signature', () => {
+        const signature = Twilio.getExpectedTwilioSignature('other-token', url, params);
+
+        expect(() => authenticateTwilioWebhook(buildRequest(signature), {} as Response, jest.fn())).toThrow(ApiError);
+    });
+});
+
+describe('authenticateSendGridWebhook', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const body = Buffer.from(JSON.stringify([{ event: 'delivered' }]));
+    const now = () => String(Math.floor(Date.now() / 1000));
+
+    beforeEach(() => {
+        config.sendgrid.eventWebhookPublicKey = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+    });
+
+    function buildRequest(signedBody: Buffer, timestamp: string = now()): Request {
+        const signature = crypto.sign('sha256', Buffer.concat([Buffer.from(timestamp), signedBody]), privateKey);
+        return {
+            headers: {
+                'x-twilio-email-event-webhook-signature': signature.toString('base64'),
+                'x-twilio-email-event-webhook-timestamp': timestamp,
+            },
+            path: '/sendgrid/events',
+            body,
+        } as unknown as Request;
+    }
+
+    it('should accept a correctly signed body', () => {
+        const next = jest.fn();
+
+        authenticateSendGridWebhook(buildRequest(body), {} as Response, next);
+
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('should reject a body that does not match the signature', () => {
+        const request = buildRequest(Buffer.from('[]'));
+
+        expect(() => authenticateSendGridWebhook(request, {} as Response, jest.fn())).toThrow(ApiError);
+    });
+
+    it('should reject a correctly signed body replayed later', () => {
+        const signedAt = String(Math.floor(Date.now() / 1000) - 10 * 60);
+        const request = buildRequest(body, signedAt);
+
+        expect(() => authenticateSendGridWebhook(request, {} as Response, jest.fn()))
+            .toThrow('SendGrid signature expired');
+    });
+
+    it('should reject timestamps from the future', () => {
+        const request = buildRequest(body, String(Math.floor(Date.now() / 1000) + 10 * 60));
+
+        expect(() => authenticateSendGridWebhook(request, {} as Response, jest.fn()))
+            .toThrow('SendGrid signature expired');
+    });
+});
+
+describe('POST /callbacks/sendgrid/events', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const app = express();
+    app.use('/callbacks/sendgrid', express.raw({ type: 'application/json' }));
+    app.use('/callbacks', callbackRoutes);
+    app.use(errorHandler);
+
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll((done) => {
+        server = app.listen(0, () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            done();
+        });
+    });
+
+    afterAll((done) => {
+        server.close(done);
+    });
+
+    const validEvent = {
+        email: 'jane@example.com',
+        timestamp: 1772359200,
+        event: 'delivered',
+        sg_event_id: 'evt-1',
+    };
+
+    beforeEach(() => {
+        config.sendgrid.eventWebhookPublicKey = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+    });
+
+    function post(events: unknown) {
+        const body = JSON.stringify(events);
+        const timestamp = String(Math.floor(Date.now() / 1000));
+        const signature = crypto.sign('sha256', Buffer.concat([Buffer.from(timestamp), Buffer.from(body)]), privateKey);
+        return fetch(`${baseUrl}/callbacks/sendgrid/events`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Twilio-Email-Event-Webhook-Signature': signature.toString('base64'),
+                'X-Twilio-Email-Event-Webhook-Timestamp': timestamp,
+            },
+            body,
+        });
+    }
+
+    it('should apply valid events and skip malformed ones', async () => {
+        const apply = jest.spyOn(deliveryStatusService, 'applySendGridEvents')
+            .mockResolvedValue({ processed: 2, duplicates: 0, suppressed: 0 });
+
+        const response = await post([
+            validEvent,
+            { ...validEvent, sg_event_id: undefined },
+            { ...validEvent, sg_event_id: 'evt-2', event: 'open' },
+            'not-an-event',
+        ]);
+
+        expect(response.status).toBe(200);
+        expect(((await response.json()) as { data: unknown }).data).toEqual({ processed: 2, duplicates: 0, suppressed: 0, invalid: 2 });
+        expect(apply).toHaveBeenCalledWith([
+            validEvent,
+            { ...validEvent, sg_event_id: 'evt-2', event: 'open' },
+        ]);
+    });
+
+    it('should reject a body that is not a batch of events', async () => {
+        const response = await post({ event: 'delivered' });
+
+        expect(response.status).toBe(400);
+    });
+});
+
+describe('DeliveryStatusService', () => {
+    let service: DeliveryStatusService;
+
+    beforeEach(() => {
+        service = new DeliveryStatusService();
+    });
+
+    it('should mark the notification delivered and publish it', async () => {
+        const notification = buildNotification('sent');
+        events.findOne.mockResolvedValue(notification);
+
+        const outcome = await service.applyTwilioStatus({ messageSid: 'SM123', messageStatus: 'delivered' });
+
+        expect(outcome).toBe('delivered');
+        expect(events.findOne).toHaveBeenCalledWith({ where: { providerMessageId: 'SM123', channel: 'sms' } });
+        expect(notification.markDelivered).toHaveBeenCalled();
+        expect(publisher.publishNotificationDelivered).toHaveBeenCalledWith('notif-1', 'user-1', 'sms', 'SM123');
+    });
+
+    it('should record the carrier error code when undelivered', async () => {
+        const notification = buildNotification('sent');
+        events.findOne.mockResolvedValue(notification);
+
+        const outcome = await service.applyTwilioStatus({
+            messageSid: 'SM123',
+            messageStatus: 'undelivered',
+            errorCode: '30003',
+            errorMessage: 'Unreachable destination handset',
+        });
+
+        expect(outcome).toBe('failed');
+        expect(notification.markFailed).toHaveBeenCalledWith('Carrier error 30003: Unreachable destination handset');
+        expect(publisher.publishNotificationFailed).toHaveBeenCalledWith(
+            'notif-1',
+            'user-1',
+            'sms',
+            'Carrier error 30003: Unreachable destination handset',
+            0
+        );
+    });
+
+    it('should ignore intermediate statuses', async () => {
+        const outcome = await service.applyTwilioStatus({ messageSid: 'SM123', messageStatus: 'sending' });
+
+        expect(outcome).toBe('ignored');
+        expect(events.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should ignore repeated callbacks', async () => {
+        const notification = buildNotification('delivered');
+        events.findOne.mockResolvedValue(notification);
+
+        const outcome = await service.applyTwilioStatus({ messageSid: 'SM123', messageStatus: 'delivered' });
+
+        expect(outcome).toBe('ignored');
+        expect(publisher.publishNotificationDelivered).not.toHaveBeenCalled();
+    });
+
+    describe('applySendGridEvents()', () => {
+        const baseEvent = {
+            email: 'jane@example.com',
+            timestamp: 1772359200,
+            sg_event_id: 'evt-1',
+            sg_message_id: 'msg-abc.filter0001.1234.0',
+            notification_id: 'notif-1',
+            user_id: 'user-1',
+        };
+
+        function recordEvent(created: boolean): EmailEvent {
+            const record = { contactSuppressed: false, save: jest.fn() } as unknown as EmailEvent;
+            emailEvents.findOrCreate.mockResolvedValue([record, created]);
+            return record;
+        }
+
+        it('should mark sent emails delivered', async () => {
+            const notification = buildNotification('sent');
+            events.findOne.mockResolvedValue(notification);
+            recordEvent(true);
+
+            const summary = await service.applySendGridEvents([{ ...baseEvent, event: 'delivered' }]);
+
+            expect(summary).toEqual({ processed: 1, duplicates: 0, suppressed: 0 });
+            expect(events.findOne).toHaveBeenCalledWith({ where: { notificationId: 'notif-1', channel: 'email' } });
+            expect(notification.markDelivered).toHaveBeenCalled();
+            expect(emailEvents.findOrCreate).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { provider: 'sendgrid', providerEventId: 'evt-1' },
+                    defaults: expect.objectContaining({ providerMessageId: 'msg-abc', event: 'delivered' }),
+                })
+            );
+        });
+
+        it('should unverify the address on a hard bounce', async () => {
+            const notification = buildNotification('sent');
+            const prefs = { unverifyEmail: jest.fn().mockReturnValue(true), save: jest.fn() };
+            events.findOne.mockResolvedValue(notification);
+            preferences.findByUserId.mockResolvedValue(prefs as never);
+            const record = recordEvent(true);
+
+            const summary = await service.applySendGridEvents([
+                { ...baseEvent, event: 'bounce', type: 'bounce', reason: '550 5.1.1 User unknown' },
+            ]);
+
+            expect(summary.suppressed).toBe(1);
+            expect(notification.markBounced).toHaveBeenCalledWith('Bounced: 550 5.1.1 User unknown');
+            expect(prefs.unverifyEmail).toHaveBeenCalledWith('jane@example.com');
+            expect(prefs.save).toHaveBeenCalled();
+            expect(record.contactSuppressed).toBe(true);
+        });
+
+        it('should keep the address on a soft (blocked) bounce', async () => {
+            events.findOne.mockResolvedValue(buildNotification('sent'));
+            recordEvent(true);
+
+            await service.applySendGridEvents([{ ...baseEvent, event: 'bounce', type: 'blocked' }]);
+
+            expect(preferences.findByUserId).not.toHaveBeenCalled();
+        });
+
+        it('should skip events already recorded', async () => {
+            const notification = buildNotification('sent');
+            events.findOne.mockResolvedValue(notification);
+            recordEvent(false);
+
+            const summary = await service.applySendGridEvents([{ ...baseEvent, event: 'delivered' }]);
+
+            expect(summary).toEqual({ processed: 0, duplicates: 1, suppressed: 0 });
+            expect(notification.markDelivered).not.toHaveBeenCalled();
+        });
+    });
+});
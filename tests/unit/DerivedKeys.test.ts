@@ -0,0 +1,32 @@
+/**
+ * Unit Tests - Derived Keys
+ *
+ * Tests for the per-purpose HMAC keys derived from the field encryption key.
+ */
+
+import { config } from '../../src/config/config';
+import { deriveKey, KeyPurpose } from '../../src/utils/keys';
+
+const PURPOSES: KeyPurpose[] = ['phone_lookup', 'otp_code', 'unsubscribe_token'];
+
+describe('deriveKey()', () => {
+    it('should derive the same 256-bit key for a purpose every time', () => {
+        for (const purpose of PURPOSES) {
+            expect(deriveKey(purpose)).toHaveLength(32);
+            expect(deriveKey(purpose).equals(deriveKey(purpose))).toBe(true);
+        }
+    });
+
+    it('should never use the field encryption key itself', () => {
+        for (const purpose of PURPOSES) {
+            expect(deriveKey(purpose).toString('utf8')).not.toContain(config.security.fieldEncryptionKey);
+            expect(deriveKey(purpose).equals(Buffer.from(config.security.fieldEncryptionKey))).toBe(false);
+        }
+    });
+
+    it('should derive a different key for each purpose', () => {
+        const keys = new Set(PURPOSES.map((purpose) => deriveKey(purpose).toString('hex')));
+
+        expect(keys.size).toBe(PURPOSES.length);
+    });
+});
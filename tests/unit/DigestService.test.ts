@@ -0,0 +1,215 @@
+/**
+ * Unit Tests - Digest Service
+ *
+ * Tests for queuing notifications into digests and moving their
+ * history rows forward when the digest is sent.
+ */
+
+import { Op } from 'sequelize';
+import { DigestService } from '../../src/services/DigestService';
+import { redis } from '../../src/redis/client';
+import { UserPreferences, NotificationEvent } from '../../src/models';
+import { emailHandler } from '../../src/channels';
+import { NotificationPayload } from '../../src/types';
+
+jest.mock('../../src/models', () => ({
+    UserPreferences: {
+        findByUserId: jest.fn(),
+    },
+    NotificationEvent: {
+        update: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/redis/client', () => ({
+    redis: {
+        rpush: jest.fn(),
+        expire: jest.fn(),
+        lrange: jest.fn(),
+        del: jest.fn(),
+    },
+    REDIS_KEYS: {
+        DIGEST_HOURLY: (userId: string) => `digest:hourly:${userId}`,
+        DIGEST_DAILY: (userId: string) => `digest:daily:${userId}`,
+        DIGEST_WEEKLY: (userId: string) => `digest:weekly:${userId}`,
+    },
+    REDIS_TTL: {
+        DIGEST_QUEUE: 604800,
+    },
+}));
+
+const mockRedis = redis as jest.Mocked<typeof redis>;
+const preferences = UserPreferences as jest.Mocked<typeof UserPreferences>;
+const events = NotificationEvent as jest.Mocked<typeof NotificationEvent>;
+const email = emailHandler as jest.Mocked<typeof emailHandler>;
+
+const notification: NotificationPayload = {
+    notificationId: 'notif-1',
+    userId: 'user-1',
+    eventType: 'account_statement_ready',
+    title: 'Statement ready',
+    message: 'Your October statement is ready',
+    data: { month: 'October' },
+    priority: 'low',
+    channels: ['email'],
+    createdAt: new Date('2026-10-19T08:00:00.000Z'),
+};
+
+function queuedEntry(notificationId: string, expiresAt?: string): string {
+    return JSON.stringify({
+        notificationId,
+        eventType: 'account_statement_ready',
+        title: 'Statement ready',
+        message: 'Your October statement is ready',
+        createdAt: '2026-10-19T08:00:00.000Z',
+        expiresAt,
+    });
+}
+
+describe('DigestService', () => {
+    let service: DigestService;
+
+    beforeEach(() => {
+        service = new DigestService();
+    });
+
+    describe('queueForDigest()', () => {
+        it('should append the notification to the user\'s digest for that frequency', async () => {
+            await service.queueForDigest('user-1', notification, 'weekly');
+
+            expect(mockRedis.rpush).toHaveBeenCalledWith('digest:weekly:user-1', JSON.stringify({
+                notificationId: 'notif-1',
+                eventType: 'account_statement_ready',
+                title: 'Statement ready',
+                message: 'Your October statement is ready',
+                createdAt: '2026-10-19T08:00:00.000Z',
+                data: { month: 'October' },
+            }));
+            expect(mockRedis.expire).toHaveBeenCalledWith('digest:weekly:user-1', 604800);
+        });
+
+        it('should not queue for users who want notifications immediately', async () => {
+            await service.queueForDigest('user-1', notification, 'immediate');
+
+            expect(mockRedis.rpush).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sending a digest', () => {
+        const future = new Date(Date.now() + 86400000).toISOString();
+        const past = new Date(Date.now() - 1000).toISOString();
+
+        let verifiedAt: Date | undefined;
+        let emailEnabled: boolean;
+
+        beforeEach(() => {
+            verifiedAt = new Date('2026-10-01T00:00:00.000Z');
+            emailEnabled = true;
+            preferences.findByUserId.mockImplementation(async () => ({
+                userId: 'user-1',
+                locale: 'en',
+                channels: { email: { digestEnabled: true, digestFrequency: 'daily', verifiedAt } },
+                isChannelEnabled: jest.fn().mockReturnValue(emailEnabled),
+                getDecryptedEmail: jest.fn().mockReturnValue('user@example.com'),
+                getTimeZone: jest.fn().mockReturnValue('UTC'),
+            }) as never);
+            mockRedis.lrange.mockResolvedValue([queuedEntry('notif-1'), queuedEntry('notif-2', future)]);
+        });
+
+        it('should move queued rows to sent when the digest goes out', async () => {
+            const sentAt = new Date('2026-10-20T09:00:00.000Z');
+            email.sendDigest.mockResolvedValue({ channel: 'email', status: 'sent', providerMessageId: 'msg-1', sentAt });
+
+            await service.forceSendDigest('user-1');
+
+            expect(email.sendDigest).toHaveBeenCalledWith(
+                'user@example.com',
+                undefined,
+                [
+                    expect.objectContaining({ notificationId: 'notif-1' }),
+                    expect.objectContaining({ notificationId: 'notif-2' }),
+                ],
+                'daily'
+            );
+            expect(mockRedis.del).toHaveBeenCalledWith('digest:daily:user-1');
+            expect(events.update).toHaveBeenCalledWith(
+                { deliveryStatus: 'sent', sentAt, providerMessageId: 'msg-1' },
+                {
+                    where: {
+                        notificationId: { [Op.in]: ['notif-1', 'notif-2'] },
+                        channel: 'email',
+                        deliveryStatus: 'queued_for_digest',
+                    },
+                }
+            );
+        });
+
+        it('should move queued rows to failed when the digest cannot be sent', async () => {
+            email.sendDigest.mockResolvedValue({ channel: 'email', status: 'failed', error: 'Mailbox unavailable' });
+
+            await service.forceSendDigest('user-1');
+
+            expect(mockRedis.del).toHaveBeenCalledWith('digest:daily:user-1');
+            expect(events.update).toHaveBeenCalledWith(
+                { deliveryStatus: 'failed', errorMessage: 'Mailbox unavailable' },
+                {
+                    where: {
+                        notificationId: { [Op.in]: ['notif-1', 'notif-2'] },
+                        channel: 'email',
+                        deliveryStatus: 'queued_for_digest',
+                    },
+                }
+            );
+            expect(events.update).not.toHaveBeenCalledWith(
+                expect.objectContaining({ deliveryStatus: 'sent' }),
+                expect.anything()
+            );
+        });
+
+        it('should not send to an address that is no longer verified', async () => {
+            verifiedAt = undefined;
+
+            await service.forceSendDigest('user-1');
+
+            expect(email.sendDigest).not.toHaveBeenCalled();
+            expect(mockRedis.del).toHaveBeenCalledWith('digest:daily:user-1');
+            expect(events.update).toHaveBeenCalledWith(
+                { deliveryStatus: 'failed', errorMessage: 'Email not verified' },
+                {
+                    where: {
+                        notificationId: { [Op.in]: ['notif-1', 'notif-2'] },
+                        channel: 'email',
+                        deliveryStatus: 'queued_for_digest',
+                    },
+                }
+            );
+        });
+
+        it('should not send to users who turned email off or opted out since', async () => {
+            emailEnabled = false;
+
+            await service.forceSendDigest('user-1');
+
+            expect(email.sendDigest).not.toHaveBeenCalled();
+            expect(events.update).toHaveBeenCalledWith(
+                { deliveryStatus: 'failed', errorMessage: 'User has opted out of email' },
+                expect.anything()
+            );
+        });
+
+        it('should expire stale entries and leave them out of the digest', async () => {
+            mockRedis.lrange.mockResolvedValue([queuedEntry('notif-1', past), queuedEntry('notif-2', future)]);
+            email.sendDigest.mockResolvedValue({ channel: 'email', status: 'sent' });
+
+            await service.forceSendDigest('user-1');
+
+            expect(events.update).toHaveBeenCalledWith(
+                { deliveryStatus: 'expired' },
+                expect.objectContaining({
+                    where: expect.objectContaining({ notificationId: { [Op.in]: ['notif-1'] } }),
+                })
+            );
+            expect(email.sendDigest.mock.calls[0]![2].map((n) => n.notificationId)).toEqual(['notif-2']);
+        });
+    });
+});
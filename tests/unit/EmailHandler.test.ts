@@ -0,0 +1,185 @@
+/**
+ * Unit Tests - Email Handler
+ *
+ * Tests that messages are built the same way for every email provider.
+ */
+
+import { config } from '../../src/config/config';
+import { EmailMessage, EmailProvider, verifyUnsubscribeToken } from '../../src/channels/email';
+import { NotificationPayload } from '../../src/types';
+
+// EmailHandler is mocked globally in tests/setup.ts
+const { EmailHandler } = jest.requireActual<typeof import('../../src/channels/EmailHandler')>(
+    '../../src/channels/EmailHandler'
+);
+
+const notification: NotificationPayload = {
+    notificationId: '7d3b1f0e-2222-4a4a-9c9c-000000000001',
+    userId: 'user-1',
+    eventType: 'transfer_completed',
+    title: 'Transfer Complete',
+    message: 'Your transfer was successful',
+    priority: 'medium',
+    channels: ['email'],
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+};
+
+function buildProvider(name: string, supportsHostedTemplates: boolean): jest.Mocked<EmailProvider> {
+    return {
+        name,
+        supportsHostedTemplates,
+        isConfigured: jest.fn().mockReturnValue(true),
+        send: jest.fn().mockResolvedValue({ messageId: `${name}-message-1` }),
+        describeError: jest.fn().mockReturnValue('provider error'),
+    };
+}
+
+function sentMessage(provider: jest.Mocked<EmailProvider>): EmailMessage {
+    return provider.send.mock.calls[0]![0];
+}
+
+describe('EmailHandler', () => {
+    const originalTemplates = { ...config.sendgrid.templates };
+
+    beforeEach(() => {
+        config.sendgrid.templates.transactionComplete = 'd-transfer';
+        config.sendgrid.templates.digest = 'd-digest';
+    });
+
+    afterEach(() => {
+        Object.assign(config.sendgrid.templates, originalTemplates);
+    });
+
+    it('should use hosted templates on SendGrid', async () => {
+        const provider = buildProvider('sendgrid', true);
+        const handler = new EmailHandler(provider);
+
+        const result = await handler.send('jane@example.com', 'Jane', notification);
+
+        expect(result).toEqual(expect.objectContaining({ status: 'sent', providerMessageId: 'sendgrid-message-1' }));
+        expect(sentMessage(provider).hostedTemplate?.templateId).toBe('d-transfer');
+        expect(sentMessage(provider).html).toBeUndefined();
+    });
+
+    it('should render HTML and text when the provider has no hosted templates', async () => {
+        const provider = buildProvider('smtp', false);
+        const handler = new EmailHandler(provider);
+
+        await handler.send('jane@example.com', 'Jane', notification);
+
+        const msg = sentMessage(provider);
+        expect(msg.hostedTemplate).toBeUndefined();
+        expect(msg.html).toContain('Transfer Complete');
+        expect(msg.text).toContain('Your transfer was successful');
+        expect(handler.providerName).toBe('smtp');
+    });
+
+    it('should send stored template HTML unchanged on either provider, with text generated from it', async () => {
+        const content = { title: 'Transfer Complete', body: 'Plain body', html: '<p>Stored body</p>' };
+
+        for (const provider of [buildProvider('sendgrid', true), buildProvider('smtp', false)]) {
+            await new EmailHandler(provider).send('jane@example.com', undefined, { ...notification, content });
+
+            expect(sentMessage(provider)).toEqual(
+                expect.objectContaining({ html: '<p>Stored body</p>', text: 'Stored body' })
+            );
+        }
+    });
+
+    it('should generate the text part from the rendered layout for stored template content without HTML', async () => {
+        const provider = buildProvider('smtp', false);
+        const content = { title: 'A special offer', body: 'Plain body' };
+
+        await new EmailHandler(provider).send(
+            'jane@example.com', 'Jane', { ...notification, eventType: 'promotional_offer', content }
+        );
+
+        const msg = sentMessage(provider);
+        const url = msg.headers!['List-Unsubscribe']!.slice(1, -1);
+        expect(msg.text).toContain('Plain body');
+        expect(msg.text).toContain(url);
+        expect(msg.text).not.toBe('Plain body');
+    });
+
+    it('should render digests without hosted templates on SMTP', async () => {
+        const provider = buildProvider('smtp', false);
+        const handler = new EmailHandler(provider);
+
+        const result = await handler.sendDigest('jane@example.com', 'Jane', [notification], 'daily');
+
+        expect(result.status).toBe('sent');
+        expect(sentMessage(provider).hostedTemplate).toBeUndefined();
+        expect(sentMessage(provider).html).toContain('Your daily Banking Summary');
+    });
+
+    it('should add one-click unsubscribe links to marketing emails only', async () => {
+        const provider = buildProvider('smtp', false);
+        const handler = new EmailHandler(provider);
+
+        await handler.send('jane@example.com', 'Jane', { ...notification, eventType: 'promotional_offer' });
+        await handler.send('jane@example.com', 'Jane', notification);
+
+        const marketing = provider.send.mock.calls[0]![0];
+        const url = marketing.headers!['List-Unsubscribe']!.slice(1, -1);
+        const token = new URL(url).searchParams.get('token')!;
+
+        expect(marketing.headers!['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+        expect(verifyUnsubscribeToken(token)).toEqual(
+            expect.objectContaining({ userId: 'user-1', category: 'promotional_offer' })
+        );
+        expect(marketing.html).toContain(`href="${url}"`);
+        expect(marketing.text).toContain(url);
+        expect(provider.send.mock.calls[1]![0].headers).toBeUndefined();
+    });
+
+    it('should add a digest unsubscribe link to digests', async () => {
+        const provider = buildProvider('sendgrid', true);
+
+        await new EmailHandler(provider).sendDigest('jane@example.com', 'Jane', [notification], 'daily');
+
+        const msg = sentMessage(provider);
+        const url = msg.hostedTemplate!.data['unsubscribe_link'] as string;
+        expect(msg.headers!['List-Unsubscribe']).toBe(`<${url}>`);
+        expect(verifyUnsubscribeToken(new URL(url).searchParams.get('token')!)?.category).toBe('digest');
+    });
+
+    it('should render notifications the same way on every provider', async () => {
+        config.sendgrid.templates.transactionComplete = '';
+        const providers = [buildProvider('sendgrid', true), buildProvider('smtp', false)];
+
+        for (const provider of providers) {
+            await new EmailHandler(provider).send('jane@example.com', 'Jane', notification);
+        }
+
+        const [sendgrid, smtp] = providers.map(sentMessage);
+        expect(sendgrid!.html).toBe(smtp!.html);
+        expect(sendgrid!.text).toBe(smtp!.text);
+        expect(smtp!.html).toContain('class="footer"');
+    });
+
+    it('should put plain-text raw emails in the brand layout', async () => {
+        const provider = buildProvider('smtp', false);
+
+        await new EmailHandler(provider).sendRaw({
+            to: 'jane@example.com',
+            subject: 'Su código de verificación',
+            textContent: 'Su código de verificación es 123456.',
+            locale: 'es',
+        });
+
+        const msg = sentMessage(provider);
+        expect(msg.html).toContain('<html lang="es">');
+        expect(msg.html).toContain('Su código de verificación es 123456.');
+        expect(msg.text).toContain('Su código de verificación es 123456.');
+    });
+
+    it('should report provider errors as failed deliveries', async () => {
+        const provider = buildProvider('smtp', false);
+        provider.send.mockRejectedValue(new Error('connection refused'));
+        provider.describeError.mockReturnValue('SMTP 421: Service not available');
+
+        const result = await new EmailHandler(provider).send('jane@example.com', undefined, notification);
+
+        expect(result).toEqual({ channel: 'email', status: 'failed', error: 'SMTP 421: Service not available' });
+    });
+});
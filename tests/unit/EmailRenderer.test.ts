@@ -0,0 +1,188 @@
+/**
+ * Unit Tests - Email Rendering
+ *
+ * Tests for the in-repo email layout, partials, CSS inlining and
+ * plain-text generation.
+ */
+
+import { EmailRenderer } from '../../src/channels/email';
+import { htmlToText, inlineCss } from '../../src/utils/html';
+import { NotificationPayload } from '../../src/types';
+
+const brand = {
+    name: 'Acme Bank',
+    logoUrl: '',
+    primaryColor: '#123456',
+    preferencesUrl: 'https://acme.example/settings',
+};
+
+const notification: NotificationPayload = {
+    notificationId: '7d3b1f0e-2222-4a4a-9c9c-000000000001',
+    userId: 'user-1',
+    eventType: 'transfer_completed',
+    title: 'Transfer Complete',
+    message: 'Your transfer of $1,250.00 to <Bob> was successful',
+    data: { amount: 1250, currency: 'USD', recipientName: 'Bob' },
+    actions: [{ label: 'View transfer', url: 'https://acme.example/transfers?id=1&tab=details', type: 'primary' }],
+    priority: 'medium',
+    channels: ['email'],
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+};
+
+describe('inlineCss', () => {
+    it('should apply tag and class rules by specificity, keeping existing styles last', () => {
+        const html = '<p class="note" style="color: red">Hi</p><p>There</p>';
+        const css = '.note { color: #555; font-size: 14px; } p { margin: 0; color: #333; }';
+
+        expect(inlineCss(html, css)).toBe(
+            '<p class="note" style="margin: 0; font-size: 14px; color: red;">Hi</p><p style="margin: 0; color: #333;">There</p>'
+        );
+    });
+
+    it('should keep media queries and pseudo selectors in a style block', () => {
+        const html = '<html><head><title>x</title></head><body><a class="button" href="#">Go</a></body></html>';
+        const css = `.button { display: inline-block; }
+            a:hover { color: red; }
+            @media (max-width: 600px) { .button { display: block !important; } }`;
+
+        const result = inlineCss(html, css);
+
+        expect(result).toContain('<a class="button" href="#" style="display: inline-block;">');
+        expect(result).toMatch(/<style>\s*a:hover \{\s*color: red;\s*\}\s*@media \(max-width: 600px\) \{.*\}\s*<\/style>\s*<\/head>/s);
+    });
+
+    it('should inline descendant, child and attribute selectors', () => {
+        const html = '<div class="details"><p><a href="#">Go</a></p></div><a href="#" target="_blank">Out</a>';
+        const css = '.details a { color: blue; } .details > p { margin: 0; } a[target="_blank"] { color: green; }';
+
+        expect(inlineCss(html, css)).toBe(
+            '<div class="details"><p style="margin: 0;"><a href="#" style="color: blue;">Go</a></p></div>'
+            + '<a href="#" target="_blank" style="color: green;">Out</a>'
+        );
+    });
+
+    it('should handle single-quoted and unquoted attributes and ">" in attribute values', () => {
+        const html = '<p class=\'note\' title="a > b">Hi</p><p class=note>There</p>';
+        const css = '.note { color: #555; }';
+
+        expect(inlineCss(html, css)).toBe(
+            '<p class="note" title="a > b" style="color: #555;">Hi</p><p class="note" style="color: #555;">There</p>'
+        );
+    });
+
+    it('should let !important rules win over existing styles', () => {
+        const html = '<p class="note" style="color: red">Hi</p>';
+
+        expect(inlineCss(html, '.note { color: #555 !important; }')).toBe(
+            '<p class="note" style="color: #555;">Hi</p>'
+        );
+    });
+});
+
+describe('htmlToText', () => {
+    it('should turn blocks into paragraphs and links into label (url)', () => {
+        const html = `<head><title>Ignored</title></head>
+            <h1>Hello &amp; welcome</h1>
+            <p>Line one<br>line two</p>
+            <table><tr><th>Amount</th><td>$5.00</td></tr></table>
+            <a href="https://acme.example/a?b=1&amp;c=2">Open</a>`;
+
+        expect(htmlToText(html)).toBe(
+            'Hello & welcome\n\nLine one\nline two\n\nAmount: $5.00\n\nOpen (https://acme.example/a?b=1&c=2)'
+        );
+    });
+
+    it('should keep the text of tags nested in links and of single-quoted links', () => {
+        const html = '<p><a href="https://acme.example/a"><strong>Review</strong> now</a> or '
+            + '<a href=\'https://acme.example/b\'>later</a></p>';
+
+        expect(htmlToText(html)).toBe('Review now (https://acme.example/a) or later (https://acme.example/b)');
+    });
+
+    it('should show a link once when its label is the URL', () => {
+        expect(htmlToText('<a href="https://acme.example">https://acme.example</a>')).toBe('https://acme.example');
+    });
+
+    it('should decode named entities', () => {
+        expect(htmlToText('<p>&copy; Acme &ndash; caf&eacute; &euro;5</p>')).toBe('© Acme – café €5');
+    });
+
+    it('should turn list items into bullets and skip scripts and images', () => {
+        const html = '<ul><li>One</li><li>Two</li></ul><script>alert(1)</script><img src="logo.png" alt="Logo">';
+
+        expect(htmlToText(html)).toBe(' * One\n * Two');
+    });
+});
+
+describe('EmailRenderer', () => {
+    const renderer = new EmailRenderer(brand);
+
+    it('should render a notification in the brand layout with inlined styles', () => {
+        const { html } = renderer.renderNotification(notification, {
+            unsubscribeUrl: 'https://acme.example/unsubscribe?token=abc',
+        });
+
+        expect(html).toMatch(/^<!DOCTYPE html>/);
+        expect(html).toContain('>Acme Bank</td>');
+        expect(html).toContain('Your transfer of $1,250.00 to &lt;Bob&gt; was successful');
+        expect(html).toContain('href="https://acme.example/transfers?id=1&amp;tab=details"');
+        expect(html).toContain('href="https://acme.example/unsubscribe?token=abc"');
+        expect(html).toContain('href="https://acme.example/settings"');
+        expect(html).toContain('background-color: #123456');
+        expect(html).toContain('@media only screen');
+    });
+
+    it('should generate the text part from the HTML', () => {
+        const { text } = renderer.renderNotification(notification);
+
+        expect(text).toContain('Transfer Complete\n\nYour transfer of $1,250.00 to <Bob> was successful');
+        expect(text).toContain('Amount: $1,250.00\n\nRecipient: Bob');
+        expect(text).toContain('View transfer (https://acme.example/transfers?id=1&tab=details)');
+        expect(text).toContain('Manage preferences (https://acme.example/settings)');
+        expect(text).not.toContain('Unsubscribe');
+    });
+
+    it('should use the security partial for security events', () => {
+        const { html, text } = renderer.renderNotification({
+            ...notification,
+            eventType: 'new_device_added',
+            title: 'New Device',
+            message: 'A new device was added',
+            data: {},
+            actions: [],
+        });
+
+        expect(html).toContain('class="alert"');
+        expect(html).not.toContain('class="details"');
+        expect(text).toContain('If this wasn\'t you, contact us right away');
+    });
+
+    it('should localize the layout', () => {
+        const { text } = renderer.renderNotification({ ...notification, locale: 'fr' });
+
+        expect(text).toContain('Montant');
+        expect(text).toContain('Vous recevez cet e-mail car vous avez un compte chez Acme Bank.');
+        expect(text).toContain('Gérer les préférences');
+    });
+
+    it('should render digests with one item per notification', () => {
+        const second = { ...notification, title: 'Low Balance', message: 'Your balance is low' };
+
+        const { html, text } = renderer.renderDigest([notification, second], 'weekly', {
+            unsubscribeUrl: 'https://acme.example/unsubscribe?token=digest',
+        });
+
+        expect(html.match(/class="digest-item"/g)).toHaveLength(2);
+        expect(text).toContain('Your weekly Banking Summary');
+        expect(text).toContain('Low Balance\n\nYour balance is low');
+        expect(text).toContain('Unsubscribe (https://acme.example/unsubscribe?token=digest)');
+    });
+
+    it('should show the logo when one is configured', () => {
+        const withLogo = new EmailRenderer({ ...brand, logoUrl: 'https://acme.example/logo.png' });
+
+        const { html } = withLogo.renderText('Notice', 'Hello');
+
+        expect(html).toContain('<img class="logo" src="https://acme.example/logo.png" alt="Acme Bank" height="40"');
+    });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit Tests - Idempotency Middleware
+ *
+ * Tests for Idempotency-Key replay, conflict and recording behaviour.
+ */
+
+import { Request, Response } from 'express';
+import { idempotency } from '../../src/middleware/idempotency';
+import { idempotencyStore } from '../../src/redis/IdempotencyStore';
+import { ApiError } from '../../src/middleware/errorHandler';
+
+jest.mock('../../src/redis/IdempotencyStore', () => ({
+    idempotencyStore: {
+        begin: jest.fn(),
+        complete: jest.fn(),
+        release: jest.fn(),
+    },
+}));
+
+const store = idempotencyStore as jest.Mocked<typeof idempotencyStore>;
+
+function buildRequest(headers: Record<string, string>, body: unknown): Request {
+    return {
+        method: 'POST',
+        baseUrl: '/api/notifications',
+        path: '/send',
+        headers,
+        body,
+    } as unknown as Request;
+}
+
+function buildResponse(): Response & { sent: jest.Mock } {
+    const sent = jest.fn();
+    const res = {
+        statusCode: 200,
+        setHeader: jest.fn(),
+        status: jest.fn(function (this: Response, code: number) {
+            this.statusCode = code;
+            return this;
+        }),
+        json: sent,
+        sent,
+    };
+    return res as unknown as Response & { sent: jest.Mock };
+}
+
+/**
+ * Run the middleware and resolve with what it passes to next()
+ */
+function run(req: Request, res: Response): Promise<unknown> {
+    return new Promise((resolve) => idempotency(req, res, resolve));
+}
+
+describe('idempotency middleware', () => {
+    beforeEach(() => {
+        store.complete.mockResolvedValue();
+        store.release.mockResolvedValue();
+    });
+
+    it('should pass through requests without a key', async () => {
+        const next = jest.fn();
+
+        idempotency(buildRequest({}, { a: 1 }), buildResponse(), next);
+
+        expect(next).toHaveBeenCalledWith();
+        expect(store.begin).not.toHaveBeenCalled();
+    });
+
+    it('should hash equal bodies identically regardless of key order', async () => {
+        store.begin.mockResolvedValue({ state: 'new' });
+
+        await run(buildRequest({ 'idempotency-key': 'k1' }, { a: 1, b: 2 }), buildResponse());
+        await run(buildRequest({ 'idempotency-key': 'k1' }, { b: 2, a: 1 }), buildResponse());
+
+        expect(store.begin.mock.calls[0]![2]).toBe(store.begin.mock.calls[1]![2]);
+    });
+
+    it('should scope keys by caller', async () => {
+        store.begin.mockResolvedValue({ state: 'new' });
+
+        await run(buildRequest({ 'idempotency-key': 'k1', 'x-service-name': 'payments' }, {}), buildResponse());
+
+        expect(store.begin).toHaveBeenCalledWith('payments', 'k1', expect.any(String));
+    });
+
+    it('should replay a stored response', async () => {
+        store.begin.mockResolvedValue({
+            state: 'replay',
+            response: { statusCode: 200, body: { success: true, data: { notificationId: 'n-1' } } },
+        });
+        const res = buildResponse();
+
+        await new Promise<void>((resolve) => {
+            res.sent.mockImplementation(() => resolve());
+            idempotency(buildRequest({ 'idempotency-key': 'k1' }, {}), res, jest.fn());
+        });
+
+        expect(res.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+        expect(res.sent).toHaveBeenCalledWith({ success: true, data: { notificationId: 'n-1' } });
+    });
+
+    it('should reject a reused key with a different body', async () => {
+        store.begin.mockResolvedValue({ state: 'conflict' });
+
+        const error = await run(buildRequest({ 'idempotency-key': 'k1' }, { a: 2 }), buildResponse());
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect((error as ApiError).statusCode).toBe(409);
+    });
+
+    it('should store successful responses and release server errors', async () => {
+        store.begin.mockResolvedValue({ state: 'new' });
+
+        const ok = buildResponse();
+        await run(buildRequest({ 'idempotency-key': 'k1' }, {}), ok);
+        ok.json({ success: true });
+
+        const failed = buildResponse();
+        await run(buildRequest({ 'idempotency-key': 'k2' }, {}), failed);
+        failed.statusCode = 500;
+        failed.json({ success: false });
+
+        expect(store.complete).toHaveBeenCalledWith('default', 'k1', expect.any(String), {
+            statusCode: 200,
+            body: { success: true },
+        });
+        expect(store.release).toHaveBeenCalledWith('default', 'k2');
+    });
+});
@@ -0,0 +1,234 @@
+/**
+ * Unit Tests - Inbound SMS
+ *
+ * Tests for STOP/START/HELP keyword handling, the opt-out audit log and
+ * YES/NO replies to SMS confirmations, and for backfilling the phone
+ * number lookup hash.
+ */
+
+import { config } from '../../src/config/config';
+import { InboundSmsService, parseSmsKeyword } from '../../src/services/InboundSmsService';
+import { IUserPreferences, SmsConfirmation, SmsOptOutEvent, UserPreferences } from '../../src/models';
+import { notificationEventPublisher } from '../../src/kafka';
+
+jest.mock('../../src/models', () => ({
+    UserPreferences: {
+        findByPhoneNumber: jest.fn(),
+    },
+    SmsOptOutEvent: {
+        count: jest.fn(),
+        create: jest.fn(),
+    },
+    SmsConfirmation: {
+        findOne: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/kafka', () => ({
+    notificationEventPublisher: {
+        publishNotificationResponse: jest.fn(),
+    },
+}));
+
+const { UserPreferences: RealUserPreferences } = jest.requireActual<
+    typeof import('../../src/models/mongodb/UserPreferences')
+>('../../src/models/mongodb/UserPreferences');
+
+const preferences = UserPreferences as jest.Mocked<typeof UserPreferences>;
+const optOutEvents = SmsOptOutEvent as jest.Mocked<typeof SmsOptOutEvent>;
+const confirmations = SmsConfirmation as jest.Mocked<typeof SmsConfirmation>;
+const publisher = notificationEventPublisher as jest.Mocked<typeof notificationEventPublisher>;
+
+function buildPreferences(): IUserPreferences {
+    const prefs = new RealUserPreferences({ userId: 'user-1', locale: 'es' });
+    prefs.setEncryptedPhoneNumber('+15551234567');
+    jest.spyOn(prefs, 'save').mockResolvedValue(prefs);
+    return prefs;
+}
+
+function buildConfirmation(expiresAt: Date): SmsConfirmation {
+    return {
+        id: 'confirmation-1',
+        notificationId: 'notif-1',
+        userId: 'user-1',
+        eventType: 'fraud_detected',
+        eventSourceId: 'case-42',
+        status: 'pending',
+        expiresAt,
+        respondedAt: null,
+        markAnswered: jest.fn(),
+        markExpired: jest.fn(),
+    } as unknown as SmsConfirmation;
+}
+
+function inbound(body: string) {
+    return { provider: 'twilio', messageId: 'SM123', from: '+15551234567', body };
+}
+
+describe('InboundSmsService', () => {
+    let service: InboundSmsService;
+
+    beforeEach(() => {
+        service = new InboundSmsService();
+        config.sms.stopScope = 'sms';
+        optOutEvents.count.mockResolvedValue(0);
+    });
+
+    it('should match keywords case-insensitively', () => {
+        expect(parseSmsKeyword('  stop. ')).toBe('STOP');
+        expect(parseSmsKeyword('Stop sending me these')).toBe('STOP SENDING ME THESE');
+    });
+
+    it('should turn off SMS on STOP and audit it', async () => {
+        const prefs = buildPreferences();
+        preferences.findByPhoneNumber.mockResolvedValue([prefs]);
+
+        const result = await service.handleInbound(inbound('Stop'));
+
+        expect(result).toEqual({ action: 'opt_out', usersMatched: 1, reply: null });
+        expect(prefs.channels.sms.enabled).toBe(false);
+        expect(prefs.doNotContact.enabled).toBe(false);
+        expect(prefs.save).toHaveBeenCalled();
+        expect(optOutEvents.create).toHaveBeenCalledWith({
+            action: 'opt_out',
+            keyword: 'STOP',
+            scope: 'sms',
+            phoneSuffix: '4567',
+            provider: 'twilio',
+            providerMessageId: 'SM123',
+            userId: 'user-1',
+            preferencesChanged: true,
+        });
+    });
+
+    it('should set do-not-contact on STOP when the scope is all, and lift it on START', async () => {
+        config.sms.stopScope = 'all';
+        const prefs = buildPreferences();
+        preferences.findByPhoneNumber.mockResolvedValue([prefs]);
+
+        await service.handleInbound(inbound('UNSUBSCRIBE'));
+
+        expect(prefs.doNotContact).toEqual(expect.objectContaining({ enabled: true, reason: 'unsubscribed' }));
+
+        await service.handleInbound({ ...inbound('START'), messageId: 'SM124' });
+
+        expect(prefs.doNotContact.enabled).toBe(false);
+        expect(prefs.channels.sms.enabled).toBe(true);
+    });
+
+    it('should reply to HELP in the user\'s language', async () => {
+        preferences.findByPhoneNumber.mockResolvedValue([buildPreferences()]);
+
+        const result = await service.handleInbound(inbound('help'));
+
+        expect(result.action).toBe('help');
+        expect(result.reply).toContain('Responda STOP');
+        expect(optOutEvents.create).not.toHaveBeenCalled();
+    });
+
+    it('should audit keywords from unknown numbers and ignore redelivered messages', async () => {
+        preferences.findByPhoneNumber.mockResolvedValue([]);
+
+        await service.handleInbound(inbound('STOP'));
+        expect(optOutEvents.create).toHaveBeenCalledWith(
+            expect.objectContaining({ userId: null, preferencesChanged: false })
+        );
+
+        optOutEvents.count.mockResolvedValue(1);
+        const result = await service.handleInbound(inbound('STOP'));
+        expect(result.action).toBe('duplicate');
+        expect(optOutEvents.create).toHaveBeenCalledTimes(1);
+    });
+
+    describe('confirmation replies', () => {
+        beforeEach(() => {
+            preferences.findByPhoneNumber.mockResolvedValue([buildPreferences()]);
+            confirmations.findOne.mockResolvedValueOnce(null); // Not a redelivered reply
+        });
+
+        it('should match NO to the pending confirmation and publish the response', async () => {
+            const confirmation = buildConfirmation(new Date(Date.now() + 60000));
+            confirmations.findOne.mockResolvedValueOnce(confirmation);
+
+            const result = await service.handleInbound(inbound('no'));
+
+            expect(result.action).toBe('denied');
+            expect(result.reply).toContain('bloqueando');
+            expect(confirmation.markAnswered).toHaveBeenCalledWith('denied', 'SM123');
+            expect(publisher.publishNotificationResponse).toHaveBeenCalledWith(expect.objectContaining({
+                notificationId: 'notif-1',
+                eventSourceId: 'case-42',
+                channel: 'sms',
+                response: 'denied',
+            }));
+        });
+
+        it('should tell late replies the request expired', async () => {
+            const confirmation = buildConfirmation(new Date(Date.now() - 1000));
+            confirmations.findOne.mockResolvedValueOnce(confirmation);
+
+            const result = await service.handleInbound(inbound('YES'));
+
+            expect(result.action).toBe('expired');
+            expect(confirmation.markExpired).toHaveBeenCalled();
+            expect(confirmation.markAnswered).not.toHaveBeenCalled();
+            expect(publisher.publishNotificationResponse).not.toHaveBeenCalled();
+        });
+
+        it('should ask again when the reply is unclear', async () => {
+            const confirmation = buildConfirmation(new Date(Date.now() + 60000));
+            confirmations.findOne.mockResolvedValueOnce(confirmation);
+
+            const result = await service.handleInbound(inbound('maybe?'));
+
+            expect(result.action).toBe('unclear');
+            expect(result.reply).toContain('Responda SI');
+            expect(confirmation.markAnswered).not.toHaveBeenCalled();
+        });
+
+        it('should ignore messages when nothing is pending', async () => {
+            confirmations.findOne.mockResolvedValueOnce(null);
+
+            const result = await service.handleInbound(inbound('Thanks!'));
+
+            expect(result).toEqual({ action: 'ignored', usersMatched: 1, reply: null });
+        });
+    });
+});
+
+describe('UserPreferences.backfillPhoneNumberHashes', () => {
+    function storedUser(userId: string, phone: string | null): IUserPreferences {
+        const prefs = new RealUserPreferences({ userId });
+        if (phone) {
+            prefs.setEncryptedPhoneNumber(phone);
+        } else {
+            prefs.channels.sms.phoneNumber = 'not-an-encrypted-number';
+        }
+        prefs.channels.sms.phoneNumberHash = undefined;
+        return prefs;
+    }
+
+    it('should page past numbers that cannot be decrypted', async () => {
+        const batches = [
+            [storedUser('user-1', null), storedUser('user-2', null)],
+            [storedUser('user-3', '+15551234567')],
+        ];
+        const find = jest.spyOn(RealUserPreferences, 'find').mockImplementation(() => {
+            const batch = batches.shift() ?? [];
+            return { sort: () => ({ limit: () => Promise.resolve(batch) }) } as never;
+        });
+        const bulkWrite = jest.spyOn(RealUserPreferences, 'bulkWrite').mockResolvedValue({} as never);
+        const [first, second] = [batches[0]!, batches[1]!];
+
+        const updated = await RealUserPreferences.backfillPhoneNumberHashes(2);
+
+        expect(updated).toBe(1);
+        expect(find).toHaveBeenCalledTimes(2);
+        expect(find).toHaveBeenNthCalledWith(1, expect.not.objectContaining({ _id: expect.anything() }));
+        expect(find).toHaveBeenNthCalledWith(2, expect.objectContaining({ _id: { $gt: first[1]!._id } }));
+        expect(bulkWrite).toHaveBeenCalledTimes(1);
+        expect(bulkWrite).toHaveBeenCalledWith([
+            expect.objectContaining({ updateOne: expect.objectContaining({ filter: { _id: second[0]!._id } }) }),
+        ]);
+    });
+});
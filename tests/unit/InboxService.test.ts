@@ -0,0 +1,117 @@
+/**
+ * Unit Tests - Inbox Service
+ *
+ * Tests for cursor paging and inbox state actions.
+ */
+
+import { Op } from 'sequelize';
+import { InboxService } from '../../src/services/InboxService';
+import { InboxEntry } from '../../src/models';
+
+jest.mock('../../src/models', () => ({
+    InboxEntry: {
+        findAll: jest.fn(),
+        findOne: jest.fn(),
+        update: jest.fn(),
+        destroy: jest.fn(),
+        count: jest.fn(),
+    },
+}));
+
+const entries = InboxEntry as jest.Mocked<typeof InboxEntry>;
+
+function buildEntry(id: string, createdAt: string): InboxEntry {
+    return { id, createdAt: new Date(createdAt) } as InboxEntry;
+}
+
+describe('InboxService', () => {
+    let service: InboxService;
+
+    beforeEach(() => {
+        service = new InboxService();
+    });
+
+    describe('cursors', () => {
+        it('should round-trip an entry position', () => {
+            const cursor = service.encodeCursor(buildEntry('entry-1', '2026-03-01T10:00:00.000Z'));
+
+            expect(service.decodeCursor(cursor)).toEqual({
+                createdAt: new Date('2026-03-01T10:00:00.000Z'),
+                id: 'entry-1',
+            });
+        });
+
+        it('should reject malformed cursors', () => {
+            expect(service.decodeCursor('not-a-cursor')).toBeNull();
+        });
+    });
+
+    describe('list()', () => {
+        it('should return a next cursor only when more entries exist', async () => {
+            entries.findAll.mockResolvedValue([
+                buildEntry('entry-3', '2026-03-03T00:00:00.000Z'),
+                buildEntry('entry-2', '2026-03-02T00:00:00.000Z'),
+                buildEntry('entry-1', '2026-03-01T00:00:00.000Z'),
+            ]);
+
+            const page = await service.list('user-1', { limit: 2 });
+
+            expect(page.entries.map((e) => e.id)).toEqual(['entry-3', 'entry-2']);
+            expect(service.decodeCursor(page.nextCursor!)).toEqual({
+                createdAt: new Date('2026-03-02T00:00:00.000Z'),
+                id: 'entry-2',
+            });
+            expect(entries.findAll).toHaveBeenCalledWith(expect.objectContaining({ limit: 3 }));
+        });
+
+        it('should end paging on the last page', async () => {
+            entries.findAll.mockResolvedValue([buildEntry('entry-1', '2026-03-01T00:00:00.000Z')]);
+
+            const page = await service.list('user-1', { limit: 2 });
+
+            expect(page.nextCursor).toBeNull();
+        });
+    });
+
+    describe('applyBulkAction()', () => {
+        it('should mark entries seen when reading them', async () => {
+            entries.update.mockResolvedValue([2] as never);
+
+            const count = await service.applyBulkAction('user-1', 'read', { entryIds: ['a', 'b'] });
+
+            expect(count).toBe(2);
+            expect(entries.update).toHaveBeenCalledTimes(2);
+            expect(entries.update.mock.calls[0]![0]).toEqual({ seenAt: expect.any(Date) });
+            expect(entries.update.mock.calls[1]![0]).toEqual({ readAt: expect.any(Date) });
+        });
+
+        it('should only change entries not already in the target state', async () => {
+            entries.update.mockResolvedValue([1] as never);
+
+            await service.applyBulkAction('user-1', 'archive', { category: 'offers' });
+
+            expect(entries.update).toHaveBeenCalledWith(
+                { archivedAt: expect.any(Date) },
+                {
+                    where: {
+                        [Op.and]: [
+                            { userId: 'user-1', category: 'offers', archivedAt: null },
+                            { archivedAt: null },
+                        ],
+                    },
+                }
+            );
+        });
+
+        it('should delete selected entries', async () => {
+            entries.destroy.mockResolvedValue(1);
+
+            const deleted = await service.deleteEntry('user-1', 'entry-1');
+
+            expect(deleted).toBe(true);
+            expect(entries.destroy).toHaveBeenCalledWith({
+                where: { userId: 'user-1', id: { [Op.in]: ['entry-1'] } },
+            });
+        });
+    });
+});
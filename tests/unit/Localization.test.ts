@@ -0,0 +1,63 @@
+/**
+ * Unit Tests - Localization
+ *
+ * Tests for the locale fallback chain, catalog lookup and
+ * locale-aware formatting filters.
+ */
+
+import { getLocaleFallbackChain, normalizeLocale } from '../../src/utils/locale';
+import { localizeMessage, translate } from '../../src/i18n';
+import { renderTemplate } from '../../src/utils/template';
+
+describe('Locale fallback', () => {
+    it('should fall back from region to language to default', () => {
+        expect(getLocaleFallbackChain('es-MX')).toEqual(['es-MX', 'es', 'en']);
+        expect(getLocaleFallbackChain('fr')).toEqual(['fr', 'en']);
+        expect(getLocaleFallbackChain(undefined)).toEqual(['en']);
+    });
+
+    it('should normalize locale tags', () => {
+        expect(normalizeLocale('es_mx')).toBe('es-MX');
+        expect(normalizeLocale('not a locale')).toBe('en');
+    });
+
+    it('should use the language entry when the region has none', () => {
+        expect(translate('sms.unsubscribe_footer', 'es-MX')).toBe('Responda STOP para cancelar.');
+    });
+
+    it('should fall back to English for unsupported locales', () => {
+        expect(translate('sms.unsubscribe_footer', 'de')).toBe('Reply STOP to unsubscribe.');
+    });
+
+    it('should return null for unknown keys', () => {
+        expect(translate('no_such_key', 'en')).toBeNull();
+        expect(localizeMessage('no_such_event', {}, 'en')).toBeNull();
+    });
+});
+
+describe('Locale formatting', () => {
+    it('should format amounts for the recipient locale', () => {
+        const en = localizeMessage('transfer_approved', { amount: 1250, currency: 'USD' }, 'en');
+        const de = renderTemplate('{{amount | currency:"EUR"}}', { amount: 1250 }, { locale: 'de' });
+
+        expect(en?.message).toContain('$1,250.00');
+        expect(de).toMatch(/1\.250,00\s€/);
+    });
+
+    it('should apply the default filter when a value is missing', () => {
+        const result = localizeMessage('transfer_approved', {}, 'es');
+
+        expect(result?.title).toBe('Transferencia aprobada');
+        expect(result?.message).toContain('fondos');
+    });
+
+    it('should format dates in the recipient timezone', () => {
+        const result = renderTemplate(
+            '{{at | date}}',
+            { at: '2024-01-01T02:00:00Z' },
+            { locale: 'en', timeZone: 'America/New_York' }
+        );
+
+        expect(result).toBe('Dec 31, 2023');
+    });
+});
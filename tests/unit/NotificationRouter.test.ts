@@ -5,7 +5,7 @@
  */
 
 import { NotificationRouter } from '../../src/services/NotificationRouter';
-import { EVENT_TYPE_CONFIGS } from '../../src/types';
+import { EVENT_TYPE_CONFIGS, NotificationEventType } from '../../src/types';
 
 // Mock dependencies
 jest.mock('../../src/models', () => ({
@@ -33,10 +33,14 @@ jest.mock('../../src/models', () => ({
     NotificationEvent: {
         create: jest.fn().mockResolvedValue({}),
     },
+    HeldNotification: {
+        create: jest.fn(),
+    },
 }));
 
 jest.mock('../../src/redis/RateLimiter', () => ({
     rateLimiter: {
+        checkLimit: jest.fn(),
         consumeLimit: jest.fn().mockResolvedValue({
             allowed: true,
             remaining: 10,
@@ -48,12 +52,25 @@ jest.mock('../../src/redis/RateLimiter', () => ({
 
 jest.mock('../../src/redis/DeduplicationService', () => ({
     deduplicationService: {
+        checkDuplicate: jest.fn(),
         checkAndMark: jest.fn().mockResolvedValue({
             isDuplicate: false,
         }),
     },
 }));
 
+jest.mock('../../src/services/DigestService', () => ({
+    digestService: {
+        queueForDigest: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/services/TemplateService', () => ({
+    templateService: {
+        render: jest.fn(),
+    },
+}));
+
 describe('NotificationRouter', () => {
     let router: NotificationRouter;
 
@@ -123,6 +140,334 @@ describe('NotificationRouter', () => {
         });
     });
 
+    describe('route() dry run', () => {
+        const { UserPreferences, NotificationEvent } = require('../../src/models');
+        const { rateLimiter } = require('../../src/redis/RateLimiter');
+        const { deduplicationService } = require('../../src/redis/DeduplicationService');
+        const { smsHandler } = require('../../src/channels/SMSHandler');
+
+        beforeEach(() => {
+            deduplicationService.checkDuplicate.mockResolvedValue({ isDuplicate: false });
+            UserPreferences.findOrCreateByUserId.mockResolvedValue({
+                userId: 'test-user-id',
+                locale: 'en',
+                channels: {},
+                rateLimits: {},
+                doNotContact: { enabled: false },
+                getEnabledChannelsForEvent: jest.fn().mockReturnValue(['websocket', 'sms']),
+                isInQuietHours: jest.fn().mockReturnValue(false),
+                shouldBypassQuietHours: jest.fn().mockReturnValue(false),
+                getTimeZone: jest.fn().mockReturnValue('UTC'),
+                getDecryptedPhoneNumber: jest.fn().mockReturnValue(null),
+                getDecryptedEmail: jest.fn().mockReturnValue(null),
+                getActiveWebhookEndpoints: jest.fn().mockReturnValue([]),
+            });
+            rateLimiter.checkLimit.mockResolvedValue({ allowed: true, remaining: -1, limit: -1, resetAt: new Date() });
+            smsHandler.checkContact.mockReturnValue('No phone number');
+        });
+
+        it('should explain skipped channels without sending or recording', async () => {
+            const result = await router.route({
+                userId: 'test-user-id',
+                eventType: 'transfer_completed',
+                title: 'Transfer Complete',
+                message: 'Your transfer was successful',
+            }, { dryRun: true });
+
+            expect(result.dryRun).toBe(true);
+            expect(result.plannedChannels).toEqual(['websocket', 'inbox']);
+            expect(result.trace).toContainEqual({
+                check: 'contact',
+                passed: false,
+                detail: 'No phone number',
+                channel: 'sms',
+            });
+            expect(result.trace).toContainEqual(expect.objectContaining({
+                check: 'channel_selection',
+                passed: false,
+                channel: 'email',
+            }));
+            expect(deduplicationService.checkAndMark).not.toHaveBeenCalled();
+            expect(rateLimiter.consumeLimit).not.toHaveBeenCalled();
+            expect(NotificationEvent.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('route() during quiet hours', () => {
+        const { UserPreferences, HeldNotification, NotificationEvent } = require('../../src/models');
+        const { deduplicationService } = require('../../src/redis/DeduplicationService');
+        const quietHoursEnd = new Date('2026-10-20T07:00:00.000Z');
+
+        beforeEach(() => {
+            deduplicationService.checkAndMark.mockResolvedValue({ isDuplicate: false });
+            UserPreferences.findOrCreateByUserId.mockResolvedValue({
+                userId: 'test-user-id',
+                locale: 'en',
+                channels: {},
+                doNotContact: { enabled: false },
+                getEnabledChannelsForEvent: jest.fn().mockReturnValue(['push']),
+                isChannelEnabled: jest.fn().mockReturnValue(true),
+                isInQuietHours: jest.fn().mockReturnValue(true),
+                shouldBypassQuietHours: jest.fn().mockReturnValue(false),
+                getQuietHoursEnd: jest.fn().mockReturnValue(quietHoursEnd),
+                getTimeZone: jest.fn().mockReturnValue('UTC'),
+                getActiveWebhookEndpoints: jest.fn().mockReturnValue([]),
+            });
+            HeldNotification.create.mockImplementation(async (values: Record<string, unknown>) => ({
+                id: 'hold-1',
+                ...values,
+            }));
+        });
+
+        it('should hold the notification until quiet hours end', async () => {
+            const result = await router.route({
+                userId: 'test-user-id',
+                eventType: 'transfer_completed',
+                title: 'Transfer Complete',
+                message: 'Your transfer was successful',
+                actions: [{ label: 'View', url: 'https://bank.example.com/transfers', type: 'primary' }],
+            });
+
+            expect(result).toEqual(expect.objectContaining({
+                queued: true,
+                holdId: 'hold-1',
+                heldUntil: quietHoursEnd,
+            }));
+            expect(HeldNotification.create).toHaveBeenCalledWith(expect.objectContaining({
+                notificationId: result.notificationId,
+                reason: 'quiet_hours',
+                releaseAt: quietHoursEnd,
+                payload: expect.objectContaining({
+                    actions: [expect.objectContaining({ url: 'https://bank.example.com/transfers' })],
+                }),
+            }));
+            expect(NotificationEvent.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('route() for digest-mode users', () => {
+        const { UserPreferences, NotificationEvent, HeldNotification } = require('../../src/models');
+        const { rateLimiter } = require('../../src/redis/RateLimiter');
+        const { deduplicationService } = require('../../src/redis/DeduplicationService');
+        const { digestService } = require('../../src/services/DigestService');
+        const { emailHandler } = require('../../src/channels/EmailHandler');
+        const { pushHandler } = require('../../src/channels/PushHandler');
+
+        const quietHoursEnd = new Date('2026-10-20T07:00:00.000Z');
+        let isInQuietHours: jest.Mock;
+        let digestFrequency: string;
+        let selectedChannels: string[];
+
+        beforeEach(() => {
+            isInQuietHours = jest.fn().mockReturnValue(false);
+            digestFrequency = 'daily';
+            selectedChannels = ['email'];
+            deduplicationService.checkAndMark.mockResolvedValue({ isDuplicate: false });
+            rateLimiter.consumeLimit.mockResolvedValue({ allowed: true, remaining: -1, limit: -1, resetAt: new Date() });
+            UserPreferences.findOrCreateByUserId.mockImplementation(async () => ({
+                userId: 'test-user-id',
+                locale: 'en',
+                channels: { email: { enabled: true, digestEnabled: true, digestFrequency } },
+                rateLimits: {},
+                doNotContact: { enabled: false },
+                getEnabledChannelsForEvent: jest.fn().mockReturnValue(selectedChannels),
+                isChannelEnabled: jest.fn().mockReturnValue(true),
+                isInQuietHours,
+                getQuietHoursEnd: jest.fn().mockReturnValue(quietHoursEnd),
+                shouldBypassQuietHours: jest.fn().mockReturnValue(false),
+                getTimeZone: jest.fn().mockReturnValue('UTC'),
+                getDecryptedPhoneNumber: jest.fn().mockReturnValue(null),
+                getDecryptedEmail: jest.fn().mockReturnValue('test@example.com'),
+                getActiveWebhookEndpoints: jest.fn().mockReturnValue([]),
+            }));
+            emailHandler.checkContact.mockReturnValue(null);
+            emailHandler.deliver.mockResolvedValue({ channel: 'email', status: 'sent' });
+            pushHandler.checkContact.mockReturnValue(null);
+            pushHandler.deliver.mockResolvedValue({ channel: 'push', status: 'sent' });
+            HeldNotification.create.mockImplementation(async (values: { releaseAt: Date }) => ({
+                id: 'hold-1',
+                releaseAt: values.releaseAt,
+            }));
+        });
+
+        const send = (eventType: NotificationEventType, priority?: 'low' | 'high') => router.route({
+            userId: 'test-user-id',
+            eventType,
+            title: 'Update',
+            message: 'Something happened',
+            priority,
+        });
+
+        it('should batch low-priority digestable events instead of sending them', async () => {
+            const result = await send('account_statement_ready');
+
+            expect(result.digestQueued).toBe(true);
+            expect(digestService.queueForDigest).toHaveBeenCalledWith(
+                'test-user-id',
+                expect.objectContaining({ notificationId: result.notificationId, eventType: 'account_statement_ready' }),
+                'daily'
+            );
+            expect(NotificationEvent.create).toHaveBeenCalledWith(expect.objectContaining({
+                notificationId: result.notificationId,
+                channel: 'email',
+                deliveryStatus: 'queued_for_digest',
+            }));
+            expect(emailHandler.deliver).not.toHaveBeenCalled();
+        });
+
+        it('should batch digestable events held by quiet hours', async () => {
+            isInQuietHours.mockReturnValue(true);
+
+            const result = await send('login_attempt');
+
+            expect(result.digestQueued).toBe(true);
+            expect(result.queued).toBe(false);
+            expect(digestService.queueForDigest).toHaveBeenCalled();
+        });
+
+        it('should send higher-priority events right away outside quiet hours', async () => {
+            const result = await send('account_statement_ready', 'high');
+
+            expect(result.digestQueued).toBe(false);
+            expect(digestService.queueForDigest).not.toHaveBeenCalled();
+            expect(emailHandler.deliver).toHaveBeenCalled();
+        });
+
+        it('should never batch events that do not allow digests', async () => {
+            const result = await send('transfer_completed', 'low');
+
+            expect(result.digestQueued).toBe(false);
+            expect(digestService.queueForDigest).not.toHaveBeenCalled();
+        });
+
+        it('should not batch events for an unverified email address', async () => {
+            emailHandler.checkContact.mockReturnValue('Email not verified');
+
+            const result = await send('account_statement_ready');
+
+            expect(result.digestQueued).toBe(false);
+            expect(digestService.queueForDigest).not.toHaveBeenCalled();
+            expect(emailHandler.deliver).not.toHaveBeenCalled();
+            expect(result.trace).toContainEqual({
+                check: 'digest',
+                passed: false,
+                detail: 'Not batched into the email digest: Email not verified',
+                channel: 'email',
+            });
+        });
+
+        it('should send events routed to push only instead of batching them', async () => {
+            selectedChannels = ['push'];
+
+            const result = await send('account_statement_ready');
+
+            expect(result.digestQueued).toBe(false);
+            expect(digestService.queueForDigest).not.toHaveBeenCalled();
+            expect(pushHandler.deliver).toHaveBeenCalled();
+            expect(emailHandler.deliver).not.toHaveBeenCalled();
+        });
+
+        it('should hold events routed to push only during quiet hours', async () => {
+            selectedChannels = ['push'];
+            isInQuietHours.mockReturnValue(true);
+
+            const result = await send('login_attempt');
+
+            expect(result.digestQueued).toBe(false);
+            expect(result.queued).toBe(true);
+            expect(result.heldUntil).toEqual(quietHoursEnd);
+            expect(digestService.queueForDigest).not.toHaveBeenCalled();
+            expect(pushHandler.deliver).not.toHaveBeenCalled();
+        });
+
+        it('should not batch for users who want email immediately', async () => {
+            digestFrequency = 'immediate';
+
+            const result = await send('account_statement_ready');
+
+            expect(result.digestQueued).toBe(false);
+            expect(digestService.queueForDigest).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('redeliver()', () => {
+        const { UserPreferences } = require('../../src/models');
+        const { smsHandler } = require('../../src/channels/SMSHandler');
+
+        const payload = {
+            notificationId: 'notif-1',
+            userId: 'test-user-id',
+            eventType: 'large_transaction' as const,
+            title: 'Large transaction',
+            message: 'Reply YES if this was you',
+            priority: 'high' as const,
+            channels: ['sms' as const],
+            actions: [{ label: 'Review', url: 'https://bank.example.com/review', type: 'primary' as const }],
+            smsConfirmation: true,
+            createdAt: new Date(),
+        };
+
+        let isChannelEnabled: jest.Mock;
+
+        beforeEach(() => {
+            isChannelEnabled = jest.fn().mockReturnValue(true);
+            UserPreferences.findOrCreateByUserId.mockResolvedValue({
+                userId: 'test-user-id',
+                locale: 'es',
+                channels: { sms: { verifiedAt: new Date() } },
+                doNotContact: { enabled: false },
+                isChannelEnabled,
+                getTimeZone: jest.fn().mockReturnValue('Europe/Madrid'),
+                getDecryptedPhoneNumber: jest.fn().mockReturnValue('+15551234567'),
+                getDecryptedEmail: jest.fn().mockReturnValue(null),
+                getActiveWebhookEndpoints: jest.fn().mockReturnValue([]),
+            });
+            smsHandler.checkContact.mockReturnValue(null);
+            smsHandler.deliver.mockResolvedValue({ channel: 'sms', status: 'sent', providerMessageId: 'SM123' });
+        });
+
+        it('should deliver the full payload on the one channel in the user\'s locale', async () => {
+            const result = await router.redeliver(payload, 'sms');
+
+            expect(result).toEqual({ channel: 'sms', status: 'sent', providerMessageId: 'SM123' });
+            expect(smsHandler.deliver).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    notificationId: 'notif-1',
+                    actions: payload.actions,
+                    smsConfirmation: true,
+                    locale: 'es',
+                    timeZone: 'Europe/Madrid',
+                }),
+                expect.objectContaining({ phoneNumber: '+15551234567', phoneVerified: true })
+            );
+        });
+
+        it('should not deliver an expired notification', async () => {
+            const result = await router.redeliver({ ...payload, expiresAt: new Date(Date.now() - 1000) }, 'sms');
+
+            expect(result.status).toBe('expired');
+            expect(smsHandler.deliver).not.toHaveBeenCalled();
+        });
+
+        it('should not deliver on a channel the user turned off since', async () => {
+            isChannelEnabled.mockReturnValue(false);
+
+            const result = await router.redeliver(payload, 'sms');
+
+            expect(result).toEqual({ channel: 'sms', status: 'failed', error: 'User has opted out of this channel' });
+            expect(smsHandler.deliver).not.toHaveBeenCalled();
+        });
+
+        it('should fail when the user can no longer be reached', async () => {
+            smsHandler.checkContact.mockReturnValue('No verified phone number');
+
+            const result = await router.redeliver(payload, 'sms');
+
+            expect(result).toEqual({ channel: 'sms', status: 'failed', error: 'No verified phone number' });
+            expect(smsHandler.deliver).not.toHaveBeenCalled();
+        });
+    });
+
     describe('EVENT_TYPE_CONFIGS', () => {
         it('should have configurations for all event types', () => {
             expect(EVENT_TYPE_CONFIGS.transfer_completed).toBeDefined();
@@ -140,5 +485,11 @@ describe('NotificationRouter', () => {
             expect(EVENT_TYPE_CONFIGS.fraud_detected.bypassQuietHours).toBe(true);
             expect(EVENT_TYPE_CONFIGS.account_locked.bypassQuietHours).toBe(true);
         });
+
+        it('should expire time-sensitive events', () => {
+            expect(EVENT_TYPE_CONFIGS.login_attempt.ttlMs).toBeGreaterThan(0);
+            expect(EVENT_TYPE_CONFIGS.transfer_processing.ttlMs).toBeGreaterThan(0);
+            expect(EVENT_TYPE_CONFIGS.regulatory_alert.ttlMs).toBe(0);
+        });
     });
 });
@@ -0,0 +1,244 @@
+/**
+ * Unit Tests - One-Time Codes
+ *
+ * Tests for issuing, resending and verifying one-time codes.
+ */
+
+import { config } from '../../src/config/config';
+import { OtpService, generateOtpCode } from '../../src/services/OtpService';
+import { UserPreferences } from '../../src/models';
+import { smsHandler, emailHandler } from '../../src/channels';
+import { logger } from '../../src/utils/logger';
+
+jest.mock('../../src/models', () => ({
+    UserPreferences: {
+        findByUserId: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/channels', () => ({
+    smsHandler: { sendRaw: jest.fn() },
+    emailHandler: { sendRaw: jest.fn() },
+    pushHandler: { sendRaw: jest.fn() },
+}));
+
+// Minimal in-memory Redis: strings and hashes, no expiry
+jest.mock('../../src/redis/client', () => {
+    const store = new Map<string, unknown>();
+    const hash = (key: string): Record<string, string> => {
+        if (!store.has(key)) store.set(key, {});
+        return store.get(key) as Record<string, string>;
+    };
+    const client = {
+        store,
+        get: async (key: string) => (store.get(key) as string | undefined) ?? null,
+        set: async (key: string, value: string) => void store.set(key, value),
+        del: async (...keys: string[]) => keys.forEach((k) => store.delete(k)),
+        hset: async (key: string, fields: Record<string, unknown>) => {
+            const h = hash(key);
+            Object.entries(fields).forEach(([f, v]) => (h[f] = String(v)));
+        },
+        hgetall: async (key: string) => ({ ...((store.get(key) as Record<string, string> | undefined) ?? {}) }),
+        hincrby: async (key: string, field: string, by: number) => {
+            const h = hash(key);
+            h[field] = String(Number(h[field] ?? 0) + by);
+            return Number(h[field]);
+        },
+        pexpireat: async () => 1,
+        multi: () => {
+            const ops: Array<() => Promise<unknown>> = [];
+            const chain = {
+                hset: (...args: [string, Record<string, unknown>]) => (ops.push(() => client.hset(...args)), chain),
+                set: (key: string, value: string) => (ops.push(() => client.set(key, value)), chain),
+                del: (...keys: string[]) => (ops.push(() => client.del(...keys)), chain),
+                pexpireat: () => chain,
+                exec: async () => {
+                    for (const op of ops) await op();
+                    return [];
+                },
+            };
+            return chain;
+        },
+    };
+    return {
+        redis: client,
+        REDIS_KEYS: {
+            OTP: (otpId: string) => `otp:${otpId}`,
+            OTP_ACTIVE: (userId: string, purpose: string) => `otp:active:${userId}:${purpose}`,
+        },
+    };
+});
+
+const { redis: fakeRedis } = jest.requireMock('../../src/redis/client');
+const preferences = UserPreferences as jest.Mocked<typeof UserPreferences>;
+const sms = smsHandler as jest.Mocked<typeof smsHandler>;
+const email = emailHandler as jest.Mocked<typeof emailHandler>;
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+function buildPreferences(locale = 'en') {
+    return {
+        userId: 'user-1',
+        locale,
+        channels: { push: { devices: [] } },
+        getDecryptedPhoneNumber: () => '+15551234567',
+        getDecryptedEmail: () => 'jane@example.com',
+    } as never;
+}
+
+/**
+ * The code from the last SMS sent
+ */
+function lastSmsCode(): string {
+    const message = sms.sendRaw.mock.calls.at(-1)![0].message;
+    return message.match(/\d{6}/)![0];
+}
+
+describe('OtpService', () => {
+    let service: OtpService;
+
+    beforeEach(() => {
+        service = new OtpService();
+        fakeRedis.store.clear();
+        config.otp.maxAttempts = 3;
+        config.otp.maxResends = 2;
+        config.otp.resendCooldownSeconds = 30;
+        preferences.findByUserId.mockResolvedValue(buildPreferences());
+        sms.sendRaw.mockResolvedValue({ channel: 'sms', status: 'sent', providerMessageId: 'SM1' });
+        email.sendRaw.mockResolvedValue({ channel: 'email', status: 'sent', providerMessageId: 'E1' });
+    });
+
+    it('should generate numeric codes of the configured length', () => {
+        expect(generateOtpCode(6)).toMatch(/^\d{6}$/);
+        expect(generateOtpCode(8)).toMatch(/^\d{8}$/);
+    });
+
+    it('should send the code by SMS and keep only its hash', async () => {
+        const result = await service.issue({ userId: 'user-1', purpose: 'login', channel: 'sms' }, NOW);
+
+        expect(result).toEqual(expect.objectContaining({ outcome: 'sent', destination: '***4567' }));
+        expect(result.expiresAt).toEqual(new Date(NOW.getTime() + config.otp.ttlSeconds * 1000));
+
+        const code = lastSmsCode();
+        expect(sms.sendRaw).toHaveBeenCalledWith({ to: '+15551234567', message: expect.stringContaining('expires in 5 minutes') });
+        expect(JSON.stringify([...fakeRedis.store.entries()])).not.toContain(code);
+    });
+
+    it('should send a localized email', async () => {
+        preferences.findByUserId.mockResolvedValue(buildPreferences('es'));
+
+        const result = await service.issue({ userId: 'user-1', purpose: 'login', channel: 'email' }, NOW);
+
+        expect(result.destination).toBe('j***@example.com');
+        expect(email.sendRaw).toHaveBeenCalledWith(expect.objectContaining({
+            to: 'jane@example.com',
+            subject: 'Su código de verificación',
+            textContent: expect.stringMatching(/^Su código de verificación es \d{6}\./),
+            locale: 'es',
+        }));
+    });
+
+    it('should verify the right code once and never log it', async () => {
+        const infoSpy = jest.spyOn(logger, 'info');
+        const { otpId } = await service.issue({ userId: 'user-1', purpose: 'login', channel: 'sms' }, NOW);
+        const code = lastSmsCode();
+
+        expect(await service.verify(otpId!, code, 'user-1', 'transfer')).toEqual({ outcome: 'expired', attemptsRemaining: 0 });
+        expect((await service.verify(otpId!, code, 'user-1', 'login')).outcome).toBe('verified');
+        expect((await service.verify(otpId!, code, 'user-1', 'login')).outcome).toBe('expired');
+        expect(JSON.stringify(infoSpy.mock.calls)).not.toContain(code);
+    });
+
+    it('should lock the code after too many wrong attempts', async () => {
+        const { otpId } = await service.issue({ userId: 'user-1', purpose: 'login', channel: 'sms' }, NOW);
+        const code = lastSmsCode();
+        const wrong = code === '000000' ? '111111' : '000000';
+
+        expect(await service.verify(otpId!, wrong, 'user-1', 'login')).toEqual({ outcome: 'invalid', attemptsRemaining: 2 });
+        expect(await service.verify(otpId!, wrong, 'user-1', 'login')).toEqual({ outcome: 'invalid', attemptsRemaining: 1 });
+        expect(await service.verify(otpId!, wrong, 'user-1', 'login')).toEqual({ outcome: 'locked', attemptsRemaining: 0 });
+        expect((await service.verify(otpId!, code, 'user-1', 'login')).outcome).toBe('expired');
+    });
+
+    it('should replace the previous code for the same purpose, counting it as a resend', async () => {
+        const first = await service.issue({ userId: 'user-1', purpose: 'login', channel: 'sms' }, NOW);
+        const firstCode = lastSmsCode();
+
+        expect((await service.issue({ userId: 'user-1', purpose: 'login', channel: 'sms' }, NOW)).outcome).toBe('cooldown');
+
+        const second = await service.issue(
+            { userId: 'user-1', purpose: 'login', channel: 'sms' },
+            new Date(NOW.getTime() + 31000)
+        );
+
+        expect(second.outcome).toBe('sent');
+        expect((await service.verify(first.otpId!, firstCode, 'user-1', 'login')).outcome).toBe('expired');
+        expect((await service.resend(second.otpId!, new Date(NOW.getTime() + 62000))).resendsRemaining).toBe(0);
+    });
+
+    it('should revoke the live code for a purpose', async () => {
+        const { otpId } = await service.issue({ userId: 'user-1', purpose: 'verify_phone', channel: 'sms' }, NOW);
+        const code = lastSmsCode();
+
+        await service.revoke('user-1', 'verify_phone');
+
+        expect((await service.verify(otpId!, code, 'user-1', 'verify_phone')).outcome).toBe('expired');
+    });
+
+    it('should not reset wrong attempts or resends by issuing again', async () => {
+        const request = { userId: 'user-1', purpose: 'login', channel: 'sms' as const };
+        const first = await service.issue(request, NOW);
+        const wrong = lastSmsCode() === '000000' ? '111111' : '000000';
+        await service.verify(first.otpId!, wrong, 'user-1', 'login');
+
+        expect(await service.issue(request, new Date(NOW.getTime() + 5000))).toEqual(
+            expect.objectContaining({ outcome: 'cooldown', otpId: null, retryAfterSeconds: 25 })
+        );
+        expect(sms.sendRaw).toHaveBeenCalledTimes(1);
+
+        const second = await service.issue(request, new Date(NOW.getTime() + 31000));
+        const secondWrong = lastSmsCode() === '000000' ? '111111' : '000000';
+
+        expect(await service.verify(second.otpId!, secondWrong, 'user-1', 'login')).toEqual(
+            { outcome: 'invalid', attemptsRemaining: 1 }
+        );
+        expect(await service.resend(second.otpId!, new Date(NOW.getTime() + 62000))).toEqual(
+            expect.objectContaining({ outcome: 'sent', resendsRemaining: 0 })
+        );
+        expect((await service.issue(request, new Date(NOW.getTime() + 93000))).outcome).toBe('limit_reached');
+    });
+
+    it('should enforce the resend cooldown and limit, invalidating the old code', async () => {
+        const { otpId } = await service.issue({ userId: 'user-1', purpose: 'login', channel: 'sms' }, NOW);
+        const firstCode = lastSmsCode();
+        const later = (seconds: number) => new Date(NOW.getTime() + seconds * 1000);
+
+        expect(await service.resend(otpId!, later(10))).toEqual(
+            expect.objectContaining({ outcome: 'cooldown', retryAfterSeconds: 20 })
+        );
+        expect(await service.resend(otpId!, later(31))).toEqual(
+            expect.objectContaining({ outcome: 'sent', resendsRemaining: 1 })
+        );
+        if (lastSmsCode() !== firstCode) { // Equal by chance one time in a million
+            expect((await service.verify(otpId!, firstCode, 'user-1', 'login')).outcome).toBe('invalid');
+        }
+
+        expect((await service.resend(otpId!, later(62))).outcome).toBe('sent');
+        expect((await service.resend(otpId!, later(93))).outcome).toBe('limit_reached');
+        expect(sms.sendRaw).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not keep a code that could not be delivered', async () => {
+        sms.sendRaw.mockResolvedValue({ channel: 'sms', status: 'failed', error: 'Twilio down' });
+
+        const result = await service.issue({ userId: 'user-1', purpose: 'login', channel: 'sms' }, NOW);
+
+        expect(result).toEqual(expect.objectContaining({ outcome: 'failed', otpId: null, error: 'Twilio down' }));
+    });
+
+    it('should report users without a contact for the channel', async () => {
+        const result = await service.issue({ userId: 'user-1', purpose: 'login', channel: 'push' }, NOW);
+
+        expect(result.outcome).toBe('no_contact');
+    });
+});
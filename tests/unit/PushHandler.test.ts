@@ -0,0 +1,105 @@
+/**
+ * Unit Tests - Push Handler
+ *
+ * Tests for mapping actions and push options onto FCM/APNs messages.
+ */
+
+import admin from 'firebase-admin';
+import { NotificationPayload } from '../../src/types';
+
+jest.mock('firebase-admin', () => ({
+    __esModule: true,
+    default: { messaging: jest.fn() },
+}));
+
+// PushHandler is mocked globally in tests/setup.ts
+const { PushHandler } = jest.requireActual<typeof import('../../src/channels/PushHandler')>(
+    '../../src/channels/PushHandler'
+);
+
+const notification: NotificationPayload = {
+    notificationId: '7d3b1f0e-4444-4a4a-9c9c-000000000001',
+    userId: 'user-1',
+    eventType: 'fraud_detected',
+    title: 'Fraud Alert',
+    message: 'Suspicious card activity',
+    priority: 'critical',
+    channels: ['push'],
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+};
+
+const devices = [{ token: 'token-1', platform: 'ios' as const }];
+
+describe('PushHandler', () => {
+    let sendEachForMulticast: jest.Mock;
+    let handler: InstanceType<typeof PushHandler>;
+
+    beforeEach(() => {
+        sendEachForMulticast = jest.fn().mockResolvedValue({
+            successCount: 1,
+            failureCount: 0,
+            responses: [{ success: true, messageId: 'msg-1' }],
+        });
+        (admin.messaging as unknown as jest.Mock).mockReturnValue({ sendEachForMulticast });
+
+        handler = new PushHandler();
+        Object.assign(handler, { enabled: true, initialized: true });
+    });
+
+    it('should send every action and the category to the app', async () => {
+        await handler.send(devices, {
+            ...notification,
+            actions: [
+                { id: 'fraud_confirm', label: 'Fui yo', url: '/security/fraud/confirm', type: 'secondary' },
+                { id: 'fraud_report', label: 'No fui yo', url: '/security/fraud/report', type: 'primary' },
+            ],
+            push: { category: 'FRAUD_ALERT', sound: 'fraud_alert.caf', androidChannelId: 'security_alerts' },
+        });
+
+        const message = sendEachForMulticast.mock.calls[0]![0];
+        expect(JSON.parse(message.data.actions)).toEqual([
+            { id: 'fraud_confirm', label: 'Fui yo', url: '/security/fraud/confirm', type: 'secondary' },
+            { id: 'fraud_report', label: 'No fui yo', url: '/security/fraud/report', type: 'primary' },
+        ]);
+        expect(message.data.action_url).toBe('/security/fraud/report');
+        expect(message.apns.payload.aps).toEqual(
+            expect.objectContaining({ category: 'FRAUD_ALERT', sound: 'fraud_alert.caf' })
+        );
+        expect(message.android.notification).toEqual(
+            expect.objectContaining({
+                clickAction: 'FRAUD_ALERT',
+                channelId: 'security_alerts',
+                sound: 'fraud_alert.caf',
+            })
+        );
+    });
+
+    it('should attach images and collapse and thread identifiers', async () => {
+        await handler.send(devices, {
+            ...notification,
+            push: { image: 'https://cdn.example.com/card.png', threadId: 'card-1234', collapseKey: 'balance' },
+        });
+
+        const message = sendEachForMulticast.mock.calls[0]![0];
+        expect(message.notification.imageUrl).toBe('https://cdn.example.com/card.png');
+        expect(message.apns.fcmOptions).toEqual({ imageUrl: 'https://cdn.example.com/card.png' });
+        expect(message.apns.payload.aps).toEqual(
+            expect.objectContaining({ mutableContent: true, threadId: 'card-1234' })
+        );
+        expect(message.apns.headers['apns-collapse-id']).toBe('balance');
+        expect(message.android.collapseKey).toBe('balance');
+        expect(message.android.notification.tag).toBe('balance');
+    });
+
+    it('should use the default presentation without push options', async () => {
+        await handler.send(devices, notification);
+
+        const message = sendEachForMulticast.mock.calls[0]![0];
+        expect(message.data.actions).toBeUndefined();
+        expect(message.apns.payload.aps).toEqual(
+            expect.objectContaining({ sound: 'default', mutableContent: false })
+        );
+        expect(message.apns.headers['apns-collapse-id']).toBeUndefined();
+        expect(message.android.notification.clickAction).toBe('OPEN_APP');
+    });
+});
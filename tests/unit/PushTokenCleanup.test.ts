@@ -0,0 +1,179 @@
+/**
+ * Unit Tests - Push Token Cleanup
+ *
+ * Tests for removing flagged, invalid and long-inactive push devices.
+ */
+
+import { PushTokenCleanupService } from '../../src/services/PushTokenCleanupService';
+import { UserPreferences } from '../../src/models';
+import { UserPreferences as UserPreferencesModel } from '../../src/models/mongodb/UserPreferences';
+import { pushHandler } from '../../src/channels';
+import { redis } from '../../src/redis/client';
+
+jest.mock('../../src/models', () => ({
+    UserPreferences: {
+        find: jest.fn(),
+        countDocuments: jest.fn(),
+        markPushTokensValidated: jest.fn(),
+        removePushDevices: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/channels', () => ({
+    pushHandler: {
+        isAvailable: jest.fn(),
+        validateToken: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/redis/client', () => ({
+    redis: {
+        set: jest.fn(),
+        del: jest.fn(),
+        multi: jest.fn(),
+        hgetall: jest.fn(),
+    },
+    REDIS_KEYS: {
+        PUSH_TOKEN_CLEANUP_LOCK: 'lock:push_token_cleanup',
+        PUSH_TOKEN_CLEANUP_STATS: 'stats:push_token_cleanup',
+    },
+}));
+
+const preferences = UserPreferences as jest.Mocked<typeof UserPreferences>;
+const push = pushHandler as jest.Mocked<typeof pushHandler>;
+const redisClient = redis as jest.Mocked<typeof redis>;
+
+const NOW = new Date('2026-03-01T00:00:00.000Z');
+
+function daysAgo(days: number): Date {
+    return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+function device(deviceId: string, fields: Record<string, unknown>): Record<string, unknown> {
+    return { deviceId, token: `token-${deviceId}`, platform: 'android', createdAt: daysAgo(400), ...fields };
+}
+
+function buildUser(devices: Record<string, unknown>[]) {
+    return {
+        userId: 'user-1',
+        channels: { push: { enabled: true, devices } },
+        save: jest.fn(),
+    };
+}
+
+describe('PushTokenCleanupService', () => {
+    let service: PushTokenCleanupService;
+
+    beforeEach(() => {
+        service = new PushTokenCleanupService();
+
+        const transaction = {
+            hincrby: jest.fn().mockReturnThis(),
+            hset: jest.fn().mockReturnThis(),
+            exec: jest.fn(),
+        };
+        redisClient.set.mockResolvedValue('OK');
+        redisClient.multi.mockReturnValue(transaction as never);
+        push.isAvailable.mockReturnValue(true);
+    });
+
+    it('should remove flagged, invalid and long-inactive devices', async () => {
+        const user = buildUser([
+            device('flagged', { lastActiveAt: daysAgo(1), invalidatedAt: daysAgo(1) }),
+            device('stale', { lastActiveAt: daysAgo(300) }),
+            device('idle-dead', { lastActiveAt: daysAgo(60) }),
+            device('idle-ok', { lastActiveAt: daysAgo(60) }),
+            device('active', { lastActiveAt: daysAgo(2) }),
+        ]);
+        preferences.find.mockReturnValue({ limit: jest.fn().mockResolvedValue([user]) } as never);
+        push.validateToken.mockImplementation(async (token: string) => token !== 'token-idle-dead');
+
+        const result = await service.runCleanup(NOW);
+
+        expect(result).toEqual({
+            usersScanned: 1,
+            removedFlagged: 1,
+            removedInvalid: 1,
+            removedInactive: 1,
+            validated: 1,
+        });
+        expect(preferences.markPushTokensValidated).toHaveBeenCalledWith('user-1', ['token-idle-ok'], NOW);
+        expect(preferences.removePushDevices).toHaveBeenCalledWith('user-1', [
+            expect.objectContaining({ deviceId: 'flagged', token: 'token-flagged' }),
+            expect.objectContaining({ deviceId: 'stale', token: 'token-stale' }),
+            expect.objectContaining({ deviceId: 'idle-dead', token: 'token-idle-dead' }),
+        ]);
+        expect(redisClient.del).toHaveBeenCalledWith('lock:push_token_cleanup');
+    });
+
+    it('should update devices in place instead of saving the whole list', async () => {
+        const user = buildUser([device('stale', { lastActiveAt: daysAgo(300) })]);
+        preferences.find.mockReturnValue({ limit: jest.fn().mockResolvedValue([user]) } as never);
+
+        await service.runCleanup(NOW);
+
+        expect(preferences.removePushDevices).toHaveBeenCalledTimes(1);
+        expect(preferences.markPushTokensValidated).not.toHaveBeenCalled();
+        expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('should keep devices when FCM validation errors', async () => {
+        const user = buildUser([device('idle', { lastActiveAt: daysAgo(60) })]);
+        preferences.find.mockReturnValue({ limit: jest.fn().mockResolvedValue([user]) } as never);
+        push.validateToken.mockRejectedValue(new Error('Service unavailable'));
+
+        const result = await service.runCleanup(NOW);
+
+        expect(result?.removedInvalid).toBe(0);
+        expect(preferences.removePushDevices).not.toHaveBeenCalled();
+        expect(preferences.markPushTokensValidated).not.toHaveBeenCalled();
+    });
+
+    it('should skip the run when another replica holds the lock', async () => {
+        redisClient.set.mockResolvedValue(null);
+
+        const result = await service.runCleanup(NOW);
+
+        expect(result).toBeNull();
+        expect(preferences.find).not.toHaveBeenCalled();
+    });
+});
+
+describe('UserPreferences push device updates', () => {
+    let updateOne: jest.SpyInstance;
+
+    beforeEach(() => {
+        updateOne = jest.spyOn(UserPreferencesModel, 'updateOne').mockResolvedValue({} as never);
+    });
+
+    it('should pull only the devices judged, with the token they had', async () => {
+        await UserPreferencesModel.removePushDevices('user-1', [
+            { deviceId: 'phone', token: 'token-old' },
+            { deviceId: 'tablet', token: 'token-tablet' },
+        ]);
+
+        expect(updateOne).toHaveBeenCalledWith(
+            { userId: 'user-1' },
+            {
+                $pull: {
+                    'channels.push.devices': {
+                        $or: [
+                            { deviceId: 'phone', token: 'token-old' },
+                            { deviceId: 'tablet', token: 'token-tablet' },
+                        ],
+                    },
+                },
+            }
+        );
+    });
+
+    it('should set lastValidatedAt on the validated tokens only', async () => {
+        await UserPreferencesModel.markPushTokensValidated('user-1', ['token-ok'], NOW);
+
+        expect(updateOne).toHaveBeenCalledWith(
+            { userId: 'user-1' },
+            { $set: { 'channels.push.devices.$[device].lastValidatedAt': NOW } },
+            { arrayFilters: [{ 'device.token': { $in: ['token-ok'] } }] }
+        );
+    });
+});
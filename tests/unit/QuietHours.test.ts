@@ -0,0 +1,110 @@
+/**
+ * Unit Tests - Quiet Hours
+ *
+ * Tests for timezone-aware quiet hours evaluation, including
+ * DST transitions and per-weekday schedules.
+ */
+
+import { UserPreferences } from '../../src/models/mongodb/UserPreferences';
+
+function buildPreferences(quietHours: Record<string, unknown>) {
+    return new UserPreferences({
+        userId: '123e4567-e89b-12d3-a456-426614174000',
+        quietHours: {
+            enabled: true,
+            start: '22:00',
+            end: '07:00',
+            ...quietHours,
+        },
+    });
+}
+
+describe('Quiet Hours', () => {
+    describe('isInQuietHours()', () => {
+        it('should evaluate the window in the user timezone', () => {
+            // 22:30 in New York, 12:30 in Tokyo
+            const now = new Date('2026-01-15T03:30:00Z');
+
+            expect(buildPreferences({ timezone: 'America/New_York' }).isInQuietHours(now)).toBe(true);
+            expect(buildPreferences({ timezone: 'Asia/Tokyo' }).isInQuietHours(now)).toBe(false);
+        });
+
+        it('should return false when quiet hours are disabled', () => {
+            const prefs = buildPreferences({ enabled: false, timezone: 'UTC' });
+
+            expect(prefs.isInQuietHours(new Date('2026-01-15T23:00:00Z'))).toBe(false);
+        });
+
+        it('should treat equal start and end as an empty window', () => {
+            const prefs = buildPreferences({ timezone: 'UTC', start: '22:00', end: '22:00' });
+
+            expect(prefs.isInQuietHours(new Date('2026-01-15T22:00:00Z'))).toBe(false);
+            expect(prefs.isInQuietHours(new Date('2026-01-15T03:00:00Z'))).toBe(false);
+        });
+
+        it('should apply per-weekday schedules', () => {
+            const prefs = buildPreferences({
+                timezone: 'UTC',
+                schedule: [
+                    { days: ['fri', 'sat'], start: '23:00', end: '09:00' },
+                    { days: ['sun'], enabled: false, start: '22:00', end: '07:00' },
+                ],
+            });
+
+            // Friday 22:30 - weekend window starts at 23:00
+            expect(prefs.isInQuietHours(new Date('2026-10-16T22:30:00Z'))).toBe(false);
+            // Saturday 08:00 - still inside Friday's overnight window
+            expect(prefs.isInQuietHours(new Date('2026-10-17T08:00:00Z'))).toBe(true);
+            // Sunday 23:00 - quiet hours disabled on Sundays
+            expect(prefs.isInQuietHours(new Date('2026-10-18T23:00:00Z'))).toBe(false);
+            // Monday 02:00 - no overnight window carried over from Sunday
+            expect(prefs.isInQuietHours(new Date('2026-10-19T02:00:00Z'))).toBe(false);
+            // Tuesday 02:00 - default window from Monday night
+            expect(prefs.isInQuietHours(new Date('2026-10-20T02:00:00Z'))).toBe(true);
+        });
+    });
+
+    describe('getQuietHoursEnd()', () => {
+        it('should return the end of the window in the user timezone', () => {
+            const prefs = buildPreferences({ timezone: 'America/New_York' });
+
+            // 22:30 EST -> 07:00 EST next day
+            expect(prefs.getQuietHoursEnd(new Date('2026-01-15T03:30:00Z')).toISOString())
+                .toBe('2026-01-15T12:00:00.000Z');
+        });
+
+        it('should handle the spring-forward DST transition', () => {
+            const prefs = buildPreferences({ timezone: 'America/New_York' });
+
+            // 23:00 EST on March 7 -> 07:00 EDT on March 8
+            expect(prefs.getQuietHoursEnd(new Date('2026-03-08T04:00:00Z')).toISOString())
+                .toBe('2026-03-08T11:00:00.000Z');
+        });
+
+        it('should handle the fall-back DST transition', () => {
+            const prefs = buildPreferences({ timezone: 'America/New_York' });
+
+            // 23:00 EDT on October 31 -> 07:00 EST on November 1
+            expect(prefs.getQuietHoursEnd(new Date('2026-11-01T03:00:00Z')).toISOString())
+                .toBe('2026-11-01T12:00:00.000Z');
+        });
+
+        it('should follow back-to-back windows', () => {
+            const prefs = buildPreferences({
+                timezone: 'UTC',
+                schedule: [{ days: ['sat'], start: '07:00', end: '10:00' }],
+            });
+
+            // Friday night window ends at 07:00 Saturday, Saturday window runs until 10:00
+            expect(prefs.getQuietHoursEnd(new Date('2026-10-17T03:00:00Z')).toISOString())
+                .toBe('2026-10-17T10:00:00.000Z');
+        });
+
+        it('should return now when not in quiet hours', () => {
+            const prefs = buildPreferences({ timezone: 'UTC' });
+            const now = new Date('2026-01-15T12:00:00Z');
+
+            expect(prefs.getQuietHoursEnd(now)).toEqual(now);
+        });
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * Unit Tests - Quiet Hours Release
+ *
+ * Tests for releasing, cancelling and reclaiming notifications
+ * held by quiet hours, including retry backoff.
+ */
+
+import { QuietHoursReleaseService } from '../../src/services/QuietHoursReleaseService';
+import { notificationRouter } from '../../src/services/NotificationRouter';
+import { HeldNotification as HeldNotificationModel } from '../../src/models/postgres/HeldNotification';
+import { HeldNotification, NotificationEvent } from '../../src/models';
+import { config } from '../../src/config/config';
+
+jest.mock('../../src/models', () => ({
+    HeldNotification: {
+        claimDue: jest.fn(),
+        update: jest.fn(),
+    },
+    NotificationEvent: {
+        count: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/services/NotificationRouter', () => ({
+    notificationRouter: {
+        releaseHeld: jest.fn(),
+    },
+}));
+
+const held = HeldNotification as jest.Mocked<typeof HeldNotification>;
+const events = NotificationEvent as jest.Mocked<typeof NotificationEvent>;
+const router = notificationRouter as jest.Mocked<typeof notificationRouter>;
+
+const releaseAt = new Date('2026-10-19T07:00:00.000Z');
+
+function buildHeld(attempts: number = 0): HeldNotificationModel {
+    const item = HeldNotificationModel.build({
+        id: 'hold-1',
+        notificationId: 'notif-1',
+        userId: 'user-1',
+        eventType: 'transfer_completed',
+        priority: 'medium',
+        payload: {
+            notificationId: 'notif-1',
+            userId: 'user-1',
+            eventType: 'transfer_completed',
+            title: 'Transfer complete',
+            message: 'Your transfer was sent',
+            priority: 'medium',
+            channels: ['push'],
+            createdAt: '2026-10-18T23:00:00.000Z',
+        },
+        reason: 'quiet_hours',
+        releaseAt,
+        status: 'releasing',
+        attempts,
+    });
+    jest.spyOn(item, 'save').mockResolvedValue(item);
+    return item;
+}
+
+function releaseResult(overrides: Record<string, unknown> = {}) {
+    return {
+        notificationId: 'notif-1',
+        results: [{ channel: 'push', status: 'sent' }],
+        skippedChannels: [],
+        queued: false,
+        ...overrides,
+    } as never;
+}
+
+describe('QuietHoursReleaseService', () => {
+    let service: QuietHoursReleaseService;
+
+    beforeEach(() => {
+        service = new QuietHoursReleaseService();
+        events.count.mockResolvedValue(0);
+    });
+
+    describe('processReleases()', () => {
+        it('should release due notifications with their stored payload', async () => {
+            const item = buildHeld();
+            held.claimDue.mockResolvedValue([item]);
+            router.releaseHeld.mockResolvedValue(releaseResult());
+
+            await service.processReleases();
+
+            expect(router.releaseHeld).toHaveBeenCalledWith(expect.objectContaining({
+                notificationId: 'notif-1',
+                channels: ['push'],
+                createdAt: new Date('2026-10-18T23:00:00.000Z'),
+            }));
+            expect(item.status).toBe('released');
+            expect(item.releasedAt).toBeInstanceOf(Date);
+        });
+
+        it('should hold again when quiet hours were extended', async () => {
+            const item = buildHeld();
+            const heldUntil = new Date('2026-10-19T09:00:00.000Z');
+            held.claimDue.mockResolvedValue([item]);
+            router.releaseHeld.mockResolvedValue(releaseResult({ results: [], queued: true, heldUntil }));
+
+            await service.processReleases();
+
+            expect(item.status).toBe('held');
+            expect(item.releaseAt).toEqual(heldUntil);
+        });
+
+        it('should back off after a failed release', async () => {
+            const item = buildHeld();
+            held.claimDue.mockResolvedValue([item]);
+            router.releaseHeld.mockRejectedValue(new Error('Preferences unavailable'));
+            const before = Date.now();
+
+            await service.processReleases();
+
+            expect(item.status).toBe('held');
+            expect(item.attempts).toBe(1);
+            expect(item.lastError).toBe('Preferences unavailable');
+            expect(item.releaseAt.getTime())
+                .toBeGreaterThanOrEqual(before + config.notification.quietHoursReleaseRetryDelayMs);
+        });
+
+        it('should double the backoff for each failed attempt', async () => {
+            const item = buildHeld(1);
+            held.claimDue.mockResolvedValue([item]);
+            router.releaseHeld.mockRejectedValue(new Error('Preferences unavailable'));
+            const before = Date.now();
+
+            await service.processReleases();
+
+            expect(item.releaseAt.getTime())
+                .toBeGreaterThanOrEqual(before + 2 * config.notification.quietHoursReleaseRetryDelayMs);
+        });
+
+        it('should give up after the last attempt', async () => {
+            const item = buildHeld(config.notification.quietHoursReleaseMaxAttempts - 1);
+            held.claimDue.mockResolvedValue([item]);
+            router.releaseHeld.mockRejectedValue(new Error('Preferences unavailable'));
+
+            await service.processReleases();
+
+            expect(item.status).toBe('failed');
+            expect(item.releaseAt).toEqual(releaseAt);
+        });
+    });
+
+    describe('reclaim', () => {
+        it('should not deliver again a notification an earlier claim already released', async () => {
+            const item = buildHeld();
+            held.claimDue.mockResolvedValue([item]);
+            events.count.mockResolvedValue(2);
+
+            await service.processReleases();
+
+            expect(events.count).toHaveBeenCalledWith({ where: { userId: 'user-1', notificationId: 'notif-1' } });
+            expect(router.releaseHeld).not.toHaveBeenCalled();
+            expect(item.status).toBe('released');
+        });
+    });
+
+    describe('cancel()', () => {
+        it('should cancel a notification that is still held', async () => {
+            held.update.mockResolvedValue([1, [buildHeld()]] as never);
+
+            await expect(service.cancel('hold-1', 'user-1', 'user-1')).resolves.toBe(true);
+
+            expect(held.update).toHaveBeenCalledWith(
+                { status: 'cancelled', cancelledAt: expect.any(Date), cancelledBy: 'user-1' },
+                { where: { id: 'hold-1', status: 'held', userId: 'user-1' }, returning: true }
+            );
+        });
+
+        it('should not cancel a notification already claimed for release', async () => {
+            held.update.mockResolvedValue([0, []] as never);
+
+            await expect(service.cancel('hold-1', undefined, 'admin')).resolves.toBe(false);
+            expect(held.update).toHaveBeenCalledWith(
+                expect.anything(),
+                { where: { id: 'hold-1', status: 'held' }, returning: true }
+            );
+        });
+    });
+});
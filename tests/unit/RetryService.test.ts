@@ -0,0 +1,123 @@
+/**
+ * Unit Tests - Retry Service
+ *
+ * Tests for redelivering failed notifications from their stored payload.
+ */
+
+import { RetryService } from '../../src/services/RetryService';
+import { notificationRouter } from '../../src/services/NotificationRouter';
+import { NotificationEvent as NotificationEventModel } from '../../src/models/postgres/NotificationEvent';
+import { NotificationEvent } from '../../src/models';
+
+jest.mock('../../src/models', () => ({
+    NotificationEvent: {
+        findAll: jest.fn(),
+    },
+    DeadLetterQueue: {
+        create: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/services/NotificationRouter', () => ({
+    notificationRouter: {
+        redeliver: jest.fn(),
+    },
+}));
+
+const events = NotificationEvent as jest.Mocked<typeof NotificationEvent>;
+const router = notificationRouter as jest.Mocked<typeof notificationRouter>;
+
+const createdAt = new Date('2026-10-19T08:00:00.000Z');
+
+function buildEvent(payload: Record<string, unknown> | null): NotificationEventModel {
+    const event = NotificationEventModel.build({
+        notificationId: 'notif-1',
+        userId: 'user-1',
+        eventType: 'large_transaction',
+        eventSourceId: 'txn-1',
+        title: 'Large transaction',
+        message: 'Reply YES if this was you',
+        metadata: { amount: 2500 },
+        payload,
+        channel: 'sms',
+        priority: 'high',
+        deliveryStatus: 'retrying',
+        retryCount: 1,
+        createdAt,
+    });
+    jest.spyOn(event, 'markSent').mockResolvedValue();
+    jest.spyOn(event, 'markRetrying').mockResolvedValue();
+    return event;
+}
+
+describe('RetryService', () => {
+    let service: RetryService;
+
+    beforeEach(() => {
+        service = new RetryService();
+        router.redeliver.mockResolvedValue({ channel: 'sms', status: 'sent', providerMessageId: 'SM123' });
+    });
+
+    it('should redeliver the stored payload with its actions, push options and SMS confirmation', async () => {
+        const event = buildEvent({
+            notificationId: 'notif-1',
+            userId: 'user-1',
+            eventType: 'large_transaction',
+            title: 'Large transaction',
+            message: 'Reply YES if this was you',
+            data: { amount: 2500 },
+            actions: [{ label: 'Review', url: 'https://bank.example.com/review', type: 'primary' }],
+            push: { sound: 'alert.caf' },
+            smsConfirmation: true,
+            priority: 'high',
+            channels: ['sms', 'push'],
+            createdAt: createdAt.toISOString(),
+            expiresAt: '2026-10-20T08:00:00.000Z',
+        });
+        events.findAll.mockResolvedValue([event]);
+
+        await service.processRetries();
+
+        expect(router.redeliver).toHaveBeenCalledWith(expect.objectContaining({
+            actions: [{ label: 'Review', url: 'https://bank.example.com/review', type: 'primary' }],
+            push: { sound: 'alert.caf' },
+            smsConfirmation: true,
+            channels: ['sms'],
+            createdAt,
+            expiresAt: new Date('2026-10-20T08:00:00.000Z'),
+        }), 'sms');
+        expect(event.markSent).toHaveBeenCalledWith('SM123', undefined, undefined);
+    });
+
+    it('should rebuild the payload from the columns for rows without one', async () => {
+        events.findAll.mockResolvedValue([buildEvent(null)]);
+
+        await service.processRetries();
+
+        expect(router.redeliver).toHaveBeenCalledWith({
+            notificationId: 'notif-1',
+            userId: 'user-1',
+            eventType: 'large_transaction',
+            eventSourceId: 'txn-1',
+            title: 'Large transaction',
+            message: 'Reply YES if this was you',
+            data: { amount: 2500 },
+            priority: 'high',
+            channels: ['sms'],
+            correlationId: undefined,
+            expiresAt: undefined,
+            createdAt,
+        }, 'sms');
+    });
+
+    it('should schedule another attempt when redelivery fails', async () => {
+        const event = buildEvent(null);
+        events.findAll.mockResolvedValue([event]);
+        router.redeliver.mockResolvedValue({ channel: 'sms', status: 'failed', error: 'Carrier unavailable' });
+
+        await service.processRetries();
+
+        expect(event.markSent).not.toHaveBeenCalled();
+        expect(event.markRetrying).toHaveBeenCalledWith(expect.any(Date));
+    });
+});
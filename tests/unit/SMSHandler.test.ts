@@ -0,0 +1,215 @@
+/**
+ * Unit Tests - SMS Handler
+ *
+ * Tests for provider failover ordering, error classification, segment
+ * budgets and YES/NO confirmation prompts.
+ */
+
+import { SmsProvider, countSmsSegments, truncateToSegments } from '../../src/channels/sms';
+import { NotificationPayload } from '../../src/types';
+import { SmsConfirmation } from '../../src/models';
+import { NotificationEvent } from '../../src/models/postgres/NotificationEvent';
+
+jest.mock('../../src/models', () => ({
+    SmsConfirmation: {
+        create: jest.fn(),
+    },
+}));
+
+// SMSHandler is mocked globally in tests/setup.ts
+const { SMSHandler } = jest.requireActual<typeof import('../../src/channels/SMSHandler')>(
+    '../../src/channels/SMSHandler'
+);
+
+const notification: NotificationPayload = {
+    notificationId: '7d3b1f0e-4444-4a4a-9c9c-000000000001',
+    userId: 'user-1',
+    eventType: 'fraud_detected',
+    title: 'Fraud Alert',
+    message: 'Suspicious card activity',
+    priority: 'critical',
+    channels: ['sms'],
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+};
+
+function buildProvider(name: string, configured: boolean = true): jest.Mocked<SmsProvider> {
+    return {
+        name,
+        isConfigured: jest.fn().mockReturnValue(configured),
+        send: jest.fn().mockResolvedValue({ messageId: `${name}-1` }),
+        isTransientError: jest.fn().mockReturnValue(true),
+        describeError: jest.fn().mockImplementation((e: Error) => `${name}: ${e.message}`),
+    };
+}
+
+describe('SMSHandler', () => {
+    it('should send through the first provider when it succeeds', async () => {
+        const twilio = buildProvider('twilio');
+        const gateway = buildProvider('http_gateway');
+
+        const result = await new SMSHandler([twilio, gateway]).send('+15551234567', notification);
+
+        expect(result).toEqual(expect.objectContaining({ status: 'sent', provider: 'twilio', providerMessageId: 'twilio-1' }));
+        expect(gateway.send).not.toHaveBeenCalled();
+    });
+
+    it('should fail over to the next provider on a transient error', async () => {
+        const twilio = buildProvider('twilio');
+        const gateway = buildProvider('http_gateway');
+        twilio.send.mockRejectedValue(new Error('timeout of 5000ms exceeded'));
+
+        const result = await new SMSHandler([twilio, gateway]).send('+15551234567', notification);
+
+        expect(result).toEqual(
+            expect.objectContaining({ status: 'sent', provider: 'http_gateway', providerMessageId: 'http_gateway-1' })
+        );
+        expect(gateway.send).toHaveBeenCalledWith(expect.objectContaining({ to: '+15551234567' }));
+    });
+
+    it('should not fail over on a permanent error', async () => {
+        const twilio = buildProvider('twilio');
+        const gateway = buildProvider('http_gateway');
+        twilio.send.mockRejectedValue(new Error('invalid To number'));
+        twilio.isTransientError.mockReturnValue(false);
+
+        const result = await new SMSHandler([twilio, gateway]).send('+15551234567', notification);
+
+        expect(result).toEqual(
+            expect.objectContaining({ status: 'failed', provider: 'twilio', error: 'twilio: invalid To number' })
+        );
+        expect(gateway.send).not.toHaveBeenCalled();
+    });
+
+    it('should leave the notification for retry when every provider fails transiently', async () => {
+        const twilio = buildProvider('twilio');
+        const gateway = buildProvider('http_gateway');
+        twilio.send.mockRejectedValue(new Error('503'));
+        gateway.send.mockRejectedValue(new Error('502'));
+
+        const result = await new SMSHandler([twilio, gateway]).send('+15551234567', notification);
+
+        expect(result).toEqual({ channel: 'sms', status: 'retrying', error: 'twilio: 503; http_gateway: 502' });
+    });
+
+    it('should skip providers that are not configured', async () => {
+        const twilio = buildProvider('twilio', false);
+        const gateway = buildProvider('http_gateway');
+
+        const handler = new SMSHandler([twilio, gateway]);
+        const result = await handler.send('+15551234567', notification);
+
+        expect(handler.providerName).toBe('http_gateway');
+        expect(result.provider).toBe('http_gateway');
+        expect(twilio.send).not.toHaveBeenCalled();
+    });
+
+    describe('segments', () => {
+        it('should count GSM-7 and UCS-2 segments', () => {
+            expect(countSmsSegments('a'.repeat(160))).toEqual({ encoding: 'GSM-7', units: 160, segments: 1 });
+            expect(countSmsSegments('a'.repeat(161))).toEqual({ encoding: 'GSM-7', units: 161, segments: 2 });
+            expect(countSmsSegments('€'.repeat(80))).toEqual({ encoding: 'GSM-7', units: 160, segments: 1 });
+            expect(countSmsSegments('ł'.repeat(70))).toEqual({ encoding: 'UCS-2', units: 70, segments: 1 });
+            expect(countSmsSegments('ł'.repeat(71))).toEqual({ encoding: 'UCS-2', units: 71, segments: 2 });
+        });
+
+        it('should truncate at a word boundary within the budget', () => {
+            const text = 'Your card ending 1234 was used for a purchase at a merchant abroad. '.repeat(4);
+
+            const truncated = truncateToSegments(text, '\nReply STOP', 1);
+
+            expect(countSmsSegments(truncated + '\nReply STOP').segments).toBe(1);
+            expect(truncated).toMatch(/\w\.\.\.$/);
+            expect(text.startsWith(truncated.slice(0, -3))).toBe(true);
+        });
+
+        it('should send critical alerts as concatenated SMS and report the segments', async () => {
+            const twilio = buildProvider('twilio');
+            const message = 'Se detectó una compra sospechosa con su tarjeta. Llámenos de inmediato. '.repeat(2);
+
+            const result = await new SMSHandler([twilio]).send('+15551234567', { ...notification, message });
+
+            const body = twilio.send.mock.calls[0]![0].body;
+            expect(body).toContain(message);
+            expect(result.segments).toBe(countSmsSegments(body).segments);
+            expect(result.segments).toBeGreaterThan(1);
+        });
+
+        it('should fit non-critical messages in one segment', async () => {
+            const twilio = buildProvider('twilio');
+            const message = 'Your statement for March is ready with a summary of every transaction. '.repeat(3);
+
+            const result = await new SMSHandler([twilio]).send('+15551234567', {
+                ...notification,
+                eventType: 'account_statement_ready',
+                priority: 'low',
+                message,
+            });
+
+            expect(result.segments).toBe(1);
+            expect(twilio.send.mock.calls[0]![0].body).not.toContain('Fraud Alert');
+        });
+    });
+
+    describe('confirmations', () => {
+        it('should ask for a reply and wait for it', async () => {
+            const twilio = buildProvider('twilio');
+
+            await new SMSHandler([twilio]).send('+15551234567', {
+                ...notification,
+                eventSourceId: 'case-42',
+                smsConfirmation: true,
+            });
+
+            expect(twilio.send.mock.calls[0]![0].body).toMatch(/Reply YES if this was you, NO to block\.\nReply STOP/);
+            expect(SmsConfirmation.create).toHaveBeenCalledWith(expect.objectContaining({
+                notificationId: notification.notificationId,
+                eventSourceId: 'case-42',
+                providerMessageId: 'twilio-1',
+                expiresAt: expect.any(Date),
+            }));
+        });
+
+        it('should not wait for a reply to a message that was not sent', async () => {
+            const twilio = buildProvider('twilio');
+            twilio.send.mockRejectedValue(new Error('invalid To number'));
+            twilio.isTransientError.mockReturnValue(false);
+
+            await new SMSHandler([twilio]).send('+15551234567', { ...notification, smsConfirmation: true });
+
+            expect(SmsConfirmation.create).not.toHaveBeenCalled();
+        });
+
+        it('should wait for a reply once a retry of the message is sent', async () => {
+            const twilio = buildProvider('twilio');
+            const handler = new SMSHandler([twilio]);
+            const confirmation = { ...notification, smsConfirmation: true };
+            twilio.send.mockRejectedValueOnce(new Error('timeout of 5000ms exceeded'));
+
+            const first = await handler.send('+15551234567', confirmation);
+            expect(first.status).toBe('retrying');
+            expect(SmsConfirmation.create).not.toHaveBeenCalled();
+
+            // RetryService redelivers the payload stored with the notification history
+            const stored = NotificationEvent.build({
+                notificationId: confirmation.notificationId,
+                userId: confirmation.userId,
+                eventType: confirmation.eventType,
+                title: confirmation.title,
+                message: confirmation.message,
+                payload: JSON.parse(JSON.stringify(confirmation)),
+                channel: 'sms',
+                priority: confirmation.priority,
+                deliveryStatus: 'retrying',
+            });
+            const retry = await handler.send('+15551234567', stored.toPayload());
+
+            expect(retry.status).toBe('sent');
+            expect(twilio.send.mock.calls[1]![0].body).toContain('Reply YES if this was you');
+            expect(SmsConfirmation.create).toHaveBeenCalledTimes(1);
+            expect(SmsConfirmation.create).toHaveBeenCalledWith(expect.objectContaining({
+                notificationId: notification.notificationId,
+                providerMessageId: 'twilio-1',
+            }));
+        });
+    });
+});
@@ -0,0 +1,321 @@
+/**
+ * Unit Tests - Scheduled Notifications
+ *
+ * Tests for claiming due items, cancel/reschedule guards and
+ * protection against routing a scheduled notification twice.
+ */
+
+import { ScheduledNotificationService } from '../../src/services/ScheduledNotificationService';
+import { notificationRouter } from '../../src/services/NotificationRouter';
+import { DeduplicationService } from '../../src/redis/DeduplicationService';
+import { redis } from '../../src/redis/client';
+import { ScheduledNotification, NotificationEvent, HeldNotification } from '../../src/models';
+import { ScheduledNotification as ScheduledNotificationModel } from '../../src/models/postgres/ScheduledNotification';
+import { config } from '../../src/config/config';
+
+jest.mock('../../src/models', () => ({
+    ScheduledNotification: {
+        claimDue: jest.fn(),
+        update: jest.fn(),
+    },
+    NotificationEvent: {
+        findAll: jest.fn(),
+    },
+    HeldNotification: {
+        count: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/services/NotificationRouter', () => ({
+    notificationRouter: {
+        route: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/redis/client', () => ({
+    redis: {
+        eval: jest.fn(),
+    },
+    REDIS_KEYS: {
+        DEDUP: (userId: string, eventType: string, sourceId: string) => `dedup:${userId}:${eventType}:${sourceId}`,
+    },
+}));
+
+const scheduled = ScheduledNotification as jest.Mocked<typeof ScheduledNotification>;
+const events = NotificationEvent as jest.Mocked<typeof NotificationEvent>;
+const held = HeldNotification as jest.Mocked<typeof HeldNotification>;
+const router = notificationRouter as jest.Mocked<typeof notificationRouter>;
+
+function buildItem(overrides: Record<string, unknown> = {}) {
+    return {
+        id: 'schedule-1',
+        notificationId: 'notification-1',
+        userId: 'user-1',
+        eventType: 'recurring_payment_due',
+        request: {
+            notificationId: 'notification-1',
+            userId: 'user-1',
+            eventType: 'recurring_payment_due',
+            title: 'Payment due',
+            message: 'Your payment is due tomorrow',
+        },
+        attempts: 0,
+        markSent: jest.fn().mockResolvedValue(undefined),
+        markFailed: jest.fn().mockResolvedValue(undefined),
+        ...overrides,
+    };
+}
+
+function routeResult(overrides: Record<string, unknown> = {}) {
+    return {
+        notificationId: 'notification-1',
+        results: [],
+        skippedChannels: [],
+        queued: false,
+        digestQueued: false,
+        ...overrides,
+    } as never;
+}
+
+describe('ScheduledNotificationService', () => {
+    let service: ScheduledNotificationService;
+
+    beforeEach(() => {
+        service = new ScheduledNotificationService();
+        events.findAll.mockResolvedValue([]);
+        held.count.mockResolvedValue(0);
+    });
+
+    describe('processDue()', () => {
+        it('should route each claimed item with its reserved notification ID', async () => {
+            const item = buildItem();
+            scheduled.claimDue.mockResolvedValue([item] as never);
+            router.route.mockResolvedValue(routeResult({
+                results: [{ channel: 'push', success: true }],
+            }));
+
+            await service.processDue();
+
+            expect(scheduled.claimDue).toHaveBeenCalledWith(100, 300000);
+            expect(router.route).toHaveBeenCalledWith(expect.objectContaining({ notificationId: 'notification-1' }));
+            expect(item.markSent).toHaveBeenCalledWith('sent');
+        });
+
+        it('should record a hold or digest as the outcome', async () => {
+            const heldItem = buildItem();
+            const digestItem = buildItem({ id: 'schedule-2', notificationId: 'notification-2' });
+            scheduled.claimDue.mockResolvedValue([heldItem, digestItem] as never);
+            router.route
+                .mockResolvedValueOnce(routeResult({ queued: true }))
+                .mockResolvedValueOnce(routeResult({ digestQueued: true }));
+
+            await service.processDue();
+
+            expect(heldItem.markSent).toHaveBeenCalledWith('held');
+            expect(digestItem.markSent).toHaveBeenCalledWith('digest');
+        });
+
+        it('should record an item routing skipped entirely', async () => {
+            const item = buildItem();
+            scheduled.claimDue.mockResolvedValue([item] as never);
+            router.route.mockResolvedValue(routeResult({
+                skippedChannels: [{ channel: 'websocket', reason: 'Duplicate notification' }],
+            }));
+
+            await service.processDue();
+
+            expect(item.markSent).toHaveBeenCalledWith('skipped');
+        });
+
+        it('should record a failed attempt when routing throws', async () => {
+            const item = buildItem();
+            scheduled.claimDue.mockResolvedValue([item] as never);
+            router.route.mockRejectedValue(new Error('Preferences unavailable'));
+
+            await service.processDue();
+
+            expect(item.markSent).not.toHaveBeenCalled();
+            expect(item.markFailed).toHaveBeenCalledWith(
+                'Preferences unavailable',
+                config.notification.scheduledMaxAttempts,
+                expect.any(Date)
+            );
+        });
+
+        it('should back off before retrying, doubling the delay for each failed attempt', async () => {
+            const first = buildItem();
+            const second = buildItem({ id: 'schedule-2', notificationId: 'notification-2', attempts: 1 });
+            scheduled.claimDue.mockResolvedValue([first, second] as never);
+            router.route.mockRejectedValue(new Error('Preferences unavailable'));
+            const before = Date.now();
+
+            await service.processDue();
+
+            const delay = config.notification.scheduledRetryDelayMs;
+            const firstRetryAt = (first.markFailed.mock.calls[0]![2] as Date).getTime();
+            const secondRetryAt = (second.markFailed.mock.calls[0]![2] as Date).getTime();
+            expect(firstRetryAt).toBeGreaterThanOrEqual(before + delay);
+            expect(firstRetryAt).toBeLessThan(before + 2 * delay);
+            expect(secondRetryAt).toBeGreaterThanOrEqual(before + 2 * delay);
+        });
+    });
+
+    describe('ScheduledNotification.markFailed()', () => {
+        const sendAt = new Date('2026-10-19T09:00:00.000Z');
+        const retryAt = new Date('2026-10-19T09:01:00.000Z');
+
+        function buildScheduled(attempts: number): ScheduledNotificationModel {
+            const item = ScheduledNotificationModel.build({
+                notificationId: 'notification-1',
+                userId: 'user-1',
+                eventType: 'recurring_payment_due',
+                request: {},
+                sendAt,
+                status: 'sending',
+                attempts,
+            });
+            jest.spyOn(item, 'save').mockResolvedValue(item);
+            return item;
+        }
+
+        it('should schedule the item again for the retry time', async () => {
+            const item = buildScheduled(0);
+
+            await item.markFailed('Preferences unavailable', 3, retryAt);
+
+            expect(item.status).toBe('scheduled');
+            expect(item.sendAt).toEqual(retryAt);
+            expect(item.attempts).toBe(1);
+            expect(item.lastError).toBe('Preferences unavailable');
+        });
+
+        it('should give up after the last attempt', async () => {
+            const item = buildScheduled(2);
+
+            await item.markFailed('Preferences unavailable', 3, retryAt);
+
+            expect(item.status).toBe('failed');
+            expect(item.sendAt).toEqual(sendAt);
+        });
+    });
+
+    describe('double-send protection', () => {
+        it('should not route an item an earlier attempt already delivered', async () => {
+            const item = buildItem();
+            scheduled.claimDue.mockResolvedValue([item] as never);
+            events.findAll.mockResolvedValue([{ deliveryStatus: 'sent' }] as never);
+
+            await service.processDue();
+
+            expect(router.route).not.toHaveBeenCalled();
+            expect(item.markSent).toHaveBeenCalledWith('sent');
+        });
+
+        it('should not route an item an earlier attempt held for quiet hours', async () => {
+            const item = buildItem();
+            scheduled.claimDue.mockResolvedValue([item] as never);
+            held.count.mockResolvedValue(1);
+
+            await service.processDue();
+
+            expect(router.route).not.toHaveBeenCalled();
+            expect(held.count).toHaveBeenCalledWith({ where: { notificationId: 'notification-1' } });
+            expect(item.markSent).toHaveBeenCalledWith('held');
+        });
+
+        it('should not route an item an earlier attempt queued for a digest', async () => {
+            const item = buildItem();
+            scheduled.claimDue.mockResolvedValue([item] as never);
+            events.findAll.mockResolvedValue([{ deliveryStatus: 'queued_for_digest' }] as never);
+
+            await service.processDue();
+
+            expect(router.route).not.toHaveBeenCalled();
+            expect(item.markSent).toHaveBeenCalledWith('digest');
+        });
+
+        it('should route a retry when the earlier attempt got nowhere', async () => {
+            const item = buildItem({ attempts: 1 });
+            scheduled.claimDue.mockResolvedValue([item] as never);
+            router.route.mockResolvedValue(routeResult({
+                results: [{ channel: 'email', success: true }],
+            }));
+
+            await service.processDue();
+
+            expect(router.route).toHaveBeenCalledTimes(1);
+            expect(item.markSent).toHaveBeenCalledWith('sent');
+        });
+    });
+
+    describe('cancel() and reschedule()', () => {
+        it('should only cancel items that are still scheduled', async () => {
+            scheduled.update.mockResolvedValue([1] as never);
+
+            await expect(service.cancel('schedule-1', 'user-1', 'user-1')).resolves.toBe(true);
+            expect(scheduled.update).toHaveBeenCalledWith(
+                expect.objectContaining({ status: 'cancelled', cancelledBy: 'user-1' }),
+                { where: { id: 'schedule-1', status: 'scheduled', userId: 'user-1' } }
+            );
+        });
+
+        it('should not cancel an item already claimed for sending', async () => {
+            scheduled.update.mockResolvedValue([0] as never);
+
+            await expect(service.cancel('schedule-1', undefined, 'admin')).resolves.toBe(false);
+            expect(scheduled.update).toHaveBeenCalledWith(
+                expect.anything(),
+                { where: { id: 'schedule-1', status: 'scheduled' } }
+            );
+        });
+
+        it('should move a scheduled item to the new send time', async () => {
+            const sendAt = new Date('2026-11-01T09:00:00Z');
+            scheduled.update.mockResolvedValue([1, [buildItem({ sendAt })]] as never);
+
+            const result = await service.reschedule('schedule-1', 'user-1', sendAt);
+
+            expect(result?.notificationId).toBe('notification-1');
+            expect(scheduled.update).toHaveBeenCalledWith(
+                { sendAt },
+                { where: { id: 'schedule-1', status: 'scheduled', userId: 'user-1' }, returning: true }
+            );
+        });
+
+        it('should return null when the item can no longer be rescheduled', async () => {
+            scheduled.update.mockResolvedValue([0, []] as never);
+
+            await expect(service.reschedule('schedule-1', 'user-1', new Date())).resolves.toBeNull();
+        });
+    });
+});
+
+describe('DeduplicationService retries', () => {
+    const dedup = new DeduplicationService();
+    const mockRedis = redis as jest.Mocked<typeof redis>;
+
+    it('should not treat a retry of the same notification as a duplicate', async () => {
+        mockRedis.eval.mockResolvedValue(JSON.stringify({
+            notificationId: 'notification-1',
+            sentAt: new Date().toISOString(),
+        }));
+
+        const result = await dedup.checkAndMark('user-1', 'recurring_payment_due', 'bill-1', 'notification-1');
+
+        expect(result.isDuplicate).toBe(false);
+    });
+
+    it('should still skip a different notification for the same event', async () => {
+        mockRedis.eval.mockResolvedValue(JSON.stringify({
+            notificationId: 'notification-1',
+            sentAt: new Date().toISOString(),
+        }));
+
+        const result = await dedup.checkAndMark('user-1', 'recurring_payment_due', 'bill-1', 'notification-2');
+
+        expect(result).toEqual(expect.objectContaining({
+            isDuplicate: true,
+            originalNotificationId: 'notification-1',
+        }));
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit Tests - Template Routes
+ *
+ * Tests for creating templates through the admin API, including request
+ * bodies larger than the global JSON limit.
+ */
+
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { errorHandler, TEMPLATE_BODY_LIMIT } from '../../src/middleware';
+import adminRoutes from '../../src/routes/adminRoutes';
+import { quietHoursReleaseService, templateService } from '../../src/services';
+
+jest.mock('../../src/models', () => ({}));
+
+jest.mock('../../src/kafka', () => ({}));
+
+describe('POST /admin/templates', () => {
+    // Same body parsing as src/index.ts
+    const app = express();
+    app.use('/admin/templates', express.json({ limit: TEMPLATE_BODY_LIMIT }));
+    app.use(express.json({ limit: '10kb' }));
+    app.use('/admin', adminRoutes);
+    app.use(errorHandler);
+
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll((done) => {
+        server = app.listen(0, () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            done();
+        });
+    });
+
+    afterAll((done) => {
+        server.close(done);
+    });
+
+    // About 50 KB of HTML
+    const htmlBody = `<html><body>${'<p class="note">Your statement is ready to view.</p>\n'.repeat(1000)}</body></html>`;
+
+    function post(path: string, body: unknown) {
+        return fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-API-Key': 'test_api_key' },
+            body: JSON.stringify(body),
+        });
+    }
+
+    it('should accept a full HTML email template', async () => {
+        const create = jest.spyOn(templateService, 'createVersion')
+            .mockResolvedValue({ id: 'template-1', version: 1 } as never);
+
+        const response = await post('/admin/templates', {
+            eventType: 'account_statement_ready',
+            channel: 'email',
+            subject: 'Your statement is ready',
+            body: 'Your statement is ready to view.',
+            htmlBody,
+        });
+
+        expect(htmlBody.length).toBeGreaterThan(50000);
+        expect(response.status).toBe(201);
+        expect(create).toHaveBeenCalledWith(expect.objectContaining({ htmlBody }), 'admin');
+    });
+
+    it('should keep the global limit for other admin routes', async () => {
+        const cancel = jest.spyOn(quietHoursReleaseService, 'cancel');
+
+        const response = await post('/admin/held/hold-1/cancel', { cancelledBy: htmlBody });
+
+        expect(response.ok).toBe(false);
+        expect(cancel).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit Tests - Template Service
+ *
+ * Tests for template variable substitution and layout rendering.
+ */
+
+import { TemplateService } from '../../src/services/TemplateService';
+import { INotificationTemplate } from '../../src/models/mongodb/NotificationTemplate';
+import { renderTemplate } from '../../src/utils/template';
+
+function buildTemplate(fields: Partial<INotificationTemplate>): INotificationTemplate {
+    return {
+        id: 'template-1',
+        kind: 'message',
+        channel: 'sms',
+        version: 3,
+        status: 'active',
+        body: '',
+        ...fields,
+    } as INotificationTemplate;
+}
+
+describe('renderTemplate()', () => {
+    it('should substitute top-level and dotted variables', () => {
+        const result = renderTemplate('Sent {{amount}} to {{recipient.name}}', {
+            amount: '$50.00',
+            recipient: { name: 'Alex' },
+        });
+
+        expect(result).toBe('Sent $50.00 to Alex');
+    });
+
+    it('should render missing variables as empty strings', () => {
+        expect(renderTemplate('Hello {{name}}!', {})).toBe('Hello !');
+    });
+
+    it('should escape values in HTML templates unless triple-braced', () => {
+        const variables = { name: '<b>Alex</b>' };
+
+        expect(renderTemplate('<p>{{name}}</p>', variables, { html: true }))
+            .toBe('<p>&lt;b&gt;Alex&lt;/b&gt;</p>');
+        expect(renderTemplate('<p>{{{name}}}</p>', variables, { html: true }))
+            .toBe('<p><b>Alex</b></p>');
+    });
+});
+
+describe('TemplateService', () => {
+    let templateService: TemplateService;
+
+    beforeEach(() => {
+        templateService = new TemplateService();
+    });
+
+    describe('renderWith()', () => {
+        it('should render subject and body from the template', () => {
+            const template = buildTemplate({
+                subject: 'Transfer failed',
+                body: 'Your transfer of {{amount}} failed: {{reason}}',
+            });
+
+            const result = templateService.renderWith(template, null, {
+                amount: '$25.00',
+                reason: 'insufficient funds',
+            });
+
+            expect(result).toEqual({
+                title: 'Transfer failed',
+                body: 'Your transfer of $25.00 failed: insufficient funds',
+                html: undefined,
+                templateId: 'template-1',
+                templateVersion: 3,
+            });
+        });
+
+        it('should wrap the message in the channel layout', () => {
+            const template = buildTemplate({ body: '{{message}}' });
+            const layout = buildTemplate({
+                kind: 'layout',
+                body: 'Banking App: {{{content}}}\nReply STOP to opt out',
+            });
+
+            const result = templateService.renderWith(template, layout, { message: 'Login detected' });
+
+            expect(result.body).toBe('Banking App: Login detected\nReply STOP to opt out');
+        });
+
+        it('should fall back to the notification title and message without a message template', () => {
+            const layout = buildTemplate({
+                kind: 'layout',
+                channel: 'email',
+                body: '{{content}}',
+                htmlBody: '<div class="card"><h1>{{title}}</h1>{{{content}}}</div>',
+            });
+
+            const result = templateService.renderWith(null, layout, {
+                title: 'Statement ready',
+                message: 'Your <monthly> statement is ready',
+            });
+
+            expect(result.title).toBe('Statement ready');
+            expect(result.body).toBe('Your <monthly> statement is ready');
+            expect(result.html).toBe(
+                '<div class="card"><h1>Statement ready</h1><p>Your &lt;monthly&gt; statement is ready</p></div>'
+            );
+            expect(result.templateId).toBeUndefined();
+        });
+    });
+});
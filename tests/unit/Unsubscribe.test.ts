@@ -0,0 +1,95 @@
+/**
+ * Unit Tests - Email Unsubscribe
+ *
+ * Tests for signed unsubscribe tokens and applying unsubscribes to preferences.
+ */
+
+import crypto from 'crypto';
+import { config } from '../../src/config/config';
+import { createUnsubscribeToken, verifyUnsubscribeToken } from '../../src/channels/email';
+
+const { UserPreferences } = jest.requireActual<
+    typeof import('../../src/models/mongodb/UserPreferences')
+>('../../src/models/mongodb/UserPreferences');
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+const DAY_MS = 86400000;
+
+describe('unsubscribe tokens', () => {
+    it('should round-trip the user and category', () => {
+        const token = createUnsubscribeToken('user-1', 'digest', NOW);
+
+        expect(verifyUnsubscribeToken(token, NOW)).toEqual({
+            userId: 'user-1',
+            category: 'digest',
+            expiresAt: new Date(NOW.getTime() + config.email.unsubscribeTokenTtlDays * DAY_MS),
+        });
+    });
+
+    it('should reject expired tokens', () => {
+        const token = createUnsubscribeToken('user-1', 'digest', NOW);
+        const later = new Date(NOW.getTime() + (config.email.unsubscribeTokenTtlDays + 1) * DAY_MS);
+
+        expect(verifyUnsubscribeToken(token, later)).toBeNull();
+    });
+
+    it('should reject tampered and malformed tokens', () => {
+        const token = createUnsubscribeToken('user-1', 'promotional_offer', NOW);
+        const [, signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ u: 'user-2', c: 'all', e: 9999999999 })).toString('base64url');
+
+        expect(verifyUnsubscribeToken(`${forged}.${signature}`, NOW)).toBeNull();
+        expect(verifyUnsubscribeToken('not-a-token', NOW)).toBeNull();
+        expect(verifyUnsubscribeToken('', NOW)).toBeNull();
+    });
+
+    it('should reject tokens signed with the field encryption key itself', () => {
+        const payload = Buffer.from(JSON.stringify({ u: 'user-1', c: 'all', e: 9999999999 })).toString('base64url');
+        const signature = crypto
+            .createHmac('sha256', config.security.fieldEncryptionKey)
+            .update(payload)
+            .digest('base64url');
+
+        expect(verifyUnsubscribeToken(`${payload}.${signature}`, NOW)).toBeNull();
+    });
+});
+
+describe('UserPreferences.unsubscribe', () => {
+    it('should disable an event type whose only channel is email', () => {
+        const prefs = new UserPreferences({ userId: 'user-1' });
+
+        expect(prefs.unsubscribe('promotional_offer')).toBe(true);
+        expect(prefs.notificationTypes.get('promotional_offer')?.enabled).toBe(false);
+        expect(prefs.getEnabledChannelsForEvent('promotional_offer', ['email'])).toEqual([]);
+        expect(prefs.unsubscribe('promotional_offer')).toBe(false);
+    });
+
+    it('should keep other channels of the event type', () => {
+        const prefs = new UserPreferences({ userId: 'user-1' });
+        prefs.notificationTypes.set('promotional_offer', {
+            enabled: true,
+            channels: ['email', 'push'],
+            quietHoursOverride: false,
+        });
+
+        prefs.unsubscribe('promotional_offer');
+
+        expect(prefs.getEnabledChannelsForEvent('promotional_offer', ['email'])).toEqual(['push']);
+    });
+
+    it('should turn off digests', () => {
+        const prefs = new UserPreferences({ userId: 'user-1' });
+        prefs.channels.email.digestEnabled = true;
+
+        expect(prefs.unsubscribe('digest')).toBe(true);
+        expect(prefs.channels.email.digestEnabled).toBe(false);
+        expect(prefs.unsubscribe('digest')).toBe(false);
+    });
+
+    it('should set do-not-contact for all', () => {
+        const prefs = new UserPreferences({ userId: 'user-1' });
+
+        expect(prefs.unsubscribe('all', 'unsubscribed')).toBe(true);
+        expect(prefs.doNotContact).toEqual(expect.objectContaining({ enabled: true, reason: 'unsubscribed' }));
+    });
+});
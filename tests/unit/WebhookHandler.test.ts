@@ -0,0 +1,232 @@
+/**
+ * Unit Tests - Webhook Handler
+ *
+ * Tests for request signing, per-endpoint retries, the delivery log and
+ * rejection of endpoints inside our own network.
+ */
+
+import * as crypto from 'crypto';
+import * as dns from 'dns';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookHandler, signWebhookPayload } from '../../src/channels/WebhookHandler';
+import { UserPreferences, WebhookDelivery } from '../../src/models';
+import { NotificationPayload, UserContactInfo } from '../../src/types';
+import { checkPublicUrl, isPublicIpAddress } from '../../src/utils/network';
+
+jest.mock('../../src/models', () => ({
+    UserPreferences: {
+        recordWebhookResult: jest.fn(),
+    },
+    WebhookDelivery: {
+        findAll: jest.fn(),
+        count: jest.fn(),
+        create: jest.fn(),
+    },
+}));
+
+const deliveries = WebhookDelivery as jest.Mocked<typeof WebhookDelivery>;
+const preferences = UserPreferences as jest.Mocked<typeof UserPreferences>;
+
+function mockDns(addresses: Record<string, string>): jest.SpyInstance {
+    return jest.spyOn(dns.promises, 'lookup').mockImplementation((async (hostname: string) => {
+        const address = addresses[hostname];
+        if (!address) throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+        return [{ address, family: address.includes(':') ? 6 : 4 }];
+    }) as unknown as typeof dns.promises.lookup);
+}
+
+const notification: NotificationPayload = {
+    notificationId: '7d3b1f0e-1111-4a4a-9c9c-000000000001',
+    userId: 'user-1',
+    eventType: 'transfer_completed',
+    title: 'Transfer Complete',
+    message: 'Your transfer was successful',
+    priority: 'medium',
+    channels: ['webhook'],
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+};
+
+const contact: UserContactInfo = {
+    userId: 'user-1',
+    webhookEndpoints: [
+        { endpointId: 'ep-1', url: 'https://erp.example.com/hooks', secret: 'whsec_one', eventTypes: [] },
+        { endpointId: 'ep-2', url: 'https://ops.example.com/hooks', secret: 'whsec_two', eventTypes: ['transfer_completed'] },
+        { endpointId: 'ep-3', url: 'https://fraud.example.com/hooks', secret: 'whsec_three', eventTypes: ['fraud_detected'] },
+    ],
+};
+
+describe('WebhookHandler', () => {
+    let handler: WebhookHandler;
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+        handler = new WebhookHandler();
+        fetchMock = jest.spyOn(global, 'fetch');
+        mockDns({
+            'erp.example.com': '93.184.216.34',
+            'ops.example.com': '93.184.216.35',
+            'fraud.example.com': '93.184.216.36',
+        });
+        deliveries.findAll.mockResolvedValue([]);
+        deliveries.count.mockResolvedValue(0);
+        deliveries.create.mockImplementation(async (values) => ({ id: `delivery-${values?.endpointId}` }) as WebhookDelivery);
+        preferences.recordWebhookResult.mockResolvedValue(false);
+    });
+
+    it('should sign the timestamp and body with the endpoint secret', async () => {
+        fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+
+        await handler.deliver(notification, { ...contact, webhookEndpoints: [contact.webhookEndpoints![0]!] });
+
+        const [, init] = fetchMock.mock.calls[0]!;
+        const headers = init.headers as Record<string, string>;
+        const expected = crypto
+            .createHmac('sha256', 'whsec_one')
+            .update(`${headers['Webhook-Timestamp']}.${init.body}`)
+            .digest('hex');
+
+        expect(headers['Webhook-Signature']).toBe(`v1=${expected}`);
+        expect(headers['Webhook-Id']).toBe(notification.notificationId);
+        expect(signWebhookPayload('whsec_one', Number(headers['Webhook-Timestamp']), init.body)).toBe(expected);
+    });
+
+    it('should only send to endpoints subscribed to the event type', async () => {
+        fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+        const result = await handler.deliver(notification, contact);
+
+        expect(result.status).toBe('delivered');
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+            'https://erp.example.com/hooks',
+            'https://ops.example.com/hooks',
+        ]);
+    });
+
+    it('should ask for a retry and record the failure when an endpoint fails', async () => {
+        fetchMock
+            .mockResolvedValueOnce(new Response(null, { status: 200 }))
+            .mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+        const result = await handler.deliver(notification, contact);
+
+        expect(result.status).toBe('retrying');
+        expect(result.error).toBe('ep-2: Endpoint returned 503');
+        expect(deliveries.create).toHaveBeenCalledWith(expect.objectContaining({
+            endpointId: 'ep-2',
+            attempt: 1,
+            success: false,
+            statusCode: 503,
+        }));
+        expect(preferences.recordWebhookResult).toHaveBeenCalledWith('user-1', 'ep-2', 'Endpoint returned 503');
+        expect(preferences.recordWebhookResult).toHaveBeenCalledWith('user-1', 'ep-1', null);
+    });
+
+    it('should skip endpoints that already received the notification on retry', async () => {
+        deliveries.findAll.mockResolvedValue([{ endpointId: 'ep-1' }] as WebhookDelivery[]);
+        deliveries.count.mockResolvedValue(1);
+        fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+
+        const result = await handler.deliver(notification, contact);
+
+        expect(result.status).toBe('delivered');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0]![0]).toBe('https://ops.example.com/hooks');
+        expect(deliveries.create).toHaveBeenCalledWith(expect.objectContaining({ endpointId: 'ep-2', attempt: 2 }));
+    });
+
+    it('should not send to an endpoint whose host now resolves to a private address', async () => {
+        mockDns({ 'erp.example.com': '10.0.0.5', 'ops.example.com': '93.184.216.35' });
+        fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+
+        const result = await handler.deliver(notification, contact);
+
+        expect(result.status).toBe('retrying');
+        expect(result.error).toBe('ep-1: Host erp.example.com resolves to a non-public address');
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://ops.example.com/hooks']);
+        expect(deliveries.create).toHaveBeenCalledWith(expect.objectContaining({
+            endpointId: 'ep-1',
+            success: false,
+            statusCode: null,
+        }));
+    });
+
+    it('should not connect to a private address a rebinding host answers with after the check', async () => {
+        let received = false;
+        const server = http.createServer((_req, res) => {
+            received = true;
+            res.end();
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+
+        // Public for the check, then loopback for the connection
+        jest.spyOn(dns.promises, 'lookup')
+            .mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }] as never)
+            .mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as never);
+
+        try {
+            const result = await handler.deliver(notification, {
+                userId: 'user-1',
+                webhookEndpoints: [
+                    { endpointId: 'ep-1', url: `http://rebind.example.com:${port}/hooks`, secret: 'whsec_one', eventTypes: [] },
+                ],
+            });
+
+            expect(result.status).toBe('retrying');
+            expect(result.error).toBe('ep-1: Host rebind.example.com resolves to a non-public address');
+            expect(received).toBe(false);
+        } finally {
+            await new Promise((resolve) => server.close(resolve));
+        }
+    });
+
+    it('should report users without active endpoints as unreachable', () => {
+        expect(handler.checkContact({ userId: 'user-1' })).toBe('No active webhook endpoints');
+    });
+});
+
+describe('checkPublicUrl', () => {
+    it.each([
+        'https://127.0.0.1/hook',
+        'https://169.254.169.254/latest/meta-data',
+        'https://10.1.2.3/hook',
+        'https://172.20.0.1/hook',
+        'https://192.168.1.10/hook',
+        'https://100.64.0.1/hook',
+        'https://0.0.0.0/hook',
+        'https://2130706433/hook', // 127.0.0.1 in decimal
+        'https://[::1]/hook',
+        'https://[::ffff:127.0.0.1]/hook',
+        'https://[fd00:ec2::254]/hook',
+        'https://[fe80::1]/hook',
+    ])('should reject %s', async (url) => {
+        expect(await checkPublicUrl(url)).toMatch(/non-public address/);
+    });
+
+    it('should reject hostnames resolving to internal addresses', async () => {
+        jest.spyOn(dns.promises, 'lookup').mockImplementation((async (hostname: string) => (
+            hostname === 'mixed.example.com'
+                ? [{ address: '93.184.216.34', family: 4 }, { address: '192.168.0.7', family: 4 }]
+                : [{ address: hostname === 'localhost' ? '127.0.0.1' : '10.20.30.40', family: 4 }]
+        )) as unknown as typeof dns.promises.lookup);
+
+        expect(await checkPublicUrl('https://localhost/hook')).toMatch(/non-public address/);
+        expect(await checkPublicUrl('https://billing.internal/hook')).toMatch(/non-public address/);
+        expect(await checkPublicUrl('https://mixed.example.com/hook')).toMatch(/non-public address/);
+    });
+
+    it('should reject hosts that do not resolve', async () => {
+        mockDns({});
+
+        expect(await checkPublicUrl('https://nowhere.example.com/hook')).toBe('Host nowhere.example.com could not be resolved');
+    });
+
+    it('should allow public hosts', async () => {
+        mockDns({ 'erp.example.com': '93.184.216.34' });
+
+        expect(await checkPublicUrl('https://erp.example.com/hooks')).toBeNull();
+        expect(await checkPublicUrl('https://[2606:4700::1111]/hooks')).toBeNull();
+        expect(isPublicIpAddress('8.8.8.8')).toBe(true);
+    });
+});